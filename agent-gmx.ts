@@ -13,11 +13,27 @@ import { z } from "zod/v4";
 import { createDreams, context, render, input, extension, validateEnv, LogLevel, Logger } from "@daydreamsai/core";
 import { createSupabaseBaseMemory } from "@daydreamsai/supabase";
 import { createGmxActions } from './gmx-actions';
-import { createGmxWalletFromEnv } from './gmx-wallet';
-import { EnhancedDataCache } from './gmx-cache';
+import { createGmxAccountWalletsFromEnv } from './gmx-wallet';
+import { GmxChains, type GmxChain } from './gmx-chains';
+import { GmxAccounts, accountFilePath } from './gmx-accounts';
+import { EnhancedDataCache, createCacheRefreshConfigFromEnv, scheduleCachePrewarm } from './gmx-cache';
+import { assetRegistry, createAssetMarketConfigFromEnv } from './gmx-asset-registry';
+import { RiskEngine, createRiskLimitsFromEnv } from './gmx-risk';
+import { TransactionQueue } from './transaction-queue';
+import { TransactionJournal, reconcileTransactionJournal, DEFAULT_JOURNAL_PATH, DEFAULT_PAPER_JOURNAL_PATH } from './transaction-journal';
+import { KillSwitch, createKillSwitchConfigFromEnv } from './gmx-killswitch';
+import { CircuitBreaker, createCircuitBreakerConfigFromEnv } from './gmx-circuit-breaker';
+import { ControlApi, createControlApiConfigFromEnv, type AssetMonitorSnapshot, type MonitorTrigger, type TradingControl } from './gmx-control-api';
+import { Dashboard, createDashboardConfigFromEnv } from './gmx-dashboard';
+import { DiscordNotifier, createDaydreamsDiscordTransport, createDiscordConfigFromEnv } from './gmx-discord';
+import { tradingEvents, attachTradingEventSinks, createTradingEventsConfigFromEnv } from './gmx-events';
+import { ChainEventWatcher, GMX_EVENT_EMITTER_ADDRESSES, createChainEventWatcherConfigFromEnv, createViemEventLogSource } from './gmx-chain-events';
+import { OrderTracker, formatOrderOutcomes } from './gmx-order-tracker';
 import { ASSETS, type Asset } from "./gmx-types";
-import { extractPercentileFromSynthAnalysis, extractRegimeSignalFromSynthAnalysis, isInCooldown, formatError } from "./gmx-utils";
-import { get_assets_markets_str, get_daily_volumes_str, get_portfolio_balance_str, get_positions_str, get_tokens_data_str, get_orders_str, get_synth_analysis_str, get_technical_analysis_str, get_trading_history_str } from "./gmx-queries";
+import { isInCooldown, formatError } from "./gmx-utils";
+import { get_assets_markets_str, get_consolidated_portfolio_str, get_daily_volumes_str, get_portfolio_balance_str, get_positions_str, get_tokens_data_str, get_orders_str, get_synth_analysis, get_synth_analysis_str, get_technical_analysis_str, get_trading_history_str } from "./gmx-queries";
+import { getVolatilityRegime, type SynthAnalysisResult } from "./synth-utils";
+import { strategyConfig, resolveAssetProfile, DEFAULT_STRATEGY_CONFIG_PATH } from "./strategy-config";
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // ⚙️ ENVIRONMENT VALIDATION & SETUP
@@ -34,8 +50,73 @@ const env = validateEnv(
         GMX_ORACLE_URL: z.string(),
         GMX_RPC_URL: z.string(),
         GMX_SUBSQUID_URL: z.string(),
+        GMX_EXTRA_NETWORKS: z.string().optional(),
+        GMX_ARBITRUM_RPC_URL: z.string().optional(),
+        GMX_ARBITRUM_SUBSQUID_URL: z.string().optional(),
+        GMX_ARBITRUM_ORACLE_URL: z.string().optional(),
+        GMX_ARBITRUM_ASSET_MARKETS: z.string().optional(),
+        GMX_AVALANCHE_RPC_URL: z.string().optional(),
+        GMX_AVALANCHE_SUBSQUID_URL: z.string().optional(),
+        GMX_AVALANCHE_ORACLE_URL: z.string().optional(),
+        GMX_AVALANCHE_ASSET_MARKETS: z.string().optional(),
         GMX_WALLET_ADDRESS: z.string(),
-        GMX_PRIVATE_KEY: z.string(),
+        GMX_SIGNER: z.enum(["private_key", "keystore", "remote"]).default("private_key"),
+        GMX_PRIVATE_KEY: z.string().optional(),
+        GMX_KEYSTORE_PATH: z.string().optional(),
+        GMX_KEYSTORE_PASSPHRASE_FILE: z.string().optional(),
+        GMX_REMOTE_SIGNER_URL: z.string().optional(),
+        GMX_REMOTE_SIGNER_TOKEN: z.string().optional(),
+        GMX_REMOTE_SIGNER_TIMEOUT_MS: z.string().optional(),
+        GMX_ACCOUNT_NAME: z.string().optional(),
+        GMX_ACCOUNTS: z.string().optional(),
+        GMX_PAPER_TRADING: z.enum(["true", "false"]).default("false"),
+        GMX_PAPER_INITIAL_USDC: z.string().optional(),
+        GMX_PAPER_SLIPPAGE_BPS: z.string().optional(),
+        GMX_PAPER_POSITION_FEE_BPS: z.string().optional(),
+        GMX_PAPER_SWAP_FEE_BPS: z.string().optional(),
+        GMX_RISK_MAX_TRADE_PCT: z.string().optional(),
+        GMX_RISK_MAX_TRADE_NOTIONAL_USD: z.string().optional(),
+        GMX_RISK_MAX_LEVERAGE_VERY_LOW: z.string().optional(),
+        GMX_RISK_MAX_LEVERAGE_LOW: z.string().optional(),
+        GMX_RISK_MAX_LEVERAGE_MEDIUM: z.string().optional(),
+        GMX_RISK_MAX_LEVERAGE_HIGH: z.string().optional(),
+        GMX_RISK_MAX_ASSET_EXPOSURE: z.string().optional(),
+        GMX_RISK_MAX_GROSS_EXPOSURE: z.string().optional(),
+        GMX_TX_JOURNAL_PATH: z.string().optional(),
+        GMX_STRATEGY_CONFIG_PATH: z.string().optional(),
+        GMX_ASSET_MARKETS: z.string().optional(),
+        GMX_KILL_SWITCH_FILE: z.string().optional(),
+        GMX_KILL_SWITCH_PORT: z.string().optional(),
+        GMX_KILL_SWITCH_HOST: z.string().optional(),
+        GMX_KILL_SWITCH_TOKEN: z.string().optional(),
+        GMX_CONTROL_API_PORT: z.string().optional(),
+        GMX_CONTROL_API_HOST: z.string().optional(),
+        GMX_CONTROL_API_TOKEN: z.string().optional(),
+        GMX_DASHBOARD: z.enum(["true", "false"]).default("false"),
+        GMX_DASHBOARD_REFRESH_MS: z.string().optional(),
+        DISCORD_TOKEN: z.string().optional(),
+        DISCORD_BOT_NAME: z.string().optional(),
+        GMX_DISCORD_CHANNEL_ID: z.string().optional(),
+        GMX_DISCORD_AUTHORIZED_USERS: z.string().optional(),
+        GMX_CACHE_STALE_WHILE_REVALIDATE: z.enum(["true", "false"]).default("false"),
+        GMX_CACHE_MAX_STALE_MS: z.string().optional(),
+        GMX_CACHE_ERROR_TTL_MS: z.string().optional(),
+        GMX_CACHE_PREWARM_LEAD_MS: z.string().optional(),
+        GMX_EVENT_WATCHER: z.enum(["true", "false"]).default("true"),
+        GMX_EVENT_EMITTER_ADDRESS: z.string().optional(),
+        GMX_EVENT_POLL_MS: z.string().optional(),
+        GMX_ORDER_SETTLEMENT_TIMEOUT_MS: z.string().optional(),
+        GMX_ORDER_STUCK_AFTER_MS: z.string().optional(),
+        GMX_EVENTS_FILE: z.string().optional(),
+        GMX_EVENTS_STDOUT: z.enum(["true", "false"]).default("false"),
+        GMX_EVENTS_WEBHOOK_URL: z.string().optional(),
+        GMX_EVENTS_WEBHOOK_SECRET: z.string().optional(),
+        GMX_EVENTS_WEBHOOK_MAX_ATTEMPTS: z.string().optional(),
+        GMX_EVENTS_WEBHOOK_MAX_QUEUED: z.string().optional(),
+        GMX_BREAKER_MAX_DRAWDOWN_PCT: z.string().optional(),
+        GMX_BREAKER_MAX_DAILY_LOSS_PCT: z.string().optional(),
+        GMX_BREAKER_CLOSE_POSITIONS: z.enum(["true", "false"]).default("false"),
+        GMX_BREAKER_STATE_PATH: z.string().optional(),
         SYNTH_API_KEY: z.string().min(1, "SYNTH_API_KEY is required for market intelligence"),
         SUPABASE_URL: z.string().min(1, "SUPABASE_URL is required for persistent memory"),
         SUPABASE_KEY: z.string().min(1, "SUPABASE_KEY is required for persistent memory"),
@@ -46,12 +127,132 @@ const env = validateEnv(
 // 🔐 WALLET & SDK CONFIGURATION
 // ═══════════════════════════════════════════════════════════════════════════════
 
-// Initialize wallet and SDK using the new module
-const { sdk, walletClient, account, chainConfig } = createGmxWalletFromEnv(env);
+// Initialize one wallet and SDK per account and network - GMX_NETWORK is the primary chain, GMX_EXTRA_NETWORKS adds more,
+// GMX_ACCOUNTS adds named accounts. Per-account signer settings are read from process.env since their names are not known up front
+const accountWallets = await createGmxAccountWalletsFromEnv({ ...process.env, ...env });
+const isPaperTrading = accountWallets[0].wallets[0].isPaperTrading;
 
-// Initialize cache with SDK
-const gmxDataCache = new EnhancedDataCache(sdk);
+if (isPaperTrading) {
+    console.warn("📝 PAPER TRADING MODE - orders are simulated, no transactions will be sent");
+}
+
+// Strategy parameters - validated on load and hot-reloaded when the file changes
+const strategyConfigPath = env.GMX_STRATEGY_CONFIG_PATH || DEFAULT_STRATEGY_CONFIG_PATH;
+strategyConfig.load(strategyConfigPath);
+strategyConfig.watch(strategyConfigPath);
+
+// Asset markets are per network - every account trades the same markets
+const primaryWallets = accountWallets[0].wallets;
+assetRegistry.setPrimaryNetwork(primaryWallets[0].chainConfig.network);
+primaryWallets.forEach(({ chainConfig }, index) => {
+    assetRegistry.configure(createAssetMarketConfigFromEnv(env, chainConfig.network, index === 0), chainConfig.network);
+});
+
+// Trading events - attached before the accounts so queue and cache events from startup are published too
+const tradingEventsConfig = createTradingEventsConfigFromEnv(env);
+attachTradingEventSinks(tradingEventsConfig);
+
+// Kill switch is process-wide and engages on every account; it is created once the accounts exist
+let killSwitch: KillSwitch;
+
+// Per account: its own queue, journal and circuit breaker, and a cache and risk engine per chain
+const riskLimits = createRiskLimitsFromEnv(env);
+const journalBasePath = env.GMX_TX_JOURNAL_PATH || (isPaperTrading ? DEFAULT_PAPER_JOURNAL_PATH : DEFAULT_JOURNAL_PATH);
+const breakerConfig = createCircuitBreakerConfigFromEnv(env, isPaperTrading);
+const cacheRefreshConfig = createCacheRefreshConfigFromEnv(env);
+// Paper orders never reach the chain, so there is nothing to watch - actions fall back to a fixed delay
+const chainEventConfig = createChainEventWatcherConfigFromEnv(env);
+const watchChainEvents = chainEventConfig.enabled && !isPaperTrading;
+const gmxAccounts = new GmxAccounts(accountWallets.map(({ name, walletAddress, wallets }, accountIndex) => {
+    const isPrimary = accountIndex === 0;
+    const transactionQueue = new TransactionQueue(name);
+    const chains = new GmxChains(wallets.map(({ sdk, chainConfig, onTransactionSent }) => {
+        onTransactionSent(hash => transactionQueue.recordSentTransaction(hash));
+        const gmxDataCache = new EnhancedDataCache(sdk, chainConfig, name, cacheRefreshConfig);
+        const eventEmitterAddress = chainEventConfig.eventEmitterAddress || GMX_EVENT_EMITTER_ADDRESSES[chainConfig.chainId];
+        const eventWatcher = watchChainEvents && eventEmitterAddress ? new ChainEventWatcher(
+            createViemEventLogSource(sdk.publicClient, eventEmitterAddress as `0x${string}`, chainEventConfig.pollingIntervalMs),
+            gmxDataCache,
+            walletAddress,
+            chainEventConfig.settlementTimeoutMs
+        ) : null;
+        const orderTracker = eventWatcher ? new OrderTracker(eventWatcher, gmxDataCache, chainEventConfig.orderStuckAfterMs) : null;
+        return { account: name, network: chainConfig.network, chainConfig, sdk, gmxDataCache, riskEngine: new RiskEngine(gmxDataCache, riskLimits), transactionQueue, eventWatcher, orderTracker };
+    }));
+
+    const circuitBreaker = new CircuitBreaker(chains.getDataCaches(), {
+        ...breakerConfig,
+        statePath: accountFilePath(breakerConfig.statePath, name, isPrimary)
+    });
+    for (const chain of chains.getAll()) {
+        chain.riskEngine.attachCircuitBreaker(circuitBreaker);
+    }
+    // Only the tripped account is flattened - its breaker, not the kill switch, keeps it from reopening
+    if (breakerConfig.closePositionsOnTrip) {
+        circuitBreaker.onTrip(trip => {
+            killSwitch.flattenAccount(name, `circuit breaker ${trip.code}`, 'circuit_breaker').catch(error => {
+                console.error(`[CircuitBreaker:${name}] Failed to flatten after trip: ${formatError(error)}`);
+            });
+        });
+    }
+
+    return {
+        name,
+        walletAddress,
+        chains,
+        transactionQueue,
+        journal: new TransactionJournal(accountFilePath(journalBasePath, name, isPrimary)),
+        circuitBreaker
+    };
+}));
+
+for (const chain of gmxAccounts.getAllChains()) {
+    chain.orderTracker?.start();
+    chain.eventWatcher?.start();
+}
+
+// Resolve every asset to a live GMX market on every chain before anything trades - fails startup on a bad mapping
+for (const chain of gmxAccounts.primary.chains.getAll()) {
+    await assetRegistry.resolve(chain.gmxDataCache);
+}
+console.warn(`🔗 Trading on ${gmxAccounts.primary.chains.getAll().map(chain => chain.chainConfig.name).join(', ')} (primary: ${gmxAccounts.primary.chains.primary.chainConfig.name})`);
+console.warn(`👤 Accounts: ${gmxAccounts.getAll().map(account => `${account.name} (${account.walletAddress})`).join(', ')}`);
+
+// Signals, market intelligence and the trading monitor run on the primary account's primary chain
+const { sdk, gmxDataCache } = gmxAccounts.getChain();
+
+// Durable transaction journals - resolve writes left unfinished by a previous run before trading resumes
+for (const account of gmxAccounts.getAll()) {
+    for (const chain of account.chains.getAll()) {
+        await reconcileTransactionJournal(account.journal, chain.sdk, chain.gmxDataCache, {
+            network: chain.network,
+            isPrimary: chain === account.chains.primary
+        });
+    }
+    account.transactionQueue.attachJournal(account.journal);
+}
 
+// Emergency kill switch - flag file, SIGUSR2 or local HTTP halts trading and flattens every account and chain
+killSwitch = new KillSwitch(gmxAccounts.getAllChains(), createKillSwitchConfigFromEnv(env));
+killSwitch.start();
+
+// Drawdown and daily loss circuit breakers, one per account - block new positions once tripped
+await Promise.all(gmxAccounts.getAll().map(account => account.circuitBreaker.update()));
+
+// One labelled section per account and chain when trading on several; a single book keeps the plain output
+async function loadPerChain(load: (chain: GmxChain) => Promise<string>): Promise<string> {
+    const chains = gmxAccounts.getAllChains();
+    if (chains.length === 1) {
+        return load(chains[0]);
+    }
+    const sections = await Promise.all(chains.map(async chain => {
+        const header = gmxAccounts.isMultiAccount
+            ? `🔗 ${chain.chainConfig.name.toUpperCase()} (account: "${chain.account}", chain: "${chain.network}")`
+            : `🔗 ${chain.chainConfig.name.toUpperCase()} (chain: "${chain.network}")`;
+        return `${header}\n${await load(chain)}`;
+    }));
+    return sections.join('\n\n');
+}
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔐 TRADING CYCLE CONFIGURATION
@@ -76,12 +277,124 @@ async function triggerTradingCycle(send: any, reason: string, eventType: string,
         tokens: "",
         volumes: "",
         orders: "",
+        orderOutcomes: "",
         tradingHistory: "",
         assetTechnicalAnalysis: "",
         assetSynthAnalysis: ""
     }, {text: `${eventType}: ${reason}`});
 }
 
+// Trading monitor state - kept outside the input so the control API can read and steer it
+const monitorState = {
+    paused: null as { reason: string; at: number } | null,
+    cycleRunning: false,
+    lastCheckAt: null as number | null,
+    lastTrigger: null as MonitorTrigger | null,
+    // Set to 0 to trigger a scheduled cycle immediately on start
+    lastTradingCycleTime: 0,
+    lastTriggerTimes: new Map<Asset, number>(),
+    lastTriggerTypes: new Map<Asset, 'LONG' | 'SHORT'>(),
+    assets: [] as AssetMonitorSnapshot[],
+    // Bound to the monitor's send once the input subscribes
+    runCycle: null as ((reason: string, eventType: string) => Promise<void>) | null
+};
+
+// Fetches the data caches have made since startup, across every account and chain
+const countCacheFetches = (): number => gmxAccounts.getDataCaches()
+    .flatMap(cache => cache.getCacheMetrics().resources)
+    .reduce((total, resource) => total + resource.fetches, 0);
+
+// Run one cycle and record it - the scheduled timer restarts from the cycle's start
+async function runMonitoredCycle(send: any, reason: string, eventType: string, triggeredAsset?: Asset, triggerType?: 'LONG' | 'SHORT') {
+    const startedAt = Date.now();
+    const fetchesAtStart = countCacheFetches();
+    monitorState.cycleRunning = true;
+    monitorState.lastTrigger = { type: eventType, reason, asset: triggeredAsset ?? null, at: startedAt };
+    dashboard.log(`${eventType}: ${reason} - trading cycle started`, eventType === 'SIGNAL' ? 'warning' : 'info');
+    tradingEvents.emit('CycleStarted', { trigger: eventType, reason, asset: triggeredAsset ?? null });
+    if (eventType === 'SIGNAL') {
+        discordNotifier?.notifySignal(reason);
+    }
+    try {
+        await triggerTradingCycle(send, reason, eventType, { triggeredAsset, triggerType });
+        monitorState.lastTradingCycleTime = startedAt;
+        dashboard.log(`${eventType} trading cycle finished in ${((Date.now() - startedAt) / 1000).toFixed(0)}s (${countCacheFetches() - fetchesAtStart} data fetches)`, 'success');
+    } catch (error) {
+        dashboard.log(`${eventType} trading cycle failed: ${formatError(error)}`, 'error');
+        throw error;
+    } finally {
+        monitorState.cycleRunning = false;
+    }
+}
+
+const tradingControl: TradingControl = {
+    getMonitorStatus: () => {
+        const now = Date.now();
+        const cooldowns = [...monitorState.lastTriggerTimes.entries()].map(([asset, triggeredAt]) => ({
+            asset,
+            signal: monitorState.lastTriggerTypes.get(asset)!,
+            triggeredAt,
+            expiresAt: triggeredAt + strategyConfig.getAssetProfile(asset).cooldownMinutes * 60000
+        })).filter(cooldown => cooldown.expiresAt > now);
+
+        return {
+            paused: monitorState.paused,
+            killSwitchEngaged: killSwitch.isEngaged(),
+            cycleRunning: monitorState.cycleRunning,
+            lastCheckAt: monitorState.lastCheckAt,
+            lastTrigger: monitorState.lastTrigger,
+            nextScheduledCycleAt: monitorState.lastTradingCycleTime > 0
+                ? monitorState.lastTradingCycleTime + strategyConfig.get().scheduledCycleMinutes * 60000
+                : null,
+            cooldowns,
+            assets: monitorState.assets
+        };
+    },
+    pause: (reason) => {
+        monitorState.paused = { reason, at: Date.now() };
+        console.warn(`⏸️ [MONITOR] Trading paused - ${reason}`);
+        dashboard.log(`Trading paused - ${reason}`, 'warning');
+    },
+    resume: () => {
+        monitorState.paused = null;
+        console.warn(`▶️ [MONITOR] Trading resumed`);
+        dashboard.log(`Trading resumed`, 'info');
+    },
+    triggerCycle: (reason) => {
+        if (!monitorState.runCycle) {
+            throw new Error("Trading monitor has not started yet");
+        }
+        monitorState.runCycle(reason, "MANUAL").catch(error => {
+            console.error(`❌ [MONITOR] Manual trading cycle failed: ${formatError(error)}`);
+        });
+    }
+};
+
+// Operator control API - positions, queues, caches and monitor state, plus pause/resume, force a cycle and flatten
+const controlApi = new ControlApi(gmxAccounts, killSwitch, tradingControl, createControlApiConfigFromEnv(env));
+controlApi.start();
+
+// Terminal dashboard - panels are drawn from the cache and monitor state, the event log from these hooks
+const dashboard = new Dashboard(gmxAccounts, tradingControl, createDashboardConfigFromEnv(env));
+for (const queue of gmxAccounts.getTransactionQueues()) {
+    queue.onSettled(({ account, name, success, transactionHash, error }) => {
+        dashboard.log(success
+            ? `${account} ${name} confirmed${transactionHash ? ` (${transactionHash})` : ''}`
+            : `${account} ${name} failed: ${error}`, success ? 'success' : 'error');
+    });
+}
+for (const account of gmxAccounts.getAll()) {
+    account.circuitBreaker.onTrip(trip => dashboard.log(`Circuit breaker tripped on ${account.name}: ${trip.reason}`, 'error'));
+}
+killSwitch.onEngage(reason => dashboard.log(`Kill switch engaged - ${reason}`, 'error'));
+
+// Discord - signals, trade results, failures and breaker trips to one channel, plus operator commands from it
+const discordConfig = createDiscordConfigFromEnv(env);
+const discordNotifier = discordConfig.channelId
+    ? new DiscordNotifier(await createDaydreamsDiscordTransport(discordConfig), gmxAccounts, killSwitch, tradingControl, discordConfig)
+    : null;
+discordNotifier?.start();
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🤖 VEGA CHARACTER DEFINITION
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -104,6 +417,9 @@ Maximize returns via high-probability trades with strict risk management.
 - **Orders:** 
 {{orders}}
 
+- **Recent Order Outcomes:** 
+{{orderOutcomes}}
+
 - **Markets:** 
 {{markets}}
 
@@ -196,6 +512,8 @@ swap_tokens({"fromTokenAddress": "0x...", "toTokenAddress": "0xaf88d065e77c8cC22
 - Leverage: "30000" = 3x (basis points)
 - Prices: "110000000000000000000000000000000000" = $110 000 (30 decimals)
 - Percentages: 40 = 40% (no decimals)
+- Chain: every function takes an optional "chain" ("arbitrum" or "avalanche") - omit it for the primary chain; market and token addresses must come from that chain's section
+- Account: every function takes an optional "account" name - omit it for the primary account; each account is a separate wallet, so only manage positions and orders listed under that account
 
 ## ⛔ MANDATORY RULES
 
@@ -236,6 +554,7 @@ const gmxContext = context({
         tokens: z.string().describe("The agent's tokens"),
         volumes: z.string().describe("The agent's volumes"),
         orders: z.string().describe("The agent's pending orders"),
+        orderOutcomes: z.string().describe("What the keeper did with the agent's recent orders"),
         tradingHistory: z.string().describe("The agent's trading history and performance analysis"),
         assetTechnicalAnalysis: z.string().describe("Technical analysis for all assets"),
         assetSynthAnalysis: z.string().describe("AI predictions for all assets"),
@@ -256,6 +575,7 @@ const gmxContext = context({
             tokens:state.args.tokens,
             volumes:state.args.volumes,
             orders:state.args.orders,
+            orderOutcomes:state.args.orderOutcomes,
             tradingHistory:state.args.tradingHistory,
             assetTechnicalAnalysis:state.args.assetTechnicalAnalysis,
             assetSynthAnalysis:state.args.assetSynthAnalysis,
@@ -266,13 +586,13 @@ const gmxContext = context({
         try {
             // Load all data in parallel for maximum speed
             const basePromises = [
-                get_portfolio_balance_str(gmxDataCache),
-                get_positions_str(gmxDataCache),
-                get_assets_markets_str(gmxDataCache),
-                get_tokens_data_str(gmxDataCache),
-                get_daily_volumes_str(sdk, gmxDataCache),
-                get_orders_str(sdk, gmxDataCache),
-                get_trading_history_str(sdk, gmxDataCache),
+                gmxAccounts.getAllChains().length > 1 ? get_consolidated_portfolio_str(gmxAccounts.getDataCaches()) : get_portfolio_balance_str(gmxDataCache),
+                loadPerChain(chain => get_positions_str(chain.gmxDataCache)),
+                loadPerChain(chain => get_assets_markets_str(chain.gmxDataCache)),
+                loadPerChain(chain => get_tokens_data_str(chain.gmxDataCache)),
+                loadPerChain(chain => get_daily_volumes_str(chain.gmxDataCache)),
+                loadPerChain(chain => get_orders_str(chain.gmxDataCache)),
+                loadPerChain(chain => get_trading_history_str(chain.gmxDataCache)),
             ];
             
             const assetPromises = ASSETS.flatMap(asset => [
@@ -310,6 +630,7 @@ const gmxContext = context({
             memory.tokens = tokens;
             memory.volumes = volumes;
             memory.orders = orders;
+            memory.orderOutcomes = formatOrderOutcomes(gmxAccounts.getAllChains().flatMap(chain => chain.orderTracker ? [chain.orderTracker] : []));
             memory.tradingHistory = tradingHistory;
             memory.assetSynthAnalysis = synthAnalysisArray.join('\n\n');
             memory.assetTechnicalAnalysis = techAnalysisArray.join('\n\n');
@@ -334,6 +655,7 @@ const gmxContext = context({
             tokens: memory.tokens,
             volumes: memory.volumes,
             orders: memory.orders,
+            orderOutcomes: memory.orderOutcomes,
             tradingHistory: memory.tradingHistory,
             assetTechnicalAnalysis: memory.assetTechnicalAnalysis,
             assetSynthAnalysis: memory.assetSynthAnalysis,
@@ -346,29 +668,47 @@ const gmxContext = context({
                 text: z.string(),
             }),
             subscribe: (send) => {
-                // Track cooldown state locally - dynamic for all assets
-                const lastTriggerTimes = new Map<Asset, number | undefined>();
-                const lastTriggerTypes = new Map<Asset, string | undefined>();
-                
-                // Initialize tracking for all assets
-                ASSETS.forEach(asset => {
-                    lastTriggerTimes.set(asset, undefined);
-                    lastTriggerTypes.set(asset, undefined);
-                });
-
-                // Track timing for scheduled cycles - set to 0 to trigger immediately on start
-                let lastTradingCycleTime = 0;
+                // Cooldowns and the scheduled cycle timer live in monitorState
+                const { lastTriggerTimes, lastTriggerTypes } = monitorState;
+                monitorState.runCycle = (reason, eventType) => runMonitoredCycle(send, reason, eventType);
                 
                 const unifiedMonitor = async () => {
+                    if (killSwitch.isEngaged()) {
+                        return;
+                    }
+                    monitorState.lastCheckAt = Date.now();
+                    if (monitorState.paused) {
+                        console.warn(`⏸️ [MONITOR] Trading paused (${monitorState.paused.reason}) - triggers blocked`);
+                        return;
+                    }
+                    // A forced cycle may still be running - never start a second one on top of it
+                    if (monitorState.cycleRunning) {
+                        return;
+                    }
+                    // Triggers stay on while any account can still open positions - the cycle is told to leave tripped ones alone
+                    const breakerStates = await Promise.all(gmxAccounts.getAll().map(account => account.circuitBreaker.update()));
+                    const trips = gmxAccounts.getNames()
+                        .map((name, index) => ({ name, trip: breakerStates[index]?.trip }))
+                        .filter(({ trip }) => trip)
+                        .map(({ name, trip }) => `${name}: ${trip!.code}`);
+                    if (trips.length === breakerStates.length) {
+                        console.warn(`⛔ [MONITOR] Circuit breaker tripped on every account (${trips.join(', ')}) - triggers blocked`);
+                        return;
+                    }
+                    const tradableAccounts = gmxAccounts.getNames().filter((_, index) => !breakerStates[index]?.trip);
+                    const accountScope = trips.length > 0
+                        ? ` - circuit breaker tripped (${trips.join(', ')}), trade only on ${tradableAccounts.join(', ')}`
+                        : '';
                     const now = Date.now();
+                    const { config: strategy, version: configVersion } = strategyConfig.getLoaded();
                         // Fetch all monitoring data for all assets (synth and volatility independently)
                         const [predictionsResults, volatilityResults] = await Promise.all([
-                            Promise.all(ASSETS.map(asset => get_synth_analysis_str(asset, gmxDataCache))),
+                            Promise.all(ASSETS.map(asset => get_synth_analysis(asset, gmxDataCache))),
                             Promise.all(ASSETS.map(asset => gmxDataCache.getVolatility(asset)))
                         ]);
                         
                         // Create maps for easier access
-                        const predictions = new Map<Asset, string>();
+                        const predictions = new Map<Asset, SynthAnalysisResult>();
                         const volatilities = new Map<Asset, number>();
                         
                         ASSETS.forEach((asset, index) => {
@@ -379,13 +719,30 @@ const gmxContext = context({
                         // Get percentile data for display
                         const percentiles = new Map<Asset, number | null>();
                         ASSETS.forEach(asset => {
-                            percentiles.set(asset, extractPercentileFromSynthAnalysis(predictions.get(asset)!));
+                            const prediction = predictions.get(asset)!;
+                            percentiles.set(asset, prediction.success ? prediction.currentPercentile : null);
                         });
                         
-                        // Get enhanced prediction signals (primary trigger source) for all assets
-                        const regimeSignals = new Map<Asset, any>();
+                        // Get strategy signals (primary trigger source) for all assets - WAIT and errors carry no signal
+                        const regimeSignals = new Map<Asset, 'LONG' | 'SHORT' | null>();
                         ASSETS.forEach(asset => {
-                            regimeSignals.set(asset, extractRegimeSignalFromSynthAnalysis(predictions.get(asset)!));
+                            const prediction = predictions.get(asset)!;
+                            regimeSignals.set(asset, prediction.success && prediction.signal !== 'WAIT' ? prediction.signal : null);
+                        });
+                        
+                        // Keep what this check saw for the control API and dashboard
+                        monitorState.assets = ASSETS.map(asset => {
+                            const prediction = predictions.get(asset)!;
+                            const volatility = volatilities.get(asset)!;
+                            return {
+                                asset,
+                                enabled: resolveAssetProfile(strategy, asset).enabled,
+                                percentile: percentiles.get(asset) ?? null,
+                                signal: prediction.success ? prediction.signal : null,
+                                volatility,
+                                regime: getVolatilityRegime(volatility, strategy.volatility),
+                                updatedAt: now
+                            };
                         });
                         
                         // Check for valid percentile-based signals from simplified strategy
@@ -399,19 +756,20 @@ const gmxContext = context({
                         
                         // 1. Check for percentile-based signals (PRIORITY) - iterate through all assets
                         for (const asset of ASSETS) {
-                            const regimeSignal = regimeSignals.get(asset);
+                            const signalType = regimeSignals.get(asset);
                             const volatility = volatilities.get(asset)!;
                             const percentile = percentiles.get(asset);
+                            const profile = resolveAssetProfile(strategy, asset);
                             
-                            if (regimeSignal && regimeSignal.hasRegimeSignal && regimeSignal.regimeSignal) {
-                                const signalType = regimeSignal.regimeSignal;
+                            if (signalType) {
                                 const inCooldown = isInCooldown(asset, signalType, lastTriggerTimes.get(asset), lastTriggerTypes.get(asset));
                                 
                                 if (inCooldown) {
-                                    const cooldownMinutes = Math.ceil((3600000 - (Date.now() - lastTriggerTimes.get(asset)!)) / 60000);
-                                    console.warn(`🧊 [SIGNAL] ${asset} ${signalType} signal BLOCKED - Cooldown active (${cooldownMinutes}min remaining)`);
+                                    const cooldownMinutes = Math.ceil((profile.cooldownMinutes * 60000 - (Date.now() - lastTriggerTimes.get(asset)!)) / 60000);
+                                    console.warn(`🧊 [SIGNAL] ${asset} ${signalType} signal BLOCKED - Cooldown active (${cooldownMinutes}min remaining) [config ${configVersion}]`);
                                 } else {
-                                    const volCategory = volatility < 20 ? 'VERY_LOW' : volatility < 40 ? 'LOW' : volatility < 60 ? 'MEDIUM' : 'HIGH';
+                                    const volCategory = getVolatilityRegime(volatility, strategy.volatility);
+                                    const thresholds = profile.entry[volCategory];
                                     const percentileStr = percentile !== null ? `P${percentile.toFixed(1)}` : 'N/A';
                                     triggerReason = `${asset} ${signalType} signal at ${percentileStr} (${volCategory} volatility ${volatility.toFixed(1)}%)`;
                                     triggerType = "SIGNAL";
@@ -423,46 +781,47 @@ const gmxContext = context({
                                     lastTriggerTimes.set(asset, Date.now());
                                     lastTriggerTypes.set(asset, triggeredSignalType);
                                     
-                                    console.warn(`🚨 [SIGNAL] ${asset} ${signalType} triggered at ${percentileStr} | ${volCategory} vol (${volatility.toFixed(1)}%)`);
-                                    console.warn(`📊 [SIGNAL] Trigger thresholds: ${volCategory === 'VERY_LOW' ? 'P20/P80' : volCategory === 'LOW' ? 'P15/P85' : volCategory === 'MEDIUM' ? 'P10/P90' : 'P5/P95'}`);
+                                    console.warn(`🚨 [SIGNAL] ${asset} ${signalType} triggered at ${percentileStr} | ${volCategory} vol (${volatility.toFixed(1)}%) [config ${configVersion}]`);
+                                    tradingEvents.emit('SignalTriggered', { asset, signal: signalType, percentile: percentile ?? null, volatility, regime: volCategory, reason: triggerReason });
+                                    console.warn(`📊 [SIGNAL] Trigger thresholds: P${thresholds.longAtOrBelow}/P${thresholds.shortAtOrAbove}`);
                                     break; // Exit loop after first valid trigger
                                 }
                             }
                         }
                         // 2. Check for scheduled cycle (lowest priority - only if no regime triggers)
                         if (!triggered) {
-                            const timeSinceLastCycle = now - lastTradingCycleTime;
-                            const cycleInterval = 1800000; // 30 minutes in milliseconds
+                            const timeSinceLastCycle = now - monitorState.lastTradingCycleTime;
+                            const cycleInterval = strategy.scheduledCycleMinutes * 60000;
                             if (timeSinceLastCycle >= cycleInterval) {
-                                triggerReason = "Regular 30-minute scheduled check";
+                                triggerReason = `Regular ${strategy.scheduledCycleMinutes}-minute scheduled check`;
                                 triggerType = "SCHEDULED";
                                 triggered = true;
-                                console.warn(`⏰ [SCHEDULED] 30-minute timer triggered - fallback trading cycle`);
+                                console.warn(`⏰ [SCHEDULED] ${strategy.scheduledCycleMinutes}-minute timer triggered - fallback trading cycle [config ${configVersion}]`);
                             } else {
                                 const minutesRemaining = Math.ceil((cycleInterval - timeSinceLastCycle) / 60000);
                                 // Build detailed status for each asset
                                 const statusLines = ASSETS.map(asset => {
+                                    if (!resolveAssetProfile(strategy, asset).enabled) {
+                                        return `${asset}:OFF`;
+                                    }
                                     const percentile = percentiles.get(asset);
                                     const volatility = volatilities.get(asset)!;
-                                    const regime = regimeSignals.get(asset);
-                                    const signal = regime && regime.hasRegimeSignal ? regime.regimeSignal : 'WAIT';
+                                    const signal = regimeSignals.get(asset) || 'WAIT';
                                     const percentileStr = percentile !== null ? `P${percentile.toFixed(1)}` : 'N/A';
-                                    const volCategory = volatility < 20 ? 'VL' : volatility < 40 ? 'L' : volatility < 60 ? 'M' : 'H';
+                                    const volCategory = { VERY_LOW: 'VL', LOW: 'L', MEDIUM: 'M', HIGH: 'H' }[getVolatilityRegime(volatility, strategy.volatility)];
                                     return `${asset}:${percentileStr}/${signal}/${volCategory}`;
                                 }).join(' | ');
-                                console.warn(`🔍 [MONITOR] ${statusLines} | Next check: ${minutesRemaining}min`);
+                                console.warn(`🔍 [MONITOR] ${statusLines} | Next check: ${minutesRemaining}min | config ${configVersion}`);
                             }
                         }
                         
                         if (triggered) {
-                            // Create data for triggerTradingCycle function
-                            const triggerData = {
-                                triggeredAsset,
-                                triggerType: triggeredSignalType
-                            };
-                            await triggerTradingCycle(send, triggerReason, triggerType, triggerData);
-                            // Update last trading cycle time
-                            lastTradingCycleTime = now;
+                            // Nothing awaits the monitor - a failed cycle is logged here, and the next check runs as usual
+                            try {
+                                await runMonitoredCycle(send, triggerReason + accountScope, triggerType, triggeredAsset, triggeredSignalType);
+                            } catch (error) {
+                                console.error(`❌ [MONITOR] ${triggerType} trading cycle failed: ${formatError(error)}`);
+                            }
                         }                        
                     }
                 
@@ -471,13 +830,25 @@ const gmxContext = context({
                 
                 // Check every minute
                 const interval = setInterval(unifiedMonitor, 60000);
-                return () => clearInterval(interval);
+                // Refresh market and position data just before each check, so a triggered cycle reads it from cache
+                const stopPrewarm = cacheRefreshConfig.prewarmLeadMs
+                    ? scheduleCachePrewarm(gmxAccounts.getDataCaches(), 60000, cacheRefreshConfig.prewarmLeadMs)
+                    : () => {};
+                killSwitch.onEngage(() => {
+                    clearInterval(interval);
+                    stopPrewarm();
+                    console.warn(`🛑 [MONITOR] Trading monitor halted by kill switch`);
+                });
+                return () => {
+                    clearInterval(interval);
+                    stopPrewarm();
+                };
             }
         })
     });
 
 // Create GMX actions using the SDK instance and enhanced data cache
-const gmxActions = createGmxActions(sdk, gmxDataCache);
+const gmxActions = createGmxActions(gmxAccounts, result => discordNotifier?.notifyActionResult(result));
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔌 GMX EXTENSION DEFINITION
@@ -527,9 +898,13 @@ await agent.start({
     tokens: "Loading...",
     volumes: "Loading...",
     orders: "Loading...",
+    orderOutcomes: "Loading...",
     tradingHistory: "Loading...",
     assetTechnicalAnalysis: "Loading...",
     assetSynthAnalysis: "Loading...",
 });
 
 console.warn("🎯 Vega is now live and ready for GMX trading!");
+
+// Takes over the terminal last, so startup output stays on screen
+dashboard.start();
@@ -0,0 +1,350 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗃️ CACHE RESOURCE - KEYED TTL CACHE WITH REQUEST DEDUPLICATION
+// ═══════════════════════════════════════════════════════════════════════════════
+// One cached data type. Each key holds its last good value, the fetch in flight
+// and the last failure:
+//
+//   fresh       within the TTL - served from memory
+//   stale       past the TTL but within maxStaleMs - served while a background
+//               refetch runs (stale-while-revalidate only)
+//   expired     callers wait for the refetch; concurrent callers share it
+//   failed      the error is rethrown for errorTtlMs instead of refetching
+//
+// A fetch that finishes after its key was invalidated is returned to its callers
+// but not stored, so an invalidation after a trade is never undone by a read
+// that started before it.
+//
+// Every read and fetch is counted, and fetch durations go into a latency
+// histogram - see getMetrics and formatPrometheusCacheMetrics.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { formatError } from './gmx-utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface CacheResourceOptions {
+    /** Shown in logs and metrics */
+    name: string;
+    ttlMs: number;
+    /** Serve expired values at once and refetch them in the background */
+    staleWhileRevalidate: boolean;
+    /** How far past the TTL a value may still be served - older values make callers wait */
+    maxStaleMs: number;
+    /** A failed fetch is rethrown without refetching for this long - 0 disables error caching */
+    errorTtlMs: number;
+    /** Called once per failed fetch */
+    onFetchError?: (key: string, error: unknown) => void;
+}
+
+// Fetch latency histogram - counts are cumulative, the last one is +Inf
+export interface LatencyHistogram {
+    boundsMs: number[];
+    counts: number[];
+    sumMs: number;
+    count: number;
+}
+
+export interface CacheResourceMetrics {
+    name: string;
+    /** Keys holding a value */
+    entries: number;
+    hits: number;
+    staleHits: number;
+    misses: number;
+    /** Reads that joined a fetch already in flight */
+    dedups: number;
+    /** Reads answered with a cached error */
+    errorHits: number;
+    fetches: number;
+    errors: number;
+    lastFetchMs: number | null;
+    fetchLatency: LatencyHistogram;
+    lastError: string | null;
+    lastErrorClass: CacheErrorClass | null;
+    lastErrorAt: number | null;
+}
+
+// Kind of a failed fetch - a fixed set, so it can label a metric where the raw message cannot
+export type CacheErrorClass = 'timeout' | 'rate_limited' | 'http' | 'network' | 'other';
+
+const classifyCacheError = (error: unknown): CacheErrorClass => {
+    const err = error as any;
+    const status = typeof err?.status === 'number' ? err.status : typeof err?.cause?.status === 'number' ? err.cause.status : null;
+    const message = formatError(error);
+
+    if (err?.name === 'TimeoutError' || err?.name === 'AbortError' || /timeout|timed out/i.test(message)) return 'timeout';
+    if (status === 429 || /rate limit/i.test(message)) return 'rate_limited';
+    if (status !== null) return 'http';
+    if (/ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network/i.test(message)) return 'network';
+    return 'other';
+};
+
+// Upper bounds of the fetch latency buckets
+export const FETCH_LATENCY_BOUNDS_MS = [25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+interface CacheEntry<T> {
+    value: T | undefined;
+    hasValue: boolean;
+    fetchedAt: number;
+    inFlight: Promise<T> | null;
+    error: { error: unknown; at: number } | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗃️ CACHE RESOURCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class CacheResource<T> {
+    private entries = new Map<string, CacheEntry<T>>();
+    private readonly metrics: Omit<CacheResourceMetrics, 'name' | 'entries' | 'fetchLatency'> = {
+        hits: 0,
+        staleHits: 0,
+        misses: 0,
+        dedups: 0,
+        errorHits: 0,
+        fetches: 0,
+        errors: 0,
+        lastFetchMs: null,
+        lastError: null,
+        lastErrorClass: null,
+        lastErrorAt: null
+    };
+    // Per bucket, not cumulative - one more than the bounds for +Inf
+    private latencyCounts: number[] = new Array(FETCH_LATENCY_BOUNDS_MS.length + 1).fill(0);
+    private latencySumMs = 0;
+
+    constructor(private readonly options: CacheResourceOptions) {}
+
+    get name(): string {
+        return this.options.name;
+    }
+
+    get ttlMs(): number {
+        return this.options.ttlMs;
+    }
+
+    /**
+     * Cached value for the key, fetching it when missing or expired.
+     * forceRefresh skips the cached value and cached error, but still joins a fetch in flight.
+     */
+    async get(key: string, fetch: () => Promise<T>, forceRefresh = false): Promise<T> {
+        const now = Date.now();
+        const entry = this.getEntry(key);
+
+        if (!forceRefresh && entry.hasValue) {
+            const age = now - entry.fetchedAt;
+            if (age < this.options.ttlMs) {
+                this.metrics.hits++;
+                return entry.value as T;
+            }
+            if (this.options.staleWhileRevalidate && age < this.options.ttlMs + this.options.maxStaleMs) {
+                this.metrics.staleHits++;
+                if (!entry.inFlight && !this.hasRecentError(entry, now)) {
+                    console.warn(`[CacheResource] Serving stale ${this.describe(key)} while refetching in the background`);
+                    this.startFetch(key, entry, fetch).catch(() => {});
+                }
+                return entry.value as T;
+            }
+        }
+
+        if (entry.inFlight) {
+            this.metrics.dedups++;
+            return entry.inFlight;
+        }
+
+        if (!forceRefresh && this.hasRecentError(entry, now)) {
+            this.metrics.errorHits++;
+            throw entry.error!.error;
+        }
+
+        this.metrics.misses++;
+        return this.startFetch(key, entry, fetch);
+    }
+
+    // Last value regardless of TTL - never fetches
+    peek(key: string): T | null {
+        const entry = this.entries.get(key);
+        return entry?.hasValue ? entry.value as T : null;
+    }
+
+    // When the key's value was fetched - null if it has none
+    getFetchedAt(key: string): number | null {
+        const entry = this.entries.get(key);
+        return entry?.hasValue ? entry.fetchedAt : null;
+    }
+
+    // Milliseconds since the key was fetched - measured from the epoch when it never was
+    getAge(key: string): number {
+        return Date.now() - (this.getFetchedAt(key) ?? 0);
+    }
+
+    isFresh(key: string): boolean {
+        return this.getAge(key) < this.options.ttlMs;
+    }
+
+    // True when the key has no value or its value expires within horizonMs
+    expiresWithin(key: string, horizonMs: number): boolean {
+        return this.getAge(key) + horizonMs >= this.options.ttlMs;
+    }
+
+    /**
+     * Drop one key, or every key when none is given. Fetches in flight still resolve but are not stored.
+     */
+    invalidate(key?: string): void {
+        if (key === undefined) {
+            this.entries.clear();
+        } else {
+            this.entries.delete(key);
+        }
+    }
+
+    getMetrics(): CacheResourceMetrics {
+        let cumulative = 0;
+        return {
+            name: this.options.name,
+            entries: [...this.entries.values()].filter(entry => entry.hasValue).length,
+            ...this.metrics,
+            fetchLatency: {
+                boundsMs: FETCH_LATENCY_BOUNDS_MS,
+                counts: this.latencyCounts.map(count => cumulative += count),
+                sumMs: this.latencySumMs,
+                count: cumulative
+            }
+        };
+    }
+
+    private getEntry(key: string): CacheEntry<T> {
+        let entry = this.entries.get(key);
+        if (!entry) {
+            entry = { value: undefined, hasValue: false, fetchedAt: 0, inFlight: null, error: null };
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    private hasRecentError(entry: CacheEntry<T>, now: number): boolean {
+        return entry.error !== null && now - entry.error.at < this.options.errorTtlMs;
+    }
+
+    private startFetch(key: string, entry: CacheEntry<T>, fetch: () => Promise<T>): Promise<T> {
+        const startedAt = Date.now();
+        this.metrics.fetches++;
+
+        const promise = fetch().then(
+            value => {
+                this.recordLatency(Date.now() - startedAt);
+                if (this.entries.get(key) === entry) {
+                    entry.value = value;
+                    entry.hasValue = true;
+                    entry.fetchedAt = startedAt;
+                    entry.error = null;
+                }
+                return value;
+            },
+            error => {
+                this.recordLatency(Date.now() - startedAt);
+                this.metrics.errors++;
+                this.metrics.lastError = formatError(error);
+                this.metrics.lastErrorClass = classifyCacheError(error);
+                this.metrics.lastErrorAt = Date.now();
+                if (this.entries.get(key) === entry) {
+                    entry.error = { error, at: Date.now() };
+                }
+                try {
+                    this.options.onFetchError?.(key, error);
+                } catch (listenerError) {
+                    console.error(`[CacheResource] Error listener failed for ${this.describe(key)}: ${formatError(listenerError)}`);
+                }
+                throw error;
+            }
+        ).finally(() => {
+            if (entry.inFlight === promise) {
+                entry.inFlight = null;
+            }
+        });
+
+        entry.inFlight = promise;
+        return promise;
+    }
+
+    private recordLatency(durationMs: number): void {
+        this.metrics.lastFetchMs = durationMs;
+        this.latencySumMs += durationMs;
+        const bucket = FETCH_LATENCY_BOUNDS_MS.findIndex(bound => durationMs <= bound);
+        this.latencyCounts[bucket === -1 ? FETCH_LATENCY_BOUNDS_MS.length : bucket]++;
+    }
+
+    private describe(key: string): string {
+        return key === this.options.name ? key : `${this.options.name} ${key}`;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 PROMETHEUS EXPOSITION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const escapeLabel = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Record<string, string>): string =>
+    `{${Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+
+/**
+ * Render resource metrics in the Prometheus text format. Each sample carries its own labels
+ * (e.g. account and network) on top of the resource name.
+ */
+export const formatPrometheusCacheMetrics = (samples: Array<{ labels: Record<string, string>; metrics: CacheResourceMetrics }>): string => {
+    const lines: string[] = [];
+    const family = (name: string, type: 'counter' | 'gauge' | 'histogram', help: string, write: (labels: Record<string, string>, metrics: CacheResourceMetrics) => void) => {
+        lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+        for (const { labels, metrics } of samples) {
+            write({ ...labels, resource: metrics.name }, metrics);
+        }
+    };
+
+    family('gmx_cache_requests_total', 'counter', 'Cache reads by outcome', (labels, metrics) => {
+        const results: Record<string, number> = {
+            hit: metrics.hits,
+            stale: metrics.staleHits,
+            miss: metrics.misses,
+            dedup: metrics.dedups,
+            error: metrics.errorHits
+        };
+        for (const [result, value] of Object.entries(results)) {
+            lines.push(`gmx_cache_requests_total${formatLabels({ ...labels, result })} ${value}`);
+        }
+    });
+    family('gmx_cache_fetches_total', 'counter', 'SDK and API fetches made by the cache', (labels, metrics) => {
+        lines.push(`gmx_cache_fetches_total${formatLabels(labels)} ${metrics.fetches}`);
+    });
+    family('gmx_cache_fetch_errors_total', 'counter', 'Failed fetches', (labels, metrics) => {
+        lines.push(`gmx_cache_fetch_errors_total${formatLabels(labels)} ${metrics.errors}`);
+    });
+    family('gmx_cache_fetch_duration_seconds', 'histogram', 'Fetch latency', (labels, metrics) => {
+        const { boundsMs, counts, sumMs, count } = metrics.fetchLatency;
+        boundsMs.forEach((bound, index) => {
+            lines.push(`gmx_cache_fetch_duration_seconds_bucket${formatLabels({ ...labels, le: String(bound / 1000) })} ${counts[index]}`);
+        });
+        lines.push(`gmx_cache_fetch_duration_seconds_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`gmx_cache_fetch_duration_seconds_sum${formatLabels(labels)} ${sumMs / 1000}`);
+        lines.push(`gmx_cache_fetch_duration_seconds_count${formatLabels(labels)} ${count}`);
+    });
+    family('gmx_cache_entries', 'gauge', 'Keys holding a cached value', (labels, metrics) => {
+        lines.push(`gmx_cache_entries${formatLabels(labels)} ${metrics.entries}`);
+    });
+    family('gmx_cache_last_error_timestamp_seconds', 'gauge', 'When the last fetch failed', (labels, metrics) => {
+        if (metrics.lastErrorAt !== null) {
+            lines.push(`gmx_cache_last_error_timestamp_seconds${formatLabels(labels)} ${metrics.lastErrorAt / 1000}`);
+        }
+    });
+    family('gmx_cache_last_error_info', 'gauge', 'Kind of the last failed fetch', (labels, metrics) => {
+        if (metrics.lastErrorClass !== null) {
+            lines.push(`gmx_cache_last_error_info${formatLabels({ ...labels, class: metrics.lastErrorClass })} 1`);
+        }
+    });
+
+    return lines.join('\n') + '\n';
+};
@@ -0,0 +1,104 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 👤 GMX ACCOUNTS - NAMED, ISOLATED TRADING BOOKS
+// ═══════════════════════════════════════════════════════════════════════════════
+// Each account is its own wallet with its own chains, transaction queue, journal
+// and circuit breaker. Anything that does not name an account runs on the
+// primary account.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as path from 'path';
+import type { EnhancedDataCache } from './gmx-cache';
+import type { GmxChain, GmxChains } from './gmx-chains';
+import type { CircuitBreaker } from './gmx-circuit-breaker';
+import type { TransactionJournal } from './transaction-journal';
+import type { TransactionQueue } from './transaction-queue';
+import type { GmxNetwork } from './gmx-types';
+
+export interface GmxAccount {
+    name: string;
+    walletAddress: string;
+    chains: GmxChains;
+    transactionQueue: TransactionQueue;
+    journal: TransactionJournal;
+    circuitBreaker: CircuitBreaker;
+}
+
+/**
+ * State file for an account: the primary account keeps the configured path,
+ * other accounts get the account name before the extension (journal.jsonl → journal.hedge.jsonl)
+ */
+export const accountFilePath = (basePath: string, account: string, isPrimary: boolean): string => {
+    if (isPrimary) {
+        return basePath;
+    }
+    const { dir, name, ext } = path.parse(basePath);
+    return path.join(dir, `${name}.${account}${ext}`);
+};
+
+export class GmxAccounts {
+    private readonly byName = new Map<string, GmxAccount>();
+
+    /**
+     * @param accounts Accounts to trade with, primary first
+     */
+    constructor(accounts: GmxAccount[]) {
+        if (accounts.length === 0) {
+            throw new Error("At least one account is required");
+        }
+        for (const account of accounts) {
+            if (this.byName.has(account.name)) {
+                throw new Error(`Account ${account.name} is configured twice`);
+            }
+            this.byName.set(account.name, account);
+        }
+    }
+
+    get primary(): GmxAccount {
+        return this.getAll()[0];
+    }
+
+    get isMultiAccount(): boolean {
+        return this.byName.size > 1;
+    }
+
+    getAll(): GmxAccount[] {
+        return [...this.byName.values()];
+    }
+
+    getNames(): string[] {
+        return [...this.byName.keys()];
+    }
+
+    /**
+     * Account by name, or the primary account when none is given
+     * @throws Error if no account has that name
+     */
+    get(name?: string): GmxAccount {
+        if (!name) {
+            return this.primary;
+        }
+        const account = this.byName.get(name.toLowerCase());
+        if (!account) {
+            throw new Error(`Account "${name}" is not configured - accounts: ${this.getNames().join(', ')}`);
+        }
+        return account;
+    }
+
+    // One account's chain - both default to primary
+    getChain(account?: string, network?: GmxNetwork | string): GmxChain {
+        return this.get(account).chains.get(network);
+    }
+
+    // Every account and chain pair, primary account first
+    getAllChains(): GmxChain[] {
+        return this.getAll().flatMap(account => account.chains.getAll());
+    }
+
+    getDataCaches(): EnhancedDataCache[] {
+        return this.getAllChains().map(chain => chain.gmxDataCache);
+    }
+
+    getTransactionQueues(): TransactionQueue[] {
+        return this.getAll().map(account => account.transactionQueue);
+    }
+}
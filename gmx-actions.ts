@@ -4,8 +4,8 @@
 
 import { action } from "@daydreamsai/core";
 import { z } from "zod/v4";
-import type { GmxSdk } from "@gmx-io/sdk";
-import type { GmxMemory } from './gmx-types';
+import { GMX_NETWORKS, ORDER_TYPE, type GmxMemory } from './gmx-types';
+import type { GmxAccounts } from './gmx-accounts';
 import type { EnhancedDataCache } from './gmx-cache';
 import { 
     USD_DECIMALS, 
@@ -17,35 +17,247 @@ import {
     calculatePositionPnl,
     sleep,
     formatError,
-    extractPercentileFromSynthAnalysis,
     getAssetFromMarketName
 } from './gmx-utils';
-import { get_positions_str, get_portfolio_balance_str, get_orders_str, get_synth_analysis_str } from './gmx-queries';
-import { transactionQueue } from './transaction-queue';
+import { get_positions_str, get_portfolio_balance_str, get_orders_str, get_synth_analysis } from './gmx-queries';
+import { TransactionQueueError, TransactionPriority, type TransactionAttempt } from './transaction-queue';
+import { strategyConfig } from './strategy-config';
+import { tradingEvents } from './gmx-events';
+import type { ChainEventWatcher, CreatedOrderMatch } from './gmx-chain-events';
+import type { OrderExecutionReport, OrderTracker } from './gmx-order-tracker';
+import type { RiskEngine } from './gmx-risk';
 
-// Fixed slippage constant (1%)
-const FIXED_SLIPPAGE_BPS = 100;
+// Slippage and price impact buffers come from the strategy config, read per order so edits apply immediately
+const executionConfig = () => strategyConfig.get().execution;
 
-// Fixed price impact for take profit/stop loss orders (0.3%)
-const FIXED_PRICE_IMPACT_BPS = 30;
+/**
+ * Build the DecreasePositionAmounts for a full market close of a position.
+ * Shared by close_position and the kill switch, which skips the percentile guard.
+ */
+export function buildFullCloseDecreaseAmounts(position: any, indexToken: any, collateralToken: any): { decreaseAmounts: any; markPrice: bigint } {
+    const isLong = position.isLong;
+    const markPrice: bigint = isLong ? 
+        (indexToken.prices?.maxPrice || 0n) : 
+        (indexToken.prices?.minPrice || 0n);
+
+    const { slippageBps, priceImpactBps } = executionConfig();
+
+    // For longs: subtract price impact buffer (willing to accept lower price)
+    // For shorts: add price impact buffer (willing to accept higher price)
+    const acceptablePrice = isLong ? 
+        markPrice - (markPrice * BigInt(priceImpactBps) / 10000n) :
+        markPrice + (markPrice * BigInt(priceImpactBps) / 10000n);
+
+    const collateralPrice = collateralToken.prices?.minPrice || 0n;
+    const collateralDeltaUsd = convertToUsd(
+        position.collateralAmount,
+        collateralToken.decimals,
+        collateralPrice
+    ) || 0n;
 
-// Delay after write operations before fetching fresh data (5 seconds)
+    // Create complete DecreasePositionAmounts object with ALL required fields
+    const decreaseAmounts = {
+        isFullClose: true,
+        sizeDeltaUsd: position.sizeInUsd,
+        sizeDeltaInTokens: position.sizeInTokens,
+        collateralDeltaUsd: collateralDeltaUsd,
+        collateralDeltaAmount: position.collateralAmount,
+        indexPrice: markPrice,
+        collateralPrice: collateralPrice,
+        acceptablePrice: acceptablePrice,
+        acceptablePriceDeltaBps: BigInt(slippageBps),
+        recommendedAcceptablePriceDeltaBps: BigInt(slippageBps),
+        estimatedPnl: 0n,
+        estimatedPnlPercentage: 0n,
+        realizedPnl: 0n,
+        realizedPnlPercentage: 0n,
+        positionFeeUsd: 0n,
+        uiFeeUsd: 0n,
+        swapUiFeeUsd: 0n,
+        feeDiscountUsd: 0n,
+        borrowingFeeUsd: 0n,
+        fundingFeeUsd: 0n,
+        swapProfitFeeUsd: 0n,
+        positionPriceImpactDeltaUsd: 0n,
+        priceImpactDiffUsd: 0n,
+        payedRemainingCollateralAmount: 0n,
+        payedOutputUsd: 0n,
+        payedRemainingCollateralUsd: 0n,
+        receiveTokenAmount: 0n,
+        receiveUsd: 0n,
+        decreaseSwapType: 0, // No swap by default
+    };
+
+    return { decreaseAmounts, markPrice };
+}
+
+// Delay after write operations before fetching fresh data (5 seconds) - only when no chain event watcher runs
 const MEMORY_UPDATE_DELAY_MS = 5000;
 
+// Market orders are sized off the price at decision time - drop them if still unsent after 2 minutes
+const MARKET_ORDER_DEADLINE_MS = 120000;
+
+// Attempts made by the transaction queue, when the failure came from it
+const queueAttempts = (error: unknown) => error instanceof TransactionQueueError ? error.attempts : undefined;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⛓️ WRITE SETTLEMENT
+// ═══════════════════════════════════════════════════════════════════════════════
+// A write only creates an order; a keeper executes it later. With a chain event
+// watcher the memory updates wait for the order's events, which have already
+// invalidated the affected caches. A timeout re-reads anyway.
+
+/**
+ * Wait until the keeper executes, cancels or freezes the write's order - the first matching one created after the cursor.
+ * Returns the order's key - null without a watcher or when no order was seen.
+ */
+async function waitForOrderSettlement(watcher: ChainEventWatcher | null, cursor: number, match: CreatedOrderMatch): Promise<string | null> {
+    const orderKey = await waitForOrderCreation(watcher, cursor, match);
+    if (watcher && orderKey && !await watcher.waitForOrder(orderKey)) {
+        console.warn(`[MemoryUpdate] Order ${orderKey} still pending after the timeout - refreshing anyway`);
+    }
+    return orderKey;
+}
+
+/**
+ * Wait until the order a write created is on-chain - for limit and trigger orders, which stay pending
+ */
+async function waitForOrderCreation(watcher: ChainEventWatcher | null, cursor: number, match: CreatedOrderMatch): Promise<string | null> {
+    if (!watcher) {
+        await sleep(MEMORY_UPDATE_DELAY_MS);
+        return null;
+    }
+    const orderKey = await watcher.waitForCreatedOrder(cursor, { match });
+    if (!orderKey) {
+        console.warn('[MemoryUpdate] No order creation seen on-chain before the timeout - refreshing anyway');
+    }
+    return orderKey;
+}
+
+/**
+ * Wait until every given order is settled - for cancellations
+ */
+async function waitForOrdersSettled(watcher: ChainEventWatcher | null, orderKeys: string[]): Promise<void> {
+    if (!watcher) {
+        await sleep(MEMORY_UPDATE_DELAY_MS);
+        return;
+    }
+    const settlements = await Promise.all(orderKeys.map(orderKey => watcher.waitForOrder(orderKey)));
+    const pending = settlements.filter(settlement => !settlement).length;
+    if (pending > 0) {
+        console.warn(`[MemoryUpdate] ${pending} of ${orderKeys.length} order(s) not settled before the timeout - refreshing anyway`);
+    }
+}
+
+// Allowed drift between block timestamps and the local clock
+const ORDER_CREATED_SKEW_MS = 15000;
+
+/**
+ * Whether a write that failed ambiguously still created its order - asked by the transaction
+ * queue before a resend. Throws when it cannot tell, so the write fails rather than duplicates.
+ * Only the chain event watcher can say no: the trade history indexer lags the chain, so a
+ * missing OrderCreated there proves nothing.
+ */
+export async function wasOrderCreated(
+    watcher: ChainEventWatcher | null,
+    gmxDataCache: EnhancedDataCache,
+    cursor: number,
+    match: CreatedOrderMatch,
+    since: number
+): Promise<boolean> {
+    if (watcher) {
+        // Left unclaimed - the write's own settlement wait takes it
+        return await watcher.waitForCreatedOrder(cursor, { match, claim: false }) !== null;
+    }
+    const { marketsInfoData, tokensData } = await gmxDataCache.getMarketsInfo();
+    const trades = await gmxDataCache.getTradeHistory(marketsInfoData, tokensData, true);
+    if (!trades) {
+        throw new Error('Trade history unavailable - cannot tell whether the order was created');
+    }
+    const created = trades.some(trade =>
+        trade.eventName === 'OrderCreated' &&
+        trade.timestamp * 1000 >= since - ORDER_CREATED_SKEW_MS &&
+        (match.orderType === undefined || trade.orderType === match.orderType) &&
+        (match.market === undefined || trade.marketAddress?.toLowerCase() === match.market.toLowerCase()) &&
+        (match.isLong === undefined || trade.isLong === match.isLong) &&
+        (match.sizeDeltaUsd === undefined || trade.sizeDeltaUsd === match.sizeDeltaUsd) &&
+        (match.initialCollateralToken === undefined || trade.initialCollateralTokenAddress?.toLowerCase() === match.initialCollateralToken.toLowerCase())
+    );
+    if (!created) {
+        throw new Error('No matching OrderCreated in the trade history yet - it lags the chain, so the order may still have been created');
+    }
+    return true;
+}
+
+// What the keeper did with the write's order - null when orders are not tracked
+const executionReport = (tracker: OrderTracker | null, orderKey: string | null): OrderExecutionReport | null =>
+    tracker && orderKey ? tracker.getExecutionReport(orderKey) : null;
+
+/**
+ * Result for a write whose transaction landed but whose order the keeper cancelled or froze
+ */
+function keeperRejection(tag: string, message: string, execution: OrderExecutionReport, transactionHash: string | null, attempts: TransactionAttempt[]) {
+    const result = {
+        success: false,
+        error: `Order ${execution.status} by the keeper${execution.reason ? `: ${execution.reason}` : ''}`,
+        message,
+        execution,
+        transactionHash,
+        attempts
+    };
+    console.error(tag, 'Order not executed by the keeper', result);
+    return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛡️ PRE-TRADE RISK CHECK
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run an increase order through the risk engine - nothing reaches the queue without passing limits.
+ * Returns the action's failure result, or null when the order is approved.
+ */
+async function checkIncreaseRisk(
+    tag: string,
+    message: string,
+    riskEngine: RiskEngine,
+    order: { marketAddress: string; payTokenAddress: string; payAmount: bigint; leverage?: bigint },
+    isLong: boolean
+) {
+    const riskCheck = await riskEngine.checkIncreaseOrder({
+        marketAddress: order.marketAddress,
+        payTokenAddress: order.payTokenAddress,
+        payAmount: order.payAmount,
+        leverage: order.leverage,
+        isLong,
+    });
+    if (riskCheck.approved) {
+        return null;
+    }
+    console.warn(tag, 'Rejected by risk engine', riskCheck);
+    return {
+        success: false,
+        error: `Risk limit: ${riskCheck.reason}`,
+        message,
+        riskRejection: riskCheck
+    };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔄 MEMORY UPDATE UTILITIES
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /**
  * Update positions in memory after position-affecting writes
- * Forces cache invalidation for fresh data
+ * Waits for the write to settle, then forces cache invalidation for fresh data
  */
 export async function updatePositionsMemory(
     memory: GmxMemory, 
-    gmxDataCache: EnhancedDataCache
+    gmxDataCache: EnhancedDataCache,
+    writeSettled: Promise<unknown> = sleep(MEMORY_UPDATE_DELAY_MS)
 ): Promise<GmxMemory> {
     try {
-        await sleep(MEMORY_UPDATE_DELAY_MS);
+        await writeSettled;
         
         // Force cache invalidation for positions
         gmxDataCache.invalidatePositions();
@@ -72,19 +284,20 @@ export async function updatePositionsMemory(
 
 /**
  * Update orders in memory after order-affecting writes
- * Orders are NOT cached, so we fetch fresh data directly
+ * Waits for the write to settle, then forces cache invalidation for fresh data
  */
 export async function updateOrdersMemory(
     memory: GmxMemory,
-    sdk: GmxSdk,
-    gmxDataCache: EnhancedDataCache
+    gmxDataCache: EnhancedDataCache,
+    writeSettled: Promise<unknown> = sleep(MEMORY_UPDATE_DELAY_MS)
 ): Promise<GmxMemory> {
     try {
-        await sleep(MEMORY_UPDATE_DELAY_MS);
+        await writeSettled;
         
         
-        // Orders are fetched directly from SDK, not cached
-        const freshOrders = await get_orders_str(sdk, gmxDataCache);
+        // Force cache invalidation for orders
+        gmxDataCache.invalidateOrders();
+        const freshOrders = await get_orders_str(gmxDataCache);
         
         
         return {
@@ -105,10 +318,11 @@ export async function updateOrdersMemory(
  */
 export async function updatePortfolioMemory(
     memory: GmxMemory,
-    gmxDataCache: EnhancedDataCache
+    gmxDataCache: EnhancedDataCache,
+    writeSettled: Promise<unknown> = sleep(MEMORY_UPDATE_DELAY_MS)
 ): Promise<GmxMemory> {
     try {
-        await sleep(MEMORY_UPDATE_DELAY_MS);
+        await writeSettled;
         
         
         // Force cache invalidation for tokens
@@ -135,14 +349,14 @@ export async function updatePortfolioMemory(
  */
 export async function updateMemoryAfterClose(
     memory: GmxMemory,
-    sdk: GmxSdk,
-    gmxDataCache: EnhancedDataCache
+    gmxDataCache: EnhancedDataCache,
+    writeSettled: Promise<unknown> = sleep(MEMORY_UPDATE_DELAY_MS)
 ): Promise<GmxMemory> {
     try {
-        await sleep(MEMORY_UPDATE_DELAY_MS);
+        await writeSettled;
         
         
-        // Invalidate position and token caches
+        // Invalidate position (and with it order) and token caches
         gmxDataCache.invalidatePositions();
         gmxDataCache.invalidateTokens();
         
@@ -150,7 +364,7 @@ export async function updateMemoryAfterClose(
         const [freshPositions, freshPortfolio, freshOrders] = await Promise.all([
             get_positions_str(gmxDataCache),
             get_portfolio_balance_str(gmxDataCache),
-            get_orders_str(sdk, gmxDataCache)
+            get_orders_str(gmxDataCache)
         ]);
         
         
@@ -169,8 +383,72 @@ export async function updateMemoryAfterClose(
     }
 }
 
-export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
-    return [
+// Optional on every action - omitted means the primary account and chain
+const accountParam = () => z.string().optional().describe("Named account to trade with. Defaults to the primary account; each account is a separate wallet and book.");
+const chainParam = () => z.enum(GMX_NETWORKS).optional().describe("GMX network to trade on ('arbitrum' or 'avalanche'). Defaults to the primary chain; addresses must belong to that chain.");
+
+// Outcome of one trading action, as reported to createGmxActions' onResult listener
+export interface GmxActionResult {
+    action: string;
+    account: string | undefined;
+    chain: string | undefined;
+    success: boolean;
+    message: string;
+    transactionHash: string | null;
+    error: string | null;
+    at: number;
+}
+
+// Successful actions that change a position - limit opens only place an order, so they are not listed
+const POSITION_EVENTS: Record<string, 'PositionOpened' | 'PositionClosed' | 'StopMoved'> = {
+    open_long_market: 'PositionOpened',
+    open_short_market: 'PositionOpened',
+    close_position: 'PositionClosed',
+    set_stop_loss: 'StopMoved'
+};
+
+// Publish every handler result as a trading event and to the listener - the result itself is returned unchanged
+function reportActionResult<T extends { name: string; handler: (...args: any[]) => any }>(
+    definition: T,
+    onResult?: (result: GmxActionResult) => void
+): T {
+    return {
+        ...definition,
+        async handler(data: any, ...rest: any[]) {
+            const result = await definition.handler(data, ...rest);
+            try {
+                const report: GmxActionResult = {
+                    action: definition.name,
+                    account: data?.account,
+                    chain: data?.chain,
+                    success: !!result?.success,
+                    message: result?.message ?? '',
+                    transactionHash: result?.transactionHash ?? null,
+                    error: result?.error ?? null,
+                    at: Date.now()
+                };
+                const eventType = POSITION_EVENTS[definition.name];
+                if (report.success && eventType) {
+                    tradingEvents.emit(eventType, {
+                        account: report.account,
+                        chain: report.chain,
+                        action: report.action,
+                        message: report.message,
+                        transactionHash: report.transactionHash,
+                        params: data ?? {}
+                    });
+                }
+                onResult?.(report);
+            } catch (error) {
+                console.error(`[GmxActions] Result listener failed for ${definition.name}: ${formatError(error)}`);
+            }
+            return result;
+        }
+    };
+}
+
+export function createGmxActions(accounts: GmxAccounts, onResult?: (result: GmxActionResult) => void) {
+    const actions = [
     // ═══════════════════════════════════════════════════════════════════════════════
     // ✍️ WRITE METHODS - TRADING ACTIONS
     // ═══════════════════════════════════════════════════════════════════════════════
@@ -180,22 +458,27 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
         name: "cancel_orders",
         description: "Cancel one or more pending orders using GMX SDK",
         schema: z.object({
+            account: accountParam(),
+            chain: chainParam(),
             orderKeys: z.array(z.string()).describe("Array of order key strings (32-byte hex strings starting with 0x)"),
         }),
         async handler(data, ctx, agent) {
             try {
+                const { sdk, gmxDataCache, transactionQueue, eventWatcher } = accounts.getChain(data.account, data.chain);
                 
-                const result = await transactionQueue.enqueueWriteTransaction(
+                const { transactionHash, attempts } = await transactionQueue.enqueueWriteTransaction(
                     "cancel_orders",
                     async () => {
                         return await sdk.orders.cancelOrders(data.orderKeys);
-                    }
+                    },
+                    // Resending a cancel cannot duplicate anything - an already-cancelled key just fails
+                    { params: data, priority: TransactionPriority.CANCEL, confirmSent: async () => false }
                 );
                 
                 let memory = ctx.memory as GmxMemory;
                 
                 // Update memory with fresh order data after cancellation
-                memory = await updateOrdersMemory(memory, sdk, gmxDataCache);
+                memory = await updateOrdersMemory(memory, gmxDataCache, waitForOrdersSettled(eventWatcher, data.orderKeys));
                 
                 memory = {
                     ...memory,
@@ -207,7 +490,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     success: true,
                     message: `Successfully cancelled ${data.orderKeys.length} order(s)`,
                     orderKeys: data.orderKeys,
-                    transactionHash: result?.transactionHash || result?.hash || null,
+                    transactionHash,
+                    attempts,
                     details: {
                         cancelledOrderCount: data.orderKeys.length,
                         orderKeys: data.orderKeys
@@ -220,6 +504,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 const errorResult = {
                     success: false,
                     error: formatError(error),
+                    attempts: queueAttempts(error),
                     message: "Failed to cancel orders"
                 };
                 
@@ -235,6 +520,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
             name: "open_long_market",
             description: "Open a long position with a market order (immediate execution at current market price).",
             schema: z.object({
+                account: accountParam(),
+                chain: chainParam(),
                 marketAddress: z.string().describe("Market token address from getMarketsInfo response (e.g. '0x70d95587d40A2caf56bd97485aB3Eec10Bee6336' for ETH/USD market)"),
                 payAmount: z.string().describe("Amount to pay in BigInt string format using token's native decimals (e.g. '1000000' for 1 USDC with 6 decimals). Use this for collateral-based position sizing."),
                 payTokenAddress: z.string().describe("ERC20 token contract address you're paying with (e.g. '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' for USDC)"),
@@ -243,6 +530,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
             }),
             async handler(data, ctx, agent) {
                 try {
+                    const { sdk, gmxDataCache, riskEngine, transactionQueue, eventWatcher, orderTracker } = accounts.getChain(data.account, data.chain);
                     
                     const marketsResult = await gmxDataCache.getMarketsInfo().catch(error => {
                         const errorMsg = `Failed to get market data: ${error.message || error}`;
@@ -280,7 +568,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                         marketAddress: data.marketAddress,
                         payTokenAddress: data.payTokenAddress,
                         collateralTokenAddress: data.collateralTokenAddress,
-                        allowedSlippageBps: FIXED_SLIPPAGE_BPS,
+                        allowedSlippageBps: executionConfig().slippageBps,
                     };
     
                     if (data.leverage) {
@@ -288,10 +576,18 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     }
                     
                     console.warn('OPEN_LONG_MARKET', 'Helper params prepared', helperParams);
+
+                    const riskRejection = await checkIncreaseRisk('OPEN_LONG_MARKET', "Failed to open long position", riskEngine, helperParams, true);
+                    if (riskRejection) {
+                        return riskRejection;
+                    }
     
-                    const result = await transactionQueue.enqueueWriteTransaction(
+                    let orderCursor = 0;
+                    const orderMatch: CreatedOrderMatch = { market: data.marketAddress, isLong: true, orderType: ORDER_TYPE.MarketIncrease };
+                    const { transactionHash, attempts } = await transactionQueue.enqueueWriteTransaction(
                         "open_long_market",
                         async () => {                            
+                            orderCursor = eventWatcher?.getOrderCursor() ?? 0;
                             return await sdk.orders.long(helperParams).catch(error => {
                                 console.error('OPEN_LONG_MARKET', error, { 
                                     helperParams, 
@@ -300,15 +596,21 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                                     errorData: error.data,
                                     fullError: error
                                 });
-                                throw new Error(`Failed to open long position: ${error.message || error}`);
+                                throw new Error(`Failed to open long position: ${error.message || error}`, { cause: error });
                             });
-                        }
+                        },
+                        { params: { ...data, isLong: true }, deadlineMs: MARKET_ORDER_DEADLINE_MS, priority: TransactionPriority.OPEN, confirmSent: since => wasOrderCreated(eventWatcher, gmxDataCache, orderCursor, orderMatch, since) }
                     );
     
                     let memory = ctx.memory as GmxMemory;
                     
                     // Update memory with fresh position and portfolio data after opening position
-                    memory = await updatePositionsMemory(memory, gmxDataCache);
+                    const orderSettled = waitForOrderSettlement(eventWatcher, orderCursor, orderMatch);
+                    memory = await updatePositionsMemory(memory, gmxDataCache, orderSettled);
+                    const execution = executionReport(orderTracker, await orderSettled);
+                    if (execution && (execution.status === 'cancelled' || execution.status === 'frozen')) {
+                        return keeperRejection('OPEN_LONG_MARKET', "Failed to open long position", execution, transactionHash, attempts);
+                    }
                     
                     const leverageX = data.leverage ? parseFloat(data.leverage) / 10000 : 'Auto';
                     memory = {
@@ -329,7 +631,9 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                             collateralToken: data.collateralTokenAddress,
                             leverage: typeof leverageX === 'number' ? `${leverageX}x` : leverageX,
                         },
-                        transactionHash: result?.transactionHash || null
+                        execution,
+                        transactionHash,
+                        attempts
                     };
                     
                     console.warn('OPEN_LONG_MARKET', 'Long market order opened successfully', successResult);
@@ -339,6 +643,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     const errorResult = {
                         success: false,
                         error: formatError(error),
+                        attempts: queueAttempts(error),
                         message: "Failed to open long position"
                     };
                     
@@ -354,6 +659,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
             name: "open_long_limit",
             description: "Open a long position with a limit order (executes when price reaches or goes below your specified limit price).",
             schema: z.object({
+                account: accountParam(),
+                chain: chainParam(),
                 marketAddress: z.string().describe("Market token address from getMarketsInfo response (e.g. '0x70d95587d40A2caf56bd97485aB3Eec10Bee6336' for ETH/USD market)"),
                 payAmount: z.string().describe("Amount to pay in BigInt string format using token's native decimals (e.g. '1000000' for 1 USDC with 6 decimals). Use this for collateral-based position sizing."),
                 payTokenAddress: z.string().describe("ERC20 token contract address you're paying with (e.g. '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' for USDC)"),
@@ -363,6 +670,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
             }),
             async handler(data, ctx, agent) {
                 try {
+                    const { sdk, gmxDataCache, riskEngine, transactionQueue, eventWatcher } = accounts.getChain(data.account, data.chain);
                     
                     const marketsResult = await gmxDataCache.getMarketsInfo().catch(error => {
                         const errorMsg = `Failed to get market data: ${error.message || error}`;
@@ -414,7 +722,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                         marketAddress: data.marketAddress,
                         payTokenAddress: data.payTokenAddress,
                         collateralTokenAddress: data.collateralTokenAddress,
-                        allowedSlippageBps: FIXED_SLIPPAGE_BPS,
+                        allowedSlippageBps: executionConfig().slippageBps,
                         limitPrice: BigInt(data.limitPrice) // Always include limit price for limit orders
                     };
     
@@ -423,10 +731,18 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     }
     
                     console.warn('OPEN_LONG_LIMIT', 'Helper params prepared', helperParams);
+
+                    const riskRejection = await checkIncreaseRisk('OPEN_LONG_LIMIT', "Failed to place long limit order", riskEngine, helperParams, true);
+                    if (riskRejection) {
+                        return riskRejection;
+                    }
     
-                    const result = await transactionQueue.enqueueWriteTransaction(
+                    let orderCursor = 0;
+                    const orderMatch: CreatedOrderMatch = { market: data.marketAddress, isLong: true, orderType: ORDER_TYPE.LimitIncrease };
+                    const { transactionHash, attempts } = await transactionQueue.enqueueWriteTransaction(
                         "open_long_limit",
                         async () => {                            
+                            orderCursor = eventWatcher?.getOrderCursor() ?? 0;
                             return await sdk.orders.long(helperParams).catch(error => {
                                 console.error('OPEN_LONG_LIMIT', error, { 
                                     helperParams, 
@@ -435,15 +751,16 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                                     errorData: error.data,
                                     fullError: error
                                 });
-                                throw new Error(`Failed to open long limit order: ${error.message || error}`);
+                                throw new Error(`Failed to open long limit order: ${error.message || error}`, { cause: error });
                             });
-                        }
+                        },
+                        { params: { ...data, isLong: true }, priority: TransactionPriority.OPEN, confirmSent: since => wasOrderCreated(eventWatcher, gmxDataCache, orderCursor, orderMatch, since) }
                     );
     
                     let memory = ctx.memory as GmxMemory;
                     
                     // Update memory with fresh order data after placing limit order
-                    memory = await updateOrdersMemory(memory, sdk, gmxDataCache);
+                    memory = await updateOrdersMemory(memory, gmxDataCache, waitForOrderCreation(eventWatcher, orderCursor, orderMatch));
                     
                     const leverageX = data.leverage ? parseFloat(data.leverage) / 10000 : 'Auto';
                     memory = {
@@ -465,7 +782,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                             limitPrice: formatUsdAmount(BigInt(data.limitPrice), 2),
                             leverage: typeof leverageX === 'number' ? `${leverageX}x` : leverageX,
                         },
-                        transactionHash: result?.transactionHash || null
+                        transactionHash,
+                        attempts
                     };
                     
                     console.warn('OPEN_LONG_LIMIT', 'Long limit order placed successfully', successResult);
@@ -475,6 +793,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     const errorResult = {
                         success: false,
                         error: formatError(error),
+                        attempts: queueAttempts(error),
                         message: "Failed to place long limit order"
                     };
                     
@@ -489,6 +808,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
             name: "open_short_market", 
             description: "Open a short position with a market order (immediate execution at current market price).",
             schema: z.object({
+                account: accountParam(),
+                chain: chainParam(),
                 marketAddress: z.string().describe("Market token address from getMarketsInfo response (e.g. '0x70d95587d40A2caf56bd97485aB3Eec10Bee6336' for ETH/USD market)"),
                 payAmount: z.string().describe("Amount to pay in BigInt string format using token's native decimals (e.g. '1000000' for 1 USDC with 6 decimals). Use this for collateral-based position sizing."),
                 payTokenAddress: z.string().describe("ERC20 token contract address you're paying with (e.g. '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' for USDC)"),
@@ -497,6 +818,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
             }),
             async handler(data, ctx, agent) {
                 try {
+                    const { sdk, gmxDataCache, riskEngine, transactionQueue, eventWatcher, orderTracker } = accounts.getChain(data.account, data.chain);
                     
                     const marketsResult = await gmxDataCache.getMarketsInfo().catch(error => {
                         const errorMsg = `Failed to get market data: ${error.message || error}`;
@@ -533,7 +855,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                         marketAddress: data.marketAddress,
                         payTokenAddress: data.payTokenAddress,
                         collateralTokenAddress: data.collateralTokenAddress,
-                        allowedSlippageBps: FIXED_SLIPPAGE_BPS,
+                        allowedSlippageBps: executionConfig().slippageBps,
                         payAmount: safeBigInt(data.payAmount),
                     };
     
@@ -542,21 +864,35 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     }
     
                     console.warn('OPEN_SHORT', 'Helper params prepared', helperParams);
+
+                    const riskRejection = await checkIncreaseRisk('OPEN_SHORT', "Failed to open short market order", riskEngine, helperParams, false);
+                    if (riskRejection) {
+                        return riskRejection;
+                    }
     
-                    const result = await transactionQueue.enqueueWriteTransaction(
+                    let orderCursor = 0;
+                    const orderMatch: CreatedOrderMatch = { market: data.marketAddress, isLong: false, orderType: ORDER_TYPE.MarketIncrease };
+                    const { transactionHash, attempts } = await transactionQueue.enqueueWriteTransaction(
                         "open_short_market",
                         async () => {                            
+                            orderCursor = eventWatcher?.getOrderCursor() ?? 0;
                             return await sdk.orders.short(helperParams).catch(error => {
                                 console.error('OPEN_SHORT_MARKET', error, { helperParams, stage: 'sdk.orders.short' });
-                                throw new Error(`Failed to open short position: ${error.message || error}`);
+                                throw new Error(`Failed to open short position: ${error.message || error}`, { cause: error });
                             });
-                        }
+                        },
+                        { params: { ...data, isLong: false }, deadlineMs: MARKET_ORDER_DEADLINE_MS, priority: TransactionPriority.OPEN, confirmSent: since => wasOrderCreated(eventWatcher, gmxDataCache, orderCursor, orderMatch, since) }
                     );
     
                     let memory = ctx.memory as GmxMemory;
                     
                     // Update memory with fresh position and portfolio data after opening position
-                    memory = await updatePositionsMemory(memory, gmxDataCache);
+                    const orderSettled = waitForOrderSettlement(eventWatcher, orderCursor, orderMatch);
+                    memory = await updatePositionsMemory(memory, gmxDataCache, orderSettled);
+                    const execution = executionReport(orderTracker, await orderSettled);
+                    if (execution && (execution.status === 'cancelled' || execution.status === 'frozen')) {
+                        return keeperRejection('OPEN_SHORT_MARKET', "Failed to open short position", execution, transactionHash, attempts);
+                    }
                     
                     const leverageX = data.leverage ? parseFloat(data.leverage) / 10000 : 'Auto';
                     memory = {
@@ -577,7 +913,9 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                             collateralToken: data.collateralTokenAddress,
                             leverage: typeof leverageX === 'number' ? `${leverageX}x` : leverageX,
                         },
-                        transactionHash: result?.transactionHash || null
+                        execution,
+                        transactionHash,
+                        attempts
                     };
                     
                     console.warn('OPEN_SHORT_MARKET', 'Short market order opened successfully', successResult);
@@ -587,6 +925,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     const errorResult = {
                         success: false,
                         error: formatError(error),
+                        attempts: queueAttempts(error),
                         message: "Failed to open short market order"
                     };
                     
@@ -602,6 +941,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
             name: "open_short_limit",
             description: "Open a short position with a limit order (executes when price reaches or goes above your specified limit price).",
             schema: z.object({
+                account: accountParam(),
+                chain: chainParam(),
                 marketAddress: z.string().describe("Market token address from getMarketsInfo response (e.g. '0x70d95587d40A2caf56bd97485aB3Eec10Bee6336' for ETH/USD market)"),
                 payAmount: z.string().describe("Amount to pay in BigInt string format using token's native decimals (e.g. '1000000' for 1 USDC with 6 decimals). Use this for collateral-based position sizing."),
                 payTokenAddress: z.string().describe("ERC20 token contract address you're paying with (e.g. '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' for USDC)"),
@@ -611,6 +952,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
             }),
             async handler(data, ctx, agent) {
                 try {
+                    const { sdk, gmxDataCache, riskEngine, transactionQueue, eventWatcher } = accounts.getChain(data.account, data.chain);
                     
                     const marketsResult = await gmxDataCache.getMarketsInfo().catch(error => {
                         const errorMsg = `Failed to get market data: ${error.message || error}`;
@@ -660,7 +1002,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                         marketAddress: data.marketAddress,
                         payTokenAddress: data.payTokenAddress,
                         collateralTokenAddress: data.collateralTokenAddress,
-                        allowedSlippageBps: FIXED_SLIPPAGE_BPS,
+                        allowedSlippageBps: executionConfig().slippageBps,
                         payAmount: safeBigInt(data.payAmount),
                         limitPrice: safeBigInt(data.limitPrice) // Always include limit price for limit orders
                     };
@@ -670,21 +1012,30 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     }
     
                     console.warn('OPEN_SHORT_LIMIT', 'Helper params prepared', helperParams);
+
+                    const riskRejection = await checkIncreaseRisk('OPEN_SHORT_LIMIT', "Failed to place short limit order", riskEngine, helperParams, false);
+                    if (riskRejection) {
+                        return riskRejection;
+                    }
     
-                    const result = await transactionQueue.enqueueWriteTransaction(
+                    let orderCursor = 0;
+                    const orderMatch: CreatedOrderMatch = { market: data.marketAddress, isLong: false, orderType: ORDER_TYPE.LimitIncrease };
+                    const { transactionHash, attempts } = await transactionQueue.enqueueWriteTransaction(
                         "open_short_limit",
                         async () => {            
+                            orderCursor = eventWatcher?.getOrderCursor() ?? 0;
                             return await sdk.orders.short(helperParams).catch(error => {
                                 console.error('OPEN_SHORT_LIMIT', error, { helperParams, stage: 'sdk.orders.short' });
-                                throw new Error(`Failed to open short limit order: ${error.message || error}`);
+                                throw new Error(`Failed to open short limit order: ${error.message || error}`, { cause: error });
                             });
-                        }
+                        },
+                        { params: { ...data, isLong: false }, priority: TransactionPriority.OPEN, confirmSent: since => wasOrderCreated(eventWatcher, gmxDataCache, orderCursor, orderMatch, since) }
                     );
     
                     let memory = ctx.memory as GmxMemory;
                     
                     // Update memory with fresh order data after placing limit order
-                    memory = await updateOrdersMemory(memory, sdk, gmxDataCache);
+                    memory = await updateOrdersMemory(memory, gmxDataCache, waitForOrderCreation(eventWatcher, orderCursor, orderMatch));
                     
                     const leverageX = data.leverage ? parseFloat(data.leverage) / 10000 : 'Auto';
                     memory = {
@@ -706,7 +1057,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                             limitPrice: formatUsdAmount(BigInt(data.limitPrice), 2),
                             leverage: typeof leverageX === 'number' ? `${leverageX}x` : leverageX,
                         },
-                        transactionHash: result?.transactionHash || null
+                        transactionHash,
+                        attempts
                     };
                     
                     console.warn('OPEN_SHORT_LIMIT', 'Short limit order placed successfully', successResult);
@@ -716,6 +1068,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     const errorResult = {
                         success: false,
                         error: formatError(error),
+                        attempts: queueAttempts(error),
                         message: "Failed to place short limit order"
                     };
                     
@@ -732,11 +1085,14 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
         name: "close_position",
         description: "Fully close an existing position (long or short) automatically. Detects position direction and closes the entire position.",
         schema: z.object({
+            account: accountParam(),
+            chain: chainParam(),
             marketAddress: z.string().describe("Market token address from get_positions response - must be the exact marketAddress field"),
             receiveTokenAddress: z.string().describe("Token address to receive proceeds in (typically USDC: 0xaf88d065e77c8cC2239327C5EDb3A432268e5831 or the collateral token)"),
         }),
         async handler(data, ctx, agent) {
             try {
+                const { sdk, gmxDataCache, transactionQueue, eventWatcher, orderTracker } = accounts.getChain(data.account, data.chain);
                 let memory = ctx.memory as GmxMemory;
                 
 
@@ -779,20 +1135,24 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 const asset = getAssetFromMarketName(marketInfo.name);
                 if (asset) {
                     // Get current percentile from Synth analysis
-                    const synthAnalysis = await get_synth_analysis_str(asset, gmxDataCache);
-                    const currentPercentile = extractPercentileFromSynthAnalysis(synthAnalysis);
+                    const synthAnalysis = await get_synth_analysis(asset, gmxDataCache);
                     
-                    if (currentPercentile !== null) {
-                        // Check percentile conditions: P48+ for longs, P52- for shorts
-                        if (isLong && currentPercentile < 48) {
-                            throw new Error(`Cannot close LONG position at P${currentPercentile.toFixed(1)}. Price must be above P48 for profitable exit. Current percentile indicates price is still low - hold for mean reversion.`);
+                    if (synthAnalysis.success) {
+                        const currentPercentile = synthAnalysis.currentPercentile;
+                        const { config, version } = strategyConfig.getLoaded();
+                        const { longMinPercentile, shortMaxPercentile } = config.closeGuard;
+                        // Check percentile conditions: P48+ for longs, P52- for shorts by default
+                        if (isLong && currentPercentile < longMinPercentile) {
+                            console.warn(`[CLOSE_POSITION] Percentile guard blocked LONG close at P${currentPercentile.toFixed(1)} < P${longMinPercentile} (config ${version})`);
+                            throw new Error(`Cannot close LONG position at P${currentPercentile.toFixed(1)}. Price must be above P${longMinPercentile} for profitable exit. Current percentile indicates price is still low - hold for mean reversion.`);
                         }
-                        if (!isLong && currentPercentile > 52) {
-                            throw new Error(`Cannot close SHORT position at P${currentPercentile.toFixed(1)}. Price must be below P52 for profitable exit. Current percentile indicates price is still high - hold for mean reversion.`);
+                        if (!isLong && currentPercentile > shortMaxPercentile) {
+                            console.warn(`[CLOSE_POSITION] Percentile guard blocked SHORT close at P${currentPercentile.toFixed(1)} > P${shortMaxPercentile} (config ${version})`);
+                            throw new Error(`Cannot close SHORT position at P${currentPercentile.toFixed(1)}. Price must be below P${shortMaxPercentile} for profitable exit. Current percentile indicates price is still high - hold for mean reversion.`);
                         }
-                        console.warn(`[CLOSE_POSITION] Percentile check passed: P${currentPercentile.toFixed(1)} for ${direction} position`);
+                        console.warn(`[CLOSE_POSITION] Percentile check passed: P${currentPercentile.toFixed(1)} for ${direction} position (config ${version})`);
                     } else {
-                        console.warn(`[CLOSE_POSITION] Could not determine percentile, proceeding with close`);
+                        console.warn(`[CLOSE_POSITION] Could not determine percentile (${synthAnalysis.error}), proceeding with close`);
                     }
                 }
                 
@@ -810,11 +1170,10 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     throw new Error("Failed to get token data for position");
                 }
                 
+                // Full close at market with fixed slippage - the kill switch sends the same order
+                const { decreaseAmounts, markPrice } = buildFullCloseDecreaseAmounts(position, indexToken, collateralToken);
+                
                 // Calculate PnL to check if positive
-                const markPrice = isLong ? 
-                    (indexToken.prices?.maxPrice || 0n) : 
-                    (indexToken.prices?.minPrice || 0n);
-                    
                 const calculatedPnl = calculatePositionPnl({
                     sizeInUsd: position.sizeInUsd,
                     sizeInTokens: position.sizeInTokens,
@@ -831,98 +1190,58 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 
                 console.warn(`[CLOSE_POSITION] Position PnL: ${formatUsdAmount(calculatedPnl, 2)} - Proceeding with close`);
                 */    
-                // Use GMX SDK's low-level transaction method with proper DecreasePositionAmounts
-                const slippageBps = FIXED_SLIPPAGE_BPS;
-                    
-                // For longs: subtract price impact buffer (willing to accept lower price)
-                // For shorts: add price impact buffer (willing to accept higher price)
-                const acceptablePrice = isLong ? 
-                    markPrice - (markPrice * BigInt(FIXED_PRICE_IMPACT_BPS) / 10000n) :
-                    markPrice + (markPrice * BigInt(FIXED_PRICE_IMPACT_BPS) / 10000n);
-                
-                const collateralPrice = collateralToken.prices?.minPrice || 0n;
-                const collateralDeltaUsd = convertToUsd(
-                    position.collateralAmount,
-                    collateralToken.decimals,
-                    collateralPrice
-                ) || 0n;
-                                                
-                // Create complete DecreasePositionAmounts object with ALL required fields
-                const decreaseAmounts = {
-                    isFullClose: true,
-                    sizeDeltaUsd: position.sizeInUsd,
-                    sizeDeltaInTokens: position.sizeInTokens,
-                    collateralDeltaUsd: collateralDeltaUsd,
-                    collateralDeltaAmount: position.collateralAmount,
-                    indexPrice: markPrice,
-                    collateralPrice: collateralPrice,
-                    acceptablePrice: acceptablePrice,
-                    acceptablePriceDeltaBps: BigInt(slippageBps),
-                    recommendedAcceptablePriceDeltaBps: BigInt(slippageBps),
-                    estimatedPnl: 0n,
-                    estimatedPnlPercentage: 0n,
-                    realizedPnl: 0n,
-                    realizedPnlPercentage: 0n,
-                    positionFeeUsd: 0n,
-                    uiFeeUsd: 0n,
-                    swapUiFeeUsd: 0n,
-                    feeDiscountUsd: 0n,
-                    borrowingFeeUsd: 0n,
-                    fundingFeeUsd: 0n,
-                    swapProfitFeeUsd: 0n,
-                    positionPriceImpactDeltaUsd: 0n,
-                    priceImpactDiffUsd: 0n,
-                    payedRemainingCollateralAmount: 0n,
-                    payedOutputUsd: 0n,
-                    payedRemainingCollateralUsd: 0n,
-                    receiveTokenAmount: 0n,
-                    receiveUsd: 0n,
-                    decreaseSwapType: 0, // No swap by default
-                };
-                
                 console.warn('CLOSE_POSITION', 'DecreaseAmounts prepared', { 
                     fieldCount: Object.keys(decreaseAmounts).length,
                     decreaseAmounts 
                 });
 
-                const result = await transactionQueue.enqueueWriteTransaction(
+                let orderCursor = 0;
+                const orderMatch: CreatedOrderMatch = { market: data.marketAddress, isLong, orderType: ORDER_TYPE.MarketDecrease, sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd };
+                const { transactionHash, attempts } = await transactionQueue.enqueueWriteTransaction(
                     "close_position", 
                     async () => {
+                        orderCursor = eventWatcher?.getOrderCursor() ?? 0;
                         return await sdk.orders.createDecreaseOrder({
                             marketsInfoData,
                             tokensData,
                             marketInfo,
                             decreaseAmounts,
                             collateralToken,
-                            allowedSlippage: FIXED_SLIPPAGE_BPS,
+                            allowedSlippage: executionConfig().slippageBps,
                             isLong: isLong,
                             referralCode: undefined,
                             isTrigger: false // Market order
+                        }).catch(error => {
+                            console.error('CLOSE_POSITION', error, { 
+                                stage: 'createDecreaseOrder',
+                                direction,
+                                decreaseAmounts
+                            });
+                            let errorMessage = `Failed to close ${direction.toLowerCase()} position`;
+                            
+                            if (error?.message?.includes("insufficient")) {
+                                errorMessage = "Insufficient liquidity or invalid parameters";
+                            } else if (error?.message?.includes("slippage")) {
+                                errorMessage = "Slippage tolerance exceeded";
+                            } else if (error?.message?.includes("fee")) {
+                                errorMessage = "Insufficient funds for execution fee";
+                            } else if (error?.message) {
+                                errorMessage = error.message;
+                            }
+                            
+                            throw new Error(errorMessage, { cause: error });
                         });
-                    }
-                ).catch(error => {
-                    console.error('CLOSE_POSITION', error, { 
-                        stage: 'createDecreaseOrder',
-                        direction,
-                        decreaseAmounts
-                    });
-                    let errorMessage = `Failed to close ${direction.toLowerCase()} position`;
-                    
-                    if (error?.message?.includes("insufficient")) {
-                        errorMessage = "Insufficient liquidity or invalid parameters";
-                    } else if (error?.message?.includes("slippage")) {
-                        errorMessage = "Slippage tolerance exceeded";
-                    } else if (error?.message?.includes("fee")) {
-                        errorMessage = "Insufficient funds for execution fee";
-                    } else if (error?.message) {
-                        errorMessage = error.message;
-                    }
-                    
-                    throw new Error(errorMessage);
-                });
+                    },
+                    { params: { ...data, isLong }, deadlineMs: MARKET_ORDER_DEADLINE_MS, priority: TransactionPriority.EMERGENCY_CLOSE, confirmSent: since => wasOrderCreated(eventWatcher, gmxDataCache, orderCursor, orderMatch, since) }
+                );
                                
                 // Update memory with fresh data after closing position
-                memory = await updateMemoryAfterClose(memory, sdk, gmxDataCache);
+                const orderSettled = waitForOrderSettlement(eventWatcher, orderCursor, orderMatch);
+                memory = await updateMemoryAfterClose(memory, gmxDataCache, orderSettled);
+                const execution = executionReport(orderTracker, await orderSettled);
+                if (execution && (execution.status === 'cancelled' || execution.status === 'frozen')) {
+                    return keeperRejection('CLOSE_POSITION', "Failed to close position", execution, transactionHash, attempts);
+                }
                 
                 memory = {
                     ...memory,
@@ -943,7 +1262,9 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                         receiveToken: receiveToken.symbol,
                         closePercentage: `100%`,
                     },
-                    transactionHash: result?.transactionHash || null
+                    execution,
+                    transactionHash,
+                    attempts
                 };
                 
                 console.warn('CLOSE_POSITION', 'Position closed successfully', successResult);
@@ -953,6 +1274,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 const errorResult = {
                     success: false,
                     error: formatError(error),
+                    attempts: queueAttempts(error),
                     message: "Failed to close position"
                 };
                 
@@ -971,6 +1293,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
         name: "swap_tokens",
         description: "Swap tokens using GMX's liquidity pools. Specify EITHER fromAmount (when you know input amount, e.g., swapping X USDC) OR toAmount (when you need exact output amount). For USDC swaps, typically use fromAmount.",
         schema: z.object({
+            account: accountParam(),
+            chain: chainParam(),
             fromTokenAddress: z.string().describe("ERC20 token address to swap from (e.g. '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' for USDC)"),
             toTokenAddress: z.string().describe("ERC20 token address to receive (e.g. '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1' for WETH)"),
             fromAmount: z.string().optional().describe("Amount to swap in BigInt string using token's native decimals (e.g. '1000000' for 1 USDC with 6 decimals). Use this when swapping FROM a stablecoin like USDC."),
@@ -981,6 +1305,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
         }),
         async handler(data, ctx, agent) {
             try {
+                const { sdk, gmxDataCache, transactionQueue, eventWatcher, orderTracker } = accounts.getChain(data.account, data.chain);
                 let memory = ctx.memory as GmxMemory;
                 
 
@@ -1019,7 +1344,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 const swapParams: any = {
                     fromTokenAddress: data.fromTokenAddress,
                     toTokenAddress: data.toTokenAddress,
-                    allowedSlippageBps: FIXED_SLIPPAGE_BPS,
+                    allowedSlippageBps: executionConfig().slippageBps,
                 };
 
                 // Add amount parameter (either fromAmount or toAmount)
@@ -1038,7 +1363,13 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 const isLimitOrder = !!data.triggerPrice;
                 const orderType = isLimitOrder ? 'Limit' : 'Market';
 
-                const result = await transactionQueue.enqueueWriteTransaction(
+                let orderCursor = 0;
+                const orderMatch: CreatedOrderMatch = {
+                    orderType: isLimitOrder ? ORDER_TYPE.LimitSwap : ORDER_TYPE.MarketSwap,
+                    // The router wraps the native token before the order is created
+                    initialCollateralToken: fromToken.isNative ? fromToken.wrappedAddress : fromToken.address
+                };
+                const { transactionHash, attempts } = await transactionQueue.enqueueWriteTransaction(
                     "swap_tokens",
                     async () => {
                         console.warn('SWAP_TOKENS', 'Executing swap transaction', { 
@@ -1050,6 +1381,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                             triggerPrice: data.triggerPrice ? `$${(Number(data.triggerPrice) / 1e30).toFixed(6)}` : undefined
                         });
 
+                        orderCursor = eventWatcher?.getOrderCursor() ?? 0;
                         return await sdk.orders.swap(swapParams).catch(error => {
                             console.error('SWAP_TOKENS', error, { 
                                 swapParams,
@@ -1069,9 +1401,10 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                                 errorMessage = "Synthetic tokens are not supported for swaps";
                             }
                             
-                            throw new Error(errorMessage);
+                            throw new Error(errorMessage, { cause: error });
                         });
-                    }
+                    },
+                    { params: data, deadlineMs: isLimitOrder ? undefined : MARKET_ORDER_DEADLINE_MS, priority: TransactionPriority.SWAP, confirmSent: since => wasOrderCreated(eventWatcher, gmxDataCache, orderCursor, orderMatch, since) }
                 );
 
                 let swapAmountDisplay = '';
@@ -1088,7 +1421,12 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 }
 
                 // Update memory with fresh portfolio data after swap
-                memory = await updatePortfolioMemory(memory, gmxDataCache);
+                const orderSettled = isLimitOrder ? waitForOrderCreation(eventWatcher, orderCursor, orderMatch) : waitForOrderSettlement(eventWatcher, orderCursor, orderMatch);
+                memory = await updatePortfolioMemory(memory, gmxDataCache, orderSettled);
+                const execution = executionReport(orderTracker, await orderSettled);
+                if (execution && (execution.status === 'cancelled' || execution.status === 'frozen')) {
+                    return keeperRejection('SWAP_TOKENS', "Failed to execute token swap", execution, transactionHash, attempts);
+                }
 
                 memory = {
                     ...memory,
@@ -1106,7 +1444,9 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                         fromAmount: swapAmountDisplay,
                         toAmount: receiveAmountDisplay
                     },
-                    transactionHash: result?.transactionHash || null
+                    execution,
+                    transactionHash,
+                    attempts
                 };
 
                 console.warn('SWAP_TOKENS', 'Swap initiated successfully', successResult);
@@ -1116,6 +1456,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 const errorResult = {
                     success: false,
                     error: formatError(error),
+                    attempts: queueAttempts(error),
                     message: "Failed to execute token swap"
                 };
                 
@@ -1134,12 +1475,15 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
         name: "set_take_profit",
         description: "Set a take profit order for an existing position. Creates a LimitDecrease order that executes when price reaches profit target. Specify percentage of position to close (1-100).",
         schema: z.object({
+            account: accountParam(),
+            chain: chainParam(),
             marketAddress: z.string().describe("Market address of the position (from get_positions response)"),
             triggerPrice: z.string().describe("Price at which to take profit in BigInt string with 30-decimal precision (e.g. '67000000000000000000000000000000000' for $67,000)"),
             percentage: z.number().min(1).max(100).describe("Percentage of position to close (1-100). Use 100 for full position close.")
         }),
         async handler(data, ctx, agent) {
             try {
+                const { sdk, gmxDataCache, transactionQueue, eventWatcher } = accounts.getChain(data.account, data.chain);
                 let memory = ctx.memory as GmxMemory;
                 
                 console.warn(`[SET_TAKE_PROFIT] Starting take profit order creation`);
@@ -1220,10 +1564,10 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     collateralPrice: collateralToken.prices?.minPrice || 0n,
                     triggerPrice: BigInt(data.triggerPrice),
                     acceptablePrice: isLong ? 
-                        BigInt(data.triggerPrice) - (BigInt(data.triggerPrice) * BigInt(FIXED_PRICE_IMPACT_BPS) / 10000n) :
-                        BigInt(data.triggerPrice) + (BigInt(data.triggerPrice) * BigInt(FIXED_PRICE_IMPACT_BPS) / 10000n),
-                    acceptablePriceDeltaBps: BigInt(FIXED_SLIPPAGE_BPS),
-                    recommendedAcceptablePriceDeltaBps: BigInt(FIXED_SLIPPAGE_BPS),
+                        BigInt(data.triggerPrice) - (BigInt(data.triggerPrice) * BigInt(executionConfig().priceImpactBps) / 10000n) :
+                        BigInt(data.triggerPrice) + (BigInt(data.triggerPrice) * BigInt(executionConfig().priceImpactBps) / 10000n),
+                    acceptablePriceDeltaBps: BigInt(executionConfig().slippageBps),
+                    recommendedAcceptablePriceDeltaBps: BigInt(executionConfig().slippageBps),
                     estimatedPnl: 0n,
                     estimatedPnlPercentage: 0n,
                     realizedPnl: 0n,
@@ -1253,16 +1597,19 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     positionSize: formatUsdAmount(positionSizeUsd, 2)
                 });
                 
-                const result = await transactionQueue.enqueueWriteTransaction(
+                let orderCursor = 0;
+                const orderMatch: CreatedOrderMatch = { market: data.marketAddress, isLong, orderType: ORDER_TYPE.LimitDecrease, sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd };
+                const { transactionHash, attempts } = await transactionQueue.enqueueWriteTransaction(
                     "set_take_profit",
                     async () => {                        
+                        orderCursor = eventWatcher?.getOrderCursor() ?? 0;
                         return await sdk.orders.createDecreaseOrder({
                             marketsInfoData,
                             tokensData,
                             marketInfo,
                             decreaseAmounts,
                             collateralToken,
-                            allowedSlippage: FIXED_SLIPPAGE_BPS,
+                            allowedSlippage: executionConfig().slippageBps,
                             isLong: isLong,
                             referralCode: undefined,
                             isTrigger: true // This is a trigger order
@@ -1272,13 +1619,14 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                                 triggerPrice: triggerPriceDecimal,
                                 decreaseAmounts 
                             });
-                            throw new Error(`Failed to create take profit order: ${error.message || error}`);
+                            throw new Error(`Failed to create take profit order: ${error.message || error}`, { cause: error });
                         });
-                    }
+                    },
+                    { params: { ...data, isLong }, priority: TransactionPriority.TAKE_PROFIT, confirmSent: since => wasOrderCreated(eventWatcher, gmxDataCache, orderCursor, orderMatch, since) }
                 );
                 
                 // Update memory with fresh order data after setting take profit
-                memory = await updateOrdersMemory(memory, sdk, gmxDataCache);
+                memory = await updateOrdersMemory(memory, gmxDataCache, waitForOrderCreation(eventWatcher, orderCursor, orderMatch));
                 
                 memory = {
                     ...memory,
@@ -1301,7 +1649,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                             `+${((triggerPriceDecimal - currentPrice) / currentPrice * 100).toFixed(2)}%` :
                             `+${((currentPrice - triggerPriceDecimal) / currentPrice * 100).toFixed(2)}%`,
                     },
-                    transactionHash: result?.transactionHash || null
+                    transactionHash,
+                    attempts
                 };
                 
                 console.warn('SET_TAKE_PROFIT', 'Take profit order created successfully', successResult);
@@ -1311,6 +1660,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 const errorResult = {
                     success: false,
                     error: formatError(error),
+                    attempts: queueAttempts(error),
                     message: "Failed to set take profit order"
                 };
                 
@@ -1325,12 +1675,15 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
         name: "set_stop_loss",
         description: "Set a stop loss order for an existing position. Creates a StopLossDecrease order that executes when price reaches stop loss level. Specify percentage of position to close (1-100).",
         schema: z.object({
+            account: accountParam(),
+            chain: chainParam(),
             marketAddress: z.string().describe("Market address of the position (from get_positions response)"),
             triggerPrice: z.string().describe("Price at which to stop loss in BigInt string with 30-decimal precision (e.g. '63000000000000000000000000000000000' for $63,000)"),
             percentage: z.number().min(1).max(100).describe("Percentage of position to close (1-100). Use 100 for full position close.")
         }),
         async handler(data, ctx, agent) {
             try {
+                const { sdk, gmxDataCache, transactionQueue, eventWatcher } = accounts.getChain(data.account, data.chain);
                 let memory = ctx.memory as GmxMemory;
                 
                 console.warn(`[SET_STOP_LOSS] Starting stop loss order creation`);
@@ -1418,10 +1771,10 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     collateralPrice: collateralToken.prices?.minPrice || 0n,
                     triggerPrice: BigInt(data.triggerPrice),
                     acceptablePrice: isLong ? 
-                        BigInt(data.triggerPrice) - (BigInt(data.triggerPrice) * BigInt(FIXED_PRICE_IMPACT_BPS) / 10000n) :
-                        BigInt(data.triggerPrice) + (BigInt(data.triggerPrice) * BigInt(FIXED_PRICE_IMPACT_BPS) / 10000n),
-                    acceptablePriceDeltaBps: BigInt(FIXED_SLIPPAGE_BPS),
-                    recommendedAcceptablePriceDeltaBps: BigInt(FIXED_SLIPPAGE_BPS),
+                        BigInt(data.triggerPrice) - (BigInt(data.triggerPrice) * BigInt(executionConfig().priceImpactBps) / 10000n) :
+                        BigInt(data.triggerPrice) + (BigInt(data.triggerPrice) * BigInt(executionConfig().priceImpactBps) / 10000n),
+                    acceptablePriceDeltaBps: BigInt(executionConfig().slippageBps),
+                    recommendedAcceptablePriceDeltaBps: BigInt(executionConfig().slippageBps),
                     estimatedPnl: 0n,
                     estimatedPnlPercentage: 0n,
                     realizedPnl: 0n,
@@ -1444,16 +1797,19 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                     decreaseSwapType: 0, // NoSwap
                 };
 
-                const result = await transactionQueue.enqueueWriteTransaction(
+                let orderCursor = 0;
+                const orderMatch: CreatedOrderMatch = { market: data.marketAddress, isLong, orderType: ORDER_TYPE.StopLossDecrease, sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd };
+                const { transactionHash, attempts } = await transactionQueue.enqueueWriteTransaction(
                     "set_stop_loss",
                     async () => {
+                        orderCursor = eventWatcher?.getOrderCursor() ?? 0;
                         return await sdk.orders.createDecreaseOrder({
                             marketsInfoData,
                             tokensData,
                             marketInfo,
                             decreaseAmounts,
                             collateralToken,
-                            allowedSlippage: FIXED_SLIPPAGE_BPS,
+                            allowedSlippage: executionConfig().slippageBps,
                             isLong: isLong,
                             referralCode: undefined,
                             isTrigger: true // This is a trigger order
@@ -1463,13 +1819,14 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                                 triggerPrice: triggerPriceDecimal,
                                 decreaseAmounts 
                             });
-                            throw new Error(`Failed to create stop loss order: ${error.message || error}`);
+                            throw new Error(`Failed to create stop loss order: ${error.message || error}`, { cause: error });
                         });
-                    }
+                    },
+                    { params: { ...data, isLong }, priority: TransactionPriority.STOP_LOSS, confirmSent: since => wasOrderCreated(eventWatcher, gmxDataCache, orderCursor, orderMatch, since) }
                 );
                 
                 // Update memory with fresh order data after setting stop loss
-                memory = await updateOrdersMemory(memory, sdk, gmxDataCache);
+                memory = await updateOrdersMemory(memory, gmxDataCache, waitForOrderCreation(eventWatcher, orderCursor, orderMatch));
                 
                 memory = {
                     ...memory,
@@ -1492,7 +1849,8 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                             `-${((currentPrice - triggerPriceDecimal) / currentPrice * 100).toFixed(2)}%` :
                             `-${((triggerPriceDecimal - currentPrice) / currentPrice * 100).toFixed(2)}%`,
                     },
-                    transactionHash: result?.transactionHash || null
+                    transactionHash,
+                    attempts
                 };
                 
                 console.warn('SET_STOP_LOSS', 'Stop loss order created successfully', successResult);
@@ -1502,6 +1860,7 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
                 const errorResult = {
                     success: false,
                     error: formatError(error),
+                    attempts: queueAttempts(error),
                     message: "Failed to set stop loss order"
                 };
                 
@@ -1511,4 +1870,6 @@ export function createGmxActions(sdk: GmxSdk, gmxDataCache: EnhancedDataCache) {
         }
     }),
 ];
+
+    return actions.map(definition => reportActionResult(definition, onResult));
 }
\ No newline at end of file
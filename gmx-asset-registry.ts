@@ -0,0 +1,261 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗂️ GMX ASSET REGISTRY - SYMBOL TO MARKET RESOLUTION
+// ═══════════════════════════════════════════════════════════════════════════════
+// Maps each configured asset to a live GMX perp market on every traded chain,
+// discovered from getMarketsInfo. Resolution runs once at startup and fails
+// loudly, so a typo or a delisted market stops the agent instead of trading the
+// wrong pair.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { z } from "zod/v4";
+import type { EnhancedDataCache } from './gmx-cache';
+import { ASSETS, ASSET_MARKETS, GMX_NETWORKS, type Asset, type AssetMarketConfig, type GmxNetwork, type ResolvedAssetMarket } from './gmx-types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const AssetMarketOverridesSchema = z.partialRecord(z.enum(ASSETS), z.object({
+    marketAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Must be a 0x-prefixed market token address').optional(),
+    collateralToken: z.string().min(1).optional(),
+    candleSymbol: z.string().min(1).optional(),
+}).strict());
+
+/**
+ * Read per-asset market overrides for a network, a JSON object keyed by asset:
+ * {"SOL": {"marketAddress": "0x...", "candleSymbol": "SOL"}}
+ * GMX_<NETWORK>_ASSET_MARKETS applies to that network; GMX_ASSET_MARKETS to the primary network.
+ */
+export const createAssetMarketConfigFromEnv = (env: {
+    GMX_ASSET_MARKETS?: string;
+    [key: string]: unknown;
+}, network: GmxNetwork, isPrimary: boolean = true): Record<Asset, AssetMarketConfig> => {
+    const networkKey = `GMX_${network.toUpperCase()}_ASSET_MARKETS`;
+    const networkValue = env[networkKey];
+    const [envKey, value] = typeof networkValue === 'string' && networkValue.length > 0
+        ? [networkKey, networkValue]
+        : ['GMX_ASSET_MARKETS', isPrimary ? env.GMX_ASSET_MARKETS : undefined];
+
+    if (!value) {
+        return ASSET_MARKETS[network];
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(value);
+    } catch (error) {
+        throw new Error(`${envKey} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const parsed = AssetMarketOverridesSchema.safeParse(raw);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+        throw new Error(`Invalid ${envKey}:\n  ${issues.join('\n  ')}`);
+    }
+
+    return Object.fromEntries(ASSETS.map(asset => {
+        const override = parsed.data[asset];
+        const defaults = ASSET_MARKETS[network][asset];
+        // A pinned market brings its own collateral - only an explicit collateralToken is checked against it
+        const base = override?.marketAddress ? { candleSymbol: defaults.candleSymbol } : defaults;
+        return [asset, { ...base, ...override }];
+    })) as Record<Asset, AssetMarketConfig>;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗂️ ASSET REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Resolution state for one chain
+interface NetworkMarkets {
+    resolved: Map<Asset, ResolvedAssetMarket>;
+    // Every live perp market whose index token is a configured asset - positions may sit in a non-primary market
+    assetByMarketName: Map<string, Asset>;
+    assetByMarketAddress: Map<string, Asset>;
+}
+
+export class AssetRegistry {
+    private static instance: AssetRegistry;
+    private primaryNetwork: GmxNetwork = GMX_NETWORKS[0];
+    private configs = new Map<GmxNetwork, Record<Asset, AssetMarketConfig>>();
+    private networks = new Map<GmxNetwork, NetworkMarkets>();
+
+    private constructor() {}
+
+    public static getInstance(): AssetRegistry {
+        if (!AssetRegistry.instance) {
+            AssetRegistry.instance = new AssetRegistry();
+        }
+        return AssetRegistry.instance;
+    }
+
+    /**
+     * The network lookups default to when none is given
+     */
+    public setPrimaryNetwork(network: GmxNetwork): void {
+        this.primaryNetwork = network;
+    }
+
+    public configure(config: Record<Asset, AssetMarketConfig>, network: GmxNetwork = this.primaryNetwork): void {
+        this.configs.set(network, config);
+    }
+
+    public isResolved(network: GmxNetwork = this.primaryNetwork): boolean {
+        return this.networks.get(network)?.resolved.size === ASSETS.length;
+    }
+
+    /**
+     * Discover the cache's chain markets and resolve every configured asset. Throws listing every asset
+     * that does not map to a live, non-spot-only market; the previous resolution is kept in that case.
+     */
+    public async resolve(gmxDataCache: EnhancedDataCache): Promise<ResolvedAssetMarket[]> {
+        const network = gmxDataCache.getNetwork();
+        const configs = this.getConfig(network);
+        const { marketsInfoData, tokensData } = await gmxDataCache.getMarketsInfo();
+        if (!marketsInfoData || !tokensData) {
+            throw new Error(`Failed to get ${network} market and token data for the asset registry`);
+        }
+
+        const indexSymbolOf = (info: any): string | undefined => {
+            const token = tokensData[info.indexTokenAddress];
+            return token ? (token.baseSymbol || token.symbol) : undefined;
+        };
+        const symbolOf = (tokenAddress: string): string | undefined => tokensData[tokenAddress]?.symbol;
+
+        const perpMarkets = (Object.entries(marketsInfoData) as Array<[string, any]>)
+            .filter(([, info]) => !info.isSpotOnly)
+            .map(([address, info]) => ({ address, info, indexSymbol: indexSymbolOf(info) }));
+
+        const assetByMarketName = new Map<string, Asset>();
+        const assetByMarketAddress = new Map<string, Asset>();
+        for (const market of perpMarkets) {
+            const asset = ASSETS.find(candidate => candidate === market.indexSymbol);
+            if (asset) {
+                assetByMarketName.set(market.info.name, asset);
+                assetByMarketAddress.set(market.address.toLowerCase(), asset);
+            }
+        }
+
+        const resolved = new Map<Asset, ResolvedAssetMarket>();
+        const errors: string[] = [];
+
+        for (const asset of ASSETS) {
+            const config = configs[asset];
+            let market: { address: string; info: any } | undefined;
+
+            if (config.marketAddress) {
+                const pinned = (Object.entries(marketsInfoData) as Array<[string, any]>)
+                    .find(([address]) => address.toLowerCase() === config.marketAddress!.toLowerCase());
+                if (!pinned) {
+                    errors.push(`${asset}: market ${config.marketAddress} not found`);
+                    continue;
+                }
+                const [address, info] = pinned;
+                if (info.isSpotOnly) {
+                    errors.push(`${asset}: market ${info.name} (${address}) is spot-only`);
+                    continue;
+                }
+                if (indexSymbolOf(info) !== asset) {
+                    errors.push(`${asset}: market ${info.name} (${address}) has index token ${indexSymbolOf(info) ?? 'unknown'}`);
+                    continue;
+                }
+                if (config.collateralToken && symbolOf(info.longTokenAddress) !== config.collateralToken) {
+                    errors.push(`${asset}: market ${info.name} (${address}) has collateral ${symbolOf(info.longTokenAddress) ?? 'unknown'}, configured ${config.collateralToken}`);
+                    continue;
+                }
+                market = { address, info };
+            } else {
+                // Prefer USDC-quoted markets, then the deepest pool
+                const candidates = perpMarkets
+                    .filter(candidate => candidate.indexSymbol === asset && !candidate.info.isDisabled)
+                    .filter(candidate => !config.collateralToken || symbolOf(candidate.info.longTokenAddress) === config.collateralToken)
+                    .sort((a, b) => {
+                        const usdcA = symbolOf(a.info.shortTokenAddress) === 'USDC' ? 1 : 0;
+                        const usdcB = symbolOf(b.info.shortTokenAddress) === 'USDC' ? 1 : 0;
+                        if (usdcA !== usdcB) return usdcB - usdcA;
+                        const poolA = BigInt(a.info.poolValueMax ?? 0n);
+                        const poolB = BigInt(b.info.poolValueMax ?? 0n);
+                        return poolA === poolB ? 0 : poolA > poolB ? -1 : 1;
+                    });
+
+                if (candidates.length === 0) {
+                    const available = perpMarkets.filter(candidate => candidate.indexSymbol === asset).map(candidate => `${candidate.info.name}${candidate.info.isDisabled ? ' (disabled)' : ''}`);
+                    errors.push(`${asset}: no live perp market${config.collateralToken ? ` with collateral ${config.collateralToken}` : ''}` +
+                        (available.length > 0 ? ` (available: ${available.join(', ')})` : ''));
+                    continue;
+                }
+                market = candidates[0];
+            }
+
+            if (market.info.isDisabled) {
+                errors.push(`${asset}: market ${market.info.name} (${market.address}) is disabled`);
+                continue;
+            }
+
+            resolved.set(asset, {
+                asset,
+                network,
+                marketAddress: market.address,
+                marketName: market.info.name,
+                indexTokenAddress: market.info.indexTokenAddress,
+                collateralToken: symbolOf(market.info.longTokenAddress) ?? 'unknown',
+                collateralTokenAddress: market.info.longTokenAddress,
+                candleSymbol: config.candleSymbol ?? asset,
+            });
+        }
+
+        if (errors.length > 0) {
+            throw new Error(`Asset registry could not resolve every configured asset on ${network}:\n  ${errors.join('\n  ')}`);
+        }
+
+        this.networks.set(network, { resolved, assetByMarketName, assetByMarketAddress });
+
+        for (const market of resolved.values()) {
+            console.warn(`[AssetRegistry] ${network} ${market.asset} → ${market.marketName} (${market.marketAddress}), candles ${market.candleSymbol}`);
+        }
+        return [...resolved.values()];
+    }
+
+    public getMarket(asset: Asset, network: GmxNetwork = this.primaryNetwork): ResolvedAssetMarket {
+        const market = this.networks.get(network)?.resolved.get(asset);
+        if (!market) {
+            throw new Error(`No ${network} market resolved for ${asset} - the asset registry must be resolved at startup`);
+        }
+        return market;
+    }
+
+    // Every resolved market, on one network or all of them
+    public getMarkets(network?: GmxNetwork): ResolvedAssetMarket[] {
+        const networks = network ? [this.networks.get(network)] : [...this.networks.values()];
+        return networks.flatMap(markets => markets ? [...markets.resolved.values()] : []);
+    }
+
+    // Falls back to the configured symbol, so candles can be fetched before resolution
+    public getCandleSymbol(asset: Asset, network: GmxNetwork = this.primaryNetwork): string {
+        return this.networks.get(network)?.resolved.get(asset)?.candleSymbol ?? this.getConfig(network)[asset].candleSymbol ?? asset;
+    }
+
+    // Market names and addresses are matched across every resolved network
+    public getAssetForMarketName(marketName: string): Asset | null {
+        for (const markets of this.networks.values()) {
+            const asset = markets.assetByMarketName.get(marketName);
+            if (asset) return asset;
+        }
+        return null;
+    }
+
+    public getAssetForMarketAddress(marketAddress: string): Asset | null {
+        for (const markets of this.networks.values()) {
+            const asset = markets.assetByMarketAddress.get(marketAddress.toLowerCase());
+            if (asset) return asset;
+        }
+        return null;
+    }
+
+    private getConfig(network: GmxNetwork): Record<Asset, AssetMarketConfig> {
+        return this.configs.get(network) ?? ASSET_MARKETS[network];
+    }
+}
+
+// Export singleton instance
+export const assetRegistry = AssetRegistry.getInstance();
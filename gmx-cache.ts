@@ -1,71 +1,138 @@
 import { type GmxSdk } from "@gmx-io/sdk";
-import { type Asset } from "./gmx-utils";
+import { type Asset, formatError } from "./gmx-utils";
+import { CacheResource, type CacheResourceMetrics, formatPrometheusCacheMetrics } from "./cache-resource";
+import { assetRegistry } from "./gmx-asset-registry";
+import type { ChainConfig } from "./gmx-wallet";
+import { DEFAULT_ACCOUNT_NAME, type GmxNetwork } from "./gmx-types";
+import { tradingEvents } from "./gmx-events";
+
+export interface CacheRefreshConfig {
+    /** Serve expired data at once and refetch it in the background */
+    staleWhileRevalidate: boolean;
+    /** How far past its TTL data may still be served - older data makes callers wait for the refetch */
+    maxStaleMs: number;
+    /** A failed fetch is rethrown without refetching for this long - 0 disables error caching */
+    errorTtlMs: number;
+    /** Refresh markets, tokens and positions this long before each monitor tick - null disables it */
+    prewarmLeadMs: number | null;
+}
+
+export const DEFAULT_CACHE_REFRESH_CONFIG: CacheRefreshConfig = {
+    staleWhileRevalidate: false,
+    maxStaleMs: 60_000,
+    errorTtlMs: 5_000,
+    prewarmLeadMs: null
+};
+
+export const createCacheRefreshConfigFromEnv = (env: {
+    GMX_CACHE_STALE_WHILE_REVALIDATE?: string;
+    GMX_CACHE_MAX_STALE_MS?: string;
+    GMX_CACHE_ERROR_TTL_MS?: string;
+    GMX_CACHE_PREWARM_LEAD_MS?: string;
+}): CacheRefreshConfig => {
+    const defaults = DEFAULT_CACHE_REFRESH_CONFIG;
+    const parseMs = (name: string, value: string | undefined, fallback: number | null): number | null => {
+        if (!value) {
+            return fallback;
+        }
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 0) {
+            throw new Error(`${name} must be a non-negative number of milliseconds, got ${value}`);
+        }
+        return parsed;
+    };
+
+    return {
+        staleWhileRevalidate: env.GMX_CACHE_STALE_WHILE_REVALIDATE === 'true',
+        maxStaleMs: parseMs('GMX_CACHE_MAX_STALE_MS', env.GMX_CACHE_MAX_STALE_MS, defaults.maxStaleMs)!,
+        errorTtlMs: parseMs('GMX_CACHE_ERROR_TTL_MS', env.GMX_CACHE_ERROR_TTL_MS, defaults.errorTtlMs)!,
+        prewarmLeadMs: parseMs('GMX_CACHE_PREWARM_LEAD_MS', env.GMX_CACHE_PREWARM_LEAD_MS, defaults.prewarmLeadMs) || null
+    };
+};
+
+// How long each data type is served from memory
+export const CACHE_TTL_MS = {
+    markets: 60_000,          // 1 minute
+    tokens: 300_000,          // 5 minutes
+    positions: 300_000,       // 5 minutes
+    positionsInfo: 300_000,   // 5 minutes
+    volatility: 900_000,      // 15 minutes
+    orders: 60_000,           // 1 minute
+    candles: 60_000,          // 1 minute
+    dailyVolumes: 900_000,    // 15 minutes
+    tradeHistory: 300_000     // 5 minutes
+} as const;
+
+export type CacheResourceName = keyof typeof CACHE_TTL_MS;
+
+export interface CacheMetrics {
+    account: string;
+    network: GmxNetwork;
+    resources: CacheResourceMetrics[];
+}
 
 // Enhanced cache for all GMX data types and external APIs
 export class EnhancedDataCache {
-    // Market data cache
-    private marketCache: Map<string, { marketsInfoData: any, tokensData: any }> = new Map();
-    private lastMarketFetch: number = 0;
-    private readonly MARKET_TTL_MS = 60_000; // 1 minute
-    private marketFetchPromise: Promise<{ marketsInfoData: any, tokensData: any }> | null = null;
-
-    // Token data cache
-    private tokenCache: Map<string, any> = new Map();
-    private lastTokenFetch: number = 0;
-    private readonly TOKEN_TTL_MS = 300_000; // 5 minutes
-    private tokenFetchPromise: Promise<any> | null = null;
-
-    // Position data cache
-    private positionCache: Map<string, any> = new Map();
-    private lastPositionFetch: number = 0;
-    private readonly POSITION_TTL_MS = 300_000; // 5 minutes
-    private positionFetchPromise: Promise<any> | null = null;
-
-    // Position info cache
-    private positionInfoCache: Map<string, any> = new Map();
-    private lastPositionInfoFetch: number = 0;
-    private readonly POSITION_INFO_TTL_MS = 300_000; // 5 minutes
-    private positionInfoFetchPromise: Promise<any> | null = null;
-
-    // Volatility cache
-    private volatilityCache: Map<string, number> = new Map();
-    private lastVolatilityFetch: Map<string, number> = new Map();
-    private readonly VOLATILITY_TTL_MS = 900_000; // 15 minutes
-    private volatilityFetchPromises: Map<string, Promise<number>> = new Map();
-
-    
-    constructor(private sdk: GmxSdk) {}
+    private readonly markets: CacheResource<{ marketsInfoData: any, tokensData: any }>;
+    private readonly tokens: CacheResource<any>;
+    private readonly positions: CacheResource<any>;
+    private readonly positionsInfo: CacheResource<any>;
+    // Keyed by asset
+    private readonly volatility: CacheResource<number>;
+    private readonly orders: CacheResource<any>;
+    // Keyed by asset and period
+    private readonly candles: CacheResource<number[][]>;
+    // Volume in USD by market address
+    private readonly dailyVolumes: CacheResource<Record<string, bigint>>;
+    // Null when the trade history API is unavailable
+    private readonly tradeHistory: CacheResource<any[] | null>;
+    // Every resource above, in creation order - for metrics
+    private readonly resources: CacheResource<any>[] = [];
+
+    constructor(
+        private sdk: GmxSdk,
+        private readonly chainConfig: ChainConfig,
+        private readonly accountName: string = DEFAULT_ACCOUNT_NAME,
+        private readonly refreshConfig: CacheRefreshConfig = DEFAULT_CACHE_REFRESH_CONFIG
+    ) {
+        this.markets = this.createResource('markets');
+        this.tokens = this.createResource('tokens');
+        this.positions = this.createResource('positions');
+        this.positionsInfo = this.createResource('positionsInfo');
+        this.volatility = this.createResource('volatility');
+        this.orders = this.createResource('orders');
+        this.candles = this.createResource('candles');
+        this.dailyVolumes = this.createResource('dailyVolumes');
+        this.tradeHistory = this.createResource('tradeHistory');
+    }
+
+    getAccountName(): string {
+        return this.accountName;
+    }
+
+    getNetwork(): GmxNetwork {
+        return this.chainConfig.network;
+    }
+
+    getChainConfig(): ChainConfig {
+        return this.chainConfig;
+    }
 
     // ═══════════════════════════════════════════════════════════════════════════════
     // 📊 MARKET DATA METHODS
     // ═══════════════════════════════════════════════════════════════════════════════
 
     async getMarketsInfo(forceRefresh = false): Promise<{ marketsInfoData: any, tokensData: any }> {
-        const now = Date.now();
-        const cacheKey = "markets";
-
-        // Return cached data if still valid
-        if (!forceRefresh && this.marketCache.has(cacheKey) && (now - this.lastMarketFetch) < this.MARKET_TTL_MS) {
-            return this.marketCache.get(cacheKey)!;
-        }
-
-        // If a fetch is already in progress, return that promise
-        if (this.marketFetchPromise) {
-            return this.marketFetchPromise;
-        }
+        return this.markets.get('markets', () => this.fetchMarkets(), forceRefresh);
+    }
 
-        // Start new fetch
-        this.marketFetchPromise = this.fetchMarkets();
+    // Raw candles from the GMX API for one asset and period (15m, 1h, 4h, ...)
+    async getCandles(asset: Asset, period: string, forceRefresh = false): Promise<number[][]> {
+        return this.candles.get(`${asset}:${period}`, () => this.fetchCandles(asset, period), forceRefresh);
+    }
 
-        try {
-            const markets = await this.marketFetchPromise;
-            this.marketCache.set(cacheKey, markets);
-            this.lastMarketFetch = now;
-            console.warn(`[MarketCache] Market data cached at ${now}`);
-            return markets;
-        } finally {
-            this.marketFetchPromise = null;
-        }
+    async getDailyVolumes(forceRefresh = false): Promise<Record<string, bigint>> {
+        return this.dailyVolumes.get('dailyVolumes', () => this.fetchDailyVolumes(), forceRefresh);
     }
 
     // ═══════════════════════════════════════════════════════════════════════════════
@@ -73,31 +140,7 @@ export class EnhancedDataCache {
     // ═══════════════════════════════════════════════════════════════════════════════
 
     async getTokensData(forceRefresh = false): Promise<any> {
-        const now = Date.now();
-        const cacheKey = "tokens";
-
-        // Return cached data if still valid
-        if (!forceRefresh && this.tokenCache.has(cacheKey) && (now - this.lastTokenFetch) < this.TOKEN_TTL_MS) {
-            return this.tokenCache.get(cacheKey)!;
-        }
-
-        // If a fetch is already in progress, return that promise
-        if (this.tokenFetchPromise) {
-            return this.tokenFetchPromise;
-        }
-
-        // Start new fetch
-        this.tokenFetchPromise = this.fetchTokens();
-
-        try {
-            const tokens = await this.tokenFetchPromise;
-            this.tokenCache.set(cacheKey, tokens);
-            this.lastTokenFetch = now;
-            console.warn(`[TokenCache] Token data cached at ${now}`);
-            return tokens;
-        } finally {
-            this.tokenFetchPromise = null;
-        }
+        return this.tokens.get('tokens', () => this.fetchTokens(), forceRefresh);
     }
 
     // ═══════════════════════════════════════════════════════════════════════════════
@@ -105,58 +148,44 @@ export class EnhancedDataCache {
     // ═══════════════════════════════════════════════════════════════════════════════
 
     async getPositions(marketsData: any, tokensData: any, forceRefresh = false): Promise<any> {
-        const now = Date.now();
-        const cacheKey = "positions";
-
-        // Return cached data if still valid
-        if (!forceRefresh && this.positionCache.has(cacheKey) && (now - this.lastPositionFetch) < this.POSITION_TTL_MS) {
-            return this.positionCache.get(cacheKey)!;
-        }
-
-        // If a fetch is already in progress, return that promise
-        if (this.positionFetchPromise) {
-            return this.positionFetchPromise;
-        }
-
-        // Start new fetch
-        this.positionFetchPromise = this.fetchPositions(marketsData, tokensData);
-
-        try {
-            const positions = await this.positionFetchPromise;
-            this.positionCache.set(cacheKey, positions);
-            this.lastPositionFetch = now;
-            console.warn(`[PositionCache] Position data cached at ${now}`);
-            return positions;
-        } finally {
-            this.positionFetchPromise = null;
-        }
+        return this.positions.get('positions', () => this.fetchPositions(marketsData, tokensData), forceRefresh);
     }
 
     async getPositionsInfo(marketsInfoData: any, tokensData: any, forceRefresh = false): Promise<any> {
-        const now = Date.now();
-        const cacheKey = "positionsInfo";
+        return this.positionsInfo.get('positionsInfo', () => this.fetchPositionsInfo(marketsInfoData, tokensData), forceRefresh);
+    }
 
-        // Return cached data if still valid
-        if (!forceRefresh && this.positionInfoCache.has(cacheKey) && (now - this.lastPositionInfoFetch) < this.POSITION_INFO_TTL_MS) {
-            return this.positionInfoCache.get(cacheKey)!;
-        }
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // 📋 ORDER AND TRADE HISTORY METHODS
+    // ═══════════════════════════════════════════════════════════════════════════════
 
-        // If a fetch is already in progress, return that promise
-        if (this.positionInfoFetchPromise) {
-            return this.positionInfoFetchPromise;
-        }
+    async getOrders(marketsInfoData: any, tokensData: any, forceRefresh = false): Promise<any> {
+        return this.orders.get('orders', () => this.fetchOrders(marketsInfoData, tokensData), forceRefresh);
+    }
 
-        // Start new fetch
-        this.positionInfoFetchPromise = this.fetchPositionsInfo(marketsInfoData, tokensData);
+    // Every trade of this account, all pages - null when the trade history API is unavailable
+    async getTradeHistory(marketsInfoData: any, tokensData: any, forceRefresh = false): Promise<any[] | null> {
+        return this.tradeHistory.get('tradeHistory', () => this.fetchTradeHistory(marketsInfoData, tokensData), forceRefresh);
+    }
 
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // 🔄 BACKGROUND REFRESH METHODS
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    /**
+     * Refetch markets, tokens and positions that expire within horizonMs, so the next reads are served from cache.
+     * Never throws - a failed prewarm leaves the next read to fetch.
+     */
+    async prewarm(horizonMs: number = 0): Promise<void> {
         try {
-            const positionsInfo = await this.positionInfoFetchPromise;
-            this.positionInfoCache.set(cacheKey, positionsInfo);
-            this.lastPositionInfoFetch = now;
-            console.warn(`[PositionInfoCache] Position info data cached at ${now}`);
-            return positionsInfo;
-        } finally {
-            this.positionInfoFetchPromise = null;
+            const markets = await this.getMarketsInfo(this.markets.expiresWithin('markets', horizonMs));
+            await Promise.all([
+                this.getTokensData(this.tokens.expiresWithin('tokens', horizonMs)),
+                this.getPositions(markets.marketsInfoData, markets.tokensData, this.positions.expiresWithin('positions', horizonMs)),
+                this.getPositionsInfo(markets.marketsInfoData, markets.tokensData, this.positionsInfo.expiresWithin('positionsInfo', horizonMs))
+            ]);
+        } catch (error) {
+            console.warn(`[EnhancedCache] Prewarm failed for ${this.accountName}/${this.chainConfig.network}: ${formatError(error)}`);
         }
     }
 
@@ -164,9 +193,30 @@ export class EnhancedDataCache {
     // 🔧 PRIVATE FETCH METHODS
     // ═══════════════════════════════════════════════════════════════════════════════
 
+    private createResource<T>(name: CacheResourceName): CacheResource<T> {
+        const resource = new CacheResource<T>({
+            name,
+            ttlMs: CACHE_TTL_MS[name],
+            staleWhileRevalidate: this.refreshConfig.staleWhileRevalidate,
+            maxStaleMs: this.refreshConfig.maxStaleMs,
+            errorTtlMs: this.refreshConfig.errorTtlMs,
+            onFetchError: (key, error) => {
+                tradingEvents.emit('CacheRefreshFailed', {
+                    account: this.accountName,
+                    network: this.chainConfig.network,
+                    cache: key === name ? name : `${name}:${key}`,
+                    error: formatError(error)
+                });
+            }
+        });
+        this.resources.push(resource);
+        return resource;
+    }
+
     private async fetchMarkets(): Promise<{ marketsInfoData: any, tokensData: any }> {
         try {
             const marketsResult = await this.sdk.markets.getMarketsInfo();
+            console.warn(`[MarketCache] Market data cached at ${Date.now()}`);
             return marketsResult;
         } catch (error) {
             console.error('[MarketCache] Failed to fetch market data:', error);
@@ -177,6 +227,7 @@ export class EnhancedDataCache {
     private async fetchTokens(): Promise<any> {
         try {
             const tokensResult = await this.sdk.tokens.getTokensData();
+            console.warn(`[TokenCache] Token data cached at ${Date.now()}`);
             return tokensResult;
         } catch (error) {
             console.error('[TokenCache] Failed to fetch token data:', error);
@@ -192,6 +243,7 @@ export class EnhancedDataCache {
                 start: 0,
                 end: 1000,
             });
+            console.warn(`[PositionCache] Position data cached at ${Date.now()}`);
             return positionsResult;
         } catch (error) {
             console.error('[PositionCache] Failed to fetch position data:', error);
@@ -206,6 +258,7 @@ export class EnhancedDataCache {
                 tokensData,
                 showPnlInLeverage: false
             });
+            console.warn(`[PositionInfoCache] Position info data cached at ${Date.now()}`);
             return positionsInfoResult;
         } catch (error) {
             console.error('[PositionInfoCache] Failed to fetch position info data:', error);
@@ -213,74 +266,145 @@ export class EnhancedDataCache {
         }
     }
 
-    // ═══════════════════════════════════════════════════════════════════════════════
-    // 📈 VOLATILITY CACHE METHODS
-    // ═══════════════════════════════════════════════════════════════════════════════
-
-    async getVolatility(asset: Asset, forceRefresh = false): Promise<number> {
-        const now = Date.now();
-        const cacheKey = `volatility_${asset}`;
-
-        // Return cached data if still valid
-        if (!forceRefresh && this.volatilityCache.has(cacheKey)) {
-            const lastFetch = this.lastVolatilityFetch.get(cacheKey) || 0;
-            if ((now - lastFetch) < this.VOLATILITY_TTL_MS) {
-                const cachedValue = this.volatilityCache.get(cacheKey)!;
-                return cachedValue;
-            }
+    private async fetchOrders(marketsInfoData: any, tokensData: any): Promise<any> {
+        try {
+            const ordersResult = await this.sdk.orders.getOrders({
+                marketsInfoData,
+                tokensData
+            });
+            // Use the enhanced OrderInfo objects
+            return ordersResult.ordersInfoData || {};
+        } catch (error) {
+            console.error('[OrderCache] Failed to fetch orders:', error);
+            throw error;
         }
+    }
 
-        // If a fetch is already in progress, return that promise
-        if (this.volatilityFetchPromises.has(cacheKey)) {
-            return this.volatilityFetchPromises.get(cacheKey)!;
+    private async fetchCandles(asset: Asset, period: string): Promise<number[][]> {
+        const url = `${this.chainConfig.apiUrl}/prices/candles?tokenSymbol=${assetRegistry.getCandleSymbol(asset, this.chainConfig.network)}&period=${period}`;
+
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch candlestick data for ${period}: ${response.status} ${response.statusText}`);
         }
 
-        // Start new fetch
-        const fetchPromise = this.fetchVolatility(asset);
-        this.volatilityFetchPromises.set(cacheKey, fetchPromise);
+        const data = await response.json();
+        if (!data || !data.candles || !Array.isArray(data.candles)) {
+            throw new Error(`Invalid candlestick data received for ${asset} ${period}`);
+        }
+        return data.candles;
+    }
 
-        try {
-            const result = await fetchPromise;
-            
-            // Cache the result
-            this.volatilityCache.set(cacheKey, result);
-            this.lastVolatilityFetch.set(cacheKey, now);
-            
-            console.warn(`[VolatilityCache] Cached fresh ${asset} volatility: ${result.toFixed(1)}%`);
-            return result;
-        } finally {
-            // Clean up the promise
-            this.volatilityFetchPromises.delete(cacheKey);
+    private async fetchDailyVolumes(): Promise<Record<string, bigint>> {
+        const volumes = await this.sdk.markets.getDailyVolumes();
+        if (!volumes || typeof volumes !== 'object') {
+            throw new Error("No volume data available");
         }
+        return volumes;
     }
 
-    private async fetchVolatility(asset: Asset): Promise<number> {
-        try {
-            // Import here to avoid circular dependencies
-            const { calculate24HourVolatility } = await import('./gmx-utils');
-            
-            // Fetch 24 hours of 15-minute candles (96 candles)
-            const url = `https://arbitrum-api.gmxinfra.io/prices/candles?tokenSymbol=${asset}&period=15m&limit=96`;
-            
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch candlestick data: ${response.status} ${response.statusText}`);
+    private async fetchTradeHistory(marketsInfoData: any, tokensData: any): Promise<any[] | null> {
+        // Fetch all trades with pagination to get complete history
+        let allTrades: any[] = [];
+        let pageIndex = 0;
+        const pageSize = 1000;
+        let hasMoreData = true;
+
+        while (hasMoreData) {
+            try {
+                const history = await this.sdk.trades.getTradeHistory({
+                    forAllAccounts: false,
+                    pageSize: pageSize,
+                    pageIndex: pageIndex,
+                    marketsInfoData: marketsInfoData,
+                    tokensData: tokensData,
+                });
+
+                if (history && history.length > 0) {
+                    allTrades.push(...history);
+                    pageIndex++;
+
+                    // If we got less than the page size, we've reached the end
+                    if (history.length < pageSize) {
+                        hasMoreData = false;
+                    }
+                } else {
+                    hasMoreData = false;
+                }
+            } catch (error) {
+                const errorMsg = formatError(error);
+
+                // Handle GraphQL errors gracefully
+                if (errorMsg.includes('GraphQL') || errorMsg.includes('502') || errorMsg.includes('HTTP error')) {
+                    console.warn('Trading history unavailable due to GraphQL error:', errorMsg);
+                    return null;
+                }
+
+                // Check if it's a temporary network error
+                const isTemporaryError = errorMsg.includes('503') ||
+                                       errorMsg.includes('504') ||
+                                       errorMsg.includes('timeout');
+
+                if (isTemporaryError && pageIndex === 0) {
+                    // If we can't get any data at all, throw the error
+                    throw new Error(`Failed to get trade history: ${errorMsg}`);
+                } else if (isTemporaryError) {
+                    // If we have some data but hit an error on later pages, stop gracefully
+                    console.warn(`Trading history fetch stopped at page ${pageIndex} due to network error: ${errorMsg}`);
+                    hasMoreData = false;
+                } else {
+                    // For other errors, throw immediately
+                    throw new Error(`Failed to get trade history: ${errorMsg}`);
+                }
             }
-            
-            const data = await response.json();
-            
-            if (!data || !data.candles || !Array.isArray(data.candles) || data.candles.length < 2) {
-                console.warn(`[VolatilityCache] Insufficient data for volatility calculation. Got ${data?.candles?.length || 0} candles`);
-                return 0;
+
+            // Safety break to prevent infinite loops
+            if (pageIndex > 50) { // Max 50 pages (50k trades)
+                break;
             }
-            
-            return calculate24HourVolatility(data.candles);
+        }
+
+        return allTrades;
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // 📈 VOLATILITY CACHE METHODS
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    // Returns 0 when volatility cannot be calculated - a failure is not cached as a value
+    async getVolatility(asset: Asset, forceRefresh = false): Promise<number> {
+        try {
+            return await this.volatility.get(asset, () => this.fetchVolatility(asset), forceRefresh);
         } catch (error) {
             console.error(`[VolatilityCache] Error calculating 24h volatility for ${asset}:`, error);
             return 0;
         }
     }
 
+    private async fetchVolatility(asset: Asset): Promise<number> {
+        // Import here to avoid circular dependencies
+        const { calculate24HourVolatility } = await import('./gmx-utils');
+
+        // Fetch 24 hours of 15-minute candles (96 candles)
+        const url = `${this.chainConfig.apiUrl}/prices/candles?tokenSymbol=${assetRegistry.getCandleSymbol(asset, this.chainConfig.network)}&period=15m&limit=96`;
+
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch candlestick data: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+
+        if (!data || !data.candles || !Array.isArray(data.candles) || data.candles.length < 2) {
+            console.warn(`[VolatilityCache] Insufficient data for volatility calculation. Got ${data?.candles?.length || 0} candles`);
+            return 0;
+        }
+
+        const result = calculate24HourVolatility(data.candles);
+        console.warn(`[VolatilityCache] Cached fresh ${asset} volatility: ${result.toFixed(1)}%`);
+        return result;
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════════
     // 🖺 CACHE MANAGEMENT METHODS
     // ═══════════════════════════════════════════════════════════════════════════════
@@ -291,46 +415,61 @@ export class EnhancedDataCache {
         this.invalidateTokens();
         this.invalidatePositions();
         this.invalidateVolatility();
+        this.candles.invalidate();
+        this.dailyVolumes.invalidate();
     }
 
     invalidateMarkets(): void {
         console.warn('[EnhancedCache] Invalidating market cache');
-        this.marketCache.clear();
-        this.lastMarketFetch = 0;
-        this.marketFetchPromise = null;
+        this.markets.invalidate();
     }
 
     invalidateTokens(): void {
         console.warn('[EnhancedCache] Invalidating token cache');
-        this.tokenCache.clear();
-        this.lastTokenFetch = 0;
-        this.tokenFetchPromise = null;
+        this.tokens.invalidate();
     }
 
+    // Orders and trade history change with positions - GMX cancels a closed position's orders
     invalidatePositions(): void {
         console.warn('[EnhancedCache] Invalidating position caches');
-        this.positionCache.clear();
-        this.positionInfoCache.clear();
-        this.lastPositionFetch = 0;
-        this.lastPositionInfoFetch = 0;
-        this.positionFetchPromise = null;
-        this.positionInfoFetchPromise = null;
+        this.positions.invalidate();
+        this.positionsInfo.invalidate();
+        this.orders.invalidate();
+        this.tradeHistory.invalidate();
+    }
+
+    invalidateOrders(): void {
+        console.warn('[EnhancedCache] Invalidating order cache');
+        this.orders.invalidate();
     }
 
     invalidateVolatility(): void {
         console.warn('[EnhancedCache] Invalidating volatility cache');
-        this.volatilityCache.clear();
-        this.lastVolatilityFetch.clear();
-        this.volatilityFetchPromises.clear();
+        this.volatility.invalidate();
+    }
+
+    // Last fetched data regardless of TTL - for read-only views that must not trigger API calls
+    peekMarketsInfo(): { marketsInfoData: any, tokensData: any } | null {
+        return this.markets.peek('markets');
+    }
+
+    peekPositions(): any | null {
+        return this.positions.peek('positions');
     }
 
-    getCacheAges(): { markets: number, tokens: number, positions: number, positionsInfo: number} {
-        const now = Date.now();
+    peekOrders(): { ordersInfoData: any, fetchedAt: number } | null {
+        const fetchedAt = this.orders.getFetchedAt('orders');
+        return fetchedAt === null ? null : { ordersInfoData: this.orders.peek('orders'), fetchedAt };
+    }
+
+    // Ms since each resource was fetched - null until its first fetch
+    getCacheAges(): { markets: number | null, tokens: number | null, positions: number | null, positionsInfo: number | null } {
+        const age = (fetchedAt: number | null) => fetchedAt === null ? null : Date.now() - fetchedAt;
         return {
-            markets: now - this.lastMarketFetch,
-            tokens: now - this.lastTokenFetch,
-            positions: now - this.lastPositionFetch,
-            positionsInfo: now - this.lastPositionInfoFetch
+            markets: age(this.markets.getFetchedAt('markets')),
+            tokens: age(this.tokens.getFetchedAt('tokens')),
+            positions: age(this.positions.getFetchedAt('positions')),
+            positionsInfo: age(this.positionsInfo.getFetchedAt('positionsInfo'))
         };
     }
 
@@ -340,12 +479,60 @@ export class EnhancedDataCache {
         positions: boolean, 
         positionsInfo: boolean
     } {
-        const now = Date.now();
         return {
-            markets: this.marketCache.has("markets") && (now - this.lastMarketFetch) < this.MARKET_TTL_MS,
-            tokens: this.tokenCache.has("tokens") && (now - this.lastTokenFetch) < this.TOKEN_TTL_MS,
-            positions: this.positionCache.has("positions") && (now - this.lastPositionFetch) < this.POSITION_TTL_MS,
-            positionsInfo: this.positionInfoCache.has("positionsInfo") && (now - this.lastPositionInfoFetch) < this.POSITION_INFO_TTL_MS
+            markets: this.markets.isFresh('markets'),
+            tokens: this.tokens.isFresh('tokens'),
+            positions: this.positions.isFresh('positions'),
+            positionsInfo: this.positionsInfo.isFresh('positionsInfo')
+        };
+    }
+
+    /**
+     * Hit, miss, dedup and error counts with fetch latency for every resource, since startup
+     */
+    getCacheMetrics(): CacheMetrics {
+        return {
+            account: this.accountName,
+            network: this.chainConfig.network,
+            resources: this.resources.map(resource => resource.getMetrics())
         };
     }
 }
+
+/**
+ * Metrics of every cache in the Prometheus text format, labelled by account and network
+ */
+export const formatCacheMetricsPrometheus = (caches: EnhancedDataCache[]): string =>
+    formatPrometheusCacheMetrics(caches.flatMap(cache => {
+        const { account, network, resources } = cache.getCacheMetrics();
+        return resources.map(metrics => ({ labels: { account, network }, metrics }));
+    }));
+
+/**
+ * Prewarm the caches leadMs before each tick of a loop that runs every intervalMs, started at the same time.
+ * Returns a function that stops it.
+ */
+export const scheduleCachePrewarm = (caches: EnhancedDataCache[], intervalMs: number, leadMs: number): (() => void) => {
+    if (leadMs >= intervalMs) {
+        throw new Error(`Prewarm lead ${leadMs}ms must be shorter than the ${intervalMs}ms tick interval`);
+    }
+
+    // Data that would expire by the tick is refetched now
+    const prewarmAll = () => {
+        Promise.all(caches.map(cache => cache.prewarm(leadMs))).catch(() => {});
+    };
+
+    let interval: ReturnType<typeof setInterval> | null = null;
+    const timeout = setTimeout(() => {
+        prewarmAll();
+        interval = setInterval(prewarmAll, intervalMs);
+    }, intervalMs - leadMs);
+    console.warn(`[EnhancedCache] Prewarming ${caches.length} cache(s) ${leadMs}ms before each ${intervalMs / 1000}s tick`);
+
+    return () => {
+        clearTimeout(timeout);
+        if (interval) {
+            clearInterval(interval);
+        }
+    };
+};
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { ChainEventWatcher, type GmxChainEvent, type GmxEventLogSource } from './gmx-chain-events';
+import { ORDER_TYPE } from './gmx-types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧪 FIXTURES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const ACCOUNT = '0x00000000000000000000000000000000000000aa';
+const BTC_MARKET = '0x0000000000000000000000000000000000000A01';
+const ETH_MARKET = '0x0000000000000000000000000000000000000a02';
+const USD = 10n ** 30n;
+
+// A log source the test emits into, as a local chain would
+class ScriptedLogSource implements GmxEventLogSource {
+    public name = 'scripted';
+    private onEvent: ((event: GmxChainEvent) => void) | null = null;
+
+    subscribe(account: string, onEvent: (event: GmxChainEvent) => void): () => void {
+        expect(account).toBe(ACCOUNT);
+        this.onEvent = onEvent;
+        return () => { this.onEvent = null; };
+    }
+
+    emit(name: GmxChainEvent['name'], orderKey: string | null, data: Record<string, unknown> = {}): void {
+        this.onEvent?.({ name, orderKey, transactionHash: `0x${name}`, blockNumber: 1n, data });
+    }
+}
+
+// Counts the invalidations each event makes
+const fakeCache = () => {
+    const invalidated = { orders: 0, tokens: 0, positions: 0 };
+    const cache: any = {
+        getAccountName: () => 'main',
+        getNetwork: () => 'arbitrum',
+        invalidateOrders: () => { invalidated.orders++; },
+        invalidateTokens: () => { invalidated.tokens++; },
+        invalidatePositions: () => { invalidated.positions++; },
+    };
+    return { cache, invalidated };
+};
+
+const increase = (market: string, isLong: boolean, sizeUsd: bigint) =>
+    ({ market, isLong, orderType: BigInt(ORDER_TYPE.MarketIncrease), sizeDeltaUsd: sizeUsd * USD });
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⛓️ CHAIN EVENT WATCHER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('ChainEventWatcher', () => {
+    let source: ScriptedLogSource;
+    let invalidated: ReturnType<typeof fakeCache>['invalidated'];
+    let watcher: ChainEventWatcher;
+
+    beforeEach(() => {
+        source = new ScriptedLogSource();
+        const fake = fakeCache();
+        invalidated = fake.invalidated;
+        watcher = new ChainEventWatcher(source, fake.cache, ACCOUNT, 50);
+        watcher.start();
+    });
+
+    it('resolves waitForOrder on execution and remembers the outcome', async () => {
+        const settled = watcher.waitForOrder('0xAB');
+        source.emit('OrderExecuted', '0xab');
+
+        expect((await settled)?.outcome).toBe('executed');
+        expect((await watcher.waitForOrder('0xab'))?.transactionHash).toBe('0xOrderExecuted');
+    });
+
+    it('resolves waitForOrder on a cancel with the keeper reason', async () => {
+        source.emit('OrderCancelled', '0xcd', { reason: 'OrderNotFulfillableAtAcceptablePrice' });
+
+        const settlement = await watcher.waitForOrder('0xcd');
+        expect(settlement?.outcome).toBe('cancelled');
+        expect(settlement?.reason).toBe('OrderNotFulfillableAtAcceptablePrice');
+    });
+
+    it('returns null when the order does not settle in time', async () => {
+        expect(await watcher.waitForOrder('0xee')).toBeNull();
+    });
+
+    it('only hands out orders created at or after the cursor', async () => {
+        source.emit('OrderCreated', '0x01', increase(BTC_MARKET, true, 100n));
+        const cursor = watcher.getOrderCursor();
+
+        expect(await watcher.waitForCreatedOrder(cursor, { match: { market: BTC_MARKET } })).toBeNull();
+
+        const created = watcher.waitForCreatedOrder(cursor, { match: { market: BTC_MARKET } });
+        source.emit('OrderCreated', '0x02', increase(BTC_MARKET, true, 100n));
+        expect(await created).toBe('0x02');
+    });
+
+    it('gives two concurrent writes on one market their own orders', async () => {
+        const cursor = watcher.getOrderCursor();
+        const first = watcher.waitForCreatedOrder(cursor, { match: { market: BTC_MARKET, isLong: true, orderType: ORDER_TYPE.MarketIncrease, sizeDeltaUsd: 100n * USD } });
+        const second = watcher.waitForCreatedOrder(cursor, { match: { market: BTC_MARKET, isLong: true, orderType: ORDER_TYPE.MarketIncrease, sizeDeltaUsd: 200n * USD } });
+
+        // The second write's order lands first, and another market's order lands in between
+        source.emit('OrderCreated', '0x0b', increase(BTC_MARKET, true, 200n));
+        source.emit('OrderCreated', '0x0e', increase(ETH_MARKET, true, 100n));
+        source.emit('OrderCreated', '0x0a', increase(BTC_MARKET, true, 100n));
+
+        expect(await first).toBe('0x0a');
+        expect(await second).toBe('0x0b');
+    });
+
+    it('never hands one claimed order to two writes', async () => {
+        const cursor = watcher.getOrderCursor();
+        const match = { market: BTC_MARKET, isLong: false };
+        source.emit('OrderCreated', '0x11', increase(BTC_MARKET, false, 100n));
+        source.emit('OrderCreated', '0x12', increase(BTC_MARKET, false, 100n));
+
+        // A check that does not claim leaves the order for the write itself
+        expect(await watcher.waitForCreatedOrder(cursor, { match, claim: false })).toBe('0x11');
+        expect(await watcher.waitForCreatedOrder(cursor, { match })).toBe('0x11');
+        expect(await watcher.waitForCreatedOrder(cursor, { match })).toBe('0x12');
+        expect(await watcher.waitForCreatedOrder(cursor, { match })).toBeNull();
+    });
+
+    it('invalidates only the caches each event changes', () => {
+        source.emit('OrderUpdated', '0x21');
+        source.emit('OrderFrozen', '0x21');
+        expect(invalidated).toEqual({ orders: 2, tokens: 0, positions: 0 });
+
+        source.emit('OrderCreated', '0x22', increase(BTC_MARKET, true, 100n));
+        source.emit('OrderCancelled', '0x22');
+        expect(invalidated).toEqual({ orders: 4, tokens: 2, positions: 0 });
+
+        source.emit('PositionIncrease', null, { orderKey: '0x23' });
+        expect(invalidated).toEqual({ orders: 4, tokens: 2, positions: 1 });
+    });
+
+    it('stops delivering events once stopped', () => {
+        watcher.stop();
+        source.emit('OrderCreated', '0x31', increase(BTC_MARKET, true, 100n));
+        expect(watcher.getOrderCursor()).toBe(0);
+        expect(invalidated.orders).toBe(0);
+    });
+});
@@ -0,0 +1,456 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⛓️ GMX CHAIN EVENTS - ON-CHAIN ORDER AND POSITION EVENT WATCHER
+// ═══════════════════════════════════════════════════════════════════════════════
+// Follows the GMX EventEmitter logs of one account on one chain. Each event
+// invalidates exactly the caches it changes, and actions await the keeper
+// instead of sleeping a fixed delay after a write:
+//
+//   OrderCreated                   orders, tokens (collateral left the wallet)
+//   OrderUpdated, OrderFrozen      orders
+//   OrderExecuted                  orders, tokens (swap output and payouts)
+//   OrderCancelled                 orders, tokens (collateral refunded)
+//   PositionIncrease/Decrease      positions, with their orders and trade history
+//
+// Logs come from a GmxEventLogSource: viem's watchContractEvent against the
+// chain's RPC (a local anvil fork works with an overridden EventEmitter address),
+// or any scripted source that yields the same events.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { pad, parseAbi, type Address, type Hex, type PublicClient } from 'viem';
+import type { EnhancedDataCache } from './gmx-cache';
+import { formatError } from './gmx-utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Emitted through EventLog2(key, account)
+export const ORDER_EVENT_NAMES = ['OrderCreated', 'OrderUpdated', 'OrderExecuted', 'OrderCancelled', 'OrderFrozen'] as const;
+// Emitted through EventLog1(account)
+export const POSITION_EVENT_NAMES = ['PositionIncrease', 'PositionDecrease'] as const;
+
+export type GmxChainEventName = typeof ORDER_EVENT_NAMES[number] | typeof POSITION_EVENT_NAMES[number];
+
+export interface GmxChainEvent {
+    name: GmxChainEventName;
+    /** Set on order events */
+    orderKey: string | null;
+    transactionHash: string | null;
+    blockNumber: bigint | null;
+    /** The event's key/value items, flattened - e.g. reason on OrderCancelled, executionPrice on PositionIncrease */
+    data: Record<string, unknown>;
+}
+
+export interface GmxEventLogSource {
+    name: string;
+    /** Deliver the account's events until the returned function is called */
+    subscribe(account: string, onEvent: (event: GmxChainEvent) => void, onError: (error: unknown) => void): () => void;
+}
+
+export type OrderOutcome = 'executed' | 'cancelled' | 'frozen';
+
+/**
+ * What a write knows about the order it creates - compared with the OrderCreated event data.
+ * Fields left out match anything.
+ */
+export interface CreatedOrderMatch {
+    market?: string;
+    isLong?: boolean;
+    orderType?: number;
+    sizeDeltaUsd?: bigint;
+    initialCollateralToken?: string;
+}
+
+export interface WaitForCreatedOrderOptions {
+    match?: CreatedOrderMatch;
+    /** Take the order so no other waiter gets it - off for a check that only asks whether it exists */
+    claim?: boolean;
+    timeoutMs?: number;
+}
+
+export interface OrderSettlement {
+    orderKey: string;
+    outcome: OrderOutcome;
+    /** The keeper's reason for a cancel or freeze */
+    reason: string | null;
+    transactionHash: string | null;
+    at: number;
+}
+
+export interface ChainEventWatcherConfig {
+    enabled: boolean;
+    /** Replaces the chain's GMX EventEmitter address - for a local fork */
+    eventEmitterAddress: string | null;
+    pollingIntervalMs: number;
+    /** How long an action waits for its order to be created or settled before re-reading anyway */
+    settlementTimeoutMs: number;
+    /** When the order tracker flags a pending market order as stuck */
+    orderStuckAfterMs: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_CHAIN_EVENT_WATCHER_CONFIG: ChainEventWatcherConfig = {
+    enabled: true,
+    eventEmitterAddress: null,
+    pollingIntervalMs: 2000,
+    settlementTimeoutMs: 30000,
+    // Keepers usually fill market orders within seconds
+    orderStuckAfterMs: 120000
+};
+
+// GMX v2 EventEmitter by chain id
+export const GMX_EVENT_EMITTER_ADDRESSES: Record<number, Address> = {
+    42161: '0xC8ee91A54287DB53897056e12D9819156D3822Fb',
+    43114: '0xDb17B211c34240B014ab6d61d4A31FA0C0e20c26'
+};
+
+export const createChainEventWatcherConfigFromEnv = (env: {
+    GMX_EVENT_WATCHER?: string;
+    GMX_EVENT_EMITTER_ADDRESS?: string;
+    GMX_EVENT_POLL_MS?: string;
+    GMX_ORDER_SETTLEMENT_TIMEOUT_MS?: string;
+    GMX_ORDER_STUCK_AFTER_MS?: string;
+}): ChainEventWatcherConfig => {
+    const defaults = DEFAULT_CHAIN_EVENT_WATCHER_CONFIG;
+
+    const parseMs = (name: string, value: string | undefined, fallback: number): number => {
+        if (!value) return fallback;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed <= 0) {
+            throw new Error(`${name} must be a positive number of milliseconds, got ${value}`);
+        }
+        return parsed;
+    };
+
+    const eventEmitterAddress = env.GMX_EVENT_EMITTER_ADDRESS || defaults.eventEmitterAddress;
+    if (eventEmitterAddress && !/^0x[0-9a-fA-F]{40}$/.test(eventEmitterAddress)) {
+        throw new Error(`GMX_EVENT_EMITTER_ADDRESS must be a 0x-prefixed address, got ${eventEmitterAddress}`);
+    }
+
+    return {
+        enabled: env.GMX_EVENT_WATCHER ? env.GMX_EVENT_WATCHER !== 'false' : defaults.enabled,
+        eventEmitterAddress,
+        pollingIntervalMs: parseMs('GMX_EVENT_POLL_MS', env.GMX_EVENT_POLL_MS, defaults.pollingIntervalMs),
+        settlementTimeoutMs: parseMs('GMX_ORDER_SETTLEMENT_TIMEOUT_MS', env.GMX_ORDER_SETTLEMENT_TIMEOUT_MS, defaults.settlementTimeoutMs),
+        orderStuckAfterMs: parseMs('GMX_ORDER_STUCK_AFTER_MS', env.GMX_ORDER_STUCK_AFTER_MS, defaults.orderStuckAfterMs)
+    };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📡 VIEM LOG SOURCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// EventLog1 and EventLog2 of the GMX EventEmitter, with the EventLogData struct
+const EVENT_EMITTER_ABI = parseAbi([
+    'struct AddressKeyValue { string key; address value; }',
+    'struct AddressArrayKeyValue { string key; address[] value; }',
+    'struct AddressItems { AddressKeyValue[] items; AddressArrayKeyValue[] arrayItems; }',
+    'struct UintKeyValue { string key; uint256 value; }',
+    'struct UintArrayKeyValue { string key; uint256[] value; }',
+    'struct UintItems { UintKeyValue[] items; UintArrayKeyValue[] arrayItems; }',
+    'struct IntKeyValue { string key; int256 value; }',
+    'struct IntArrayKeyValue { string key; int256[] value; }',
+    'struct IntItems { IntKeyValue[] items; IntArrayKeyValue[] arrayItems; }',
+    'struct BoolKeyValue { string key; bool value; }',
+    'struct BoolArrayKeyValue { string key; bool[] value; }',
+    'struct BoolItems { BoolKeyValue[] items; BoolArrayKeyValue[] arrayItems; }',
+    'struct Bytes32KeyValue { string key; bytes32 value; }',
+    'struct Bytes32ArrayKeyValue { string key; bytes32[] value; }',
+    'struct Bytes32Items { Bytes32KeyValue[] items; Bytes32ArrayKeyValue[] arrayItems; }',
+    'struct BytesKeyValue { string key; bytes value; }',
+    'struct BytesArrayKeyValue { string key; bytes[] value; }',
+    'struct BytesItems { BytesKeyValue[] items; BytesArrayKeyValue[] arrayItems; }',
+    'struct StringKeyValue { string key; string value; }',
+    'struct StringArrayKeyValue { string key; string[] value; }',
+    'struct StringItems { StringKeyValue[] items; StringArrayKeyValue[] arrayItems; }',
+    'struct EventLogData { AddressItems addressItems; UintItems uintItems; IntItems intItems; BoolItems boolItems; Bytes32Items bytes32Items; BytesItems bytesItems; StringItems stringItems; }',
+    'event EventLog1(address msgSender, string eventName, string indexed eventNameHash, bytes32 indexed topic1, EventLogData eventData)',
+    'event EventLog2(address msgSender, string eventName, string indexed eventNameHash, bytes32 indexed topic1, bytes32 indexed topic2, EventLogData eventData)'
+]);
+
+// Every item group of an EventLogData merged into one record
+const flattenEventData = (eventData: Record<string, { items: ReadonlyArray<{ key: string; value: unknown }>; arrayItems: ReadonlyArray<{ key: string; value: unknown }> }>): Record<string, unknown> => {
+    const data: Record<string, unknown> = {};
+    for (const group of Object.values(eventData)) {
+        for (const { key, value } of [...group.items, ...group.arrayItems]) {
+            data[key] = value;
+        }
+    }
+    return data;
+};
+
+/**
+ * Watch the EventEmitter through a viem public client. The account is matched in the log topics,
+ * so the RPC only returns this account's events.
+ */
+export const createViemEventLogSource = (client: PublicClient, eventEmitterAddress: Address, pollingIntervalMs: number): GmxEventLogSource => ({
+    name: `EventEmitter ${eventEmitterAddress}`,
+    subscribe(account, onEvent, onError) {
+        const accountTopic = pad(account.toLowerCase() as Hex, { size: 32 });
+        const deliver = (log: { args: { eventName?: string; topic1?: Hex; eventData?: unknown }; transactionHash: Hex | null; blockNumber: bigint | null }, isOrderEvent: boolean) => {
+            const { eventName, topic1, eventData } = log.args;
+            if (!eventName || !eventData) return;
+            onEvent({
+                name: eventName as GmxChainEventName,
+                orderKey: isOrderEvent ? topic1 ?? null : null,
+                transactionHash: log.transactionHash,
+                blockNumber: log.blockNumber,
+                data: flattenEventData(eventData as Parameters<typeof flattenEventData>[0])
+            });
+        };
+
+        const unwatchOrders = client.watchContractEvent({
+            address: eventEmitterAddress,
+            abi: EVENT_EMITTER_ABI,
+            eventName: 'EventLog2',
+            args: { eventNameHash: [...ORDER_EVENT_NAMES], topic2: accountTopic },
+            pollingInterval: pollingIntervalMs,
+            onLogs: logs => logs.forEach(log => deliver(log, true)),
+            onError
+        });
+        const unwatchPositions = client.watchContractEvent({
+            address: eventEmitterAddress,
+            abi: EVENT_EMITTER_ABI,
+            eventName: 'EventLog1',
+            args: { eventNameHash: [...POSITION_EVENT_NAMES], topic1: accountTopic },
+            pollingInterval: pollingIntervalMs,
+            onLogs: logs => logs.forEach(log => deliver(log, false)),
+            onError
+        });
+
+        return () => {
+            unwatchOrders();
+            unwatchPositions();
+        };
+    }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⛓️ CHAIN EVENT WATCHER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Settled and created orders remembered for waiters that arrive after the event
+const MAX_REMEMBERED_SETTLEMENTS = 200;
+const MAX_REMEMBERED_CREATED_ORDERS = 200;
+
+interface CreatedOrder {
+    sequence: number;
+    orderKey: string;
+    data: Record<string, unknown>;
+    claimed: boolean;
+}
+
+interface CreatedOrderWaiter {
+    cursor: number;
+    match: CreatedOrderMatch;
+    claim: boolean;
+    resolve: (orderKey: string) => void;
+}
+
+const sameAddress = (a: unknown, b: string) => typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+const sameUint = (a: unknown, b: number | bigint) => (typeof a === 'bigint' || typeof a === 'number') && BigInt(a) === BigInt(b);
+
+const matchesCreatedOrder = (data: Record<string, unknown>, match: CreatedOrderMatch): boolean =>
+    (match.market === undefined || sameAddress(data.market, match.market)) &&
+    (match.isLong === undefined || data.isLong === match.isLong) &&
+    (match.orderType === undefined || sameUint(data.orderType, match.orderType)) &&
+    (match.sizeDeltaUsd === undefined || sameUint(data.sizeDeltaUsd, match.sizeDeltaUsd)) &&
+    (match.initialCollateralToken === undefined || sameAddress(data.initialCollateralToken, match.initialCollateralToken));
+
+const SETTLEMENT_OUTCOMES: Partial<Record<GmxChainEventName, OrderOutcome>> = {
+    OrderExecuted: 'executed',
+    OrderCancelled: 'cancelled',
+    OrderFrozen: 'frozen'
+};
+
+export class ChainEventWatcher {
+    private unsubscribe: (() => void) | null = null;
+    private listeners: Array<(event: GmxChainEvent) => void> = [];
+    // The most recent orders created, oldest first - sequence numbers are the cursors
+    private createdOrders: CreatedOrder[] = [];
+    private createdCount = 0;
+    private createdWaiters: CreatedOrderWaiter[] = [];
+    private settlements = new Map<string, OrderSettlement>();
+    private settlementWaiters = new Map<string, Array<(settlement: OrderSettlement) => void>>();
+
+    constructor(
+        private readonly source: GmxEventLogSource,
+        private readonly gmxDataCache: EnhancedDataCache,
+        private readonly accountAddress: string,
+        private readonly settlementTimeoutMs: number = DEFAULT_CHAIN_EVENT_WATCHER_CONFIG.settlementTimeoutMs
+    ) {}
+
+    private get label(): string {
+        return `${this.gmxDataCache.getAccountName()}/${this.gmxDataCache.getNetwork()}`;
+    }
+
+    public start(): void {
+        if (this.unsubscribe) return;
+        this.unsubscribe = this.source.subscribe(
+            this.accountAddress,
+            event => this.handle(event),
+            error => console.warn(`[ChainEvents:${this.label}] ${this.source.name} failed: ${formatError(error)}`)
+        );
+        console.warn(`[ChainEvents:${this.label}] Watching ${this.source.name} for ${this.accountAddress}`);
+    }
+
+    public stop(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    /**
+     * Run the listener for every event, after its caches were invalidated. Returns a function that removes it.
+     */
+    public onEvent(listener: (event: GmxChainEvent) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(existing => existing !== listener);
+        };
+    }
+
+    /**
+     * Position of the next order to be created - take it before a write, then wait with waitForCreatedOrder
+     */
+    public getOrderCursor(): number {
+        return this.createdCount;
+    }
+
+    /**
+     * Key of the first unclaimed order created at or after the cursor that matches, claimed unless
+     * told otherwise so concurrent writes never share an order. Null when none arrives within the timeout.
+     */
+    public waitForCreatedOrder(cursor: number, options: WaitForCreatedOrderOptions = {}): Promise<string | null> {
+        const { match = {}, claim = true, timeoutMs = this.settlementTimeoutMs } = options;
+        const created = this.createdOrders.find(order =>
+            order.sequence >= cursor && !order.claimed && matchesCreatedOrder(order.data, match)
+        );
+        if (created) {
+            created.claimed ||= claim;
+            return Promise.resolve(created.orderKey);
+        }
+        return this.withTimeout<string>(timeoutMs, resolve => {
+            const waiter = { cursor, match, claim, resolve };
+            this.createdWaiters.push(waiter);
+            return () => {
+                this.createdWaiters = this.createdWaiters.filter(existing => existing !== waiter);
+            };
+        });
+    }
+
+    /**
+     * Resolves once the order is executed, cancelled or frozen. Null when it is not settled within the timeout.
+     */
+    public waitForOrder(orderKey: string, timeoutMs: number = this.settlementTimeoutMs): Promise<OrderSettlement | null> {
+        const key = orderKey.toLowerCase();
+        const settled = this.settlements.get(key);
+        if (settled) {
+            return Promise.resolve(settled);
+        }
+        return this.withTimeout<OrderSettlement>(timeoutMs, resolve => {
+            this.settlementWaiters.set(key, [...(this.settlementWaiters.get(key) || []), resolve]);
+            return () => {
+                const remaining = (this.settlementWaiters.get(key) || []).filter(existing => existing !== resolve);
+                if (remaining.length > 0) {
+                    this.settlementWaiters.set(key, remaining);
+                } else {
+                    this.settlementWaiters.delete(key);
+                }
+            };
+        });
+    }
+
+    /**
+     * Feed one event in - the log source calls this, and it can be called directly to replay events
+     */
+    public handle(event: GmxChainEvent): void {
+        this.invalidateFor(event);
+
+        const orderKey = event.orderKey?.toLowerCase();
+        if (orderKey && event.name === 'OrderCreated') {
+            this.recordCreatedOrder(orderKey, event.data);
+        }
+
+        const outcome = SETTLEMENT_OUTCOMES[event.name];
+        if (orderKey && outcome) {
+            const reason = event.data.reason;
+            const settlement: OrderSettlement = {
+                orderKey,
+                outcome,
+                reason: typeof reason === 'string' && reason ? reason : null,
+                transactionHash: event.transactionHash,
+                at: Date.now()
+            };
+            this.settlements.set(orderKey, settlement);
+            if (this.settlements.size > MAX_REMEMBERED_SETTLEMENTS) {
+                this.settlements.delete(this.settlements.keys().next().value!);
+            }
+            const waiters = this.settlementWaiters.get(orderKey) || [];
+            this.settlementWaiters.delete(orderKey);
+            waiters.forEach(resolve => resolve(settlement));
+        }
+
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`[ChainEvents:${this.label}] Listener failed for ${event.name}: ${formatError(error)}`);
+            }
+        }
+    }
+
+    // Hand the order to the waiters it matches, earliest first, until one claims it
+    private recordCreatedOrder(orderKey: string, data: Record<string, unknown>): void {
+        const created: CreatedOrder = { sequence: this.createdCount++, orderKey, data, claimed: false };
+        this.createdOrders.push(created);
+        if (this.createdOrders.length > MAX_REMEMBERED_CREATED_ORDERS) {
+            this.createdOrders.shift();
+        }
+
+        const ready = this.createdWaiters.filter(waiter => {
+            if (waiter.cursor > created.sequence || created.claimed || !matchesCreatedOrder(data, waiter.match)) {
+                return false;
+            }
+            created.claimed = waiter.claim;
+            return true;
+        });
+        this.createdWaiters = this.createdWaiters.filter(waiter => !ready.includes(waiter));
+        ready.forEach(waiter => waiter.resolve(orderKey));
+    }
+
+    private invalidateFor(event: GmxChainEvent): void {
+        switch (event.name) {
+            case 'OrderCreated':
+            case 'OrderExecuted':
+            case 'OrderCancelled':
+                this.gmxDataCache.invalidateOrders();
+                this.gmxDataCache.invalidateTokens();
+                break;
+            case 'OrderUpdated':
+            case 'OrderFrozen':
+                this.gmxDataCache.invalidateOrders();
+                break;
+            case 'PositionIncrease':
+            case 'PositionDecrease':
+                this.gmxDataCache.invalidatePositions();
+                break;
+        }
+    }
+
+    // Resolve with the waiter's value, or null once the timeout passes
+    private withTimeout<T>(timeoutMs: number, register: (resolve: (value: T) => void) => () => void): Promise<T | null> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                unregister();
+                resolve(null);
+            }, timeoutMs);
+            const unregister = register(value => {
+                clearTimeout(timer);
+                resolve(value);
+            });
+        });
+    }
+}
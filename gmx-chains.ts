@@ -0,0 +1,85 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔗 GMX CHAINS - PER-NETWORK SDK, CACHE AND RISK ENGINE
+// ═══════════════════════════════════════════════════════════════════════════════
+// One entry per traded network of an account. Actions and queries pick their
+// chain here; anything that does not name a chain runs on the primary network.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { GmxSdk } from "@gmx-io/sdk";
+import type { EnhancedDataCache } from './gmx-cache';
+import type { RiskEngine } from './gmx-risk';
+import type { ChainConfig } from './gmx-wallet';
+import type { TransactionQueue } from './transaction-queue';
+import type { GmxNetwork } from './gmx-types';
+import type { ChainEventWatcher } from './gmx-chain-events';
+import type { OrderTracker } from './gmx-order-tracker';
+
+export interface GmxChain {
+    /** Owning account name */
+    account: string;
+    network: GmxNetwork;
+    chainConfig: ChainConfig;
+    sdk: GmxSdk;
+    gmxDataCache: EnhancedDataCache;
+    riskEngine: RiskEngine;
+    /** The account's queue - shared by all of its chains */
+    transactionQueue: TransactionQueue;
+    /** On-chain order and position events - null in paper mode or when disabled */
+    eventWatcher: ChainEventWatcher | null;
+    /** Follows created orders to their keeper outcome - null without an event watcher */
+    orderTracker: OrderTracker | null;
+}
+
+export class GmxChains {
+    private readonly byNetwork = new Map<GmxNetwork, GmxChain>();
+
+    /**
+     * @param chains Chains to trade on, primary first
+     */
+    constructor(chains: GmxChain[]) {
+        if (chains.length === 0) {
+            throw new Error("At least one chain is required");
+        }
+        for (const chain of chains) {
+            if (this.byNetwork.has(chain.network)) {
+                throw new Error(`Chain ${chain.network} is configured twice`);
+            }
+            this.byNetwork.set(chain.network, chain);
+        }
+    }
+
+    get primary(): GmxChain {
+        return this.getAll()[0];
+    }
+
+    get isMultiChain(): boolean {
+        return this.byNetwork.size > 1;
+    }
+
+    getAll(): GmxChain[] {
+        return [...this.byNetwork.values()];
+    }
+
+    getNetworks(): GmxNetwork[] {
+        return [...this.byNetwork.keys()];
+    }
+
+    getDataCaches(): EnhancedDataCache[] {
+        return this.getAll().map(chain => chain.gmxDataCache);
+    }
+
+    /**
+     * Chain for a network, or the primary chain when none is given
+     * @throws Error if the network is not one the agent trades on
+     */
+    get(network?: GmxNetwork | string): GmxChain {
+        if (!network) {
+            return this.primary;
+        }
+        const chain = this.byNetwork.get(network as GmxNetwork);
+        if (!chain) {
+            throw new Error(`Chain "${network}" is not configured - trading on: ${this.getNetworks().join(', ')}`);
+        }
+        return chain;
+    }
+}
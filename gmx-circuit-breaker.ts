@@ -0,0 +1,290 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⛔ GMX CIRCUIT BREAKER - DRAWDOWN AND DAILY LOSS LIMITS
+// ═══════════════════════════════════════════════════════════════════════════════
+// Tracks one account's equity, summed over its traded chains, against a
+// high-water mark and the UTC-day start value.
+// Once a limit is breached, new positions are refused until the breaker resets.
+// State is persisted so a restart does not clear a tripped breaker.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import type { EnhancedDataCache } from './gmx-cache';
+import { get_consolidated_portfolio } from './gmx-queries';
+import { formatError, formatUsd } from './gmx-utils';
+import { DEFAULT_ACCOUNT_NAME } from './gmx-types';
+
+// Get __dirname in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface CircuitBreakerConfig {
+    /** Max drop from the equity high-water mark, in %; 0 disables */
+    maxDrawdownPct: number;
+    /** Max drop from the UTC-day start equity, in %; 0 disables */
+    maxDailyLossPct: number;
+    /** Flatten the book through the kill switch when the breaker trips */
+    closePositionsOnTrip: boolean;
+    statePath: string;
+}
+
+export type CircuitBreakerTripCode = 'MAX_DRAWDOWN' | 'DAILY_LOSS';
+
+export interface CircuitBreakerTrip {
+    code: CircuitBreakerTripCode;
+    reason: string;
+    equityUsd: number;
+    /** High-water mark for MAX_DRAWDOWN, day start equity for DAILY_LOSS */
+    referenceUsd: number;
+    lossPct: number;
+    limitPct: number;
+    trippedAt: number;
+}
+
+export interface CircuitBreakerState {
+    highWaterMarkUsd: number;
+    highWaterMarkAt: number;
+    /** YYYY-MM-DD in UTC */
+    dayStartUtc: string;
+    dayStartEquityUsd: number;
+    lastEquityUsd: number;
+    lastUpdatedAt: number;
+    trip: CircuitBreakerTrip | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_CIRCUIT_BREAKER_STATE_PATH = path.join(__dirname, 'data', 'circuit-breaker.json');
+// Paper balances reset on restart, so paper equity must not share a high-water mark with the live account
+export const DEFAULT_PAPER_CIRCUIT_BREAKER_STATE_PATH = path.join(__dirname, 'data', 'circuit-breaker.paper.json');
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+    maxDrawdownPct: 20,
+    maxDailyLossPct: 10,
+    closePositionsOnTrip: false,
+    statePath: DEFAULT_CIRCUIT_BREAKER_STATE_PATH
+};
+
+export const createCircuitBreakerConfigFromEnv = (env: {
+    GMX_BREAKER_MAX_DRAWDOWN_PCT?: string;
+    GMX_BREAKER_MAX_DAILY_LOSS_PCT?: string;
+    GMX_BREAKER_CLOSE_POSITIONS?: string;
+    GMX_BREAKER_STATE_PATH?: string;
+}, isPaperTrading: boolean = false): CircuitBreakerConfig => {
+    // A limit that does not parse would never trip and silently switch the breaker off - 0 turns it off on purpose
+    const num = (name: string, value: string | undefined, fallback: number): number => {
+        if (!value) {
+            return fallback;
+        }
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed < 0) {
+            throw new Error(`${name} must be a non-negative number, got ${value}`);
+        }
+        return parsed;
+    };
+    const defaults = DEFAULT_CIRCUIT_BREAKER_CONFIG;
+
+    return {
+        maxDrawdownPct: num('GMX_BREAKER_MAX_DRAWDOWN_PCT', env.GMX_BREAKER_MAX_DRAWDOWN_PCT, defaults.maxDrawdownPct),
+        maxDailyLossPct: num('GMX_BREAKER_MAX_DAILY_LOSS_PCT', env.GMX_BREAKER_MAX_DAILY_LOSS_PCT, defaults.maxDailyLossPct),
+        closePositionsOnTrip: env.GMX_BREAKER_CLOSE_POSITIONS === 'true',
+        statePath: env.GMX_BREAKER_STATE_PATH || (isPaperTrading ? DEFAULT_PAPER_CIRCUIT_BREAKER_STATE_PATH : defaults.statePath)
+    };
+};
+
+const utcDay = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⛔ CIRCUIT BREAKER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A DAILY_LOSS trip clears at the next UTC day. A MAX_DRAWDOWN trip stays until the
+ * state file is deleted, which also restarts the high-water mark from current equity.
+ * Deposits and withdrawals move equity too - reset the breaker after moving funds.
+ */
+export class CircuitBreaker {
+    private state: CircuitBreakerState | null = null;
+    private listeners: Array<(trip: CircuitBreakerTrip) => void> = [];
+    private readonly tag: string;
+
+    /**
+     * @param gmxDataCaches One account's caches, one per chain
+     */
+    constructor(private readonly gmxDataCaches: EnhancedDataCache[], private readonly config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG) {
+        this.tag = `[CircuitBreaker:${gmxDataCaches[0]?.getAccountName() ?? DEFAULT_ACCOUNT_NAME}]`;
+        fs.mkdirSync(path.dirname(config.statePath), { recursive: true });
+        this.state = this.load();
+        console.warn(`⛔ ${this.tag} active - max drawdown ${config.maxDrawdownPct || 'off'}%, max daily loss ${config.maxDailyLossPct || 'off'}%${config.closePositionsOnTrip ? ', closes positions on trip' : ''}`);
+        if (this.state?.trip) {
+            console.warn(`${this.tag} ⛔ Still tripped from previous run: ${this.state.trip.reason}`);
+        }
+    }
+
+    getConfig(): CircuitBreakerConfig {
+        return this.config;
+    }
+
+    getState(): CircuitBreakerState | null {
+        return this.state;
+    }
+
+    getTrip(): CircuitBreakerTrip | null {
+        return this.state?.trip ?? null;
+    }
+
+    isTripped(): boolean {
+        return this.getTrip() !== null;
+    }
+
+    onTrip(listener: (trip: CircuitBreakerTrip) => void): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Sample equity, roll the UTC day, move the high-water mark and check limits.
+     * Never throws - if equity cannot be read the previous state is kept.
+     */
+    async update(): Promise<CircuitBreakerState | null> {
+        let equityUsd: number;
+        try {
+            const portfolio = await get_consolidated_portfolio(this.gmxDataCaches);
+            // A missing chain would read as a loss - treat it as no reading at all
+            const failed = portfolio.chains.filter(chain => chain.error);
+            if (failed.length > 0) {
+                throw new Error(failed.map(chain => `${chain.network}: ${chain.error}`).join('; '));
+            }
+            equityUsd = portfolio.totalValueUsd;
+        } catch (error) {
+            console.warn(`${this.tag} Could not read equity, keeping previous state: ${formatError(error)}`);
+            return this.state;
+        }
+
+        // An empty read is far more likely a data glitch than a 100% loss
+        if (!(equityUsd > 0)) {
+            console.warn(`${this.tag} Ignoring non-positive equity reading (${equityUsd})`);
+            return this.state;
+        }
+
+        const now = Date.now();
+        const today = utcDay(now);
+
+        if (!this.state) {
+            this.state = {
+                highWaterMarkUsd: equityUsd,
+                highWaterMarkAt: now,
+                dayStartUtc: today,
+                dayStartEquityUsd: equityUsd,
+                lastEquityUsd: equityUsd,
+                lastUpdatedAt: now,
+                trip: null
+            };
+            console.warn(`${this.tag} Tracking from ${formatUsd(equityUsd)} equity`);
+        }
+
+        const state = this.state;
+
+        if (state.dayStartUtc !== today) {
+            console.warn(`${this.tag} New UTC day ${today} - day start equity ${formatUsd(equityUsd)} (was ${formatUsd(state.dayStartEquityUsd)})`);
+            state.dayStartUtc = today;
+            state.dayStartEquityUsd = equityUsd;
+            if (state.trip?.code === 'DAILY_LOSS') {
+                console.warn(`${this.tag} ✅ Daily loss breaker reset for ${today}`);
+                state.trip = null;
+            }
+        }
+
+        if (equityUsd > state.highWaterMarkUsd) {
+            state.highWaterMarkUsd = equityUsd;
+            state.highWaterMarkAt = now;
+        }
+        state.lastEquityUsd = equityUsd;
+        state.lastUpdatedAt = now;
+
+        const newTrip = state.trip ? null : this.checkLimits(state, equityUsd, now);
+        if (newTrip) {
+            state.trip = newTrip;
+        }
+
+        // Persist before notifying so the trip survives a crash in a listener
+        this.persist();
+        if (newTrip) {
+            this.notifyTrip(newTrip);
+        }
+        return state;
+    }
+
+    private checkLimits(state: CircuitBreakerState, equityUsd: number, now: number): CircuitBreakerTrip | null {
+        const drawdownPct = ((state.highWaterMarkUsd - equityUsd) / state.highWaterMarkUsd) * 100;
+        if (this.config.maxDrawdownPct > 0 && drawdownPct >= this.config.maxDrawdownPct) {
+            return {
+                code: 'MAX_DRAWDOWN',
+                reason: `Equity ${formatUsd(equityUsd)} is ${drawdownPct.toFixed(2)}% below high-water mark ${formatUsd(state.highWaterMarkUsd)} (max ${this.config.maxDrawdownPct}%)`,
+                equityUsd,
+                referenceUsd: state.highWaterMarkUsd,
+                lossPct: drawdownPct,
+                limitPct: this.config.maxDrawdownPct,
+                trippedAt: now
+            };
+        }
+
+        const dailyLossPct = ((state.dayStartEquityUsd - equityUsd) / state.dayStartEquityUsd) * 100;
+        if (this.config.maxDailyLossPct > 0 && dailyLossPct >= this.config.maxDailyLossPct) {
+            return {
+                code: 'DAILY_LOSS',
+                reason: `Equity ${formatUsd(equityUsd)} is ${dailyLossPct.toFixed(2)}% below UTC day start ${formatUsd(state.dayStartEquityUsd)} (max ${this.config.maxDailyLossPct}%)`,
+                equityUsd,
+                referenceUsd: state.dayStartEquityUsd,
+                lossPct: dailyLossPct,
+                limitPct: this.config.maxDailyLossPct,
+                trippedAt: now
+            };
+        }
+
+        return null;
+    }
+
+    private notifyTrip(trip: CircuitBreakerTrip): void {
+        console.error(`⛔ ${this.tag} TRIPPED (${trip.code}): ${trip.reason} - new positions and monitor triggers blocked`);
+        for (const listener of this.listeners) {
+            try {
+                listener(trip);
+            } catch (error) {
+                console.error(`${this.tag} Trip listener failed: ${formatError(error)}`);
+            }
+        }
+    }
+
+    private load(): CircuitBreakerState | null {
+        if (!fs.existsSync(this.config.statePath)) {
+            return null;
+        }
+        try {
+            const state = JSON.parse(fs.readFileSync(this.config.statePath, 'utf-8')) as CircuitBreakerState;
+            console.warn(`${this.tag} Loaded state from ${this.config.statePath} - high-water mark ${formatUsd(state.highWaterMarkUsd)}, day start ${formatUsd(state.dayStartEquityUsd)} (${state.dayStartUtc})`);
+            return state;
+        } catch (error) {
+            // Refuse to silently start fresh - that would clear a tripped breaker
+            throw new Error(`Circuit breaker state at ${this.config.statePath} is unreadable (${formatError(error)}) - fix or delete it to reset`);
+        }
+    }
+
+    // Write then rename so a crash mid-write never leaves a torn state file
+    private persist(): void {
+        try {
+            const tmpPath = `${this.config.statePath}.tmp`;
+            fs.writeFileSync(tmpPath, JSON.stringify(this.state, null, 2));
+            fs.renameSync(tmpPath, this.config.statePath);
+        } catch (error) {
+            console.error(`${this.tag} Failed to persist state: ${formatError(error)}`);
+        }
+    }
+}
@@ -0,0 +1,385 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎛️ GMX CONTROL API - LOCAL HTTP ENDPOINTS FOR OPERATORS
+// ═══════════════════════════════════════════════════════════════════════════════
+// Inspect and steer a running agent. Binds to localhost unless told otherwise,
+// and every request must carry the configured bearer token.
+//
+//   GET  /positions, /orders, /portfolio   ?account=<name>&chain=<network>
+//   GET  /analysis                         ?asset=<BTC|ETH|SOL>
+//   GET  /queue, /cache, /monitor
+//   GET  /metrics                      cache metrics in Prometheus text format
+//   POST /pause    { "reason"? }   stop the monitor from triggering cycles
+//   POST /resume                   let it trigger again
+//   POST /cycle    { "reason"? }   run a trading cycle now
+//   POST /flatten  { "reason"? }   engage the kill switch
+//
+// BigInts in responses are sent as decimal strings.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { GmxAccounts } from './gmx-accounts';
+import type { GmxChain } from './gmx-chains';
+import type { KillSwitch } from './gmx-killswitch';
+import { get_consolidated_portfolio, get_orders, get_positions, get_synth_analysis, get_technical_analysis } from './gmx-queries';
+import { ASSETS, type Asset, type VolatilityRegime } from './gmx-types';
+import { formatError } from './gmx-utils';
+import { PROMETHEUS_CONTENT_TYPE } from './cache-resource';
+import { formatCacheMetricsPrometheus } from './gmx-cache';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ControlApiConfig {
+    host: string;
+    /** Null disables the server */
+    port: number | null;
+    token: string | null;
+}
+
+export interface MonitorTrigger {
+    /** SIGNAL, SCHEDULED or MANUAL */
+    type: string;
+    reason: string;
+    asset: Asset | null;
+    at: number;
+}
+
+export interface AssetCooldown {
+    asset: Asset;
+    signal: 'LONG' | 'SHORT';
+    triggeredAt: number;
+    expiresAt: number;
+}
+
+// One asset as the trading monitor last saw it
+export interface AssetMonitorSnapshot {
+    asset: Asset;
+    enabled: boolean;
+    /** Null when the Synth analysis failed */
+    percentile: number | null;
+    signal: 'LONG' | 'SHORT' | 'WAIT' | null;
+    volatility: number;
+    regime: VolatilityRegime;
+    updatedAt: number;
+}
+
+export interface MonitorStatus {
+    paused: { reason: string; at: number } | null;
+    killSwitchEngaged: boolean;
+    cycleRunning: boolean;
+    lastCheckAt: number | null;
+    lastTrigger: MonitorTrigger | null;
+    /** Earliest time of the next scheduled cycle - the monitor checks once a minute */
+    nextScheduledCycleAt: number | null;
+    /** Active signal cooldowns only */
+    cooldowns: AssetCooldown[];
+    /** Empty until the first monitor check */
+    assets: AssetMonitorSnapshot[];
+}
+
+// The agent's side of the API - implemented next to the trading monitor
+export interface TradingControl {
+    getMonitorStatus(): MonitorStatus;
+    pause(reason: string): void;
+    resume(): void;
+    /** Start a trading cycle without waiting for it to finish */
+    triggerCycle(reason: string): void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_CONTROL_API_CONFIG: ControlApiConfig = {
+    host: '127.0.0.1',
+    port: null,
+    token: null
+};
+
+export const MIN_TOKEN_LENGTH = 16;
+const MAX_BODY_BYTES = 64 * 1024;
+
+export const createControlApiConfigFromEnv = (env: {
+    GMX_CONTROL_API_PORT?: string;
+    GMX_CONTROL_API_HOST?: string;
+    GMX_CONTROL_API_TOKEN?: string;
+}): ControlApiConfig => {
+    const defaults = DEFAULT_CONTROL_API_CONFIG;
+    const port = env.GMX_CONTROL_API_PORT ? Number(env.GMX_CONTROL_API_PORT) : defaults.port;
+    const token = env.GMX_CONTROL_API_TOKEN || defaults.token;
+
+    if (port !== null) {
+        if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+            throw new Error(`GMX_CONTROL_API_PORT must be a port number, got ${env.GMX_CONTROL_API_PORT}`);
+        }
+        if (!token || token.length < MIN_TOKEN_LENGTH) {
+            throw new Error(`GMX_CONTROL_API_TOKEN of at least ${MIN_TOKEN_LENGTH} characters is required when GMX_CONTROL_API_PORT is set`);
+        }
+    }
+
+    return {
+        host: env.GMX_CONTROL_API_HOST || defaults.host,
+        port,
+        token
+    };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎛️ CONTROL API
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Thrown by route handlers to answer with a specific status
+class ControlApiError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'ControlApiError';
+    }
+}
+
+// Returned by route handlers to answer with a non-JSON body
+class TextResponse {
+    constructor(public readonly contentType: string, public readonly text: string) {}
+}
+
+type Query = URLSearchParams;
+type Body = { reason?: unknown };
+
+export class ControlApi {
+    private server: http.Server | null = null;
+
+    constructor(
+        private readonly accounts: GmxAccounts,
+        private readonly killSwitch: KillSwitch,
+        private readonly control: TradingControl,
+        private readonly config: ControlApiConfig = DEFAULT_CONTROL_API_CONFIG
+    ) {}
+
+    public start(): void {
+        const { host, port } = this.config;
+        if (port === null) {
+            return;
+        }
+
+        const server = http.createServer((req, res) => {
+            this.handleRequest(req, res).catch(error => {
+                console.error(`[CONTROL_API] ${req.method} ${req.url} failed: ${formatError(error)}`);
+            });
+        });
+        // A port in use or a bad host must not take the agent down - it trades on without the API
+        server.on('error', error => {
+            console.error(`[CONTROL_API] Disabled - ${host}:${port}: ${formatError(error)}`);
+            server.close();
+            if (this.server === server) this.server = null;
+        });
+        server.listen(port, host, () => {
+            console.warn(`[CONTROL_API] Listening on http://${host}:${port}`);
+        });
+        this.server = server;
+        if (host !== '127.0.0.1' && host !== 'localhost' && host !== '::1') {
+            console.warn(`[CONTROL_API] ⚠️ Bound to ${host} - the API is reachable from other machines`);
+        }
+    }
+
+    public stop(): void {
+        this.server?.close();
+        this.server = null;
+    }
+
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const respond = (status: number, body: unknown) => {
+            if (body instanceof TextResponse) {
+                res.writeHead(status, { 'Content-Type': body.contentType });
+                res.end(body.text);
+                return;
+            }
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body, (_, value) => typeof value === 'bigint' ? value.toString() : value, 2));
+        };
+
+        if (!isAuthorizedBearer(req.headers.authorization, this.config.token)) {
+            respond(401, { error: 'Missing or invalid bearer token' });
+            return;
+        }
+
+        const url = new URL(req.url || '/', 'http://localhost');
+        try {
+            const body = req.method === 'POST' ? await readBody(req) : {};
+            respond(200, await this.route(req.method || 'GET', url.pathname, url.searchParams, body));
+        } catch (error) {
+            const status = error instanceof ControlApiError ? error.status : 500;
+            respond(status, { error: formatError(error) });
+        }
+    }
+
+    private async route(method: string, pathname: string, query: Query, body: Body): Promise<unknown> {
+        const route = `${method} ${pathname.replace(/\/+$/, '') || '/'}`;
+
+        switch (route) {
+            case 'GET /positions':
+                return this.perChain(query, async chain => ({ positions: await get_positions(chain.gmxDataCache) }));
+            case 'GET /orders':
+                return this.perChain(query, async chain => ({ orders: await get_orders(chain.gmxDataCache) }));
+            case 'GET /portfolio':
+                return get_consolidated_portfolio(this.selectChains(query).map(chain => chain.gmxDataCache));
+            case 'GET /analysis':
+                return this.getAnalysis(query);
+            case 'GET /queue':
+                return this.accounts.getAll().map(account => ({ account: account.name, ...account.transactionQueue.getStatus() }));
+            case 'GET /cache':
+                return this.selectChains(query).map(chain => ({
+                    account: chain.account,
+                    network: chain.network,
+                    fresh: chain.gmxDataCache.getCacheStatus(),
+                    agesMs: chain.gmxDataCache.getCacheAges(),
+                    metrics: chain.gmxDataCache.getCacheMetrics().resources
+                }));
+            case 'GET /metrics':
+                return new TextResponse(PROMETHEUS_CONTENT_TYPE, formatCacheMetricsPrometheus(this.selectChains(query).map(chain => chain.gmxDataCache)));
+            case 'GET /monitor':
+                return {
+                    ...this.control.getMonitorStatus(),
+                    circuitBreakers: this.accounts.getAll().map(account => ({ account: account.name, trip: account.circuitBreaker.getTrip() })),
+                    killSwitch: { engaged: this.killSwitch.isEngaged(), lastReport: this.killSwitch.getLastReport() }
+                };
+            case 'POST /pause':
+                return this.pause(reasonOf(body));
+            case 'POST /resume':
+                return this.resume();
+            case 'POST /cycle':
+                return this.triggerCycle(reasonOf(body));
+            case 'POST /flatten':
+                return this.killSwitch.engage(reasonOf(body), 'control_api');
+            default:
+                throw new ControlApiError(404, `No route ${route}`);
+        }
+    }
+
+    // Chains picked by the optional account and chain query parameters - all of them when neither is given
+    private selectChains(query: Query): GmxChain[] {
+        const account = query.get('account') || undefined;
+        const network = query.get('chain') || undefined;
+
+        try {
+            if (account && network) {
+                return [this.accounts.getChain(account, network)];
+            }
+            if (account) {
+                return this.accounts.get(account).chains.getAll();
+            }
+            if (network) {
+                return this.accounts.getAll().map(entry => entry.chains.get(network));
+            }
+        } catch (error) {
+            throw new ControlApiError(400, formatError(error));
+        }
+        return this.accounts.getAllChains();
+    }
+
+    private perChain<T extends object>(query: Query, load: (chain: GmxChain) => Promise<T>): Promise<Array<T & { account: string; network: string }>> {
+        return Promise.all(this.selectChains(query).map(async chain => ({
+            account: chain.account,
+            network: chain.network,
+            ...await load(chain)
+        })));
+    }
+
+    // Analysis runs on the primary chain, like the trading monitor
+    private async getAnalysis(query: Query): Promise<unknown> {
+        const requested = query.get('asset')?.toUpperCase();
+        if (requested && !ASSETS.includes(requested as Asset)) {
+            throw new ControlApiError(400, `Unknown asset ${requested} - expected one of ${ASSETS.join(', ')}`);
+        }
+        const assets = requested ? [requested as Asset] : [...ASSETS];
+        const { gmxDataCache } = this.accounts.getChain();
+
+        return Promise.all(assets.map(async asset => {
+            const [synth, technical] = await Promise.all([
+                get_synth_analysis(asset, gmxDataCache),
+                get_technical_analysis(asset, gmxDataCache).catch(error => ({ error: formatError(error) }))
+            ]);
+            return { asset, synth, technical };
+        }));
+    }
+
+    private pause(reason: string): MonitorStatus {
+        if (!this.control.getMonitorStatus().paused) {
+            this.control.pause(reason);
+        }
+        return this.control.getMonitorStatus();
+    }
+
+    private resume(): MonitorStatus {
+        if (this.killSwitch.isEngaged()) {
+            throw new ControlApiError(409, 'Kill switch is engaged - trading stays halted until restart');
+        }
+        if (this.control.getMonitorStatus().paused) {
+            this.control.resume();
+        }
+        return this.control.getMonitorStatus();
+    }
+
+    private triggerCycle(reason: string): MonitorStatus {
+        const status = this.control.getMonitorStatus();
+        if (status.killSwitchEngaged) {
+            throw new ControlApiError(409, 'Kill switch is engaged - trading stays halted until restart');
+        }
+        if (status.paused) {
+            throw new ControlApiError(409, `Trading is paused (${status.paused.reason}) - resume first`);
+        }
+        if (status.cycleRunning) {
+            throw new ControlApiError(409, 'A trading cycle is already running');
+        }
+
+        try {
+            this.control.triggerCycle(reason);
+        } catch (error) {
+            throw new ControlApiError(503, formatError(error));
+        }
+        return this.control.getMonitorStatus();
+    }
+}
+
+/**
+ * Whether an Authorization header carries the token - hashing first makes the
+ * comparison constant-time whatever the token length. No token authorizes nothing.
+ */
+export function isAuthorizedBearer(header: string | undefined, token: string | null): boolean {
+    const match = /^Bearer (.+)$/.exec(header || '');
+    if (!match || !token) {
+        return false;
+    }
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+const reasonOf = (body: Body): string => {
+    return typeof body.reason === 'string' && body.reason.trim().length > 0 ? body.reason.trim() : 'control API request';
+};
+
+const readBody = (req: http.IncomingMessage): Promise<Body> => {
+    return new Promise((resolve, reject) => {
+        let raw = '';
+        req.on('data', chunk => {
+            raw += chunk;
+            if (raw.length > MAX_BODY_BYTES) {
+                reject(new ControlApiError(413, 'Request body too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => {
+            if (!raw.trim()) {
+                resolve({});
+                return;
+            }
+            try {
+                const parsed = JSON.parse(raw);
+                resolve(parsed && typeof parsed === 'object' ? parsed : {});
+            } catch {
+                reject(new ControlApiError(400, 'Request body is not valid JSON'));
+            }
+        });
+        req.on('error', reject);
+    });
+};
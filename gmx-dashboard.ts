@@ -0,0 +1,376 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📺 GMX DASHBOARD - LIVE TERMINAL VIEW
+// ═══════════════════════════════════════════════════════════════════════════════
+// Redraws a set of panels from data the agent already holds: the trading
+// monitor's last check, cached positions, the last orders read, queue status and
+// cache ages. It never calls an API itself, so panels are as fresh as the cache.
+// It draws on the controlling terminal and leaves console output alone, so the
+// agent's output must be redirected elsewhere - a log file - while it runs.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as fs from 'fs';
+import * as tty from 'tty';
+import type { GmxAccounts } from './gmx-accounts';
+import type { GmxChain } from './gmx-chains';
+import type { MonitorStatus, TradingControl } from './gmx-control-api';
+import { build_order_summaries, build_position_summaries } from './gmx-queries';
+import { formatDuration, formatError, formatUsd } from './gmx-utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type DashboardEventLevel = 'info' | 'success' | 'warning' | 'error';
+
+export interface DashboardEvent {
+    at: number;
+    level: DashboardEventLevel;
+    message: string;
+}
+
+export interface DashboardConfig {
+    enabled: boolean;
+    refreshMs: number;
+    /** Events kept for the scrolling log */
+    maxEvents: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Faster redraws would keep a small host busy repainting
+const MIN_REFRESH_MS = 250;
+
+export const DEFAULT_DASHBOARD_CONFIG: DashboardConfig = {
+    enabled: false,
+    refreshMs: 2000,
+    maxEvents: 200
+};
+
+export const createDashboardConfigFromEnv = (env: {
+    GMX_DASHBOARD?: string;
+    GMX_DASHBOARD_REFRESH_MS?: string;
+}): DashboardConfig => {
+    const defaults = DEFAULT_DASHBOARD_CONFIG;
+
+    const refreshMs = env.GMX_DASHBOARD_REFRESH_MS ? Number(env.GMX_DASHBOARD_REFRESH_MS) : defaults.refreshMs;
+    if (!Number.isInteger(refreshMs) || refreshMs < MIN_REFRESH_MS) {
+        throw new Error(`GMX_DASHBOARD_REFRESH_MS must be an integer of at least ${MIN_REFRESH_MS}, got ${env.GMX_DASHBOARD_REFRESH_MS}`);
+    }
+
+    return {
+        ...defaults,
+        enabled: env.GMX_DASHBOARD === 'true',
+        refreshMs
+    };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎨 TERMINAL HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const ESC = '\x1b[';
+const color = {
+    bold: (text: string) => `${ESC}1m${text}${ESC}0m`,
+    dim: (text: string) => `${ESC}2m${text}${ESC}0m`,
+    red: (text: string) => `${ESC}31m${text}${ESC}0m`,
+    green: (text: string) => `${ESC}32m${text}${ESC}0m`,
+    yellow: (text: string) => `${ESC}33m${text}${ESC}0m`,
+    cyan: (text: string) => `${ESC}36m${text}${ESC}0m`,
+};
+
+const LEVEL_STYLE: Record<DashboardEventLevel, (text: string) => string> = {
+    info: text => text,
+    success: color.green,
+    warning: color.yellow,
+    error: color.red,
+};
+
+// Cut a line to the terminal width without splitting escape sequences
+const fit = (line: string, width: number): string => {
+    let visible = 0;
+    let output = '';
+    for (let index = 0; index < line.length; index++) {
+        if (line[index] === '\x1b') {
+            const end = line.indexOf('m', index);
+            output += line.slice(index, end + 1);
+            index = end;
+            continue;
+        }
+        if (visible >= width) {
+            break;
+        }
+        output += line[index];
+        visible++;
+    }
+    return `${output}${ESC}0m`;
+};
+
+// Fixed-width columns - cells are padded before coloring so escape codes do not shift the layout
+const row = (cells: Array<[string, number, ((text: string) => string)?]>): string => {
+    return cells.map(([text, width, style]) => {
+        const cell = text.length > width ? text.slice(0, width - 1) + '…' : text.padEnd(width);
+        return style ? style(cell) : cell;
+    }).join(' ');
+};
+
+const formatAge = (ms: number | null): string => ms === null ? 'never' : formatDuration(ms);
+
+const formatSignedUsd = (value: number): string => `${value < 0 ? '' : '+'}${formatUsd(value)}`;
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toISOString().slice(11, 19);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📺 DASHBOARD
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class Dashboard {
+    private events: DashboardEvent[] = [];
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private terminal: tty.WriteStream | null = null;
+    private readonly onResize = () => this.render();
+    private readonly onExit = () => this.stop();
+
+    constructor(
+        private readonly accounts: GmxAccounts,
+        private readonly control: TradingControl,
+        private readonly config: DashboardConfig = DEFAULT_DASHBOARD_CONFIG
+    ) {}
+
+    public isActive(): boolean {
+        return this.timer !== null;
+    }
+
+    /**
+     * Add a line to the event log. Events are kept whether or not the dashboard is showing.
+     */
+    public log(message: string, level: DashboardEventLevel = 'info'): void {
+        this.events.push({ at: Date.now(), level, message: message.replace(/\s*\n\s*/g, ' ') });
+        if (this.events.length > this.config.maxEvents) {
+            this.events.splice(0, this.events.length - this.config.maxEvents);
+        }
+    }
+
+    /**
+     * Take over the terminal. Does nothing when disabled, when console output would draw over
+     * the panels, or when there is no terminal to draw on.
+     */
+    public start(): void {
+        if (!this.config.enabled || this.isActive()) {
+            return;
+        }
+        if (process.stdout.isTTY || process.stderr.isTTY) {
+            console.warn(`[DASHBOARD] Console output is on the terminal - redirect stdout and stderr (e.g. >> agent.log 2>&1) to use the dashboard`);
+            return;
+        }
+
+        let terminal: tty.WriteStream;
+        try {
+            terminal = new tty.WriteStream(fs.openSync('/dev/tty', 'w'));
+        } catch (error) {
+            console.warn(`[DASHBOARD] No terminal to draw on - dashboard disabled: ${formatError(error)}`);
+            return;
+        }
+        this.terminal = terminal;
+        console.warn(`[DASHBOARD] Started on the controlling terminal`);
+
+        // Alternate screen buffer, cursor hidden
+        terminal.write(`${ESC}?1049h${ESC}?25l`);
+        terminal.on('resize', this.onResize);
+        process.once('exit', this.onExit);
+
+        this.timer = setInterval(() => this.render(), this.config.refreshMs);
+        this.render();
+    }
+
+    /**
+     * Give the terminal back
+     */
+    public stop(): void {
+        if (!this.timer || !this.terminal) {
+            return;
+        }
+        clearInterval(this.timer);
+        this.timer = null;
+        process.off('exit', this.onExit);
+        this.terminal.off('resize', this.onResize);
+        this.terminal.write(`${ESC}?25h${ESC}?1049l`);
+        this.terminal.destroy();
+        this.terminal = null;
+    }
+
+    private render(): void {
+        const terminal = this.terminal;
+        if (!terminal) {
+            return;
+        }
+        try {
+            const width = terminal.columns || 120;
+            const height = terminal.rows || 40;
+            const status = this.control.getMonitorStatus();
+            const chains = this.accounts.getAllChains();
+
+            const lines = [
+                ...this.renderHeader(status),
+                ...this.renderSignals(status),
+                ...this.renderPositions(chains),
+                ...this.renderOrders(chains),
+                ...this.renderQueues(),
+                ...this.renderCaches(chains),
+            ];
+
+            // The event log gets whatever rows are left, newest last
+            const eventRows = Math.max(3, height - lines.length - 1);
+            lines.push(this.title(`EVENTS (${this.events.length})`));
+            const events = this.events.slice(-eventRows);
+            for (const event of events) {
+                lines.push(`${color.dim(formatTime(event.at))} ${LEVEL_STYLE[event.level](event.message)}`);
+            }
+
+            const frame = lines.slice(0, height).map(line => `${fit(line, width)}${ESC}K`).join('\n');
+            terminal.write(`${ESC}H${frame}${ESC}J`);
+        } catch (error) {
+            console.error(`[DASHBOARD] Render failed: ${formatError(error)}`);
+        }
+    }
+
+    private title(text: string): string {
+        return color.cyan(color.bold(`── ${text} `) + '─'.repeat(200));
+    }
+
+    private renderHeader(status: MonitorStatus): string[] {
+        const now = Date.now();
+        const state = status.killSwitchEngaged
+            ? color.red('HALTED (kill switch)')
+            : status.paused
+                ? color.yellow(`PAUSED (${status.paused.reason})`)
+                : status.cycleRunning ? color.green('CYCLE RUNNING') : color.green('RUNNING');
+        const lastCheck = status.lastCheckAt ? `${formatDuration(now - status.lastCheckAt)} ago` : 'pending';
+        const nextCycle = status.nextScheduledCycleAt ? `in ${formatDuration(status.nextScheduledCycleAt - now)}` : 'pending';
+        const lastTrigger = status.lastTrigger
+            ? `${status.lastTrigger.type} ${formatDuration(now - status.lastTrigger.at)} ago - ${status.lastTrigger.reason}`
+            : 'none';
+
+        return [
+            `${color.bold('VEGA · GMX DASHBOARD')}  ${new Date(now).toISOString().slice(0, 19).replace('T', ' ')}Z  ${state}`,
+            `Last check ${lastCheck} · Next scheduled cycle ${nextCycle} · Last trigger ${lastTrigger}`,
+        ];
+    }
+
+    private renderSignals(status: MonitorStatus): string[] {
+        const lines = [this.title('SIGNALS'), color.dim(row([['ASSET', 6], ['PCTL', 7], ['SIGNAL', 7], ['VOL', 7], ['REGIME', 9], ['COOLDOWN', 12], ['AS OF', 8]]))];
+        if (status.assets.length === 0) {
+            return [...lines, color.dim('Waiting for the first monitor check')];
+        }
+
+        const now = Date.now();
+        for (const snapshot of status.assets) {
+            const cooldown = status.cooldowns.find(entry => entry.asset === snapshot.asset);
+            const signal = !snapshot.enabled ? 'OFF' : snapshot.signal ?? 'ERROR';
+            const signalStyle = signal === 'LONG' ? color.green : signal === 'SHORT' ? color.red : signal === 'ERROR' ? color.yellow : color.dim;
+            lines.push(row([
+                [snapshot.asset, 6, color.bold],
+                [snapshot.percentile !== null ? `P${snapshot.percentile.toFixed(1)}` : 'N/A', 7],
+                [signal, 7, signalStyle],
+                [`${snapshot.volatility.toFixed(1)}%`, 7],
+                [snapshot.regime, 9],
+                [cooldown ? `${cooldown.signal} ${formatDuration(cooldown.expiresAt - now)}` : '-', 12, cooldown ? color.yellow : undefined],
+                [formatTime(snapshot.updatedAt), 8, color.dim],
+            ]));
+        }
+        return lines;
+    }
+
+    private renderPositions(chains: GmxChain[]): string[] {
+        const lines = [this.title('POSITIONS'), color.dim(row([['BOOK', 18], ['MARKET', 18], ['SIDE', 5], ['SIZE', 12], ['LEV', 6], ['PNL', 22], ['LIQ DIST', 9]]))];
+        let count = 0;
+
+        for (const chain of chains) {
+            const markets = chain.gmxDataCache.peekMarketsInfo();
+            const cached = chain.gmxDataCache.peekPositions();
+            if (!markets?.marketsInfoData || !markets?.tokensData || !cached) {
+                lines.push(color.dim(`${chain.account}/${chain.network}: not loaded yet`));
+                continue;
+            }
+
+            for (const position of build_position_summaries(cached.positionsData, markets.marketsInfoData, markets.tokensData)) {
+                count++;
+                const pnlStyle = position.pnlUsd < 0 ? color.red : color.green;
+                const liqStyle = position.distanceToLiquidationPct < 10 ? color.red : position.distanceToLiquidationPct < 25 ? color.yellow : undefined;
+                lines.push(row([
+                    [`${chain.account}/${chain.network}`, 18],
+                    [position.marketName, 18],
+                    [position.direction, 5, position.isLong ? color.green : color.red],
+                    [formatUsd(position.sizeUsd), 12],
+                    [`${position.leverage.toFixed(1)}x`, 6],
+                    [`${formatSignedUsd(position.pnlUsd)} (${position.pnlPercentage >= 0 ? '+' : ''}${position.pnlPercentage.toFixed(1)}%)`, 22, pnlStyle],
+                    [position.liquidationPrice !== null ? `${position.distanceToLiquidationPct.toFixed(1)}%` : 'N/A', 9, liqStyle],
+                ]));
+            }
+        }
+
+        if (count === 0 && lines.length === 2) {
+            lines.push(color.dim('No open positions'));
+        }
+        return lines;
+    }
+
+    private renderOrders(chains: GmxChain[]): string[] {
+        const lines = [this.title('TP/SL ORDERS'), color.dim(row([['BOOK', 18], ['MARKET', 18], ['SIDE', 5], ['KIND', 11], ['TRIGGER', 12], ['MARK', 12], ['SIZE', 12], ['READ', 8]]))];
+        let count = 0;
+
+        for (const chain of chains) {
+            const snapshot = chain.gmxDataCache.peekOrders();
+            if (!snapshot) {
+                lines.push(color.dim(`${chain.account}/${chain.network}: not read yet`));
+                continue;
+            }
+
+            const orders = build_order_summaries(snapshot.ordersInfoData).filter(order => order.kind !== 'REGULAR');
+            for (const order of orders) {
+                count++;
+                lines.push(row([
+                    [`${chain.account}/${chain.network}`, 18],
+                    [order.marketName, 18],
+                    [order.direction, 5, order.isLong ? color.green : color.red],
+                    [order.kind, 11, order.kind === 'STOP_LOSS' ? color.yellow : color.green],
+                    [formatUsd(order.triggerPrice), 12],
+                    [formatUsd(order.markPrice), 12],
+                    [formatUsd(order.sizeUsd), 12],
+                    [`${formatDuration(Date.now() - snapshot.fetchedAt)} ago`, 8, color.dim],
+                ]));
+            }
+        }
+
+        if (count === 0 && lines.length === 2) {
+            lines.push(color.dim('No pending TP/SL orders'));
+        }
+        return lines;
+    }
+
+    private renderQueues(): string[] {
+        const cells = this.accounts.getAll().map(account => {
+            const status = account.transactionQueue.getStatus();
+            const activity = status.isProcessing ? color.green('processing') : color.dim('idle');
+            const next = status.nextTransaction ? ` · next ${status.nextTransaction}` : '';
+            const halted = status.haltReason ? ` · ${color.red('opens halted')}` : '';
+            return `${color.bold(account.name)}: ${status.queueLength} queued · ${activity}${next}${halted}`;
+        });
+        return [this.title('QUEUES'), cells.join('   ')];
+    }
+
+    private renderCaches(chains: GmxChain[]): string[] {
+        const lines = [this.title('CACHE AGES')];
+        for (const chain of chains) {
+            const ages = chain.gmxDataCache.getCacheAges();
+            const fresh = chain.gmxDataCache.getCacheStatus();
+            const cell = (label: keyof typeof ages) => {
+                const text = `${label} ${formatAge(ages[label])}`;
+                return fresh[label] ? text : color.dim(text);
+            };
+            lines.push(`${`${chain.account}/${chain.network}`.padEnd(18)} ${cell('markets')}  ${cell('tokens')}  ${cell('positions')}  ${cell('positionsInfo')}`);
+        }
+        return lines;
+    }
+}
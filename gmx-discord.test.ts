@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { DiscordNotifier, type DiscordIncomingMessage, type DiscordTransport } from './gmx-discord';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧪 FIXTURES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const CHANNEL = 'channel-1';
+const OPERATOR = 'user-1';
+
+// Records every message sent and lets the test speak in the channel
+class FakeTransport implements DiscordTransport {
+    public sent: string[] = [];
+    private listener: ((message: DiscordIncomingMessage) => void) | null = null;
+
+    async send(channelId: string, content: string): Promise<void> {
+        expect(channelId).toBe(CHANNEL);
+        this.sent.push(content);
+    }
+
+    onMessage(listener: (message: DiscordIncomingMessage) => void): () => void {
+        this.listener = listener;
+        return () => { this.listener = null; };
+    }
+
+    destroy(): void {}
+
+    say(authorId: string, content: string): void {
+        this.listener?.({ channelId: CHANNEL, authorId, authorName: authorId, isBot: false, content });
+    }
+}
+
+const fakeAccounts: any = {
+    primary: { name: 'main' },
+    getAll: () => [{ name: 'main', circuitBreaker: { onTrip: () => {} } }],
+    getAllChains: () => [{ account: 'main', network: 'arbitrum' }],
+    getChain: () => ({ account: 'main', network: 'arbitrum' }),
+};
+
+// Commands run through the transport listener without being awaited
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💬 DISCORD NOTIFIER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('DiscordNotifier', () => {
+    let transport: FakeTransport;
+    let notifier: DiscordNotifier;
+    let paused: string | null;
+    let engaged: string[];
+
+    beforeEach(async () => {
+        transport = new FakeTransport();
+        paused = null;
+        engaged = [];
+
+        const control: any = {
+            getMonitorStatus: () => ({ paused: paused === null ? null : { reason: paused } }),
+            pause: (reason: string) => { paused = reason; },
+            resume: () => { paused = null; },
+            triggerCycle: () => {},
+        };
+        const killSwitch: any = {
+            onEngage: () => {},
+            isEngaged: () => engaged.length > 0,
+            engage: async (reason: string) => {
+                engaged.push(reason);
+                return { flat: true, startedAt: 0, completedAt: 1500, remainingPositions: [], remainingOrders: 0 };
+            },
+        };
+
+        notifier = new DiscordNotifier(transport, fakeAccounts, killSwitch, control, {
+            channelId: CHANNEL,
+            token: 'token',
+            botName: 'Vega',
+            authorizedUserIds: [OPERATOR]
+        });
+        notifier.start();
+        await settle();
+        transport.sent = [];
+    });
+
+    it('pauses trading for an authorized user', async () => {
+        transport.say(OPERATOR, '!pause volatile open');
+        await settle();
+
+        expect(paused).toBe(`Discord user ${OPERATOR}: volatile open`);
+        expect(transport.sent).toEqual([`⏸️ Trading paused by ${OPERATOR}`]);
+    });
+
+    it('flattens through the kill switch for an authorized user', async () => {
+        transport.say(OPERATOR, '!flatten');
+        await settle();
+
+        expect(engaged).toEqual([`Discord user ${OPERATOR}`]);
+        expect(transport.sent[0]).toContain('Flattening');
+        expect(transport.sent[1]).toContain('**Flat** after 1.5s');
+    });
+
+    it('refuses commands from an unauthorized user', async () => {
+        transport.say('intruder', '!flatten');
+        transport.say('intruder', '!pause');
+        await settle();
+
+        expect(engaged).toEqual([]);
+        expect(paused).toBeNull();
+        expect(transport.sent).toEqual([
+            '⛔ <@intruder> is not authorized to run commands',
+            '⛔ <@intruder> is not authorized to run commands'
+        ]);
+    });
+
+    it('includes the transaction hash in a successful action result', async () => {
+        notifier.notifyActionResult({
+            action: 'open_long_market',
+            account: 'main',
+            chain: 'arbitrum',
+            success: true,
+            message: 'Successfully opened long market position',
+            transactionHash: '0xabc123',
+            error: null,
+            at: 0
+        });
+        await settle();
+
+        expect(transport.sent).toEqual(['✅ **open_long_market** on `main/arbitrum`: Successfully opened long market position\nTx: `0xabc123`']);
+    });
+
+    it('splits long messages under the 2000 character limit', async () => {
+        const lines = Array.from({ length: 100 }, (_, i) => `${i}`.padEnd(60, '.'));
+        await notifier.post([...lines, 'x'.repeat(5000)].join('\n'));
+
+        expect(transport.sent.length).toBeGreaterThan(1);
+        for (const chunk of transport.sent) {
+            expect(chunk.length).toBeLessThanOrEqual(2000);
+        }
+        // Every short line arrives whole and in order
+        expect(transport.sent.join('\n').split('\n').slice(0, lines.length)).toEqual(lines);
+    });
+});
@@ -0,0 +1,368 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💬 GMX DISCORD - TRADE NOTIFICATIONS AND OPERATOR COMMANDS
+// ═══════════════════════════════════════════════════════════════════════════════
+// Posts signal triggers, trading action results, failures, circuit breaker trips
+// and kill switch engagements to one channel, and answers a few commands from
+// authorized users in that channel:
+//
+//   !status              monitor, signals, queues and circuit breakers
+//   !positions           open positions on every account and chain
+//   !pause [reason]      stop the monitor from triggering cycles
+//   !resume              let it trigger again
+//   !flatten [reason]    engage the kill switch
+//
+// Discord itself sits behind DiscordTransport, so the notifier runs the same
+// against @daydreamsai/discord or a mock client.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { LogLevel } from "@daydreamsai/core";
+import type { GmxAccounts } from './gmx-accounts';
+import type { GmxActionResult } from './gmx-actions';
+import type { TradingControl } from './gmx-control-api';
+import type { KillSwitch, KillSwitchReport } from './gmx-killswitch';
+import { get_positions } from './gmx-queries';
+import { formatDuration, formatError, formatUsd } from './gmx-utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface DiscordConfig {
+    /** Notifications go to and commands are read from this channel; null disables Discord */
+    channelId: string | null;
+    token: string | null;
+    botName: string;
+    /** Discord user IDs allowed to run commands - empty disables commands */
+    authorizedUserIds: string[];
+}
+
+// A chat message reduced to what the notifier needs - decoupled from discord.js
+export interface DiscordIncomingMessage {
+    channelId: string;
+    authorId: string;
+    authorName: string;
+    isBot: boolean;
+    content: string;
+}
+
+export interface DiscordTransport {
+    send(channelId: string, content: string): Promise<void>;
+    /** Returns a function that removes the listener */
+    onMessage(listener: (message: DiscordIncomingMessage) => void): () => void;
+    destroy(): void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_DISCORD_CONFIG: DiscordConfig = {
+    channelId: null,
+    token: null,
+    botName: 'Vega',
+    authorizedUserIds: []
+};
+
+// Discord's limit is 2000 characters per message
+const MAX_MESSAGE_LENGTH = 1900;
+
+// Actions whose successful results are posted - failures of any action are
+const NOTIFIED_ACTIONS = /^(open_|close_position$|set_)/;
+
+/**
+ * DISCORD_TOKEN and DISCORD_BOT_NAME are the names the Daydreams Discord extension uses
+ */
+export const createDiscordConfigFromEnv = (env: {
+    DISCORD_TOKEN?: string;
+    DISCORD_BOT_NAME?: string;
+    GMX_DISCORD_CHANNEL_ID?: string;
+    GMX_DISCORD_AUTHORIZED_USERS?: string;
+}): DiscordConfig => {
+    const defaults = DEFAULT_DISCORD_CONFIG;
+    const channelId = env.GMX_DISCORD_CHANNEL_ID || defaults.channelId;
+
+    if (channelId && !env.DISCORD_TOKEN) {
+        throw new Error("DISCORD_TOKEN is required when GMX_DISCORD_CHANNEL_ID is set");
+    }
+
+    return {
+        channelId,
+        token: env.DISCORD_TOKEN || defaults.token,
+        botName: env.DISCORD_BOT_NAME || defaults.botName,
+        authorizedUserIds: (env.GMX_DISCORD_AUTHORIZED_USERS || '')
+            .split(',')
+            .map(id => id.trim())
+            .filter(id => id.length > 0)
+    };
+};
+
+/**
+ * Transport backed by @daydreamsai/discord. Loaded on demand so the agent only connects when Discord is configured.
+ */
+export const createDaydreamsDiscordTransport = async (config: DiscordConfig): Promise<DiscordTransport> => {
+    if (!config.token) {
+        throw new Error("DISCORD_TOKEN is required for the Discord transport");
+    }
+
+    const { DiscordClient } = await import("@daydreamsai/discord");
+    const discord = new DiscordClient({ discord_token: config.token, discord_bot_name: config.botName }, LogLevel.WARN);
+
+    return {
+        async send(channelId, content) {
+            await discord.sendMessage({ channelId, content });
+        },
+        onMessage(listener) {
+            const handler = (message: any) => listener({
+                channelId: message.channelId,
+                authorId: message.author?.id ?? '',
+                authorName: message.author?.displayName ?? message.author?.username ?? 'unknown',
+                isBot: !!message.author?.bot,
+                content: message.content ?? ''
+            });
+            discord.client.on('messageCreate', handler);
+            return () => {
+                discord.client.off('messageCreate', handler);
+            };
+        },
+        destroy() {
+            discord.client.destroy();
+        }
+    };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💬 DISCORD NOTIFIER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class DiscordNotifier {
+    private unsubscribe: (() => void) | null = null;
+    // Sends are chained so messages arrive in the order they were posted
+    private sending: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly transport: DiscordTransport,
+        private readonly accounts: GmxAccounts,
+        private readonly killSwitch: KillSwitch,
+        private readonly control: TradingControl,
+        private readonly config: DiscordConfig
+    ) {}
+
+    /**
+     * Listen for commands and for circuit breaker trips and kill switch engagements
+     */
+    public start(): void {
+        if (!this.config.channelId || this.unsubscribe) {
+            return;
+        }
+
+        this.unsubscribe = this.transport.onMessage(message => {
+            this.handleMessage(message).catch(error => {
+                console.error(`[DISCORD] Command failed: ${formatError(error)}`);
+            });
+        });
+
+        for (const account of this.accounts.getAll()) {
+            account.circuitBreaker.onTrip(trip => {
+                this.post(`⛔ **Circuit breaker tripped** on \`${account.name}\`: ${trip.reason}`);
+            });
+        }
+        this.killSwitch.onEngage(reason => {
+            this.post(`🛑 **Kill switch engaged** - ${reason}`);
+        });
+
+        const commands = this.config.authorizedUserIds.length > 0
+            ? `commands enabled for ${this.config.authorizedUserIds.length} user(s)`
+            : 'commands disabled - set GMX_DISCORD_AUTHORIZED_USERS';
+        console.warn(`[DISCORD] Posting to channel ${this.config.channelId} (${commands})`);
+        this.post(`🟢 **${this.config.botName} online** - trading ${this.accounts.getAllChains().map(chain => `\`${chain.account}/${chain.network}\``).join(', ')}`);
+    }
+
+    public stop(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.transport.destroy();
+    }
+
+    public notifySignal(reason: string): void {
+        this.post(`🚨 **Signal** ${reason} - trading cycle started`);
+    }
+
+    public notifyActionResult(result: GmxActionResult): void {
+        const book = this.bookLabel(result.account, result.chain);
+        if (!result.success) {
+            this.post(`❌ **${result.action}** failed on \`${book}\`: ${result.error || result.message}`);
+            return;
+        }
+        if (NOTIFIED_ACTIONS.test(result.action)) {
+            const tx = result.transactionHash ? `\nTx: \`${result.transactionHash}\`` : '';
+            this.post(`✅ **${result.action}** on \`${book}\`: ${result.message}${tx}`);
+        }
+    }
+
+    /**
+     * Queue a message for the channel. Never throws - a Discord outage must not affect trading.
+     */
+    public post(content: string): Promise<void> {
+        const channelId = this.config.channelId;
+        if (!channelId) {
+            return this.sending;
+        }
+
+        this.sending = this.sending.then(async () => {
+            for (const chunk of splitMessage(content)) {
+                try {
+                    await this.transport.send(channelId, chunk);
+                } catch (error) {
+                    console.warn(`[DISCORD] Failed to post message: ${formatError(error)}`);
+                }
+            }
+        });
+        return this.sending;
+    }
+
+    private async handleMessage(message: DiscordIncomingMessage): Promise<void> {
+        const content = message.content.trim();
+        if (message.isBot || message.channelId !== this.config.channelId || !content.startsWith('!')) {
+            return;
+        }
+
+        const [command, ...args] = content.slice(1).split(/\s+/);
+        if (!this.config.authorizedUserIds.includes(message.authorId)) {
+            console.warn(`[DISCORD] Ignored !${command} from unauthorized user ${message.authorName} (${message.authorId})`);
+            await this.post(`⛔ <@${message.authorId}> is not authorized to run commands`);
+            return;
+        }
+
+        const reason = args.join(' ') || undefined;
+        const by = `Discord user ${message.authorName}`;
+        console.warn(`[DISCORD] !${command} from ${message.authorName} (${message.authorId})`);
+
+        switch (command.toLowerCase()) {
+            case 'status':
+                await this.post(this.formatStatus());
+                return;
+            case 'positions':
+                await this.post(await this.formatPositions());
+                return;
+            case 'pause':
+                if (this.control.getMonitorStatus().paused) {
+                    await this.post(`⏸️ Trading is already paused`);
+                    return;
+                }
+                this.control.pause(reason ? `${by}: ${reason}` : by);
+                await this.post(`⏸️ Trading paused by ${message.authorName}`);
+                return;
+            case 'resume':
+                if (this.killSwitch.isEngaged()) {
+                    await this.post(`🛑 Kill switch is engaged - trading stays halted until restart`);
+                    return;
+                }
+                this.control.resume();
+                await this.post(`▶️ Trading resumed by ${message.authorName}`);
+                return;
+            case 'flatten': {
+                await this.post(`🛑 Flattening every account and chain...`);
+                const report = await this.killSwitch.engage(reason ? `${by}: ${reason}` : by, 'discord');
+                await this.post(formatKillSwitchReport(report));
+                return;
+            }
+            case 'help':
+                await this.post('Commands: `!status`, `!positions`, `!pause [reason]`, `!resume`, `!flatten [reason]`');
+                return;
+            default:
+                await this.post(`Unknown command \`!${command}\` - try \`!help\``);
+        }
+    }
+
+    private formatStatus(): string {
+        const now = Date.now();
+        const status = this.control.getMonitorStatus();
+        const state = status.killSwitchEngaged
+            ? '🛑 HALTED (kill switch)'
+            : status.paused ? `⏸️ PAUSED (${status.paused.reason})` : status.cycleRunning ? '🔄 CYCLE RUNNING' : '🟢 RUNNING';
+
+        const lines = [`📊 **Status**: ${state}`];
+        lines.push(`Last check: ${status.lastCheckAt ? `${formatDuration(now - status.lastCheckAt)} ago` : 'pending'}` +
+            ` · Next scheduled cycle: ${status.nextScheduledCycleAt ? `in ${formatDuration(status.nextScheduledCycleAt - now)}` : 'pending'}`);
+        if (status.lastTrigger) {
+            lines.push(`Last trigger: ${status.lastTrigger.type} ${formatDuration(now - status.lastTrigger.at)} ago - ${status.lastTrigger.reason}`);
+        }
+        if (status.assets.length > 0) {
+            lines.push(`Signals: ${status.assets.map(snapshot => {
+                if (!snapshot.enabled) return `${snapshot.asset} OFF`;
+                const percentile = snapshot.percentile !== null ? `P${snapshot.percentile.toFixed(1)}` : 'N/A';
+                return `${snapshot.asset} ${percentile} ${snapshot.signal ?? 'ERROR'} (${snapshot.regime})`;
+            }).join(' · ')}`);
+        }
+        if (status.cooldowns.length > 0) {
+            lines.push(`Cooldowns: ${status.cooldowns.map(cooldown => `${cooldown.asset} ${cooldown.signal} ${formatDuration(cooldown.expiresAt - now)}`).join(' · ')}`);
+        }
+        lines.push(`Queues: ${this.accounts.getAll().map(account => {
+            const queue = account.transactionQueue.getStatus();
+            return `${account.name} ${queue.queueLength} queued${queue.isProcessing ? ' (processing)' : ''}`;
+        }).join(' · ')}`);
+        lines.push(`Circuit breakers: ${this.accounts.getAll().map(account => {
+            const trip = account.circuitBreaker.getTrip();
+            return `${account.name} ${trip ? `⛔ ${trip.code}` : 'OK'}`;
+        }).join(' · ')}`);
+
+        return lines.join('\n');
+    }
+
+    private async formatPositions(): Promise<string> {
+        const books = await Promise.all(this.accounts.getAllChains().map(async chain => {
+            const book = `${chain.account}/${chain.network}`;
+            try {
+                const positions = await get_positions(chain.gmxDataCache);
+                return positions.map(position =>
+                    `\`${book}\` ${position.marketName} ${position.direction} ${formatUsd(position.sizeUsd)} @ ${position.leverage.toFixed(1)}x` +
+                    ` · PnL ${formatUsd(position.pnlUsd)} (${position.pnlPercentage.toFixed(1)}%)` +
+                    ` · liq ${position.liquidationPrice !== null ? `${position.distanceToLiquidationPct.toFixed(1)}% away` : 'N/A'}`
+                );
+            } catch (error) {
+                return [`\`${book}\` ⚠️ ${formatError(error)}`];
+            }
+        }));
+
+        const lines = books.flat();
+        return lines.length > 0 ? `📈 **Positions**\n${lines.join('\n')}` : '📈 No open positions';
+    }
+
+    // account/network as the agent resolves it - unknown names are shown as given
+    private bookLabel(account: string | undefined, network: string | undefined): string {
+        try {
+            const chain = this.accounts.getChain(account, network);
+            return `${chain.account}/${chain.network}`;
+        } catch {
+            return `${account ?? this.accounts.primary.name}/${network ?? 'primary'}`;
+        }
+    }
+}
+
+const formatKillSwitchReport = (report: KillSwitchReport): string => {
+    const seconds = ((report.completedAt - report.startedAt) / 1000).toFixed(1);
+    if (report.flat) {
+        return `🛑 **Flat** after ${seconds}s - trading halted until restart`;
+    }
+    return `🛑 **NOT FLAT** after ${seconds}s - ${report.remainingPositions.length} position(s) and ${report.remainingOrders} order(s) remaining` +
+        (report.remainingPositions.length > 0 ? `\n${report.remainingPositions.map(position => `• ${position}`).join('\n')}` : '') +
+        `\nRun \`!flatten\` again or close manually`;
+};
+
+// Split on line breaks to stay under Discord's message limit
+const splitMessage = (content: string): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+    for (const line of content.split('\n')) {
+        const piece = line.length > MAX_MESSAGE_LENGTH ? `${line.slice(0, MAX_MESSAGE_LENGTH - 1)}…` : line;
+        if (current && current.length + piece.length + 1 > MAX_MESSAGE_LENGTH) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${piece}` : piece;
+    }
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks;
+};
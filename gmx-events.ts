@@ -0,0 +1,352 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📣 GMX EVENTS - TYPED TRADING EVENT BUS AND SINKS
+// ═══════════════════════════════════════════════════════════════════════════════
+// The monitor, the trading actions, the transaction queues, the order trackers
+// and the data caches emit typed events on one bus. Sinks subscribe to it, so integrations read
+// events instead of scraping logs:
+//
+//   JSONL file   one event per line, appended
+//   Webhook      POST per event, HMAC-SHA256 signed, retried with backoff
+//   Stdout       one JSON line per event
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHmac, randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import type { Asset } from './gmx-types';
+import type { OrderExecutionReport } from './gmx-order-tracker';
+import { formatError } from './gmx-utils';
+
+// Get __dirname in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// A trading action that changed a position or its protection
+export interface PositionActionEvent {
+    account: string | undefined;
+    chain: string | undefined;
+    action: string;
+    message: string;
+    transactionHash: string | null;
+    /** The action's input as the agent sent it */
+    params: Record<string, unknown>;
+}
+
+export interface TradingEventMap {
+    SignalTriggered: { asset: Asset; signal: 'LONG' | 'SHORT'; percentile: number | null; volatility: number; regime: string; reason: string };
+    /** SIGNAL, SCHEDULED or MANUAL */
+    CycleStarted: { trigger: string; reason: string; asset: Asset | null };
+    OrderSubmitted: { account: string; name: string; priority: string; transactionHash: string | null };
+    OrderFailed: { account: string; name: string; priority: string; reason: string; error: string };
+    /** The keeper executed, cancelled or froze an order */
+    OrderSettled: OrderExecutionReport;
+    /** A market order is still pending past the stuck timeout */
+    OrderStuck: OrderExecutionReport;
+    PositionOpened: PositionActionEvent;
+    PositionClosed: PositionActionEvent;
+    StopMoved: PositionActionEvent;
+    CacheRefreshFailed: { account: string; network: string; cache: string; error: string };
+    QueueCleared: { account: string; riskIncreasingOnly: boolean; cleared: string[]; remaining: number };
+}
+
+export type TradingEventType = keyof TradingEventMap;
+
+export type TradingEvent<T extends TradingEventType = TradingEventType> = {
+    [K in T]: { id: string; type: K; at: number; data: TradingEventMap[K] }
+}[T];
+
+export interface TradingEventSink {
+    name: string;
+    handle(event: TradingEvent): void | Promise<void>;
+}
+
+export interface TradingEventsConfig {
+    /** JSONL file to append events to - null disables the file sink */
+    filePath: string | null;
+    stdout: boolean;
+    webhookUrl: string | null;
+    webhookSecret: string | null;
+    webhookMaxAttempts: number;
+    webhookTimeoutMs: number;
+    /** Events waiting for delivery while the endpoint is down - the oldest are dropped past this */
+    webhookMaxQueued: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_EVENTS_FILE_PATH = path.join(__dirname, 'data', 'events.jsonl');
+
+export const DEFAULT_TRADING_EVENTS_CONFIG: TradingEventsConfig = {
+    filePath: null,
+    stdout: false,
+    webhookUrl: null,
+    webhookSecret: null,
+    webhookMaxAttempts: 5,
+    webhookTimeoutMs: 10_000,
+    webhookMaxQueued: 500
+};
+
+// Signature header value: hex HMAC-SHA256 over "<timestamp>.<body>"
+export const WEBHOOK_SIGNATURE_HEADER = 'x-gmx-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-gmx-timestamp';
+
+/**
+ * GMX_EVENTS_FILE=true writes to the default path; any other value is the path
+ */
+export const createTradingEventsConfigFromEnv = (env: {
+    GMX_EVENTS_FILE?: string;
+    GMX_EVENTS_STDOUT?: string;
+    GMX_EVENTS_WEBHOOK_URL?: string;
+    GMX_EVENTS_WEBHOOK_SECRET?: string;
+    GMX_EVENTS_WEBHOOK_MAX_ATTEMPTS?: string;
+    GMX_EVENTS_WEBHOOK_MAX_QUEUED?: string;
+}): TradingEventsConfig => {
+    const defaults = DEFAULT_TRADING_EVENTS_CONFIG;
+
+    const webhookUrl = env.GMX_EVENTS_WEBHOOK_URL || defaults.webhookUrl;
+    if (webhookUrl) {
+        const protocol = new URL(webhookUrl).protocol;
+        if (protocol !== 'https:' && protocol !== 'http:') {
+            throw new Error(`GMX_EVENTS_WEBHOOK_URL must be an http(s) URL, got ${protocol}`);
+        }
+        if (!env.GMX_EVENTS_WEBHOOK_SECRET) {
+            throw new Error("GMX_EVENTS_WEBHOOK_SECRET is required when GMX_EVENTS_WEBHOOK_URL is set");
+        }
+    }
+
+    const maxAttempts = env.GMX_EVENTS_WEBHOOK_MAX_ATTEMPTS ? Number(env.GMX_EVENTS_WEBHOOK_MAX_ATTEMPTS) : defaults.webhookMaxAttempts;
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+        throw new Error(`GMX_EVENTS_WEBHOOK_MAX_ATTEMPTS must be a positive integer, got ${env.GMX_EVENTS_WEBHOOK_MAX_ATTEMPTS}`);
+    }
+    const maxQueued = env.GMX_EVENTS_WEBHOOK_MAX_QUEUED ? Number(env.GMX_EVENTS_WEBHOOK_MAX_QUEUED) : defaults.webhookMaxQueued;
+    if (!Number.isInteger(maxQueued) || maxQueued < 1) {
+        throw new Error(`GMX_EVENTS_WEBHOOK_MAX_QUEUED must be a positive integer, got ${env.GMX_EVENTS_WEBHOOK_MAX_QUEUED}`);
+    }
+
+    const file = env.GMX_EVENTS_FILE;
+    return {
+        filePath: !file || file === 'false' ? defaults.filePath : file === 'true' ? DEFAULT_EVENTS_FILE_PATH : file,
+        stdout: env.GMX_EVENTS_STDOUT === 'true',
+        webhookUrl,
+        webhookSecret: env.GMX_EVENTS_WEBHOOK_SECRET || defaults.webhookSecret,
+        webhookMaxAttempts: maxAttempts,
+        webhookTimeoutMs: defaults.webhookTimeoutMs,
+        webhookMaxQueued: maxQueued
+    };
+};
+
+// BigInts are written as decimal strings
+const serializeEvent = (event: TradingEvent): string =>
+    JSON.stringify(event, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📣 EVENT BUS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class TradingEventBus {
+    private static instance: TradingEventBus;
+    private listeners: Array<(event: TradingEvent) => void> = [];
+
+    private constructor() {}
+
+    public static getInstance(): TradingEventBus {
+        if (!TradingEventBus.instance) {
+            TradingEventBus.instance = new TradingEventBus();
+        }
+        return TradingEventBus.instance;
+    }
+
+    /**
+     * Deliver an event to every subscriber. Never throws - a failing subscriber must not affect trading.
+     */
+    public emit<T extends TradingEventType>(type: T, data: TradingEventMap[T]): TradingEvent<T> {
+        const event = { id: randomUUID(), type, at: Date.now(), data } as TradingEvent;
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`[EVENTS] Listener failed for ${type}: ${formatError(error)}`);
+            }
+        }
+        return event as TradingEvent<T>;
+    }
+
+    /**
+     * Run the listener for every event. Returns a function that removes it.
+     */
+    public subscribe(listener: (event: TradingEvent) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(existing => existing !== listener);
+        };
+    }
+
+    /**
+     * Run the listener for one event type only
+     */
+    public on<T extends TradingEventType>(type: T, listener: (event: TradingEvent<T>) => void): () => void {
+        return this.subscribe(event => {
+            if (event.type === type) {
+                listener(event as TradingEvent<T>);
+            }
+        });
+    }
+
+    /**
+     * Feed every event to a sink. Sink errors, sync or async, are logged and dropped.
+     */
+    public addSink(sink: TradingEventSink): () => void {
+        console.warn(`[EVENTS] Publishing trading events to ${sink.name}`);
+        return this.subscribe(event => {
+            Promise.resolve(sink.handle(event)).catch(error => {
+                console.error(`[EVENTS] ${sink.name} failed to handle ${event.type}: ${formatError(error)}`);
+            });
+        });
+    }
+}
+
+// Export singleton instance
+export const tradingEvents = TradingEventBus.getInstance();
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🚰 SINKS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const createJsonlFileSink = (filePath: string): TradingEventSink => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    return {
+        name: `file ${filePath}`,
+        handle(event) {
+            fs.appendFileSync(filePath, serializeEvent(event) + '\n');
+        }
+    };
+};
+
+export const createStdoutSink = (): TradingEventSink => ({
+    name: 'stdout',
+    handle(event) {
+        process.stdout.write(serializeEvent(event) + '\n');
+    }
+});
+
+/**
+ * Sign a webhook body - receivers recompute this over the raw body and the timestamp header
+ */
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string =>
+    createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * POST each event as JSON. Deliveries go out one at a time in emit order.
+ * Network errors, timeouts, 429 and 5xx are retried with exponential backoff; other 4xx are dropped.
+ * While the endpoint is down at most maxQueued events wait - past that the oldest is dropped and counted.
+ */
+export const createWebhookSink = (options: {
+    url: string;
+    secret: string;
+    maxAttempts?: number;
+    timeoutMs?: number;
+    baseDelayMs?: number;
+    maxQueued?: number;
+}): TradingEventSink => {
+    const defaults = DEFAULT_TRADING_EVENTS_CONFIG;
+    const { url, secret, maxAttempts = defaults.webhookMaxAttempts, timeoutMs = defaults.webhookTimeoutMs, baseDelayMs = 1000, maxQueued = defaults.webhookMaxQueued } = options;
+    const host = new URL(url).host;
+    const queue: TradingEvent[] = [];
+    let draining = false;
+    let dropped = 0;
+
+    const deliver = async (event: TradingEvent): Promise<void> => {
+        const body = serializeEvent(event);
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            const timestamp = Date.now().toString();
+            let failure: string;
+            try {
+                const response = await fetch(url, {
+                    method: 'POST',
+                    headers: {
+                        'content-type': 'application/json',
+                        'x-gmx-event': event.type,
+                        'x-gmx-event-id': event.id,
+                        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+                        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body)
+                    },
+                    body,
+                    signal: AbortSignal.timeout(timeoutMs)
+                });
+                if (response.ok) {
+                    return;
+                }
+                failure = `HTTP ${response.status}`;
+                if (response.status < 500 && response.status !== 429) {
+                    console.error(`[EVENTS] Webhook ${host} rejected ${event.type} ${event.id} (${failure}) - not retrying`);
+                    return;
+                }
+            } catch (error) {
+                failure = formatError(error);
+            }
+
+            if (attempt === maxAttempts) {
+                console.error(`[EVENTS] Webhook ${host} dropped ${event.type} ${event.id} after ${attempt} attempts - ${failure}`);
+                return;
+            }
+            const delayMs = baseDelayMs * 2 ** (attempt - 1);
+            console.warn(`[EVENTS] Webhook ${host} failed for ${event.type} (${failure}), retrying in ${delayMs}ms`);
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+    };
+
+    const drain = async (): Promise<void> => {
+        draining = true;
+        try {
+            for (let event = queue.shift(); event; event = queue.shift()) {
+                await deliver(event);
+            }
+        } finally {
+            draining = false;
+        }
+    };
+
+    return {
+        name: `webhook ${host}`,
+        handle(event) {
+            queue.push(event);
+            if (queue.length > maxQueued) {
+                const oldest = queue.shift()!;
+                dropped++;
+                console.error(`[EVENTS] Webhook ${host} backlog full (${maxQueued}) - dropped ${oldest.type} ${oldest.id}, ${dropped} dropped so far`);
+            }
+            if (!draining) {
+                return drain();
+            }
+        }
+    };
+};
+
+/**
+ * Attach the sinks the config enables
+ */
+export const attachTradingEventSinks = (config: TradingEventsConfig, bus: TradingEventBus = tradingEvents): void => {
+    if (config.filePath) {
+        bus.addSink(createJsonlFileSink(config.filePath));
+    }
+    if (config.stdout) {
+        bus.addSink(createStdoutSink());
+    }
+    if (config.webhookUrl && config.webhookSecret) {
+        bus.addSink(createWebhookSink({
+            url: config.webhookUrl,
+            secret: config.webhookSecret,
+            maxAttempts: config.webhookMaxAttempts,
+            timeoutMs: config.webhookTimeoutMs,
+            maxQueued: config.webhookMaxQueued
+        }));
+    }
+};
@@ -0,0 +1,476 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛑 GMX KILL SWITCH - HALT TRADING AND FLATTEN THE BOOK
+// ═══════════════════════════════════════════════════════════════════════════════
+// Triggered from outside the agent by a flag file, SIGUSR2 or an authenticated local HTTP call.
+// Stops the trading monitor, drops pending risk-increasing writes, cancels every
+// open order and market-closes every position, bypassing the percentile guard.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import type { GmxChain } from './gmx-chains';
+import type { CreatedOrderMatch } from './gmx-chain-events';
+import { ORDER_TYPE } from './gmx-types';
+import { buildFullCloseDecreaseAmounts, wasOrderCreated } from './gmx-actions';
+import { strategyConfig } from './strategy-config';
+import { TransactionPriority } from './transaction-queue';
+import { formatError, formatUsdAmount, sleep } from './gmx-utils';
+import { MIN_TOKEN_LENGTH, isAuthorizedBearer } from './gmx-control-api';
+
+// Get __dirname in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type KillSwitchSource = 'file' | 'signal' | 'http' | 'control_api' | 'discord' | 'circuit_breaker' | 'manual';
+
+export interface KillSwitchConfig {
+    /** Engage when this file exists - checked on start and every pollIntervalMs */
+    flagFilePath: string;
+    pollIntervalMs: number;
+    /** Local HTTP port for POST /kill and GET /status; null disables the server */
+    httpPort: number | null;
+    httpHost: string;
+    /** Bearer token every HTTP request must carry - required when httpPort is set */
+    httpToken: string | null;
+    /** How many times to re-read positions and orders before reporting the book as not flat */
+    flatCheckAttempts: number;
+    flatCheckIntervalMs: number;
+}
+
+export interface KillSwitchStep {
+    step: string;
+    success: boolean;
+    detail: string;
+    at: number;
+}
+
+export interface KillSwitchReport {
+    reason: string;
+    source: KillSwitchSource;
+    startedAt: number;
+    completedAt: number;
+    flat: boolean;
+    steps: KillSwitchStep[];
+    remainingPositions: string[];
+    remainingOrders: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_KILL_SWITCH_CONFIG: KillSwitchConfig = {
+    flagFilePath: path.join(__dirname, 'data', 'KILL_SWITCH'),
+    pollIntervalMs: 5000,
+    httpPort: null,
+    httpHost: '127.0.0.1',
+    httpToken: null,
+    flatCheckAttempts: 6,
+    flatCheckIntervalMs: 10000
+};
+
+export const createKillSwitchConfigFromEnv = (env: {
+    GMX_KILL_SWITCH_FILE?: string;
+    GMX_KILL_SWITCH_PORT?: string;
+    GMX_KILL_SWITCH_HOST?: string;
+    GMX_KILL_SWITCH_TOKEN?: string;
+}): KillSwitchConfig => {
+    const defaults = DEFAULT_KILL_SWITCH_CONFIG;
+    const httpPort = env.GMX_KILL_SWITCH_PORT ? Number(env.GMX_KILL_SWITCH_PORT) : defaults.httpPort;
+    const httpToken = env.GMX_KILL_SWITCH_TOKEN || defaults.httpToken;
+
+    if (httpPort !== null) {
+        if (!Number.isInteger(httpPort) || httpPort <= 0 || httpPort > 65535) {
+            throw new Error(`GMX_KILL_SWITCH_PORT must be a port number, got ${env.GMX_KILL_SWITCH_PORT}`);
+        }
+        if (!httpToken || httpToken.length < MIN_TOKEN_LENGTH) {
+            throw new Error(`GMX_KILL_SWITCH_TOKEN of at least ${MIN_TOKEN_LENGTH} characters is required when GMX_KILL_SWITCH_PORT is set`);
+        }
+    }
+
+    return {
+        ...defaults,
+        flagFilePath: env.GMX_KILL_SWITCH_FILE || defaults.flagFilePath,
+        httpPort,
+        httpHost: env.GMX_KILL_SWITCH_HOST || defaults.httpHost,
+        httpToken
+    };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛑 KILL SWITCH
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Once engaged the switch stays engaged until the process restarts. Triggering it again
+ * re-runs the flatten procedure, which is how a not-flat result is retried.
+ */
+export class KillSwitch {
+    private engaged = false;
+    private inFlight: Promise<KillSwitchReport> | null = null;
+    private accountsInFlight = new Map<string, Promise<KillSwitchReport>>();
+    private lastReport: KillSwitchReport | null = null;
+    private listeners: Array<(reason: string) => void> = [];
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+    private server: http.Server | null = null;
+
+    constructor(
+        private readonly chains: GmxChain[],
+        private readonly config: KillSwitchConfig = DEFAULT_KILL_SWITCH_CONFIG
+    ) {}
+
+    public isEngaged(): boolean {
+        return this.engaged;
+    }
+
+    public getLastReport(): KillSwitchReport | null {
+        return this.lastReport;
+    }
+
+    /**
+     * Run the listener when the switch engages - immediately if it already has
+     */
+    public onEngage(listener: (reason: string) => void): void {
+        this.listeners.push(listener);
+        if (this.engaged) {
+            listener('kill switch already engaged');
+        }
+    }
+
+    /**
+     * Start listening on every configured trigger
+     */
+    public start(): void {
+        const { flagFilePath, pollIntervalMs, httpPort, httpHost } = this.config;
+
+        const checkFlagFile = () => {
+            if (!this.engaged && fs.existsSync(flagFilePath)) {
+                this.trigger(`flag file ${flagFilePath} present`, 'file');
+            }
+        };
+        checkFlagFile();
+        this.pollTimer = setInterval(checkFlagFile, pollIntervalMs);
+
+        process.on('SIGUSR2', () => this.trigger('SIGUSR2 received', 'signal'));
+
+        if (httpPort !== null) {
+            const server = http.createServer((req, res) => this.handleRequest(req, res));
+            // A port in use must not take the agent down - the flag file and signal still work
+            server.on('error', error => {
+                console.error(`[KILL_SWITCH] HTTP trigger disabled - ${httpHost}:${httpPort}: ${formatError(error)}`);
+                server.close();
+                if (this.server === server) this.server = null;
+            });
+            server.listen(httpPort, httpHost, () => {
+                console.warn(`[KILL_SWITCH] Listening on http://${httpHost}:${httpPort} (POST /kill, GET /status)`);
+            });
+            this.server = server;
+            if (httpHost !== '127.0.0.1' && httpHost !== 'localhost' && httpHost !== '::1') {
+                console.warn(`[KILL_SWITCH] ⚠️ Bound to ${httpHost} - the endpoint is reachable from other machines`);
+            }
+        }
+
+        console.warn(`[KILL_SWITCH] Armed - create ${flagFilePath} or send SIGUSR2 to pid ${process.pid} to flatten`);
+    }
+
+    public stop(): void {
+        if (this.pollTimer) clearInterval(this.pollTimer);
+        this.pollTimer = null;
+        this.server?.close();
+        this.server = null;
+    }
+
+    /**
+     * Halt trading and flatten the book. Concurrent triggers share the run in progress.
+     */
+    public engage(reason: string, source: KillSwitchSource = 'manual'): Promise<KillSwitchReport> {
+        if (this.inFlight) {
+            console.warn(`[KILL_SWITCH] Already flattening - ignoring trigger from ${source}: ${reason}`);
+            return this.inFlight;
+        }
+
+        this.inFlight = this.flatten(reason, source).finally(() => {
+            this.inFlight = null;
+        });
+        return this.inFlight;
+    }
+
+    /**
+     * Flatten one account's chains without engaging the switch - the monitor and the other
+     * accounts keep trading, and whatever asked (its circuit breaker) keeps blocking new positions.
+     */
+    public flattenAccount(account: string, reason: string, source: KillSwitchSource = 'manual'): Promise<KillSwitchReport> {
+        const chains = this.chains.filter(chain => chain.account === account);
+        if (chains.length === 0) {
+            return Promise.reject(new Error(`Unknown account: ${account}`));
+        }
+        if (this.inFlight) {
+            console.warn(`[KILL_SWITCH] Already flattening every account - ignoring ${account} trigger from ${source}: ${reason}`);
+            return this.inFlight;
+        }
+        const running = this.accountsInFlight.get(account);
+        if (running) {
+            console.warn(`[KILL_SWITCH] Already flattening ${account} - ignoring trigger from ${source}: ${reason}`);
+            return running;
+        }
+
+        const flattening = this.flatten(reason, source, account).finally(() => {
+            this.accountsInFlight.delete(account);
+        });
+        this.accountsInFlight.set(account, flattening);
+        return flattening;
+    }
+
+    // Fire-and-forget entry point for the file, signal and HTTP triggers
+    private trigger(reason: string, source: KillSwitchSource): void {
+        this.engage(reason, source).catch(error => {
+            console.error(`[KILL_SWITCH] Flatten failed: ${formatError(error)}`);
+        });
+    }
+
+    // Every account when engaging the switch, or just the given one
+    private async flatten(reason: string, source: KillSwitchSource, account: string | null = null): Promise<KillSwitchReport> {
+        const chains = account ? this.chains.filter(chain => chain.account === account) : this.chains;
+        const startedAt = Date.now();
+        const steps: KillSwitchStep[] = [];
+        const log = (step: string, success: boolean, detail: string) => {
+            steps.push({ step, success, detail, at: Date.now() });
+            const line = `[KILL_SWITCH] ${success ? '✅' : '❌'} ${step}: ${detail}`;
+            success ? console.warn(line) : console.error(line);
+        };
+
+        console.warn(account
+            ? `🛑 [KILL_SWITCH] FLATTENING ${account} via ${source} - ${reason}`
+            : `🛑 [KILL_SWITCH] ENGAGED via ${source} - ${reason}`);
+
+        // 1. Stop the trading monitor from starting new cycles - not for one account, the others still trade
+        if (!account) {
+            const firstEngage = !this.engaged;
+            this.engaged = true;
+            if (firstEngage) {
+                for (const listener of this.listeners) {
+                    try {
+                        listener(reason);
+                    } catch (error) {
+                        console.error(`[KILL_SWITCH] Engage listener failed: ${formatError(error)}`);
+                    }
+                }
+            }
+            log('halt_monitor', true, firstEngage ? 'trading monitor stopped' : 'trading monitor already stopped');
+        }
+
+        // 2. Drop the risk-increasing writes already waiting; engaging the switch also refuses new ones
+        const queues = [...new Set(chains.map(chain => chain.transactionQueue))];
+        const queueLength = () => queues.reduce((total, queue) => total + queue.getStatus().queueLength, 0);
+        const queuedBefore = queueLength();
+        for (const queue of queues) {
+            if (!account) {
+                queue.haltRiskIncreasing(`kill switch engaged (${reason})`);
+            }
+            queue.clearQueue({ riskIncreasingOnly: true });
+        }
+        const queuedAfter = queueLength();
+        log('clear_queue', true, `dropped ${queuedBefore - queuedAfter} risk-increasing write(s), ${queuedAfter} protective kept`);
+
+        // Every account and chain is flattened independently - a failure on one must not leave the others open
+        await Promise.all(chains.map(chain => this.flattenChain(chain, log)));
+
+        // 5. Market close orders settle through keepers - wait for the book to show flat
+        const { remainingPositions, remainingOrders } = await this.waitForFlat(chains);
+        const flat = remainingPositions.length === 0 && remainingOrders === 0;
+        log('verify_flat', flat, flat
+            ? 'no open positions or orders'
+            : `${remainingPositions.length} position(s) [${remainingPositions.join(', ')}] and ${remainingOrders} order(s) remaining`);
+
+        const report: KillSwitchReport = {
+            reason,
+            source,
+            startedAt,
+            completedAt: Date.now(),
+            flat,
+            steps,
+            remainingPositions,
+            remainingOrders
+        };
+        const durationSeconds = ((report.completedAt - startedAt) / 1000).toFixed(1);
+        if (account) {
+            if (flat) {
+                console.warn(`🛑 [KILL_SWITCH] ${account} FLAT after ${durationSeconds}s - other accounts keep trading`);
+            } else {
+                console.error(`🛑 [KILL_SWITCH] ${account} NOT FLAT after ${durationSeconds}s - close manually`);
+            }
+            return report;
+        }
+
+        this.lastReport = report;
+        if (flat) {
+            console.warn(`🛑 [KILL_SWITCH] FLAT after ${durationSeconds}s - trading halted until restart`);
+        } else {
+            console.error(`🛑 [KILL_SWITCH] NOT FLAT after ${durationSeconds}s - trigger again or close manually`);
+        }
+        return report;
+    }
+
+    // Cancel every order and market-close every position on one chain
+    private async flattenChain(chain: GmxChain, log: (step: string, success: boolean, detail: string) => void): Promise<void> {
+        const { sdk, gmxDataCache, transactionQueue, eventWatcher } = chain;
+        const book = `${chain.account}/${chain.network}`;
+
+        try {
+            // Positions must be read fresh - the cached snapshot may be minutes old
+            gmxDataCache.invalidatePositions();
+            const { marketsInfoData, tokensData } = await gmxDataCache.getMarketsInfo();
+            if (!marketsInfoData || !tokensData) {
+                throw new Error("Failed to get market and token data");
+            }
+
+            // 3. Cancel every open order so nothing re-opens exposure behind us
+            const ordersResult = await sdk.orders.getOrders({ marketsInfoData, tokensData });
+            const orderKeys = Object.keys(ordersResult.ordersInfoData || {});
+            if (orderKeys.length === 0) {
+                log('cancel_orders', true, `${book}: no open orders`);
+            } else {
+                try {
+                    const { transactionHash } = await transactionQueue.enqueueWriteTransaction(
+                        "cancel_orders",
+                        async () => {
+                            return await sdk.orders.cancelOrders(orderKeys);
+                        },
+                        { params: { orderKeys, chain: chain.network, source: 'kill_switch' }, priority: TransactionPriority.CANCEL, confirmSent: async () => false }
+                    );
+                    log('cancel_orders', true, `${book}: cancelled ${orderKeys.length} order(s)${transactionHash ? ` (${transactionHash})` : ''}`);
+                } catch (error) {
+                    log('cancel_orders', false, `${book}: failed to cancel ${orderKeys.length} order(s): ${formatError(error)}`);
+                }
+            }
+
+            // 4. Market-close every position - no percentile guard, getting flat is the only goal
+            const positionsInfo = await gmxDataCache.getPositionsInfo(marketsInfoData, tokensData, true);
+            const positions: any[] = Object.values(positionsInfo || {});
+            if (positions.length === 0) {
+                log('close_positions', true, `${book}: no open positions`);
+            }
+
+            const closes = positions.map(async (position) => {
+                const marketInfo = marketsInfoData[position.marketAddress];
+                const direction = position.isLong ? 'LONG' : 'SHORT';
+                const label = `${book} ${marketInfo?.name || position.marketAddress} ${direction}`;
+
+                try {
+                    const indexToken = marketInfo ? tokensData[marketInfo.indexTokenAddress] : undefined;
+                    const collateralToken = tokensData[position.collateralTokenAddress];
+                    if (!marketInfo || !indexToken || !collateralToken) {
+                        throw new Error("Missing market or token data for position");
+                    }
+
+                    const { decreaseAmounts } = buildFullCloseDecreaseAmounts(position, indexToken, collateralToken);
+                    let orderCursor = 0;
+                    const orderMatch: CreatedOrderMatch = { market: position.marketAddress, isLong: position.isLong, orderType: ORDER_TYPE.MarketDecrease, sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd };
+                    const { transactionHash } = await transactionQueue.enqueueWriteTransaction(
+                        "close_position",
+                        async () => {
+                            orderCursor = eventWatcher?.getOrderCursor() ?? 0;
+                            return await sdk.orders.createDecreaseOrder({
+                                marketsInfoData,
+                                tokensData,
+                                marketInfo,
+                                decreaseAmounts,
+                                collateralToken,
+                                allowedSlippage: strategyConfig.get().execution.slippageBps,
+                                isLong: position.isLong,
+                                referralCode: undefined,
+                                isTrigger: false // Market order
+                            });
+                        },
+                        {
+                            params: { marketAddress: position.marketAddress, isLong: position.isLong, chain: chain.network, source: 'kill_switch' },
+                            priority: TransactionPriority.EMERGENCY_CLOSE,
+                            maxAttempts: 5,
+                            confirmSent: since => wasOrderCreated(eventWatcher, gmxDataCache, orderCursor, orderMatch, since)
+                        }
+                    );
+                    log('close_position', true, `${label} ${formatUsdAmount(position.sizeInUsd, 2)} close order sent${transactionHash ? ` (${transactionHash})` : ''}`);
+                } catch (error) {
+                    log('close_position', false, `${label}: ${formatError(error)}`);
+                }
+            });
+            await Promise.all(closes);
+        } catch (error) {
+            log('flatten', false, `${book}: ${formatError(error)}`);
+        }
+    }
+
+    private async waitForFlat(chains: GmxChain[]): Promise<{ remainingPositions: string[]; remainingOrders: number }> {
+        const { flatCheckAttempts, flatCheckIntervalMs } = this.config;
+        let remainingPositions: string[] = [];
+        let remainingOrders = 0;
+
+        for (let attempt = 1; attempt <= flatCheckAttempts; attempt++) {
+            try {
+                const books = await Promise.all(chains.map(async ({ account, network, sdk, gmxDataCache }) => {
+                    gmxDataCache.invalidatePositions();
+                    const { marketsInfoData, tokensData } = await gmxDataCache.getMarketsInfo();
+                    const [positionsInfo, ordersResult] = await Promise.all([
+                        gmxDataCache.getPositionsInfo(marketsInfoData, tokensData, true),
+                        sdk.orders.getOrders({ marketsInfoData, tokensData })
+                    ]);
+                    return {
+                        positions: Object.values(positionsInfo || {}).map((position: any) =>
+                            `${account}/${network} ${marketsInfoData?.[position.marketAddress]?.name || position.marketAddress} ${position.isLong ? 'LONG' : 'SHORT'}`
+                        ),
+                        orders: Object.keys(ordersResult.ordersInfoData || {}).length
+                    };
+                }));
+
+                remainingPositions = books.flatMap(book => book.positions);
+                remainingOrders = books.reduce((total, book) => total + book.orders, 0);
+
+                if (remainingPositions.length === 0 && remainingOrders === 0) {
+                    break;
+                }
+                console.warn(`[KILL_SWITCH] Check ${attempt}/${flatCheckAttempts}: ${remainingPositions.length} position(s), ${remainingOrders} order(s) still open`);
+            } catch (error) {
+                console.error(`[KILL_SWITCH] Check ${attempt}/${flatCheckAttempts} failed: ${formatError(error)}`);
+            }
+
+            if (attempt < flatCheckAttempts) {
+                await sleep(flatCheckIntervalMs);
+            }
+        }
+
+        return { remainingPositions, remainingOrders };
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const respond = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body, null, 2));
+        };
+
+        if (!isAuthorizedBearer(req.headers.authorization, this.config.httpToken)) {
+            respond(401, { error: 'Missing or invalid bearer token' });
+            return;
+        }
+
+        if (req.method === 'POST' && req.url === '/kill') {
+            this.engage('local HTTP request', 'http')
+                .then(report => respond(200, report))
+                .catch(error => respond(500, { error: formatError(error) }));
+            return;
+        }
+
+        if (req.method === 'GET' && req.url === '/status') {
+            respond(200, { engaged: this.engaged, flattening: this.inFlight !== null, lastReport: this.lastReport });
+            return;
+        }
+
+        respond(404, { error: 'Use POST /kill or GET /status' });
+    }
+}
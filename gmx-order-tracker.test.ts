@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import type { GmxChainEvent } from './gmx-chain-events';
+import { OrderTracker } from './gmx-order-tracker';
+import { ORDER_TYPE } from './gmx-types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧪 FIXTURES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const STUCK_AFTER_MS = 60000;
+
+const event = (name: GmxChainEvent['name'], orderKey: string | null, data: Record<string, unknown> = {}): GmxChainEvent =>
+    ({ name, orderKey, transactionHash: `0x${name}`, blockNumber: 1n, data });
+
+const created = (orderKey: string, orderType: number, isLong = true, acceptablePrice = 1000n) =>
+    event('OrderCreated', orderKey, { orderType: BigInt(orderType), isLong, acceptablePrice, market: '0xa01' });
+
+// The account's orders as the order cache last read them
+let ordersOnChain: Record<string, unknown>;
+let ordersFetchedAt: number;
+
+const fakeCache: any = {
+    getAccountName: () => 'main',
+    getNetwork: () => 'arbitrum',
+    peekMarketsInfo: () => ({ marketsInfoData: {}, tokensData: {} }),
+    getOrders: async () => ordersOnChain,
+    peekOrders: () => ({ ordersInfoData: ordersOnChain, fetchedAt: ordersFetchedAt }),
+};
+
+// Events are fed through handle, as the watcher would
+const fakeWatcher: any = { onEvent: () => () => {} };
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧾 ORDER TRACKER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('OrderTracker', () => {
+    let tracker: OrderTracker;
+
+    beforeEach(() => {
+        tracker = new OrderTracker(fakeWatcher, fakeCache, STUCK_AFTER_MS);
+        ordersOnChain = {};
+        ordersFetchedAt = Date.now();
+    });
+
+    it('follows an order from created to executed with its fill price', () => {
+        tracker.handle(created('0xA1', ORDER_TYPE.MarketIncrease));
+        expect(tracker.get('0xa1')?.status).toBe('pending');
+
+        tracker.handle(event('PositionIncrease', null, { orderKey: '0xA1', executionPrice: 995n }));
+        tracker.handle(event('OrderExecuted', '0xa1'));
+
+        const order = tracker.get('0xa1');
+        expect(order?.status).toBe('executed');
+        expect(order?.executionPrice).toBe(995n);
+        expect(order?.settleTransactionHash).toBe('0xOrderExecuted');
+        expect(tracker.getPending()).toEqual([]);
+    });
+
+    it('records the keeper reason of a cancelled order', () => {
+        tracker.handle(created('0xa2', ORDER_TYPE.MarketDecrease));
+        tracker.handle(event('OrderCancelled', '0xa2', { reason: 'OrderNotFulfillableAtAcceptablePrice' }));
+
+        expect(tracker.get('0xa2')?.status).toBe('cancelled');
+        expect(tracker.getExecutionReport('0xa2')?.reason).toBe('OrderNotFulfillableAtAcceptablePrice');
+    });
+
+    it('lets a frozen order settle later, but not a settled one', () => {
+        tracker.handle(created('0xa3', ORDER_TYPE.MarketIncrease));
+        tracker.handle(event('OrderFrozen', '0xa3'));
+        expect(tracker.get('0xa3')?.status).toBe('frozen');
+
+        tracker.handle(event('OrderExecuted', '0xa3'));
+        expect(tracker.get('0xa3')?.status).toBe('executed');
+
+        tracker.handle(event('OrderCancelled', '0xa3'));
+        expect(tracker.get('0xa3')?.status).toBe('executed');
+    });
+
+    it('flags market orders pending past the stuck timeout, once', () => {
+        tracker.handle(created('0xb1', ORDER_TYPE.MarketIncrease));
+        tracker.handle(created('0xb2', ORDER_TYPE.LimitIncrease));
+        const createdAt = tracker.get('0xb1')!.createdAt!;
+
+        expect(tracker.flagStuckOrders(createdAt + STUCK_AFTER_MS - 1)).toEqual([]);
+
+        const stuck = tracker.flagStuckOrders(createdAt + STUCK_AFTER_MS + 1000);
+        // Limit orders wait for their price, so only the market order is stuck
+        expect(stuck.map(order => order.orderKey)).toEqual(['0xb1']);
+        expect(tracker.getExecutionReport('0xb1')?.stuck).toBe(true);
+        expect(tracker.flagStuckOrders(createdAt + STUCK_AFTER_MS * 2)).toEqual([]);
+    });
+
+    it('settles an order missing from the account orders only after the grace period', async () => {
+        tracker.handle(created('0xc1', ORDER_TYPE.MarketIncrease));
+        tracker.handle(created('0xc2', ORDER_TYPE.LimitDecrease));
+        const trackedAt = tracker.get('0xc1')!.trackedAt;
+        ordersOnChain = { '0xC2': {} };
+
+        // Read too soon after the order was seen - it may just not be indexed yet
+        ordersFetchedAt = trackedAt + 29000;
+        expect(await tracker.reconcile()).toEqual([]);
+        expect(tracker.get('0xc1')?.status).toBe('pending');
+
+        ordersFetchedAt = trackedAt + 30000;
+        const settled = await tracker.reconcile();
+        expect(settled.map(order => order.orderKey)).toEqual(['0xc1']);
+        expect(tracker.get('0xc1')?.status).toBe('unknown');
+        expect(tracker.get('0xc2')?.status).toBe('pending');
+    });
+
+    it('settles a missing order as executed when its fill was seen', async () => {
+        tracker.handle(created('0xc3', ORDER_TYPE.MarketIncrease));
+        tracker.handle(event('PositionIncrease', null, { orderKey: '0xc3', executionPrice: 1000n }));
+        ordersFetchedAt = tracker.get('0xc3')!.trackedAt + 30000;
+
+        await tracker.reconcile();
+        expect(tracker.get('0xc3')?.status).toBe('executed');
+    });
+
+    it('leaves pending orders alone when the orders cannot be read', async () => {
+        const failingCache = { ...fakeCache, getOrders: async () => { throw new Error('rpc down'); } };
+        const failing = new OrderTracker(fakeWatcher, failingCache, STUCK_AFTER_MS);
+        failing.handle(created('0xc4', ORDER_TYPE.MarketIncrease));
+        ordersFetchedAt = failing.get('0xc4')!.trackedAt + 30000;
+
+        expect(await failing.reconcile()).toEqual([]);
+        expect(failing.get('0xc4')?.status).toBe('pending');
+    });
+
+    // Buys (long increases, short decreases) beat acceptablePrice below it, sells above it
+    const marginCases: Array<[string, number, boolean, bigint, number]> = [
+        ['long increase', ORDER_TYPE.MarketIncrease, true, 990n, 100],
+        ['long increase', ORDER_TYPE.MarketIncrease, true, 1010n, -100],
+        ['short increase', ORDER_TYPE.MarketIncrease, false, 1010n, 100],
+        ['short increase', ORDER_TYPE.MarketIncrease, false, 990n, -100],
+        ['long decrease', ORDER_TYPE.MarketDecrease, true, 1010n, 100],
+        ['long decrease', ORDER_TYPE.MarketDecrease, true, 990n, -100],
+        ['short decrease', ORDER_TYPE.MarketDecrease, false, 990n, 100],
+        ['short decrease', ORDER_TYPE.MarketDecrease, false, 1010n, -100],
+    ];
+
+    for (const [side, orderType, isLong, executionPrice, expectedBps] of marginCases) {
+        it(`signs the ${side} margin ${expectedBps > 0 ? 'positive inside' : 'negative past'} acceptablePrice`, () => {
+            tracker.handle(created('0xd1', orderType, isLong, 1000n));
+            tracker.handle(event(orderType === ORDER_TYPE.MarketIncrease ? 'PositionIncrease' : 'PositionDecrease', null, { orderKey: '0xd1', executionPrice }));
+            tracker.handle(event('OrderExecuted', '0xd1'));
+
+            expect(tracker.getExecutionReport('0xd1')?.priceMarginBps).toBe(expectedBps);
+        });
+    }
+});
@@ -0,0 +1,411 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧾 GMX ORDER TRACKER - ORDER LIFECYCLE FROM REQUEST TO KEEPER FILL
+// ═══════════════════════════════════════════════════════════════════════════════
+// A write only creates an order; a keeper executes it later. The tracker follows
+// every order the account creates on a chain through its on-chain events:
+//
+//   Created → Executed     filled - the fill price is recorded against acceptablePrice
+//           → Cancelled    the keeper could not fill it, e.g. price past acceptable
+//           → Frozen       the keeper failed on it - it stays on-chain and may still settle
+//           → Unknown      gone from the account's orders without a settlement event
+//
+// Market orders still pending after the stuck timeout are flagged. Each poll
+// also reconciles open orders against the order cache, so a missed settlement
+// event cannot leave an order pending forever. Outcomes go
+// to the trading event bus and, through formatOrderOutcomes, into agent memory.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { EnhancedDataCache } from './gmx-cache';
+import { DEFAULT_CHAIN_EVENT_WATCHER_CONFIG, type ChainEventWatcher, type GmxChainEvent, type OrderOutcome } from './gmx-chain-events';
+import { tradingEvents } from './gmx-events';
+import type { GmxNetwork } from './gmx-types';
+import { USD_DECIMALS, bigIntToDecimal, formatDuration, formatUsd } from './gmx-utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// unknown: the order left the chain but its settlement event never arrived
+export type TrackedOrderStatus = 'pending' | OrderOutcome | 'unknown';
+
+// GMX OrderType, by value
+export const GMX_ORDER_TYPES = [
+    'MarketSwap', 'LimitSwap', 'MarketIncrease', 'LimitIncrease', 'MarketDecrease',
+    'LimitDecrease', 'StopLossDecrease', 'Liquidation', 'StopIncrease'
+] as const;
+
+export interface TrackedOrder {
+    orderKey: string;
+    status: TrackedOrderStatus;
+    /** GMX OrderType - null for orders created before the tracker started */
+    orderType: number | null;
+    marketAddress: string | null;
+    isLong: boolean | null;
+    sizeDeltaUsd: bigint | null;
+    /** Contract prices: USD per smallest index token unit, 30 decimals */
+    acceptablePrice: bigint | null;
+    triggerPrice: bigint | null;
+    executionPrice: bigint | null;
+    reason: string | null;
+    createdAt: number | null;
+    /** When the tracker first saw any event for the order */
+    trackedAt: number;
+    settledAt: number | null;
+    createTransactionHash: string | null;
+    settleTransactionHash: string | null;
+    /** A market order still pending past the stuck timeout */
+    stuck: boolean;
+}
+
+// A tracked order in plain numbers - for action results, events and memory
+export interface OrderExecutionReport {
+    account: string;
+    network: GmxNetwork;
+    orderKey: string;
+    status: TrackedOrderStatus;
+    orderType: string | null;
+    market: string | null;
+    direction: 'LONG' | 'SHORT' | null;
+    sizeUsd: number | null;
+    /** USD prices - null when the market's token decimals are not cached */
+    acceptablePrice: number | null;
+    executionPrice: number | null;
+    /** How far inside acceptablePrice the fill landed - negative means past it */
+    priceMarginBps: number | null;
+    reason: string | null;
+    stuck: boolean;
+    /** From creation to settlement, or to now while pending */
+    pendingMs: number | null;
+    /** Settlement time, or creation time while pending */
+    updatedAt: number | null;
+    createTransactionHash: string | null;
+    settleTransactionHash: string | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const STUCK_CHECK_INTERVAL_MS = 10000;
+// An order must be tracked this long before the fetched orders were read, or it may be too new to appear in them
+const RECONCILE_GRACE_MS = 30000;
+// Settled orders beyond this are forgotten, oldest first
+const MAX_TRACKED_ORDERS = 200;
+
+const MARKET_ORDER_TYPES = new Set([0, 2, 4]);
+const INCREASE_ORDER_TYPES = new Set([2, 3, 8]);
+
+const SETTLEMENT_EVENTS: Partial<Record<GmxChainEvent['name'], OrderOutcome>> = {
+    OrderExecuted: 'executed',
+    OrderCancelled: 'cancelled',
+    OrderFrozen: 'frozen'
+};
+
+const readBigInt = (data: Record<string, unknown>, key: string): bigint | null =>
+    typeof data[key] === 'bigint' ? data[key] as bigint : null;
+
+const readString = (data: Record<string, unknown>, key: string): string | null =>
+    typeof data[key] === 'string' && data[key] ? (data[key] as string).toLowerCase() : null;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧾 ORDER TRACKER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class OrderTracker {
+    private orders = new Map<string, TrackedOrder>();
+    private unsubscribe: (() => void) | null = null;
+    private stuckTimer: ReturnType<typeof setInterval> | null = null;
+    private reconciling = false;
+
+    constructor(
+        private readonly watcher: ChainEventWatcher,
+        private readonly gmxDataCache: EnhancedDataCache,
+        private readonly stuckAfterMs: number = DEFAULT_CHAIN_EVENT_WATCHER_CONFIG.orderStuckAfterMs
+    ) {}
+
+    private get label(): string {
+        return `${this.gmxDataCache.getAccountName()}/${this.gmxDataCache.getNetwork()}`;
+    }
+
+    public start(): void {
+        if (this.unsubscribe) return;
+        this.unsubscribe = this.watcher.onEvent(event => this.handle(event));
+        this.stuckTimer = setInterval(() => {
+            this.flagStuckOrders();
+            void this.reconcile();
+        }, Math.min(this.stuckAfterMs, STUCK_CHECK_INTERVAL_MS));
+    }
+
+    public stop(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        if (this.stuckTimer) {
+            clearInterval(this.stuckTimer);
+            this.stuckTimer = null;
+        }
+    }
+
+    public get(orderKey: string): TrackedOrder | null {
+        return this.orders.get(orderKey.toLowerCase()) ?? null;
+    }
+
+    // Newest first
+    public getAll(): TrackedOrder[] {
+        return [...this.orders.values()].reverse();
+    }
+
+    public getPending(): TrackedOrder[] {
+        return this.getAll().filter(order => order.status === 'pending');
+    }
+
+    public getExecutionReport(orderKey: string): OrderExecutionReport | null {
+        const order = this.get(orderKey);
+        return order ? this.toReport(order) : null;
+    }
+
+    public getReports(limit?: number): OrderExecutionReport[] {
+        return this.getAll().slice(0, limit).map(order => this.toReport(order));
+    }
+
+    /**
+     * Apply one chain event - the watcher calls this for every event
+     */
+    public handle(event: GmxChainEvent): void {
+        const { data } = event;
+        switch (event.name) {
+            case 'OrderCreated': {
+                if (!event.orderKey) return;
+                const order = this.getOrCreate(event.orderKey);
+                const orderType = readBigInt(data, 'orderType');
+                order.orderType = orderType === null ? null : Number(orderType);
+                order.marketAddress = readString(data, 'market');
+                order.isLong = typeof data.isLong === 'boolean' ? data.isLong : null;
+                order.sizeDeltaUsd = readBigInt(data, 'sizeDeltaUsd');
+                order.acceptablePrice = readBigInt(data, 'acceptablePrice');
+                order.triggerPrice = readBigInt(data, 'triggerPrice');
+                order.createdAt = Date.now();
+                order.createTransactionHash = event.transactionHash;
+                return;
+            }
+            case 'OrderUpdated': {
+                if (!event.orderKey) return;
+                const order = this.getOrCreate(event.orderKey);
+                order.sizeDeltaUsd = readBigInt(data, 'sizeDeltaUsd') ?? order.sizeDeltaUsd;
+                order.acceptablePrice = readBigInt(data, 'acceptablePrice') ?? order.acceptablePrice;
+                order.triggerPrice = readBigInt(data, 'triggerPrice') ?? order.triggerPrice;
+                return;
+            }
+            case 'PositionIncrease':
+            case 'PositionDecrease': {
+                // Emitted while the keeper executes the order, before OrderExecuted
+                const orderKey = readString(data, 'orderKey');
+                if (!orderKey) return;
+                this.getOrCreate(orderKey).executionPrice = readBigInt(data, 'executionPrice');
+                return;
+            }
+            default: {
+                const outcome = SETTLEMENT_EVENTS[event.name];
+                if (!outcome || !event.orderKey) return;
+                const reason = typeof data.reason === 'string' && data.reason ? data.reason : null;
+                this.settle(this.getOrCreate(event.orderKey), outcome, reason, event.transactionHash);
+            }
+        }
+    }
+
+    /**
+     * Flag market orders pending longer than the stuck timeout. Returns the newly flagged orders.
+     */
+    public flagStuckOrders(now: number = Date.now()): TrackedOrder[] {
+        const stuck = this.getPending().filter(order =>
+            !order.stuck &&
+            order.createdAt !== null &&
+            order.orderType !== null &&
+            MARKET_ORDER_TYPES.has(order.orderType) &&
+            now - order.createdAt >= this.stuckAfterMs
+        );
+        for (const order of stuck) {
+            order.stuck = true;
+            console.warn(`[OrderTracker:${this.label}] ${GMX_ORDER_TYPES[order.orderType!]} order ${order.orderKey} still pending after ${formatDuration(now - order.createdAt!)}`);
+            tradingEvents.emit('OrderStuck', this.toReport(order));
+        }
+        return stuck;
+    }
+
+    /**
+     * Settle open orders missing from the account's orders - their settlement event was missed.
+     * Reads the order cache within its TTL, so this fetches at most once per TTL. Returns the settled orders.
+     */
+    public async reconcile(): Promise<TrackedOrder[]> {
+        const open = this.getAll().filter(order => order.status === 'pending' || order.status === 'frozen');
+        const markets = this.gmxDataCache.peekMarketsInfo();
+        if (open.length === 0 || !markets || this.reconciling) return [];
+
+        this.reconciling = true;
+        try {
+            const ordersInfoData = await this.gmxDataCache.getOrders(markets.marketsInfoData, markets.tokensData);
+            const fetchedAt = this.gmxDataCache.peekOrders()?.fetchedAt ?? 0;
+            const onChain = new Set(Object.keys(ordersInfoData || {}).map(key => key.toLowerCase()));
+
+            const missing = open.filter(order =>
+                // Settled by an event while the orders were fetched
+                (order.status === 'pending' || order.status === 'frozen') &&
+                fetchedAt - order.trackedAt >= RECONCILE_GRACE_MS &&
+                !onChain.has(order.orderKey)
+            );
+            for (const order of missing) {
+                // A recorded fill price means the keeper executed it
+                const outcome = order.executionPrice !== null ? 'executed' : 'unknown';
+                this.settle(order, outcome, 'No settlement event - gone from the account\'s orders', null);
+            }
+            return missing;
+        } catch (error) {
+            console.warn(`[OrderTracker:${this.label}] Could not reconcile pending orders:`, error instanceof Error ? error.message : error);
+            return [];
+        } finally {
+            this.reconciling = false;
+        }
+    }
+
+    private settle(order: TrackedOrder, outcome: OrderOutcome | 'unknown', reason: string | null, transactionHash: string | null): void {
+        // A frozen order stays on-chain and may still be executed or cancelled
+        if (order.status !== 'pending' && order.status !== 'frozen') return;
+        order.status = outcome;
+        order.reason = reason;
+        order.settledAt = Date.now();
+        order.settleTransactionHash = transactionHash;
+
+        const report = this.toReport(order);
+        if (outcome === 'executed') {
+            const margin = report.priceMarginBps === null ? '' : ` (${report.priceMarginBps >= 0 ? '+' : ''}${report.priceMarginBps} bps vs acceptable)`;
+            console.warn(`[OrderTracker:${this.label}] Order ${order.orderKey} executed${report.executionPrice !== null ? ` at ${formatUsd(report.executionPrice)}` : ''}${margin}`);
+        } else if (outcome === 'unknown') {
+            console.warn(`[OrderTracker:${this.label}] Order ${order.orderKey} left the chain without a settlement event - outcome unknown`);
+        } else {
+            console.warn(`[OrderTracker:${this.label}] Order ${order.orderKey} ${outcome} by the keeper${order.reason ? `: ${order.reason}` : ''}`);
+        }
+        tradingEvents.emit('OrderSettled', report);
+        this.prune();
+    }
+
+    private getOrCreate(orderKey: string): TrackedOrder {
+        const key = orderKey.toLowerCase();
+        let order = this.orders.get(key);
+        if (!order) {
+            order = {
+                orderKey: key,
+                status: 'pending',
+                orderType: null,
+                marketAddress: null,
+                isLong: null,
+                sizeDeltaUsd: null,
+                acceptablePrice: null,
+                triggerPrice: null,
+                executionPrice: null,
+                reason: null,
+                createdAt: null,
+                trackedAt: Date.now(),
+                settledAt: null,
+                createTransactionHash: null,
+                settleTransactionHash: null,
+                stuck: false
+            };
+            this.orders.set(key, order);
+        }
+        return order;
+    }
+
+    private prune(): void {
+        for (const [key, order] of this.orders) {
+            if (this.orders.size <= MAX_TRACKED_ORDERS) return;
+            if (order.status !== 'pending') {
+                this.orders.delete(key);
+            }
+        }
+    }
+
+    private toReport(order: TrackedOrder): OrderExecutionReport {
+        const marketInfo = order.marketAddress
+            ? Object.values(this.gmxDataCache.peekMarketsInfo()?.marketsInfoData || {})
+                .find((market: any) => market.marketTokenAddress?.toLowerCase() === order.marketAddress) as any
+            : undefined;
+        const indexDecimals: number | undefined = marketInfo?.indexToken?.decimals;
+        const toUsdPrice = (price: bigint | null) =>
+            price !== null && indexDecimals !== undefined ? bigIntToDecimal(price, USD_DECIMALS - indexDecimals) : null;
+        const isSwap = order.orderType === 0 || order.orderType === 1;
+
+        return {
+            account: this.gmxDataCache.getAccountName(),
+            network: this.gmxDataCache.getNetwork(),
+            orderKey: order.orderKey,
+            status: order.status,
+            orderType: order.orderType === null ? null : GMX_ORDER_TYPES[order.orderType] ?? String(order.orderType),
+            market: marketInfo?.name ?? order.marketAddress,
+            direction: order.isLong === null || isSwap ? null : order.isLong ? 'LONG' : 'SHORT',
+            sizeUsd: order.sizeDeltaUsd === null || isSwap ? null : bigIntToDecimal(order.sizeDeltaUsd, USD_DECIMALS),
+            acceptablePrice: isSwap ? null : toUsdPrice(order.acceptablePrice),
+            executionPrice: toUsdPrice(order.executionPrice),
+            priceMarginBps: priceMarginBps(order),
+            reason: order.reason,
+            stuck: order.stuck,
+            pendingMs: order.createdAt === null ? null : (order.settledAt ?? Date.now()) - order.createdAt,
+            updatedAt: order.settledAt ?? order.createdAt,
+            createTransactionHash: order.createTransactionHash,
+            settleTransactionHash: order.settleTransactionHash
+        };
+    }
+}
+
+/**
+ * Basis points by which the fill beat acceptablePrice. Buys (long increases, short decreases)
+ * fill at or below it, sells at or above it.
+ */
+const priceMarginBps = (order: TrackedOrder): number | null => {
+    if (order.executionPrice === null || !order.acceptablePrice || order.isLong === null || order.orderType === null) {
+        return null;
+    }
+    const isBuy = order.isLong === INCREASE_ORDER_TYPES.has(order.orderType);
+    const difference = isBuy ? order.acceptablePrice - order.executionPrice : order.executionPrice - order.acceptablePrice;
+    return Number(difference * 10000n / order.acceptablePrice);
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📝 MEMORY RENDERING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const STATUS_ICONS: Record<TrackedOrderStatus, string> = {
+    pending: '⏳',
+    executed: '✅',
+    cancelled: '❌',
+    frozen: '🧊',
+    unknown: '❔'
+};
+
+/**
+ * Most recent orders across the trackers, one line each, for agent memory
+ */
+export const formatOrderOutcomes = (trackers: OrderTracker[], limit: number = 10): string => {
+    const reports = trackers
+        .flatMap(tracker => tracker.getReports())
+        // Pending first, then the most recently settled
+        .sort((a, b) => Number(a.status !== 'pending') - Number(b.status !== 'pending') || (b.updatedAt ?? 0) - (a.updatedAt ?? 0))
+        .slice(0, limit);
+    if (reports.length === 0) {
+        return trackers.length === 0 ? 'Order tracking is off' : 'No orders since startup';
+    }
+
+    return reports.map(report => {
+        const parts = [
+            `${STATUS_ICONS[report.status]} ${report.status.toUpperCase()}${report.stuck ? ' (STUCK)' : ''}`,
+            [report.orderType, report.direction, report.market].filter(Boolean).join(' '),
+            report.sizeUsd !== null ? formatUsd(report.sizeUsd) : null,
+            report.executionPrice !== null
+                ? `fill ${formatUsd(report.executionPrice)}${report.acceptablePrice !== null ? ` vs acceptable ${formatUsd(report.acceptablePrice)}` : ''}${report.priceMarginBps !== null ? ` (${report.priceMarginBps >= 0 ? '+' : ''}${report.priceMarginBps} bps)` : ''}`
+                : null,
+            report.reason,
+            report.pendingMs !== null ? `${report.status === 'pending' ? 'pending' : 'settled in'} ${formatDuration(report.pendingMs)}` : null,
+            `${report.account}/${report.network}`,
+            report.orderKey.slice(0, 10)
+        ];
+        return parts.filter(Boolean).join(' | ');
+    }).join('\n');
+};
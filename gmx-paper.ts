@@ -0,0 +1,807 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📝 GMX PAPER TRADING MODULE
+// ═══════════════════════════════════════════════════════════════════════════════
+// Simulated exchange that stands in for the GmxSdk trading surface. Market data
+// still comes from the real SDK; balances, positions, orders and fills are virtual.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { GmxSdk } from "@gmx-io/sdk";
+import { BASIS_POINTS_DIVISOR, convertToUsd, convertToTokenAmount, calculatePositionNetValue } from './gmx-utils';
+import { ORDER_TYPE } from './gmx-types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface PaperTradingConfig {
+    /** Starting balances by token symbol in whole units (e.g. { USDC: 10000 }) */
+    initialBalances: Record<string, number>;
+    /** Slippage charged on every fill, in basis points */
+    slippageBps: number;
+    /** Open/close fee charged on position size, in basis points */
+    positionFeeBps: number;
+    /** Fee charged on swapped value, in basis points */
+    swapFeeBps: number;
+    /** Leverage used when an increase order does not specify one, in basis points */
+    defaultLeverageBps: bigint;
+    /** Maximum age of the price snapshot before trading calls refetch it */
+    priceMaxAgeMs: number;
+}
+
+interface PaperPosition {
+    key: string;
+    account: string;
+    marketAddress: string;
+    collateralTokenAddress: string;
+    isLong: boolean;
+    sizeInUsd: bigint;
+    sizeInTokens: bigint;
+    collateralAmount: bigint;
+    increasedAtTime: bigint;
+    decreasedAtTime: bigint;
+}
+
+interface PaperOrder {
+    key: string;
+    orderType: number;
+    marketAddress: string;
+    isLong: boolean;
+    initialCollateralTokenAddress: string;
+    targetCollateralTokenAddress: string;
+    initialCollateralDeltaAmount: bigint;
+    sizeDeltaUsd: bigint;
+    leverage: bigint;
+    triggerPrice: bigint;
+    acceptablePrice: bigint;
+    isFullClose: boolean;
+    updatedAtTime: bigint;
+}
+
+interface PaperTrade {
+    id: string;
+    orderKey: string;
+    orderType: number;
+    marketAddress: string;
+    isLong: boolean;
+    sizeDeltaUsd: bigint;
+    executionPrice: bigint;
+    acceptablePrice: bigint;
+    initialCollateralTokenAddress: string;
+    initialCollateralDeltaAmount: bigint;
+    pnlUsd: bigint;
+    feeUsd: bigint;
+    timestamp: number;
+    transactionHash: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_PAPER_TRADING_CONFIG: PaperTradingConfig = {
+    initialBalances: { USDC: 10_000 },
+    slippageBps: 10,
+    positionFeeBps: 6,
+    swapFeeBps: 5,
+    defaultLeverageBps: 10000n,
+    priceMaxAgeMs: 15_000,
+};
+
+// Fallback maintenance margin when the market does not report one (0.5%)
+const DEFAULT_MIN_COLLATERAL_FACTOR = 5n * 10n ** 27n;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧪 PAPER EXCHANGE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Simulated GMX exchange exposing the same surface the actions and cache use.
+ * Trigger orders and liquidations are evaluated whenever a new price snapshot is taken.
+ */
+export class PaperGmxSdk {
+    private balances: Map<string, bigint> = new Map();
+    private openPositions: Map<string, PaperPosition> = new Map();
+    private pendingOrders: Map<string, PaperOrder> = new Map();
+    private tradeLog: PaperTrade[] = [];
+    private balancesInitialized = false;
+
+    private marketsInfoData: any = null;
+    private tokensData: any = null;
+    private lastPriceFetch = 0;
+    private priceFetchPromise: Promise<void> | null = null;
+
+    readonly orders;
+    readonly positions;
+    readonly tokens;
+    readonly markets;
+    readonly trades;
+
+    constructor(private readonly sdk: GmxSdk, private readonly paperConfig: PaperTradingConfig = DEFAULT_PAPER_TRADING_CONFIG) {
+        this.orders = {
+            long: (params: any) => this.increase(params, true),
+            short: (params: any) => this.increase(params, false),
+            swap: (params: any) => this.swap(params),
+            createDecreaseOrder: (params: any) => this.createDecreaseOrder(params),
+            cancelOrders: (orderKeys: string[]) => this.cancelOrders(orderKeys),
+            getOrders: (params: any) => this.getOrders(params),
+        };
+        this.positions = {
+            getPositions: (params: any) => this.getPositions(params),
+            getPositionsInfo: (params: any) => this.getPositionsInfo(params),
+        };
+        this.tokens = {
+            getTokensData: () => this.getTokensData(),
+        };
+        this.markets = {
+            getMarketsInfo: () => this.getMarketsInfo(),
+            getDailyVolumes: () => this.sdk.markets.getDailyVolumes(),
+        };
+        this.trades = {
+            getTradeHistory: (params: any) => this.getTradeHistory(params),
+        };
+
+        console.warn(`📝 Paper trading enabled - slippage ${paperConfig.slippageBps}bps, position fee ${paperConfig.positionFeeBps}bps, swap fee ${paperConfig.swapFeeBps}bps`);
+    }
+
+    get chainId() {
+        return this.sdk.chainId;
+    }
+
+    get account() {
+        return this.sdk.account;
+    }
+
+    get config() {
+        return this.sdk.config;
+    }
+
+    setAccount(account: `0x${string}`): void {
+        this.sdk.setAccount(account);
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // 📊 MARKET DATA (real prices, virtual balances)
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    private async getMarketsInfo(): Promise<{ marketsInfoData: any, tokensData: any }> {
+        await this.refreshPrices(true);
+        return { marketsInfoData: this.marketsInfoData, tokensData: this.withVirtualBalances(this.tokensData) };
+    }
+
+    private async getTokensData(): Promise<{ tokensData: any }> {
+        await this.refreshPrices();
+        return { tokensData: this.withVirtualBalances(this.tokensData) };
+    }
+
+    private async refreshPrices(force = false): Promise<void> {
+        const now = Date.now();
+        if (!force && this.tokensData && (now - this.lastPriceFetch) < this.paperConfig.priceMaxAgeMs) {
+            return;
+        }
+
+        if (this.priceFetchPromise) {
+            return this.priceFetchPromise;
+        }
+
+        this.priceFetchPromise = (async () => {
+            const result = await this.sdk.markets.getMarketsInfo();
+            this.marketsInfoData = result.marketsInfoData;
+            this.tokensData = result.tokensData;
+            this.lastPriceFetch = Date.now();
+            this.initializeBalances();
+            this.processPendingOrders();
+            this.processLiquidations();
+        })();
+
+        try {
+            await this.priceFetchPromise;
+        } finally {
+            this.priceFetchPromise = null;
+        }
+    }
+
+    private initializeBalances(): void {
+        if (this.balancesInitialized || !this.tokensData) return;
+
+        for (const [symbol, amount] of Object.entries(this.paperConfig.initialBalances)) {
+            const token: any = Object.values(this.tokensData).find((t: any) => t.symbol === symbol);
+            if (!token) {
+                console.warn(`[PaperTrading] Unknown token in initial balances: ${symbol}`);
+                continue;
+            }
+            const units = BigInt(Math.round(amount * 1e6)) * 10n ** BigInt(token.decimals) / 1_000_000n;
+            this.balances.set(token.address, units);
+            console.warn(`[PaperTrading] Seeded virtual balance: ${amount} ${symbol}`);
+        }
+        this.balancesInitialized = true;
+    }
+
+    private withVirtualBalances(tokensData: any): any {
+        if (!tokensData) return tokensData;
+        return Object.fromEntries(
+            Object.entries(tokensData).map(([address, token]: [string, any]) => [
+                address,
+                { ...token, balance: this.balances.get(address) ?? 0n, walletBalance: this.balances.get(address) ?? 0n }
+            ])
+        );
+    }
+
+    private requireToken(address: string): any {
+        const token = this.tokensData?.[address];
+        if (!token) {
+            throw new Error(`Invalid params: token not found ${address}`);
+        }
+        return token;
+    }
+
+    private requireMarket(address: string): any {
+        const market = this.marketsInfoData?.[address];
+        if (!market) {
+            throw new Error(`Invalid params: market not found ${address}`);
+        }
+        return market;
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // 💰 BALANCE HELPERS
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    private debit(tokenAddress: string, amount: bigint): void {
+        const balance = this.balances.get(tokenAddress) ?? 0n;
+        if (balance < amount) {
+            const token = this.tokensData?.[tokenAddress];
+            throw new Error(`Insufficient funds: ${token?.symbol ?? tokenAddress} balance ${balance} < ${amount}`);
+        }
+        this.balances.set(tokenAddress, balance - amount);
+    }
+
+    private credit(tokenAddress: string, amount: bigint): void {
+        if (amount <= 0n) return;
+        this.balances.set(tokenAddress, (this.balances.get(tokenAddress) ?? 0n) + amount);
+    }
+
+    private applyBps(value: bigint, bps: number): bigint {
+        return value * BigInt(bps) / BASIS_POINTS_DIVISOR;
+    }
+
+    /** Price with slippage applied against the trader */
+    private fillPrice(price: bigint, isBuy: boolean): bigint {
+        const slippage = this.applyBps(price, this.paperConfig.slippageBps);
+        return isBuy ? price + slippage : price - slippage;
+    }
+
+    private newKey(): string {
+        const bytes = Array.from({ length: 32 }, () => Math.floor(Math.random() * 256).toString(16).padStart(2, '0'));
+        return `0x${bytes.join('')}`;
+    }
+
+    private positionKey(marketAddress: string, collateralTokenAddress: string, isLong: boolean): string {
+        return `${this.sdk.account}:${marketAddress}:${collateralTokenAddress}:${isLong}`;
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // 📈 INCREASE ORDERS
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    private async increase(params: any, isLong: boolean): Promise<{ transactionHash: string, orderKey: string }> {
+        await this.refreshPrices();
+        const market = this.requireMarket(params.marketAddress);
+        this.requireToken(params.payTokenAddress);
+        this.requireToken(params.collateralTokenAddress);
+
+        if (params.payAmount === undefined || params.payAmount <= 0n) {
+            throw new Error("Invalid params: paper trading requires a positive payAmount");
+        }
+
+        const order: PaperOrder = {
+            key: this.newKey(),
+            orderType: params.limitPrice ? ORDER_TYPE.LimitIncrease : ORDER_TYPE.MarketIncrease,
+            marketAddress: params.marketAddress,
+            isLong,
+            initialCollateralTokenAddress: params.payTokenAddress,
+            targetCollateralTokenAddress: params.collateralTokenAddress,
+            initialCollateralDeltaAmount: params.payAmount,
+            sizeDeltaUsd: 0n,
+            leverage: params.leverage ?? this.paperConfig.defaultLeverageBps,
+            triggerPrice: params.limitPrice ?? 0n,
+            acceptablePrice: params.limitPrice ?? 0n,
+            isFullClose: false,
+            updatedAtTime: BigInt(Math.floor(Date.now() / 1000)),
+        };
+
+        // Collateral leaves the wallet when the order is created, as on GMX
+        this.debit(params.payTokenAddress, params.payAmount);
+
+        const payToken = this.tokensData[params.payTokenAddress];
+        const payUsd = convertToUsd(params.payAmount, payToken.decimals, payToken.prices.minPrice) || 0n;
+        order.sizeDeltaUsd = payUsd * order.leverage / BASIS_POINTS_DIVISOR;
+
+        if (order.orderType === ORDER_TYPE.LimitIncrease) {
+            this.pendingOrders.set(order.key, order);
+            console.warn(`[PaperTrading] Limit ${isLong ? 'long' : 'short'} order placed on ${market.name} (${order.key.slice(0, 10)}...)`);
+        } else {
+            this.executeIncrease(order);
+        }
+
+        return { transactionHash: this.newKey(), orderKey: order.key };
+    }
+
+    private executeIncrease(order: PaperOrder): void {
+        const market = this.requireMarket(order.marketAddress);
+        const indexToken = this.requireToken(market.indexTokenAddress);
+        const payToken = this.requireToken(order.initialCollateralTokenAddress);
+        const collateralToken = this.requireToken(order.targetCollateralTokenAddress);
+
+        // Convert pay token into collateral token, charging the swap fee when they differ
+        let collateralUsd = convertToUsd(order.initialCollateralDeltaAmount, payToken.decimals, payToken.prices.minPrice) || 0n;
+        if (order.initialCollateralTokenAddress !== order.targetCollateralTokenAddress) {
+            collateralUsd -= this.applyBps(collateralUsd, this.paperConfig.swapFeeBps);
+        }
+
+        const sizeDeltaUsd = collateralUsd * order.leverage / BASIS_POINTS_DIVISOR;
+        const feeUsd = this.applyBps(sizeDeltaUsd, this.paperConfig.positionFeeBps);
+        // Limit orders fill at their limit price, never at a better market price
+        const executionPrice = order.orderType === ORDER_TYPE.LimitIncrease ?
+            order.triggerPrice :
+            this.fillPrice(order.isLong ? indexToken.prices.maxPrice : indexToken.prices.minPrice, order.isLong);
+        const sizeDeltaInTokens = convertToTokenAmount(sizeDeltaUsd, indexToken.decimals, executionPrice) || 0n;
+        const collateralAmount = convertToTokenAmount(collateralUsd - feeUsd, collateralToken.decimals, collateralToken.prices.minPrice) || 0n;
+
+        const key = this.positionKey(order.marketAddress, order.targetCollateralTokenAddress, order.isLong);
+        const now = BigInt(Math.floor(Date.now() / 1000));
+        const existing = this.openPositions.get(key);
+
+        if (existing) {
+            existing.sizeInUsd += sizeDeltaUsd;
+            existing.sizeInTokens += sizeDeltaInTokens;
+            existing.collateralAmount += collateralAmount;
+            existing.increasedAtTime = now;
+        } else {
+            this.openPositions.set(key, {
+                key,
+                account: this.sdk.account,
+                marketAddress: order.marketAddress,
+                collateralTokenAddress: order.targetCollateralTokenAddress,
+                isLong: order.isLong,
+                sizeInUsd: sizeDeltaUsd,
+                sizeInTokens: sizeDeltaInTokens,
+                collateralAmount,
+                increasedAtTime: now,
+                decreasedAtTime: 0n,
+            });
+        }
+
+        this.recordTrade(order, sizeDeltaUsd, executionPrice, 0n, feeUsd);
+        console.warn(`[PaperTrading] Filled ${order.isLong ? 'LONG' : 'SHORT'} increase on ${market.name}: size $${Number(sizeDeltaUsd / 10n ** 28n) / 100} @ ${Number(executionPrice / 10n ** 28n) / 100}`);
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // 📉 DECREASE ORDERS
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    private async createDecreaseOrder(params: any): Promise<{ transactionHash: string, orderKey: string }> {
+        await this.refreshPrices();
+        const { marketInfo, decreaseAmounts, collateralToken, isLong, isTrigger } = params;
+        const key = this.positionKey(marketInfo.marketTokenAddress, collateralToken.address, isLong);
+
+        if (!this.openPositions.has(key)) {
+            throw new Error(`Invalid params: no ${isLong ? 'long' : 'short'} position in ${marketInfo.name}`);
+        }
+
+        const order: PaperOrder = {
+            key: this.newKey(),
+            orderType: isTrigger ? (decreaseAmounts.triggerOrderType ?? ORDER_TYPE.LimitDecrease) : ORDER_TYPE.MarketDecrease,
+            marketAddress: marketInfo.marketTokenAddress,
+            isLong,
+            initialCollateralTokenAddress: collateralToken.address,
+            targetCollateralTokenAddress: collateralToken.address,
+            initialCollateralDeltaAmount: 0n,
+            sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd,
+            leverage: 0n,
+            triggerPrice: decreaseAmounts.triggerPrice ?? 0n,
+            acceptablePrice: decreaseAmounts.acceptablePrice ?? 0n,
+            isFullClose: !!decreaseAmounts.isFullClose,
+            updatedAtTime: BigInt(Math.floor(Date.now() / 1000)),
+        };
+
+        if (isTrigger) {
+            this.pendingOrders.set(order.key, order);
+            console.warn(`[PaperTrading] Trigger order ${order.orderType === ORDER_TYPE.StopLossDecrease ? 'SL' : 'TP'} placed on ${marketInfo.name} (${order.key.slice(0, 10)}...)`);
+        } else {
+            this.executeDecrease(order);
+        }
+
+        return { transactionHash: this.newKey(), orderKey: order.key };
+    }
+
+    private executeDecrease(order: PaperOrder, orderTypeOverride?: number): boolean {
+        const positionKey = this.positionKey(order.marketAddress, order.targetCollateralTokenAddress, order.isLong);
+        const position = this.openPositions.get(positionKey);
+        if (!position) return false;
+
+        const market = this.requireMarket(order.marketAddress);
+        const indexToken = this.requireToken(market.indexTokenAddress);
+        const collateralToken = this.requireToken(position.collateralTokenAddress);
+
+        const sizeDeltaUsd = order.isFullClose || order.sizeDeltaUsd >= position.sizeInUsd ? position.sizeInUsd : order.sizeDeltaUsd;
+        const sizeDeltaInTokens = sizeDeltaUsd === position.sizeInUsd ?
+            position.sizeInTokens :
+            position.sizeInTokens * sizeDeltaUsd / position.sizeInUsd;
+        const collateralDeltaAmount = sizeDeltaUsd === position.sizeInUsd ?
+            position.collateralAmount :
+            position.collateralAmount * sizeDeltaUsd / position.sizeInUsd;
+
+        const executionPrice = this.fillPrice(order.isLong ? indexToken.prices.minPrice : indexToken.prices.maxPrice, !order.isLong);
+        const exitValueUsd = convertToUsd(sizeDeltaInTokens, indexToken.decimals, executionPrice) || 0n;
+        const pnlUsd = order.isLong ? exitValueUsd - sizeDeltaUsd : sizeDeltaUsd - exitValueUsd;
+        const feeUsd = this.applyBps(sizeDeltaUsd, this.paperConfig.positionFeeBps);
+        const collateralUsd = convertToUsd(collateralDeltaAmount, collateralToken.decimals, collateralToken.prices.minPrice) || 0n;
+
+        const payoutUsd = collateralUsd + pnlUsd - feeUsd;
+        const payoutAmount = payoutUsd > 0n ?
+            convertToTokenAmount(payoutUsd, collateralToken.decimals, collateralToken.prices.minPrice) || 0n : 0n;
+        this.credit(position.collateralTokenAddress, payoutAmount);
+
+        position.sizeInUsd -= sizeDeltaUsd;
+        position.sizeInTokens -= sizeDeltaInTokens;
+        position.collateralAmount -= collateralDeltaAmount;
+        position.decreasedAtTime = BigInt(Math.floor(Date.now() / 1000));
+
+        if (position.sizeInUsd <= 0n) {
+            this.openPositions.delete(positionKey);
+            this.cancelOrphanedDecreaseOrders(positionKey);
+        }
+
+        this.recordTrade({ ...order, orderType: orderTypeOverride ?? order.orderType }, sizeDeltaUsd, executionPrice, pnlUsd, feeUsd);
+        console.warn(`[PaperTrading] Filled ${order.isLong ? 'LONG' : 'SHORT'} decrease on ${market.name}: PnL $${(Number(pnlUsd / 10n ** 26n) / 10000).toFixed(2)}`);
+        return true;
+    }
+
+    private cancelOrphanedDecreaseOrders(positionKey: string): void {
+        for (const order of this.pendingOrders.values()) {
+            const isDecrease = order.orderType === ORDER_TYPE.LimitDecrease || order.orderType === ORDER_TYPE.StopLossDecrease;
+            if (isDecrease && this.positionKey(order.marketAddress, order.targetCollateralTokenAddress, order.isLong) === positionKey) {
+                this.pendingOrders.delete(order.key);
+                console.warn(`[PaperTrading] Cancelled orphaned trigger order ${order.key.slice(0, 10)}... (position closed)`);
+            }
+        }
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // 💱 SWAPS
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    private async swap(params: any): Promise<{ transactionHash: string, orderKey: string }> {
+        await this.refreshPrices();
+        const fromToken = this.requireToken(params.fromTokenAddress);
+        const toToken = this.requireToken(params.toTokenAddress);
+
+        // Translate a toAmount request into the equivalent fromAmount at current prices
+        let fromAmount: bigint = params.fromAmount ?? 0n;
+        if (!params.fromAmount && params.toAmount) {
+            const toUsd = convertToUsd(params.toAmount, toToken.decimals, toToken.prices.maxPrice) || 0n;
+            const grossUsd = toUsd * BASIS_POINTS_DIVISOR / (BASIS_POINTS_DIVISOR - BigInt(this.paperConfig.swapFeeBps + this.paperConfig.slippageBps));
+            fromAmount = convertToTokenAmount(grossUsd, fromToken.decimals, fromToken.prices.minPrice) || 0n;
+        }
+        if (fromAmount <= 0n) {
+            throw new Error("Invalid params: swap amount must be positive");
+        }
+
+        const order: PaperOrder = {
+            key: this.newKey(),
+            orderType: params.triggerPrice ? ORDER_TYPE.LimitSwap : ORDER_TYPE.MarketSwap,
+            marketAddress: '',
+            isLong: false,
+            initialCollateralTokenAddress: params.fromTokenAddress,
+            targetCollateralTokenAddress: params.toTokenAddress,
+            initialCollateralDeltaAmount: fromAmount,
+            sizeDeltaUsd: convertToUsd(fromAmount, fromToken.decimals, fromToken.prices.minPrice) || 0n,
+            leverage: 0n,
+            triggerPrice: params.triggerPrice ?? 0n,
+            acceptablePrice: 0n,
+            isFullClose: false,
+            updatedAtTime: BigInt(Math.floor(Date.now() / 1000)),
+        };
+
+        this.debit(params.fromTokenAddress, fromAmount);
+
+        if (order.orderType === ORDER_TYPE.LimitSwap) {
+            this.pendingOrders.set(order.key, order);
+            console.warn(`[PaperTrading] Limit swap placed: ${fromToken.symbol} → ${toToken.symbol} (${order.key.slice(0, 10)}...)`);
+        } else {
+            this.executeSwap(order);
+        }
+
+        return { transactionHash: this.newKey(), orderKey: order.key };
+    }
+
+    private executeSwap(order: PaperOrder): void {
+        const fromToken = this.requireToken(order.initialCollateralTokenAddress);
+        const toToken = this.requireToken(order.targetCollateralTokenAddress);
+
+        const fromUsd = convertToUsd(order.initialCollateralDeltaAmount, fromToken.decimals, fromToken.prices.minPrice) || 0n;
+        const feeUsd = this.applyBps(fromUsd, this.paperConfig.swapFeeBps);
+        const outUsd = fromUsd - feeUsd - this.applyBps(fromUsd, this.paperConfig.slippageBps);
+        const outAmount = convertToTokenAmount(outUsd, toToken.decimals, toToken.prices.maxPrice) || 0n;
+
+        this.credit(order.targetCollateralTokenAddress, outAmount);
+        this.recordTrade(order, fromUsd, toToken.prices.maxPrice, 0n, feeUsd);
+        console.warn(`[PaperTrading] Swapped ${fromToken.symbol} → ${toToken.symbol}: $${(Number(outUsd / 10n ** 26n) / 10000).toFixed(2)} received`);
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // ⏳ TRIGGER ORDERS & LIQUIDATIONS
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    private isTriggered(order: PaperOrder): boolean {
+        if (order.orderType === ORDER_TYPE.LimitSwap) {
+            // Buying the target token below the trigger, or selling the source token above it
+            const toToken = this.tokensData[order.targetCollateralTokenAddress];
+            const fromToken = this.tokensData[order.initialCollateralTokenAddress];
+            if (toToken && !toToken.isStable) return toToken.prices.maxPrice <= order.triggerPrice;
+            if (fromToken && !fromToken.isStable) return fromToken.prices.minPrice >= order.triggerPrice;
+            return false;
+        }
+
+        const market = this.marketsInfoData?.[order.marketAddress];
+        const indexToken = market ? this.tokensData[market.indexTokenAddress] : undefined;
+        if (!indexToken?.prices) return false;
+        const { minPrice, maxPrice } = indexToken.prices;
+
+        switch (order.orderType) {
+            case ORDER_TYPE.LimitIncrease:
+                return order.isLong ? maxPrice <= order.triggerPrice : minPrice >= order.triggerPrice;
+            case ORDER_TYPE.LimitDecrease:
+                return order.isLong ? minPrice >= order.triggerPrice : maxPrice <= order.triggerPrice;
+            case ORDER_TYPE.StopLossDecrease:
+                return order.isLong ? minPrice <= order.triggerPrice : maxPrice >= order.triggerPrice;
+            default:
+                return false;
+        }
+    }
+
+    private processPendingOrders(): void {
+        for (const order of [...this.pendingOrders.values()]) {
+            if (!this.pendingOrders.has(order.key) || !this.isTriggered(order)) continue;
+
+            this.pendingOrders.delete(order.key);
+            try {
+                if (order.orderType === ORDER_TYPE.LimitIncrease) {
+                    this.executeIncrease(order);
+                } else if (order.orderType === ORDER_TYPE.LimitSwap) {
+                    this.executeSwap(order);
+                } else if (!this.executeDecrease(order)) {
+                    console.warn(`[PaperTrading] Trigger order ${order.key.slice(0, 10)}... cancelled - position no longer exists`);
+                }
+            } catch (error) {
+                console.error(`[PaperTrading] Failed to execute trigger order ${order.key}:`, error);
+            }
+        }
+    }
+
+    private processLiquidations(): void {
+        for (const position of [...this.openPositions.values()]) {
+            const info = this.buildPositionInfo(position);
+            if (!info) continue;
+
+            const market = this.marketsInfoData[position.marketAddress];
+            const minCollateralUsd = position.sizeInUsd * (market.minCollateralFactor || DEFAULT_MIN_COLLATERAL_FACTOR) / 10n ** 30n;
+            if (info.collateralUsd + info.pnl - info.closingFeeUsd < minCollateralUsd) {
+                console.warn(`[PaperTrading] ⚠️ Liquidating ${position.isLong ? 'LONG' : 'SHORT'} position in ${market.name}`);
+                this.executeDecrease({
+                    key: this.newKey(),
+                    orderType: ORDER_TYPE.MarketDecrease,
+                    marketAddress: position.marketAddress,
+                    isLong: position.isLong,
+                    initialCollateralTokenAddress: position.collateralTokenAddress,
+                    targetCollateralTokenAddress: position.collateralTokenAddress,
+                    initialCollateralDeltaAmount: 0n,
+                    sizeDeltaUsd: position.sizeInUsd,
+                    leverage: 0n,
+                    triggerPrice: 0n,
+                    acceptablePrice: 0n,
+                    isFullClose: true,
+                    updatedAtTime: BigInt(Math.floor(Date.now() / 1000)),
+                }, ORDER_TYPE.Liquidation);
+            }
+        }
+    }
+
+    private async cancelOrders(orderKeys: string[]): Promise<string> {
+        await this.refreshPrices();
+        for (const key of orderKeys) {
+            const order = this.pendingOrders.get(key);
+            if (!order) {
+                throw new Error(`Invalid params: order not found ${key}`);
+            }
+            this.pendingOrders.delete(key);
+
+            // Refund collateral held by increase and swap orders
+            if (order.orderType === ORDER_TYPE.LimitIncrease || order.orderType === ORDER_TYPE.LimitSwap) {
+                this.credit(order.initialCollateralTokenAddress, order.initialCollateralDeltaAmount);
+            }
+        }
+        console.warn(`[PaperTrading] Cancelled ${orderKeys.length} order(s)`);
+        return this.newKey();
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // 📋 ACCOUNT QUERIES
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    private async getPositions(_params: any): Promise<{ positionsData: Record<string, any> }> {
+        await this.refreshPrices();
+        const positionsData = Object.fromEntries(
+            [...this.openPositions.values()].map(position => [position.key, {
+                ...position,
+                contractKey: position.key,
+                pendingBorrowingFeesUsd: 0n,
+                pendingFundingFeesUsd: 0n,
+                fundingFeeAmount: 0n,
+                claimableLongTokenAmount: 0n,
+                claimableShortTokenAmount: 0n,
+                pnl: 0n,
+                positionFeeAmount: 0n,
+                traderDiscountAmount: 0n,
+                uiFeeAmount: 0n,
+                pendingImpactAmount: 0n,
+            }])
+        );
+        return { positionsData };
+    }
+
+    private async getPositionsInfo(_params: any): Promise<Record<string, any>> {
+        await this.refreshPrices();
+        return Object.fromEntries(
+            [...this.openPositions.values()]
+                .map(position => this.buildPositionInfo(position))
+                .filter(Boolean)
+                .map((info: any) => [info.key, info])
+        );
+    }
+
+    private buildPositionInfo(position: PaperPosition): any | null {
+        const marketInfo = this.marketsInfoData?.[position.marketAddress];
+        const indexToken = marketInfo ? this.tokensData[marketInfo.indexTokenAddress] : undefined;
+        const collateralToken = this.tokensData?.[position.collateralTokenAddress];
+        if (!marketInfo || !indexToken || !collateralToken) return null;
+
+        const markPrice = position.isLong ? indexToken.prices.minPrice : indexToken.prices.maxPrice;
+        const currentValue = convertToUsd(position.sizeInTokens, indexToken.decimals, markPrice) || 0n;
+        const pnl = position.isLong ? currentValue - position.sizeInUsd : position.sizeInUsd - currentValue;
+        const collateralUsd = convertToUsd(position.collateralAmount, collateralToken.decimals, collateralToken.prices.minPrice) || 0n;
+        const closingFeeUsd = this.applyBps(position.sizeInUsd, this.paperConfig.positionFeeBps);
+        const netValue = calculatePositionNetValue({
+            collateralUsd,
+            pnl,
+            pendingFundingFeesUsd: 0n,
+            pendingBorrowingFeesUsd: 0n,
+            closingFeeUsd
+        });
+        const entryPrice = position.sizeInTokens > 0n ?
+            position.sizeInUsd * 10n ** BigInt(indexToken.decimals) / position.sizeInTokens : undefined;
+
+        // Price at which remaining collateral hits the maintenance margin
+        const minCollateralUsd = position.sizeInUsd * (marketInfo.minCollateralFactor || DEFAULT_MIN_COLLATERAL_FACTOR) / 10n ** 30n;
+        const buffer = collateralUsd - closingFeeUsd - minCollateralUsd;
+        const liquidationPrice = position.sizeInTokens > 0n ?
+            (position.isLong ? position.sizeInUsd - buffer : position.sizeInUsd + buffer) * 10n ** BigInt(indexToken.decimals) / position.sizeInTokens :
+            undefined;
+
+        return {
+            ...position,
+            contractKey: position.key,
+            marketInfo,
+            indexToken,
+            collateralToken,
+            markPrice,
+            entryPrice,
+            liquidationPrice: liquidationPrice && liquidationPrice > 0n ? liquidationPrice : undefined,
+            collateralUsd,
+            remainingCollateralUsd: collateralUsd,
+            remainingCollateralAmount: position.collateralAmount,
+            pnl,
+            pnlPercentage: collateralUsd > 0n ? pnl * BASIS_POINTS_DIVISOR / collateralUsd : 0n,
+            pnlAfterFees: pnl - closingFeeUsd,
+            netValue,
+            leverage: netValue > 0n ? position.sizeInUsd * BASIS_POINTS_DIVISOR / netValue : undefined,
+            closingFeeUsd,
+            pendingBorrowingFeesUsd: 0n,
+            pendingFundingFeesUsd: 0n,
+        };
+    }
+
+    private async getOrders(_params: any): Promise<{ count: number, ordersInfoData: Record<string, any> }> {
+        await this.refreshPrices();
+        const ordersInfoData = Object.fromEntries(
+            [...this.pendingOrders.values()].map(order => {
+                const isSwap = order.orderType === ORDER_TYPE.LimitSwap;
+                const marketInfo = isSwap ? undefined : this.marketsInfoData[order.marketAddress];
+                return [order.key, {
+                    key: order.key,
+                    account: this.sdk.account,
+                    marketAddress: order.marketAddress,
+                    initialCollateralTokenAddress: order.initialCollateralTokenAddress,
+                    orderType: order.orderType,
+                    isLong: order.isLong,
+                    isSwap,
+                    isTwap: false,
+                    isFrozen: false,
+                    sizeDeltaUsd: order.sizeDeltaUsd,
+                    triggerPrice: order.triggerPrice,
+                    contractTriggerPrice: order.triggerPrice,
+                    acceptablePrice: order.acceptablePrice,
+                    contractAcceptablePrice: order.acceptablePrice,
+                    initialCollateralDeltaAmount: order.initialCollateralDeltaAmount,
+                    updatedAtTime: order.updatedAtTime,
+                    marketInfo,
+                    indexToken: marketInfo ? this.tokensData[marketInfo.indexTokenAddress] : undefined,
+                    initialCollateralToken: this.tokensData[order.initialCollateralTokenAddress],
+                    targetCollateralToken: this.tokensData[order.targetCollateralTokenAddress],
+                }];
+            })
+        );
+        return { count: this.pendingOrders.size, ordersInfoData };
+    }
+
+    private async getTradeHistory(params: { pageSize: number, pageIndex: number }): Promise<any[]> {
+        await this.refreshPrices();
+        const newestFirst = [...this.tradeLog].reverse();
+        const page = newestFirst.slice(params.pageIndex * params.pageSize, (params.pageIndex + 1) * params.pageSize);
+
+        return page.map(trade => {
+            const marketInfo = this.marketsInfoData?.[trade.marketAddress];
+            return {
+                id: trade.id,
+                eventName: 'OrderExecuted',
+                orderType: trade.orderType,
+                orderKey: trade.orderKey,
+                account: this.sdk.account,
+                marketAddress: trade.marketAddress,
+                isLong: trade.isLong,
+                sizeDeltaUsd: trade.sizeDeltaUsd,
+                executionPrice: trade.executionPrice,
+                acceptablePrice: trade.acceptablePrice,
+                initialCollateralDeltaAmount: trade.initialCollateralDeltaAmount,
+                initialCollateralToken: this.tokensData?.[trade.initialCollateralTokenAddress],
+                pnlUsd: trade.pnlUsd,
+                positionFeeAmount: trade.feeUsd,
+                timestamp: trade.timestamp,
+                transaction: { hash: trade.transactionHash },
+                marketInfo,
+                indexToken: marketInfo ? this.tokensData[marketInfo.indexTokenAddress] : undefined,
+            };
+        });
+    }
+
+    private recordTrade(order: PaperOrder, sizeDeltaUsd: bigint, executionPrice: bigint, pnlUsd: bigint, feeUsd: bigint): void {
+        this.tradeLog.push({
+            id: `paper-${this.tradeLog.length + 1}`,
+            orderKey: order.key,
+            orderType: order.orderType,
+            marketAddress: order.marketAddress,
+            isLong: order.isLong,
+            sizeDeltaUsd,
+            executionPrice,
+            acceptablePrice: order.acceptablePrice,
+            initialCollateralTokenAddress: order.initialCollateralTokenAddress,
+            initialCollateralDeltaAmount: order.initialCollateralDeltaAmount,
+            pnlUsd: pnlUsd - feeUsd,
+            feeUsd,
+            timestamp: Math.floor(Date.now() / 1000),
+            transactionHash: this.newKey(),
+        });
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏗️ FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Wraps a real GmxSdk in the paper exchange and returns it typed as GmxSdk,
+ * so callers (actions, queries, cache) can use it unchanged.
+ */
+export const createPaperGmxSdk = (sdk: GmxSdk, config: PaperTradingConfig = DEFAULT_PAPER_TRADING_CONFIG): GmxSdk => {
+    return new PaperGmxSdk(sdk, config) as unknown as GmxSdk;
+};
@@ -1,12 +1,15 @@
-import { GmxSdk } from "@gmx-io/sdk";
-import { type Asset, ASSETS } from "./gmx-types";
+import { type Asset, ASSETS, type PortfolioSnapshot, type ChainPortfolio, type ConsolidatedPortfolio, type AccountPortfolio, type PortfolioTotals, type PortfolioPosition, type TokenBalance, type PositionSummary, type MarketSummary, type TokenSummary, type MarketVolume, type OrderSummary, type TradeRecord, type TradingHistory, type Divergence, type TimeframeAnalysis, type ConfluenceAnalysis, type TechnicalAnalysis } from "./gmx-types";
 import type { EnhancedDataCache } from './gmx-cache';
-import { bigIntToDecimal, formatTokenAmount, formatUsdAmount, convertToUsd, USD_DECIMALS, getTradeActionDescriptionEnhanced, calculatePerformanceMetrics, calculate24HourVolatility, getGMXMarket, formatError } from "./gmx-utils";
+import { bigIntToDecimal, formatTokenAmount, formatUsd, convertToUsd, USD_DECIMALS, calculatePerformanceMetrics, calculate24HourVolatility, getGMXMarket, getAssetFromMarketName, formatError } from "./gmx-utils";
 import { calculatePositionPnl, calculateLeverage, calculateLiquidationPrice, calculatePositionNetValue } from "./gmx-utils";
 import { SMA, EMA, RSI, MACD, BollingerBands, ATR, Stochastic, WilliamsR, CCI, ADX } from 'technicalindicators';
-import { getEnhancedSynthAnalysis } from './synth-utils';
+import { getEnhancedSynthAnalysis, formatSynthAnalysis, type SynthAnalysisResult } from './synth-utils';
 
-export const get_portfolio_balance_str = async (gmxDataCache: EnhancedDataCache) => {
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💰 PORTFOLIO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const get_portfolio_balance = async (gmxDataCache: EnhancedDataCache): Promise<PortfolioSnapshot> => {
     // Get tokens data with balances and prices - use cache
     const tokensResult = await gmxDataCache.getTokensData().catch(error => {
         throw new Error(`Failed to get tokens data: ${error.message || error}`);
@@ -34,48 +37,33 @@ export const get_portfolio_balance_str = async (gmxDataCache: EnhancedDataCache)
     });
     
     // Calculate token balances in USD
-    const tokenBalances: Array<{
-        symbol: string;
-        address: string;
-        balance: string;
-        usdValue: string;
-        price: string;
-    }> = [];
-    
-    let totalTokenValueUsd = 0;
+    const tokens: TokenBalance[] = [];
+    let tokenValueUsd = 0;
     
     Object.values(tokensData).forEach((token: any) => {
         if (token.balance && token.balance > 0n) {
-            const balanceDecimal = bigIntToDecimal(token.balance, token.decimals);
-            const price = token.prices?.minPrice ? 
+            const balance = bigIntToDecimal(token.balance, token.decimals);
+            const priceUsd = token.prices?.minPrice ? 
                 bigIntToDecimal(token.prices.minPrice, USD_DECIMALS) : 0;
-            const usdValue = balanceDecimal * price;
+            const balanceUsd = balance * priceUsd;
             
-            totalTokenValueUsd += usdValue;
+            tokenValueUsd += balanceUsd;
             
-            tokenBalances.push({
+            tokens.push({
                 symbol: token.symbol,
                 address: token.address,
-                balance: formatTokenAmount(token.balance, token.decimals, 6),
-                usdValue: formatUsdAmount(convertToUsd(token.balance, token.decimals, token.prices?.minPrice || 0n) || 0n, 2),
-                price: formatUsdAmount(token.prices?.minPrice || 0n, 6)
+                decimals: token.decimals,
+                balance,
+                balanceUsd,
+                priceUsd
             });
         }
     });
 
     // Calculate position values
-    const positionValues: Array<{
-        marketName: string;
-        side: string;
-        sizeUsd: string;
-        collateralUsd: string;
-        pnl: string;
-        netValue: string;
-        leverage: string;
-    }> = [];
-    
-    let totalPositionValueUsd = 0;
-    let totalPositionPnl = 0;
+    const positions: PortfolioPosition[] = [];
+    let positionValueUsd = 0;
+    let unrealizedPnlUsd = 0;
     
     // First try using enhanced positions info data
     let positionsProcessed = false;
@@ -85,27 +73,26 @@ export const get_portfolio_balance_str = async (gmxDataCache: EnhancedDataCache)
             const marketInfo = marketsInfoData[position.marketAddress];
             if (!marketInfo) return;
             
-            const netValueDecimal = bigIntToDecimal(position.netValue || 0n, USD_DECIMALS);
-            const pnlDecimal = bigIntToDecimal(position.pnl || 0n, USD_DECIMALS);
+            const netValueUsd = bigIntToDecimal(position.netValue || 0n, USD_DECIMALS);
+            const pnlUsd = bigIntToDecimal(position.pnl || 0n, USD_DECIMALS);
             
-            totalPositionValueUsd += netValueDecimal;
-            totalPositionPnl += pnlDecimal;
+            positionValueUsd += netValueUsd;
+            unrealizedPnlUsd += pnlUsd;
             
-            positionValues.push({
+            positions.push({
                 marketName: marketInfo.name,
-                side: position.isLong ? 'LONG' : 'SHORT',
-                sizeUsd: formatUsdAmount(position.sizeInUsd || 0n, 2),
-                collateralUsd: formatUsdAmount(position.collateralUsd || 0n, 2),
-                pnl: formatUsdAmount(position.pnl || 0n, 2),
-                netValue: formatUsdAmount(position.netValue || 0n, 2),
-                leverage: position.leverage ? 
-                    `${(Number(position.leverage) / 10000).toFixed(2)}x` : '0x'
+                direction: position.isLong ? 'LONG' : 'SHORT',
+                sizeUsd: bigIntToDecimal(position.sizeInUsd || 0n, USD_DECIMALS),
+                collateralUsd: bigIntToDecimal(position.collateralUsd || 0n, USD_DECIMALS),
+                pnlUsd,
+                netValueUsd,
+                leverage: position.leverage ? Number(position.leverage) / 10000 : 0
             });
         });
         positionsProcessed = true;
     }
     
-    // Fallback to raw positions data if enhanced info is empty (same logic as get_positions_str)
+    // Fallback to raw positions data if enhanced info is empty (same logic as get_positions)
     if (!positionsProcessed && positionsResult.positionsData) {
         Object.values(positionsResult.positionsData).forEach((position: any) => {
             const marketInfo = marketsInfoData[position.marketAddress];
@@ -125,7 +112,7 @@ export const get_portfolio_balance_str = async (gmxDataCache: EnhancedDataCache)
                 position.collateralAmount, 
                 collateralToken.decimals, 
                 collateralPrice
-            );
+            ) || 0n;
             
             // Calculate PnL using position data and current prices
             const markPrice = position.isLong ? 
@@ -155,64 +142,70 @@ export const get_portfolio_balance_str = async (gmxDataCache: EnhancedDataCache)
                 pendingBorrowingFeesUsd: position.pendingBorrowingFeesUsd || 0n
             });
             
-            const netValueDecimal = bigIntToDecimal(netValue || 0n, USD_DECIMALS);
-            const pnlDecimal = bigIntToDecimal(calculatedPnl || 0n, USD_DECIMALS);
+            const netValueUsd = bigIntToDecimal(netValue || 0n, USD_DECIMALS);
+            const pnlUsd = bigIntToDecimal(calculatedPnl || 0n, USD_DECIMALS);
             
-            totalPositionValueUsd += netValueDecimal;
-            totalPositionPnl += pnlDecimal;
+            positionValueUsd += netValueUsd;
+            unrealizedPnlUsd += pnlUsd;
             
-            positionValues.push({
+            positions.push({
                 marketName: marketInfo.name,
-                side: position.isLong ? 'LONG' : 'SHORT',
-                sizeUsd: formatUsdAmount(position.sizeInUsd || 0n, 2),
-                collateralUsd: formatUsdAmount(collateralUsd || 0n, 2),
-                pnl: formatUsdAmount(calculatedPnl || 0n, 2),
-                netValue: formatUsdAmount(netValue || 0n, 2),
-                leverage: leverage ? 
-                    `${(Number(leverage) / 10000).toFixed(2)}x` : '0x'
+                direction: position.isLong ? 'LONG' : 'SHORT',
+                sizeUsd: bigIntToDecimal(position.sizeInUsd || 0n, USD_DECIMALS),
+                collateralUsd: bigIntToDecimal(collateralUsd, USD_DECIMALS),
+                pnlUsd,
+                netValueUsd,
+                leverage: leverage ? Number(leverage) / 10000 : 0
             });
         });
     }
 
     // Calculate total portfolio value
-    const totalPortfolioValue = totalTokenValueUsd + totalPositionValueUsd;
+    const totalValueUsd = tokenValueUsd + positionValueUsd;
     
     // Sort token balances by USD value (highest first)
-    tokenBalances.sort((a, b) => 
-        parseFloat(b.usdValue.replace(/[$,]/g, '')) - parseFloat(a.usdValue.replace(/[$,]/g, ''))
-    );
+    tokens.sort((a, b) => b.balanceUsd - a.balanceUsd);
+
+    return {
+        totalValueUsd,
+        tokenValueUsd,
+        positionValueUsd,
+        unrealizedPnlUsd,
+        tokenAllocationPct: totalValueUsd > 0 ? (tokenValueUsd / totalValueUsd) * 100 : 0,
+        positionAllocationPct: totalValueUsd > 0 ? (positionValueUsd / totalValueUsd) * 100 : 0,
+        positions,
+        tokens
+    };
+};
 
-    // Calculate portfolio allocation
-    const tokenAllocation = totalPortfolioValue > 0 ? 
-        (totalTokenValueUsd / totalPortfolioValue) * 100 : 0;
-    const positionAllocation = totalPortfolioValue > 0 ? 
-        (totalPositionValueUsd / totalPortfolioValue) * 100 : 0;
+export const format_portfolio_balance_str = (portfolio: PortfolioSnapshot): string => {
+    const { positions, tokens } = portfolio;
 
     let output = `💰 PORTFOLIO OVERVIEW\n`;
-    output += `├─ Total Value: $${totalPortfolioValue.toFixed(2)}\n`;
-    output += `├─ Token Holdings: $${totalTokenValueUsd.toFixed(2)} (${tokenAllocation.toFixed(1)}%)\n`;
-    output += `├─ Position Value: $${totalPositionValueUsd.toFixed(2)} (${positionAllocation.toFixed(1)}%)\n`;
-    output += `├─ Unrealized PnL: $${totalPositionPnl.toFixed(2)}\n`;
-    output += `└─ Active Positions: ${positionValues.length}\n\n`;
+    output += `├─ Total Value: $${portfolio.totalValueUsd.toFixed(2)}\n`;
+    output += `├─ Token Holdings: $${portfolio.tokenValueUsd.toFixed(2)} (${portfolio.tokenAllocationPct.toFixed(1)}%)\n`;
+    output += `├─ Position Value: $${portfolio.positionValueUsd.toFixed(2)} (${portfolio.positionAllocationPct.toFixed(1)}%)\n`;
+    output += `├─ Unrealized PnL: $${portfolio.unrealizedPnlUsd.toFixed(2)}\n`;
+    output += `└─ Active Positions: ${positions.length}\n\n`;
     
     // Position breakdown for trading decisions
-    if (positionValues.length > 0) {
+    if (positions.length > 0) {
         output += `📈 POSITION BREAKDOWN\n`;
-        positionValues.forEach((pos, index) => {
-            const isLast = index === positionValues.length - 1;
+        positions.forEach((pos, index) => {
+            const isLast = index === positions.length - 1;
             const prefix = isLast ? '└─' : '├─';
-            output += `${prefix} ${pos.marketName} ${pos.side}: ${pos.netValue} | PnL: ${pos.pnl} | Leverage: ${pos.leverage}\n`;
+            output += `${prefix} ${pos.marketName} ${pos.direction}: ${formatUsd(pos.netValueUsd)} | PnL: ${formatUsd(pos.pnlUsd)} | Leverage: ${pos.leverage ? `${pos.leverage.toFixed(2)}x` : '0x'}\n`;
         });
         output += `\n`;
     }
     
     // Token holdings for capital allocation decisions
-    if (tokenBalances.length > 0) {
+    if (tokens.length > 0) {
         output += `🪙 AVAILABLE CAPITAL\n`;
-        tokenBalances.forEach((token, index) => {
-            const isLast = index === tokenBalances.length - 1;
+        tokens.forEach((token, index) => {
+            const isLast = index === tokens.length - 1;
             const prefix = isLast ? '└─' : '├─';
-            output += `${prefix} ${token.symbol}: ${token.balance} (~${token.usdValue})\n`;
+            output += `${prefix} ${token.symbol}: ${token.balance.toFixed(6)} (~${formatUsd(token.balanceUsd)})\n`;
         });
     } else {
         output += `🪙 AVAILABLE CAPITAL: No liquid tokens\n`;
@@ -221,7 +214,84 @@ export const get_portfolio_balance_str = async (gmxDataCache: EnhancedDataCache)
     return output;
 };
 
-export const get_positions_str = async (gmxDataCache: EnhancedDataCache) => {
+export const get_portfolio_balance_str = async (gmxDataCache: EnhancedDataCache) => {
+    return format_portfolio_balance_str(await get_portfolio_balance(gmxDataCache));
+};
+
+// Sum the readable chains - an unreadable chain contributes nothing and is reported by its error
+const sumPortfolios = (chains: ChainPortfolio[]): PortfolioTotals => {
+    const snapshots = chains.flatMap(chain => chain.snapshot ? [chain.snapshot] : []);
+    const sum = (pick: (snapshot: PortfolioSnapshot) => number) => snapshots.reduce((total, snapshot) => total + pick(snapshot), 0);
+
+    return {
+        totalValueUsd: sum(snapshot => snapshot.totalValueUsd),
+        tokenValueUsd: sum(snapshot => snapshot.tokenValueUsd),
+        positionValueUsd: sum(snapshot => snapshot.positionValueUsd),
+        unrealizedPnlUsd: sum(snapshot => snapshot.unrealizedPnlUsd),
+        positionCount: sum(snapshot => snapshot.positions.length)
+    };
+};
+
+// Portfolio summed across chains - a chain that fails to load is reported with its error, not dropped
+export const get_consolidated_portfolio = async (gmxDataCaches: EnhancedDataCache[]): Promise<ConsolidatedPortfolio> => {
+    const chains: ChainPortfolio[] = await Promise.all(gmxDataCaches.map(async (gmxDataCache) => {
+        const { network, name } = gmxDataCache.getChainConfig();
+        const account = gmxDataCache.getAccountName();
+        try {
+            return { account, network, chainName: name, snapshot: await get_portfolio_balance(gmxDataCache), error: null };
+        } catch (error) {
+            return { account, network, chainName: name, snapshot: null, error: formatError(error) };
+        }
+    }));
+
+    const accountNames = [...new Set(chains.map(chain => chain.account))];
+    const accounts: AccountPortfolio[] = accountNames.map(account => ({
+        account,
+        ...sumPortfolios(chains.filter(chain => chain.account === account))
+    }));
+
+    return { ...sumPortfolios(chains), accounts, chains };
+};
+
+export const format_consolidated_portfolio_str = (portfolio: ConsolidatedPortfolio): string => {
+    const multiAccount = portfolio.accounts.length > 1;
+    const networkCount = new Set(portfolio.chains.map(chain => chain.network)).size;
+    let output = `🌐 CONSOLIDATED PORTFOLIO (${multiAccount ? `${portfolio.accounts.length} accounts, ` : ''}${networkCount} chains)\n`;
+    output += `├─ Total Value: $${portfolio.totalValueUsd.toFixed(2)}\n`;
+    output += `├─ Token Holdings: $${portfolio.tokenValueUsd.toFixed(2)}\n`;
+    output += `├─ Position Value: $${portfolio.positionValueUsd.toFixed(2)}\n`;
+    output += `├─ Unrealized PnL: $${portfolio.unrealizedPnlUsd.toFixed(2)}\n`;
+    output += `└─ Active Positions: ${portfolio.positionCount}\n\n`;
+
+    if (multiAccount) {
+        output += `👤 BY ACCOUNT\n`;
+        portfolio.accounts.forEach((account, index) => {
+            const branch = index === portfolio.accounts.length - 1 ? '└─' : '├─';
+            output += `${branch} ${account.account}: $${account.totalValueUsd.toFixed(2)} total, PnL $${account.unrealizedPnlUsd.toFixed(2)}, ${account.positionCount} position(s)\n`;
+        });
+        output += `\n`;
+    }
+
+    for (const chain of portfolio.chains) {
+        output += multiAccount
+            ? `🔗 ${chain.chainName.toUpperCase()} (account: "${chain.account}", chain: "${chain.network}")\n`
+            : `🔗 ${chain.chainName.toUpperCase()} (chain: "${chain.network}")\n`;
+        output += chain.snapshot ? format_portfolio_balance_str(chain.snapshot) : `❌ Portfolio unavailable: ${chain.error}\n`;
+        output += `\n`;
+    }
+
+    return output;
+};
+
+export const get_consolidated_portfolio_str = async (gmxDataCaches: EnhancedDataCache[]) => {
+    return format_consolidated_portfolio_str(await get_consolidated_portfolio(gmxDataCaches));
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📈 POSITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const get_positions = async (gmxDataCache: EnhancedDataCache): Promise<PositionSummary[]> => {
     // Get required market and token data first
     const marketsResult = await gmxDataCache.getMarketsInfo().catch(error => {
         throw new Error(`Failed to get market data: ${error.message || error}`);
@@ -238,16 +308,22 @@ export const get_positions_str = async (gmxDataCache: EnhancedDataCache) => {
         throw new Error("Failed to get market and token data");
     }
     
+    return build_position_summaries(positionsResult.positionsData, marketsInfoData, tokensData);
+};
+
+// Summarize raw SDK positions against market and token data - no API calls
+export const build_position_summaries = (positionsData: any, marketsInfoData: any, tokensData: any): PositionSummary[] => {
     // Extract and enhance positions data with complete calculations
-    const rawPositions = positionsResult.positionsData ? Object.values(positionsResult.positionsData) : [];
+    const rawPositions = positionsData ? Object.values(positionsData) : [];
+    const positions: PositionSummary[] = [];
     
-    const enhancedPositions = rawPositions.map((position: any) => {
+    rawPositions.forEach((position: any) => {
         try {
             // Get market and token information
             const marketInfo = marketsInfoData[position.marketAddress];
             if (!marketInfo) {
                 console.warn(`Market not found for position: ${position.marketAddress}`);
-                return null;
+                return;
             }
             
             const indexToken = tokensData[marketInfo.indexTokenAddress];
@@ -255,7 +331,7 @@ export const get_positions_str = async (gmxDataCache: EnhancedDataCache) => {
             
             if (!indexToken || !collateralToken) {
                 console.warn(`Tokens not found for position: ${position.key}`);
-                return null;
+                return;
             }
             
             // Get token decimals
@@ -284,7 +360,7 @@ export const get_positions_str = async (gmxDataCache: EnhancedDataCache) => {
                 position.collateralAmount, 
                 collateralTokenDecimals, 
                 collateralPrice
-            );
+            ) || 0n;
             
             const leverage = calculateLeverage({
                 sizeInUsd: position.sizeInUsd,
@@ -324,48 +400,49 @@ export const get_positions_str = async (gmxDataCache: EnhancedDataCache) => {
             const pnlPercentage = collateralUsd > 0n ? 
                 Number((calculatedPnl * 10000n) / collateralUsd) / 100 : 0;
             
-            const leverageNumber = leverage ? Number(leverage) / 10000 : 0;
-            
             // Calculate distance to liquidation
             const currentPrice = bigIntToDecimal(markPrice, USD_DECIMALS);
             const liqPrice = liquidationPrice ? bigIntToDecimal(liquidationPrice, USD_DECIMALS) : 0;
-            const distanceToLiquidation = currentPrice > 0 && liqPrice > 0 ? 
+            const distanceToLiquidationPct = currentPrice > 0 && liqPrice > 0 ? 
                 Math.abs((currentPrice - liqPrice) / currentPrice) * 100 : 0;
             
-            return {
+            positions.push({
                 // Basic position info
                 key: position.key,
                 marketAddress: position.marketAddress,
                 marketName: marketInfo.name,
+                asset: getAssetFromMarketName(marketInfo.name),
                 indexToken: indexToken.symbol,
                 collateralToken: collateralToken.symbol,
+                collateralTokenAddress: position.collateralTokenAddress,
                 direction: position.isLong ? 'LONG' : 'SHORT',
+                isLong: position.isLong,
                 
                 // Size and collateral
-                sizeUsd: formatUsdAmount(position.sizeInUsd, 2),
-                sizeInTokens: formatTokenAmount(position.sizeInTokens, indexTokenDecimals, 6),
-                collateralUsd: formatUsdAmount(collateralUsd, 2),
-                collateralAmount: formatTokenAmount(position.collateralAmount, collateralTokenDecimals, 6),
+                sizeUsd: bigIntToDecimal(position.sizeInUsd, USD_DECIMALS),
+                sizeInTokens: bigIntToDecimal(position.sizeInTokens, indexTokenDecimals),
+                collateralUsd: bigIntToDecimal(collateralUsd, USD_DECIMALS),
+                collateralAmount: bigIntToDecimal(position.collateralAmount, collateralTokenDecimals),
                 
                 // Calculated metrics
-                pnl: formatUsdAmount(calculatedPnl, 2),
-                pnlPercentage: `${pnlPercentage.toFixed(2)}%`,
-                netValue: formatUsdAmount(netValue, 2),
-                leverage: `${leverageNumber.toFixed(2)}x`,
+                pnlUsd: bigIntToDecimal(calculatedPnl, USD_DECIMALS),
+                pnlPercentage,
+                netValueUsd: bigIntToDecimal(netValue, USD_DECIMALS),
+                leverage: leverage ? Number(leverage) / 10000 : 0,
                 
                 // Prices
-                markPrice: formatUsdAmount(markPrice, 2),
+                markPrice: currentPrice,
                 entryPrice: position.sizeInTokens > 0n ? 
-                    formatUsdAmount((position.sizeInUsd * (10n ** BigInt(indexTokenDecimals))) / position.sizeInTokens, 2) : 
-                    "$0.00",
-                liquidationPrice: liquidationPrice ? formatUsdAmount(liquidationPrice, 2) : "N/A",
+                    bigIntToDecimal((position.sizeInUsd * (10n ** BigInt(indexTokenDecimals))) / position.sizeInTokens, USD_DECIMALS) : 
+                    0,
+                liquidationPrice: liquidationPrice ? liqPrice : null,
                 
                 // Risk metrics
-                distanceToLiquidation: `${distanceToLiquidation.toFixed(2)}%`,
+                distanceToLiquidationPct,
                 
                 // Fees
-                pendingBorrowingFees: formatUsdAmount(position.pendingBorrowingFeesUsd || 0n, 4),
-                pendingFundingFees: formatUsdAmount(position.pendingFundingFeesUsd || 0n, 4),
+                pendingBorrowingFeesUsd: bigIntToDecimal(position.pendingBorrowingFeesUsd || 0n, USD_DECIMALS),
+                pendingFundingFeesUsd: bigIntToDecimal(position.pendingFundingFeesUsd || 0n, USD_DECIMALS),
                 
                 // Timestamps
                 createdAt: position.increasedAtTime ? 
@@ -380,64 +457,60 @@ export const get_positions_str = async (gmxDataCache: EnhancedDataCache) => {
                     markPrice: markPrice.toString(),
                     liquidationPrice: liquidationPrice?.toString() || null
                 }
-            };
+            });
         } catch (error) {
             console.error(`Error processing position ${position.key}:`, error);
-            return null;
         }
-    }).filter(Boolean);
+    });
     
-    // Calculate portfolio summary
-    const totalSizeUsd = enhancedPositions.reduce((sum, pos) => {
-        const sizeNum = parseFloat(pos.sizeUsd.replace(/[$,]/g, ''));
-        return sum + sizeNum;
-    }, 0);
-    
-    const totalPnl = enhancedPositions.reduce((sum, pos) => {
-        const pnlNum = parseFloat(pos.pnl.replace(/[$,]/g, ''));
-        return sum + pnlNum;
-    }, 0);
-    
-    const totalCollateral = enhancedPositions.reduce((sum, pos) => {
-        const collateralNum = parseFloat(pos.collateralUsd.replace(/[$,]/g, ''));
-        return sum + collateralNum;
-    }, 0);
-
-    if (enhancedPositions.length === 0) {
+    return positions;
+};
+
+export const format_positions_str = (positions: PositionSummary[]): string => {
+    if (positions.length === 0) {
         return `📈 POSITION STATUS: No active positions`;
     }
     
-    const avgLeverage = enhancedPositions.length > 0 ? 
-        `${(enhancedPositions.reduce((sum, pos) => 
-            sum + parseFloat(pos.leverage.replace('x', '')), 0) / enhancedPositions.length).toFixed(2)}x` : 
-        "0x";
+    // Calculate portfolio summary
+    const totalSizeUsd = positions.reduce((sum, pos) => sum + pos.sizeUsd, 0);
+    const totalPnl = positions.reduce((sum, pos) => sum + pos.pnlUsd, 0);
+    const totalCollateral = positions.reduce((sum, pos) => sum + pos.collateralUsd, 0);
+    const avgLeverage = positions.reduce((sum, pos) => sum + pos.leverage, 0) / positions.length;
     
     let output = `📈 POSITION ANALYSIS\n`;
     output += `├─ Total Exposure: $${totalSizeUsd.toFixed(2)}\n`;
     output += `├─ Unrealized PnL: $${totalPnl.toFixed(2)}\n`;
     output += `├─ Total Collateral: $${totalCollateral.toFixed(2)}\n`;
-    output += `├─ Average Leverage: ${avgLeverage}\n`;
-    output += `└─ Active Positions: ${enhancedPositions.length}\n\n`;
+    output += `├─ Average Leverage: ${avgLeverage.toFixed(2)}x\n`;
+    output += `└─ Active Positions: ${positions.length}\n\n`;
     
-    enhancedPositions.forEach((pos, index) => {
-        const pnlStatus = pos.pnl.includes('-') ? '🔴 LOSS' : '🟢 PROFIT';
-        const riskLevel = parseFloat(pos.distanceToLiquidation.replace('%', '')) < 10 ? '⚠️ HIGH RISK' : 
-                         parseFloat(pos.distanceToLiquidation.replace('%', '')) < 25 ? '🟡 MEDIUM RISK' : '🟢 SAFE';
+    positions.forEach((pos, index) => {
+        const pnlStatus = pos.pnlUsd < 0 ? '🔴 LOSS' : '🟢 PROFIT';
+        const riskLevel = pos.distanceToLiquidationPct < 10 ? '⚠️ HIGH RISK' : 
+                         pos.distanceToLiquidationPct < 25 ? '🟡 MEDIUM RISK' : '🟢 SAFE';
         
         output += `${index + 1}. ${pos.marketName} ${pos.direction} | ${pnlStatus}\n`;
-        output += `├─ Size: ${pos.sizeUsd} | Leverage: ${pos.leverage}\n`;
-        output += `├─ PnL: ${pos.pnl} (${pos.pnlPercentage}) | Net Value: ${pos.netValue}\n`;
-        output += `├─ Entry: ${pos.entryPrice} | Current: ${pos.markPrice}\n`;
-        output += `├─ Liquidation: ${pos.liquidationPrice} | Distance: ${pos.distanceToLiquidation} ${riskLevel}\n`;
+        output += `├─ Size: ${formatUsd(pos.sizeUsd)} | Leverage: ${pos.leverage.toFixed(2)}x\n`;
+        output += `├─ PnL: ${formatUsd(pos.pnlUsd)} (${pos.pnlPercentage.toFixed(2)}%) | Net Value: ${formatUsd(pos.netValueUsd)}\n`;
+        output += `├─ Entry: ${formatUsd(pos.entryPrice)} | Current: ${formatUsd(pos.markPrice)}\n`;
+        output += `├─ Liquidation: ${pos.liquidationPrice !== null ? formatUsd(pos.liquidationPrice) : 'N/A'} | Distance: ${pos.distanceToLiquidationPct.toFixed(2)}% ${riskLevel}\n`;
         output += `└─ Market Address: ${pos.marketAddress}\n`;
-        if (index < enhancedPositions.length - 1) output += `\n`;
+        if (index < positions.length - 1) output += `\n`;
     });
     
     return output;
 };
 
-// Get market data for main trading assets - returns formatted string
-export const get_assets_markets_str = async (gmxDataCache: EnhancedDataCache) => {
+export const get_positions_str = async (gmxDataCache: EnhancedDataCache) => {
+    return format_positions_str(await get_positions(gmxDataCache));
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 MARKETS, TOKENS & VOLUMES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Get market data for main trading assets
+export const get_assets_markets = async (gmxDataCache: EnhancedDataCache): Promise<MarketSummary[]> => {
     try {
         // Get all markets data
         const marketsResult = await gmxDataCache.getMarketsInfo().catch(error => {
@@ -450,11 +523,11 @@ export const get_assets_markets_str = async (gmxDataCache: EnhancedDataCache) =>
         }
         
         // Define the specific markets we want - look for main asset USD pairs
-        const filteredMarkets: any[] = [];
+        const filteredMarkets: MarketSummary[] = [];
+        const targetMarkets = ASSETS.map(asset => getGMXMarket(asset, gmxDataCache.getNetwork()));
 
         Object.entries(marketsInfoData).forEach(([marketTokenAddress, marketInfo]: [string, any]) => {
             // Only get the main asset markets
-            const targetMarkets = ASSETS.map(asset => getGMXMarket(asset));
             const isTargetMarket = targetMarkets.includes(marketInfo.name);
             
             if (isTargetMarket && !marketInfo.isSpotOnly) {
@@ -491,12 +564,11 @@ export const get_assets_markets_str = async (gmxDataCache: EnhancedDataCache) =>
                 const longInterestUsd = marketInfo.longInterestUsd || 0n;
                 const shortInterestUsd = marketInfo.shortInterestUsd || 0n;
                 
-                const utilizationLong = totalPoolValue > 0n ? 
+                const utilizationLongPct = totalPoolValue > 0n ? 
                     Number((longInterestUsd * 10000n) / totalPoolValue) / 100 : 0;
-                const utilizationShort = totalPoolValue > 0n ? 
+                const utilizationShortPct = totalPoolValue > 0n ? 
                     Number((shortInterestUsd * 10000n) / totalPoolValue) / 100 : 0;
                 
-                // Format the enhanced market data
                 filteredMarkets.push({
                     marketTokenAddress,  // Use correct field name from SDK
                     name: marketInfo.name,
@@ -504,23 +576,23 @@ export const get_assets_markets_str = async (gmxDataCache: EnhancedDataCache) =>
                     isDisabled: marketInfo.isDisabled || false,
                     
                     // Prices
-                    indexPrice: formatUsdAmount(midPrice, 2),
-                    spread: formatUsdAmount(indexPrice - indexPriceMin, 4),
+                    indexPrice: bigIntToDecimal(midPrice, USD_DECIMALS),
+                    spread: bigIntToDecimal(indexPrice - indexPriceMin, USD_DECIMALS),
                     
                     // Pool info
-                    totalPoolValue: formatUsdAmount(totalPoolValue, 0),
+                    totalPoolValueUsd: bigIntToDecimal(totalPoolValue, USD_DECIMALS),
                     
                     // Interest and utilization
-                    longInterestUsd: formatUsdAmount(longInterestUsd, 0),
-                    shortInterestUsd: formatUsdAmount(shortInterestUsd, 0),
-                    utilizationLong: utilizationLong.toFixed(2) + '%',
-                    utilizationShort: utilizationShort.toFixed(2) + '%',
+                    longInterestUsd: bigIntToDecimal(longInterestUsd, USD_DECIMALS),
+                    shortInterestUsd: bigIntToDecimal(shortInterestUsd, USD_DECIMALS),
+                    utilizationLongPct,
+                    utilizationShortPct,
                     
                     // Funding rates (convert from per second to per hour)
-                    fundingRateLong: marketInfo.fundingFactorPerSecond ? 
-                        (Number(marketInfo.fundingFactorPerSecond) * 3600 * 1e-30).toFixed(6) + '%/hr' : '0%/hr',
-                    borrowingRateLong: marketInfo.borrowingFactorPerSecond ? 
-                        (Number(marketInfo.borrowingFactorPerSecond) * 3600 * 1e-30).toFixed(6) + '%/hr' : '0%/hr',
+                    fundingRatePerHour: marketInfo.fundingFactorPerSecond ? 
+                        Number(marketInfo.fundingFactorPerSecond) * 3600 * 1e-30 : 0,
+                    borrowingRatePerHour: marketInfo.borrowingFactorPerSecond ? 
+                        Number(marketInfo.borrowingFactorPerSecond) * 3600 * 1e-30 : 0,
                     
                     // Raw data for agent usage
                     raw: {
@@ -548,52 +620,57 @@ export const get_assets_markets_str = async (gmxDataCache: EnhancedDataCache) =>
             return 0;
         });
         
-        // Format as AI-optimized output
-        let output = '📊 TRADING MARKETS\n';
-        
-        if (filteredMarkets.length === 0) {
-            return '📊 TRADING MARKETS: No available markets';
-        }
-        
-        // Summary for quick assessment
-        const marketsByAsset = ASSETS.reduce((acc, asset) => {
-            acc[asset] = filteredMarkets.filter(m => m.indexToken.includes(asset));
-            return acc;
-        }, {} as Record<Asset, any[]>);
-        
-        output += `├─ Available Markets: ${filteredMarkets.length}\n`;
-        ASSETS.forEach((asset, index) => {
-            const isLast = index === ASSETS.length - 1;
-            const prefix = isLast ? '└─' : '├─';
-            output += `${prefix} ${asset} Markets: ${marketsByAsset[asset].length}\n`;
-        });
-        output += `\n`;
-        
-        // Market details optimized for trading decisions
-        filteredMarkets.forEach((market, index) => {
-            const status = market.isDisabled ? '🔴 DISABLED' : '🟢 ACTIVE';
-            const isLast = index === filteredMarkets.length - 1;
-            
-            output += `${market.indexToken} MARKET | ${status}\n`;
-            output += `├─ Address: ${market.marketTokenAddress}\n`;
-            output += `├─ Price: ${market.indexPrice} | Spread: ${market.spread}\n`;
-            output += `├─ Pool Liquidity: ${market.totalPoolValue}\n`;
-            output += `├─ Long Interest: ${market.longInterestUsd} (${market.utilizationLong} utilized)\n`;
-            output += `├─ Short Interest: ${market.shortInterestUsd} (${market.utilizationShort} utilized)\n`;
-            output += `├─ Funding Rate: ${market.fundingRateLong}\n`;
-            output += `└─ Borrowing Rate: ${market.borrowingRateLong}\n`;
-            
-            if (!isLast) output += '\n';
-        });
-        
-        return output;
+        return filteredMarkets;
     } catch (error) {
         throw new Error(`Failed to get markets data for assets (${ASSETS.join(', ')}): ${formatError(error)}`);
     }
 };
 
-// Get tokens data filtered for main assets/USD/USDC - returns formatted string
-export const get_tokens_data_str = async (gmxDataCache: EnhancedDataCache) => {
+export const format_assets_markets_str = (markets: MarketSummary[]): string => {
+    if (markets.length === 0) {
+        return '📊 TRADING MARKETS: No available markets';
+    }
+    
+    // Format as AI-optimized output
+    let output = '📊 TRADING MARKETS\n';
+    
+    // Summary for quick assessment
+    output += `├─ Available Markets: ${markets.length}\n`;
+    ASSETS.forEach((asset, index) => {
+        const isLast = index === ASSETS.length - 1;
+        const prefix = isLast ? '└─' : '├─';
+        output += `${prefix} ${asset} Markets: ${markets.filter(m => m.indexToken.includes(asset)).length}\n`;
+    });
+    output += `\n`;
+    
+    const formatRate = (rate: number) => rate ? `${rate.toFixed(6)}%/hr` : '0%/hr';
+    
+    // Market details optimized for trading decisions
+    markets.forEach((market, index) => {
+        const status = market.isDisabled ? '🔴 DISABLED' : '🟢 ACTIVE';
+        const isLast = index === markets.length - 1;
+        
+        output += `${market.indexToken} MARKET | ${status}\n`;
+        output += `├─ Address: ${market.marketTokenAddress}\n`;
+        output += `├─ Price: ${formatUsd(market.indexPrice)} | Spread: ${formatUsd(market.spread, 4)}\n`;
+        output += `├─ Pool Liquidity: ${formatUsd(market.totalPoolValueUsd, 0)}\n`;
+        output += `├─ Long Interest: ${formatUsd(market.longInterestUsd, 0)} (${market.utilizationLongPct.toFixed(2)}% utilized)\n`;
+        output += `├─ Short Interest: ${formatUsd(market.shortInterestUsd, 0)} (${market.utilizationShortPct.toFixed(2)}% utilized)\n`;
+        output += `├─ Funding Rate: ${formatRate(market.fundingRatePerHour)}\n`;
+        output += `└─ Borrowing Rate: ${formatRate(market.borrowingRatePerHour)}\n`;
+        
+        if (!isLast) output += '\n';
+    });
+    
+    return output;
+};
+
+export const get_assets_markets_str = async (gmxDataCache: EnhancedDataCache) => {
+    return format_assets_markets_str(await get_assets_markets(gmxDataCache));
+};
+
+// Get tokens data filtered for main assets/USD/USDC
+export const get_tokens_data = async (gmxDataCache: EnhancedDataCache): Promise<TokenSummary[]> => {
     try {
         // Get all tokens data - use cache if available
         const tokensResult = await gmxDataCache.getTokensData().catch(error => {
@@ -607,15 +684,15 @@ export const get_tokens_data_str = async (gmxDataCache: EnhancedDataCache) => {
 
         // Define target tokens for scalping
         const baseAssets = [...ASSETS];
-        const wrappedTokenMap: Record<Asset, string> = Object.fromEntries(
+        const wrappedTokenMap = Object.fromEntries(
             ASSETS.map(asset => [asset, asset === 'BTC' ? 'WBTC' : asset === 'ETH' ? 'WETH' : `W${asset}`])
-        );
+        ) as Record<Asset, string>;
         const wrappedTokens = baseAssets.map(asset => wrappedTokenMap[asset]);
         const stableTokens = ['USDC', 'USDT', 'USD'];
         const targetTokens = [...baseAssets, ...wrappedTokens, ...stableTokens];
         
         // Filter and enhance token data
-        const filteredTokens: any[] = [];
+        const filteredTokens: TokenSummary[] = [];
         
         Object.entries(tokensData).forEach(([tokenAddress, tokenInfo]: [string, any]) => {
             if (tokenInfo && tokenInfo.symbol) {
@@ -627,24 +704,17 @@ export const get_tokens_data_str = async (gmxDataCache: EnhancedDataCache) => {
                 if (isTargetToken) {
                     // Calculate balance in USD
                     const balance = tokenInfo.balance ? bigIntToDecimal(tokenInfo.balance, tokenInfo.decimals) : 0;
-                    const price = tokenInfo.prices?.minPrice ? 
+                    const priceUsd = tokenInfo.prices?.minPrice ? 
                         bigIntToDecimal(tokenInfo.prices.minPrice, USD_DECIMALS) : 0;
-                    const balanceUsd = balance * price;
                     
                     filteredTokens.push({
                         symbol: tokenInfo.symbol,
                         name: tokenInfo.name || tokenInfo.symbol,
                         address: tokenAddress,
                         decimals: tokenInfo.decimals,
-                        
-                        // Balance info
-                        balance: balance.toFixed(6),
-                        balanceUsd: balanceUsd.toFixed(2),
-                        
-                        // Price info
-                        priceUsd: price.toFixed(6),
-                        
-                        // Raw data
+                        balance,
+                        balanceUsd: balance * priceUsd,
+                        priceUsd,
                         raw: {
                             address: tokenAddress,
                             balance: tokenInfo.balance?.toString() || '0',
@@ -657,66 +727,69 @@ export const get_tokens_data_str = async (gmxDataCache: EnhancedDataCache) => {
         });
         
         // Sort by balance USD value (highest first)
-        filteredTokens.sort((a, b) => parseFloat(b.balanceUsd) - parseFloat(a.balanceUsd));
-        
-        // Format for AI trading analysis
-        let output = '🪙 TOKEN INVENTORY\n';
-        
-        if (filteredTokens.length === 0) {
-            return '🪙 TOKEN INVENTORY: No tokens available';
-        }
-        
-        // Summary for capital planning
-        const totalBalanceUsd = filteredTokens.reduce((sum, token) => sum + parseFloat(token.balanceUsd), 0);
-        const tokensWithBalance = filteredTokens.filter(token => parseFloat(token.balance) > 0);
-        
-        output += `├─ Total Tokens: ${filteredTokens.length}\n`;
-        output += `├─ Tokens with Balance: ${tokensWithBalance.length}\n`;
-        output += `└─ Total Value: $${totalBalanceUsd.toFixed(2)}\n\n`;
+        filteredTokens.sort((a, b) => b.balanceUsd - a.balanceUsd);
         
-        // Token details for trading decisions
-        filteredTokens.forEach((token, index) => {
-            const hasBalance = parseFloat(token.balance) > 0;
-            const status = hasBalance ? '💰 AVAILABLE' : '🔘 EMPTY';
-            const isLast = index === filteredTokens.length - 1;
-            
-            output += `${token.symbol} | ${status}\n`;
-            output += `├─ Address: ${token.address}\n`;
-            output += `├─ Balance: ${token.balance} tokens\n`;
-            output += `├─ USD Value: $${token.balanceUsd}\n`;
-            output += `├─ Price: $${token.priceUsd}\n`;
-            output += `└─ Decimals: ${token.decimals}\n`;
-            
-            if (!isLast) output += '\n';
-        });
-        
-        return output;
+        return filteredTokens;
     } catch (error) {
         throw new Error(`Failed to get tokens data: ${formatError(error)}`);
     }
 };
 
-// Get daily volumes filtered for main asset markets - returns formatted string
-export const get_daily_volumes_str = async (sdk: GmxSdk, gmxDataCache: EnhancedDataCache) => {
+export const format_tokens_data_str = (tokens: TokenSummary[]): string => {
+    if (tokens.length === 0) {
+        return '🪙 TOKEN INVENTORY: No tokens available';
+    }
+    
+    // Format for AI trading analysis
+    let output = '🪙 TOKEN INVENTORY\n';
+    
+    // Summary for capital planning
+    const totalBalanceUsd = tokens.reduce((sum, token) => sum + token.balanceUsd, 0);
+    const tokensWithBalance = tokens.filter(token => token.balance > 0);
+    
+    output += `├─ Total Tokens: ${tokens.length}\n`;
+    output += `├─ Tokens with Balance: ${tokensWithBalance.length}\n`;
+    output += `└─ Total Value: $${totalBalanceUsd.toFixed(2)}\n\n`;
+    
+    // Token details for trading decisions
+    tokens.forEach((token, index) => {
+        const status = token.balance > 0 ? '💰 AVAILABLE' : '🔘 EMPTY';
+        const isLast = index === tokens.length - 1;
+        
+        output += `${token.symbol} | ${status}\n`;
+        output += `├─ Address: ${token.address}\n`;
+        output += `├─ Balance: ${token.balance.toFixed(6)} tokens\n`;
+        output += `├─ USD Value: $${token.balanceUsd.toFixed(2)}\n`;
+        output += `├─ Price: $${token.priceUsd.toFixed(6)}\n`;
+        output += `└─ Decimals: ${token.decimals}\n`;
+        
+        if (!isLast) output += '\n';
+    });
+    
+    return output;
+};
+
+export const get_tokens_data_str = async (gmxDataCache: EnhancedDataCache) => {
+    return format_tokens_data_str(await get_tokens_data(gmxDataCache));
+};
+
+// Get daily volumes for main asset markets - null when volume data is temporarily unavailable
+export const get_daily_volumes = async (gmxDataCache: EnhancedDataCache): Promise<MarketVolume[] | null> => {
     try {
         // Get daily volumes data
         let volumes;
         try {
-            volumes = await sdk.markets.getDailyVolumes();
+            volumes = await gmxDataCache.getDailyVolumes();
         } catch (error) {
             // Handle GraphQL errors gracefully
             const errorMsg = formatError(error);
             if (errorMsg.includes('GraphQL') || errorMsg.includes('502') || errorMsg.includes('getMarketsValues')) {
                 console.warn('Daily volumes unavailable due to GraphQL error:', errorMsg);
-                return '📈 MARKET LIQUIDITY: Volume data temporarily unavailable\n';
+                return null;
             }
             throw error;
         }
         
-        if (!volumes || typeof volumes !== 'object') {
-            throw new Error("No volume data available");
-        }
-        
         // Get markets info to map addresses to names
         const marketsResult = await gmxDataCache.getMarketsInfo().catch(error => {
             throw new Error(`Failed to get markets data: ${error.message || error}`);
@@ -728,216 +801,218 @@ export const get_daily_volumes_str = async (sdk: GmxSdk, gmxDataCache: EnhancedD
         }
         
         // Filter and enhance volume data for main asset markets
-        const filteredVolumes: any[] = [];
+        const filteredVolumes: MarketVolume[] = [];
+        const targetMarkets = ASSETS.map(asset => getGMXMarket(asset, gmxDataCache.getNetwork()));
         
         Object.entries(volumes).forEach(([marketAddress, volumeBigInt]) => {
             const marketInfo = marketsInfoData[marketAddress];
             
-            if (marketInfo && marketInfo.name) {
-                // Only get the main asset markets
-                const targetMarkets = ASSETS.map(asset => getGMXMarket(asset));
-                const isTargetMarket = targetMarkets.includes(marketInfo.name);
-                
-                if (isTargetMarket && !marketInfo.isSpotOnly) {
-                    const volumeUsd = bigIntToDecimal(volumeBigInt, USD_DECIMALS);
-                    
-                    filteredVolumes.push({
+            // Only get the main asset markets
+            if (marketInfo && marketInfo.name && targetMarkets.includes(marketInfo.name) && !marketInfo.isSpotOnly) {
+                filteredVolumes.push({
+                    marketAddress,
+                    name: marketInfo.name,
+                    indexToken: marketInfo.indexToken?.symbol || 'Unknown',
+                    volumeUsd: bigIntToDecimal(volumeBigInt, USD_DECIMALS),
+                    raw: {
                         marketAddress,
-                        name: marketInfo.name,
-                        indexToken: marketInfo.indexToken?.symbol || 'Unknown',
-                        volumeUsd: volumeUsd.toFixed(0),
-                        volumeFormatted: formatUsdAmount(volumeBigInt, 0),
-                        
-                        // Raw data
-                        raw: {
-                            marketAddress,
-                            volumeUsd: volumeBigInt.toString()
-                        }
-                    });
-                }
+                        volumeUsd: volumeBigInt.toString()
+                    }
+                });
             }
         });
         
         // Sort by volume (highest first)
-        filteredVolumes.sort((a, b) => parseFloat(b.volumeUsd) - parseFloat(a.volumeUsd));
+        filteredVolumes.sort((a, b) => b.volumeUsd - a.volumeUsd);
         
-        // Format for liquidity analysis
-        let output = '📈 MARKET LIQUIDITY\n';
-        
-        if (filteredVolumes.length === 0) {
-            return '📈 MARKET LIQUIDITY: No volume data available';
-        }
-        
-        // Summary for liquidity assessment
-        const totalVolume = filteredVolumes.reduce((sum, vol) => sum + parseFloat(vol.volumeUsd), 0);
-        const volumesByAsset = ASSETS.reduce((acc, asset) => {
-            const assetVolumes = filteredVolumes.filter(v => v.indexToken.includes(asset));
-            const totalVolume = assetVolumes.reduce((sum, vol) => sum + parseFloat(vol.volumeUsd), 0);
-            acc[asset] = { volumes: assetVolumes, total: totalVolume };
-            return acc;
-        }, {} as Record<Asset, { volumes: any[], total: number }>);
-        
-        output += `├─ Total 24h Volume: $${totalVolume.toLocaleString('en-US', { maximumFractionDigits: 0 })}\n`;
-        ASSETS.forEach((asset, index) => {
-            const isLast = index === ASSETS.length - 1;
-            const prefix = isLast ? '└─' : '├─';
-            const assetData = volumesByAsset[asset];
-            output += `${prefix} ${asset} Volume: $${assetData.total.toLocaleString('en-US', { maximumFractionDigits: 0 })} (${assetData.volumes.length} markets)\n`;
-        });
-        output += `\n`;
-        
-        // Volume details for trading decisions
-        filteredVolumes.forEach((volume, index) => {
-            const token = ASSETS.find(asset => volume.indexToken.includes(asset)) || 'UNKNOWN';
-            const volumeNum = parseFloat(volume.volumeUsd);
-            const liquidityLevel = volumeNum > 50000000 ? '🟢 HIGH' : volumeNum > 10000000 ? '🟡 MEDIUM' : '🔴 LOW';
-            const isLast = index === filteredVolumes.length - 1;
-            
-            output += `${token} MARKET | ${liquidityLevel} VOLUME\n`;
-            output += `├─ Market: ${volume.name}\n`;
-            output += `├─ Address: ${volume.marketAddress}\n`;
-            output += `└─ 24h Volume: ${volume.volumeFormatted}\n`;
-            
-            if (!isLast) output += '\n';
-        });
-        
-        return output;
+        return filteredVolumes;
     } catch (error) {
         throw new Error(`Failed to get daily volumes: ${formatError(error)}`);
     }
 };
 
-export const get_orders_str = async (sdk: GmxSdk, gmxDataCache: EnhancedDataCache) => {
-    try {
-        // Get required market and token data first
-        const marketsResult = await gmxDataCache.getMarketsInfo();
-        const { marketsInfoData, tokensData } = marketsResult;
-        
-        if (!marketsInfoData || !tokensData) {
-            throw new Error("Failed to get market and token data");
-        }
+export const format_daily_volumes_str = (volumes: MarketVolume[] | null): string => {
+    if (volumes === null) {
+        return '📈 MARKET LIQUIDITY: Volume data temporarily unavailable\n';
+    }
+    
+    if (volumes.length === 0) {
+        return '📈 MARKET LIQUIDITY: No volume data available';
+    }
+    
+    // Format for liquidity analysis
+    let output = '📈 MARKET LIQUIDITY\n';
+    
+    // Summary for liquidity assessment
+    const totalVolume = volumes.reduce((sum, vol) => sum + vol.volumeUsd, 0);
+    
+    output += `├─ Total 24h Volume: $${totalVolume.toLocaleString('en-US', { maximumFractionDigits: 0 })}\n`;
+    ASSETS.forEach((asset, index) => {
+        const isLast = index === ASSETS.length - 1;
+        const prefix = isLast ? '└─' : '├─';
+        const assetVolumes = volumes.filter(v => v.indexToken.includes(asset));
+        const assetTotal = assetVolumes.reduce((sum, vol) => sum + vol.volumeUsd, 0);
+        output += `${prefix} ${asset} Volume: $${assetTotal.toLocaleString('en-US', { maximumFractionDigits: 0 })} (${assetVolumes.length} markets)\n`;
+    });
+    output += `\n`;
+    
+    // Volume details for trading decisions
+    volumes.forEach((volume, index) => {
+        const token = ASSETS.find(asset => volume.indexToken.includes(asset)) || 'UNKNOWN';
+        const liquidityLevel = volume.volumeUsd > 50000000 ? '🟢 HIGH' : volume.volumeUsd > 10000000 ? '🟡 MEDIUM' : '🔴 LOW';
+        const isLast = index === volumes.length - 1;
+        
+        output += `${token} MARKET | ${liquidityLevel} VOLUME\n`;
+        output += `├─ Market: ${volume.name}\n`;
+        output += `├─ Address: ${volume.marketAddress}\n`;
+        output += `└─ 24h Volume: ${formatUsd(volume.volumeUsd, 0)}\n`;
+        
+        if (!isLast) output += '\n';
+    });
+    
+    return output;
+};
 
-        // Use official SDK method with required parameters
-        const ordersResult = await sdk.orders.getOrders({
-            marketsInfoData,
-            tokensData
-        });
-        
-        // Extract orders data from structured result - use the enhanced OrderInfo objects
-        const ordersInfoData = ordersResult.ordersInfoData || {};
-        const orders = Object.values(ordersInfoData);
-        
-        if (orders.length === 0) {
-            return "📋 ORDER STATUS: No pending orders";
-        }
-        
-        // Build AI-optimized output
-        let ordersString = `📋 ORDER MANAGEMENT\n`;
-        
-        let totalOrderValue = 0;
-        let highRiskCount = 0;
-        let takeProfitCount = 0;
-        let stopLossCount = 0;
-        let regularOrderCount = 0;
-        
-        orders.forEach((order: any, index: number) => {
-            try {
-                // Use the enhanced order properties that SDK provides
-                const marketInfo = order.marketInfo;
-                const indexToken = order.indexToken;
-                const initialCollateralToken = order.initialCollateralToken;
-                
-                if (!marketInfo || !indexToken || !initialCollateralToken) {
-                    ordersString += `Order #${index + 1}: [Data Missing - SDK Processing Error]\n\n`;
-                    return;
-                }
-                
-                // Get current mark price
-                const markPrice = indexToken.prices?.maxPrice || 0n;
-                const markPriceUsd = bigIntToDecimal(markPrice, USD_DECIMALS);
-                
-                // Calculate order metrics using correct field names
-                const orderValueUsd = bigIntToDecimal(order.sizeDeltaUsd, USD_DECIMALS);
-                totalOrderValue += orderValueUsd;
-                
-                const triggerPriceUsd = bigIntToDecimal(order.triggerPrice, USD_DECIMALS);
-                
-                const collateralValue = bigIntToDecimal(
-                    order.initialCollateralDeltaAmount, 
-                    initialCollateralToken.decimals
-                );
-                
-                const leverage = collateralValue > 0 ? orderValueUsd / collateralValue : 0;
-                if (leverage > 10) highRiskCount++;
-                
-                // Count order types
-                if (order.orderType === 5) takeProfitCount++;
-                else if (order.orderType === 6) stopLossCount++;
-                else regularOrderCount++;
-                
-                // Calculate order age using correct field name
-                const updatedAt = Number(order.updatedAtTime) || 0;
-                const orderAgeHours = updatedAt > 0 ? (Date.now() / 1000 - updatedAt) / 3600 : 0;
-                
-                // Determine execution status
-                let executionStatus = "⏳ Pending";
-                if (order.isLong !== undefined) {
-                    if (order.isLong && markPriceUsd >= triggerPriceUsd) {
-                        executionStatus = "Not executed yet";
-                    } else if (!order.isLong && markPriceUsd <= triggerPriceUsd) {
-                        executionStatus = "Not executed yet";
-                    }
+export const get_daily_volumes_str = async (gmxDataCache: EnhancedDataCache) => {
+    return format_daily_volumes_str(await get_daily_volumes(gmxDataCache));
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 ORDERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Get pending orders - orders the SDK could not enrich with market/token data are skipped
+export const get_orders = async (gmxDataCache: EnhancedDataCache): Promise<OrderSummary[]> => {
+    // Get required market and token data first
+    const marketsResult = await gmxDataCache.getMarketsInfo();
+    const { marketsInfoData, tokensData } = marketsResult;
+    
+    if (!marketsInfoData || !tokensData) {
+        throw new Error("Failed to get market and token data");
+    }
+
+    const ordersInfoData = await gmxDataCache.getOrders(marketsInfoData, tokensData);
+    
+    return build_order_summaries(ordersInfoData);
+};
+
+// Summarize SDK OrderInfo objects - no API calls
+export const build_order_summaries = (ordersInfoData: any): OrderSummary[] => {
+    const orders: OrderSummary[] = [];
+    
+    Object.values(ordersInfoData).forEach((order: any) => {
+        try {
+            // Use the enhanced order properties that SDK provides
+            const marketInfo = order.marketInfo;
+            const indexToken = order.indexToken;
+            const initialCollateralToken = order.initialCollateralToken;
+            
+            if (!marketInfo || !indexToken || !initialCollateralToken) {
+                console.warn(`[Orders] Skipping order ${order.key}: market or token data missing`);
+                return;
+            }
+            
+            // Get current mark price
+            const markPrice = bigIntToDecimal(indexToken.prices?.maxPrice || 0n, USD_DECIMALS);
+            
+            // Calculate order metrics using correct field names
+            const sizeUsd = bigIntToDecimal(order.sizeDeltaUsd, USD_DECIMALS);
+            const triggerPrice = bigIntToDecimal(order.triggerPrice, USD_DECIMALS);
+            const collateralAmount = bigIntToDecimal(
+                order.initialCollateralDeltaAmount, 
+                initialCollateralToken.decimals
+            );
+            
+            // Calculate order age using correct field name
+            const updatedAt = Number(order.updatedAtTime) || 0;
+            
+            // Determine execution status
+            let executionStatus = "⏳ Pending";
+            if (order.isLong !== undefined) {
+                if (order.isLong && markPrice >= triggerPrice) {
+                    executionStatus = "Not executed yet";
+                } else if (!order.isLong && markPrice <= triggerPrice) {
+                    executionStatus = "Not executed yet";
                 }
-                
-                // Get order type description
-                const orderTypeText = getTradeActionDescriptionEnhanced(
-                    'OrderCreated', 
-                    order.orderType, 
-                    order.isLong || false, 
-                    triggerPriceUsd, 
-                    markPriceUsd
-                );
-                
-                // Determine if this is a TP/SL order
-                let orderIcon = "📌";
-                if (order.orderType === 5) orderIcon = "🎯"; // Take Profit
-                if (order.orderType === 6) orderIcon = "🛡️"; // Stop Loss
-                
-                // Format order info for AI analysis
-                const direction = order.isLong ? "LONG" : "SHORT";
-                const orderType = order.orderType === 5 ? "TAKE_PROFIT" : order.orderType === 6 ? "STOP_LOSS" : "REGULAR";
-                const riskStatus = leverage > 10 ? "⚠️ HIGH_RISK" : leverage > 5 ? "🟡 MEDIUM_RISK" : "🟢 LOW_RISK";
-                
-                ordersString += `${orderIcon} ${marketInfo.name} ${direction} ${orderType}\n`;
-                ordersString += `├─ Size: $${orderValueUsd.toFixed(2)} | Leverage: ${leverage.toFixed(2)}x | ${riskStatus}\n`;
-                ordersString += `├─ Trigger: $${triggerPriceUsd.toFixed(2)} | Current: $${markPriceUsd.toFixed(2)}\n`;
-                ordersString += `├─ Collateral: ${collateralValue.toFixed(6)} ${initialCollateralToken.symbol}\n`;
-                ordersString += `├─ Status: ${executionStatus} | Age: ${orderAgeHours.toFixed(1)}h\n`;
-                ordersString += `└─ Order Key: ${order.key}\n\n`;
-                
-            } catch (error) {
-                ordersString += `Order #${index + 1}: [Processing Error: ${error}]\n\n`;
             }
-        });
-        
-        // Add summary for risk management
-        ordersString += "📊 ORDER SUMMARY\n";
-        ordersString += `├─ Total Orders: ${orders.length}\n`;
-        ordersString += `├─ Regular Orders: ${regularOrderCount}\n`;
-        ordersString += `├─ Take Profit Orders: ${takeProfitCount}\n`;
-        ordersString += `├─ Stop Loss Orders: ${stopLossCount}\n`;
-        ordersString += `├─ Total Value: $${totalOrderValue.toFixed(2)}\n`;
-        ordersString += `├─ High Risk Orders: ${highRiskCount}\n`;
-        ordersString += `└─ Average Size: $${(totalOrderValue / orders.length).toFixed(2)}\n`;
-        
-        return ordersString;
-        
+            
+            orders.push({
+                key: order.key,
+                marketAddress: order.marketAddress,
+                marketName: marketInfo.name,
+                direction: order.isLong ? 'LONG' : 'SHORT',
+                isLong: !!order.isLong,
+                orderType: order.orderType,
+                kind: order.orderType === 5 ? 'TAKE_PROFIT' : order.orderType === 6 ? 'STOP_LOSS' : 'REGULAR',
+                sizeUsd,
+                leverage: collateralAmount > 0 ? sizeUsd / collateralAmount : 0,
+                triggerPrice,
+                markPrice,
+                collateralAmount,
+                collateralSymbol: initialCollateralToken.symbol,
+                ageHours: updatedAt > 0 ? (Date.now() / 1000 - updatedAt) / 3600 : 0,
+                executionStatus
+            });
+        } catch (error) {
+            console.warn(`[Orders] Skipping order ${order?.key}: ${formatError(error)}`);
+        }
+    });
+    
+    return orders;
+};
+
+export const format_orders_str = (orders: OrderSummary[]): string => {
+    if (orders.length === 0) {
+        return "📋 ORDER STATUS: No pending orders";
+    }
+    
+    // Build AI-optimized output
+    let ordersString = `📋 ORDER MANAGEMENT\n`;
+    
+    orders.forEach(order => {
+        // Determine if this is a TP/SL order
+        let orderIcon = "📌";
+        if (order.kind === 'TAKE_PROFIT') orderIcon = "🎯";
+        if (order.kind === 'STOP_LOSS') orderIcon = "🛡️";
+        
+        const riskStatus = order.leverage > 10 ? "⚠️ HIGH_RISK" : order.leverage > 5 ? "🟡 MEDIUM_RISK" : "🟢 LOW_RISK";
+        
+        ordersString += `${orderIcon} ${order.marketName} ${order.direction} ${order.kind}\n`;
+        ordersString += `├─ Size: $${order.sizeUsd.toFixed(2)} | Leverage: ${order.leverage.toFixed(2)}x | ${riskStatus}\n`;
+        ordersString += `├─ Trigger: $${order.triggerPrice.toFixed(2)} | Current: $${order.markPrice.toFixed(2)}\n`;
+        ordersString += `├─ Collateral: ${order.collateralAmount.toFixed(6)} ${order.collateralSymbol}\n`;
+        ordersString += `├─ Status: ${order.executionStatus} | Age: ${order.ageHours.toFixed(1)}h\n`;
+        ordersString += `└─ Order Key: ${order.key}\n\n`;
+    });
+    
+    // Add summary for risk management
+    const totalOrderValue = orders.reduce((sum, order) => sum + order.sizeUsd, 0);
+    
+    ordersString += "📊 ORDER SUMMARY\n";
+    ordersString += `├─ Total Orders: ${orders.length}\n`;
+    ordersString += `├─ Regular Orders: ${orders.filter(o => o.kind === 'REGULAR').length}\n`;
+    ordersString += `├─ Take Profit Orders: ${orders.filter(o => o.kind === 'TAKE_PROFIT').length}\n`;
+    ordersString += `├─ Stop Loss Orders: ${orders.filter(o => o.kind === 'STOP_LOSS').length}\n`;
+    ordersString += `├─ Total Value: $${totalOrderValue.toFixed(2)}\n`;
+    ordersString += `├─ High Risk Orders: ${orders.filter(o => o.leverage > 10).length}\n`;
+    ordersString += `└─ Average Size: $${(totalOrderValue / orders.length).toFixed(2)}\n`;
+    
+    return ordersString;
+};
+
+export const get_orders_str = async (gmxDataCache: EnhancedDataCache) => {
+    try {
+        return format_orders_str(await get_orders(gmxDataCache));
     } catch (error) {
         const errorMsg = formatError(error);
         return `❌ Error fetching orders: ${errorMsg}`;
     }
 };
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔮 SYNTH ANALYSIS
+// ═══════════════════════════════════════════════════════════════════════════════
+
 // Helper function to get current asset price
 const getCurrentAssetPrice = async (asset: Asset, gmxDataCache: EnhancedDataCache): Promise<number> => {
     try {
@@ -952,7 +1027,7 @@ const getCurrentAssetPrice = async (asset: Asset, gmxDataCache: EnhancedDataCach
         const { marketsInfoData, tokensData } = marketsResult;
         
         // Find the correct market for the asset
-        const targetMarketName = getGMXMarket(asset);
+        const targetMarketName = getGMXMarket(asset, gmxDataCache.getNetwork());
         
         for (const [marketAddress, marketInfo] of Object.entries(marketsInfoData)) {
             if ((marketInfo as any).name === targetMarketName) {
@@ -975,7 +1050,8 @@ export const get24HourVolatility = async (asset: Asset, gmxDataCache: EnhancedDa
     return await gmxDataCache.getVolatility(asset);
 };
 
-export const get_synth_analysis_str = async (asset: Asset, gmxDataCache: EnhancedDataCache) => {
+// Get the typed Synth analysis for an asset - failures come back as the error variant, never thrown
+export const get_synth_analysis = async (asset: Asset, gmxDataCache: EnhancedDataCache): Promise<SynthAnalysisResult> => {
     try {
         // Get current price from GMX SDK
         const currentPrice = await getCurrentAssetPrice(asset, gmxDataCache);
@@ -988,23 +1064,29 @@ export const get_synth_analysis_str = async (asset: Asset, gmxDataCache: Enhance
         const volatility24h = await get24HourVolatility(asset, gmxDataCache);
         
         // Use enhanced analysis with simplified percentile strategy
-        const result = await getEnhancedSynthAnalysis(
+        return await getEnhancedSynthAnalysis(
             asset,
             currentPrice,
             volatility24h
         );
         
-        return result;
-        
     } catch (error) {
         const errorMsg = formatError(error);
         console.error(`[SYNTH_ANALYSIS] Failed to get ${asset} analysis:`, errorMsg);
-        return `SYNTH_${asset}_ANALYSIS:\n\n⚠️ Error: ${errorMsg}\n`;
+        return { success: false, asset, error: errorMsg };
     }
 };
 
+export const get_synth_analysis_str = async (asset: Asset, gmxDataCache: EnhancedDataCache) => {
+    return formatSynthAnalysis(await get_synth_analysis(asset, gmxDataCache));
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📉 TECHNICAL ANALYSIS
+// ═══════════════════════════════════════════════════════════════════════════════
+
 // Helper function to calculate technical indicators for a single timeframe
-const calculateTechnicalIndicators = (candles: number[][], period: string) => {
+const calculateTechnicalIndicators = (candles: number[][], period: string): TimeframeAnalysis => {
     // Parse candlestick data: [timestamp, open, high, low, close]
     const ohlcData = candles.map((candle: number[]) => ({
         timestamp: candle[0],
@@ -1153,7 +1235,7 @@ const calculateTechnicalIndicators = (candles: number[][], period: string) => {
     const emaAlignment = calculateEmaAlignment();
     
     // RSI Divergence Detection - price vs RSI momentum
-    const calculateRsiDivergence = () => {
+    const calculateRsiDivergence = (): { rsiDivergence: Divergence } => {
         const lookback = Math.min(10, closes.length);
         if (lookback < 5 || rsi.length < lookback) return { rsiDivergence: 'none' };
         
@@ -1189,7 +1271,7 @@ const calculateTechnicalIndicators = (candles: number[][], period: string) => {
     };
     
     // MACD Divergence Detection - price vs MACD momentum
-    const calculateMacdDivergence = () => {
+    const calculateMacdDivergence = (): { macdDivergence: Divergence } => {
         const lookback = Math.min(10, closes.length);
         if (lookback < 5 || macd.length < lookback) return { macdDivergence: 'none' };
         
@@ -1266,7 +1348,7 @@ const calculateTechnicalIndicators = (candles: number[][], period: string) => {
 };
 
 // Technical Analysis Query - Fetch candlestick data for all timeframes and calculate indicators
-export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCache: EnhancedDataCache): Promise<string> => {
+export const get_technical_analysis = async (tokenSymbol: Asset, gmxDataCache: EnhancedDataCache): Promise<TechnicalAnalysis> => {
     try {
         // First get current market price
         const marketsResult = await gmxDataCache.getMarketsInfo().catch(error => {
@@ -1284,7 +1366,7 @@ export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCach
         
         for (const [marketAddress, marketInfo] of Object.entries(marketsInfoData)) {
             if (marketInfo.name && marketInfo.indexToken) {
-                const targetMarketName = getGMXMarket(tokenSymbol);
+                const targetMarketName = getGMXMarket(tokenSymbol, gmxDataCache.getNetwork());
                 const isTargetMarket = marketInfo.name === targetMarketName && !marketInfo.isSpotOnly;
                 
                 if (isTargetMarket) {
@@ -1306,25 +1388,11 @@ export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCach
         }
         
         const timeframes = ['15m', '1h', '4h'] as const;
-        const analysisResults: any[] = [];
         
         // Fetch data for all timeframes in parallel
-        const fetchPromises = timeframes.map(async (period) => {
+        const fetchPromises = timeframes.map(async (period): Promise<TimeframeAnalysis | null> => {
             try {
-                const url = `https://arbitrum-api.gmxinfra.io/prices/candles?tokenSymbol=${tokenSymbol}&period=${period}`;
-                
-                const response = await fetch(url);
-                if (!response.ok) {
-                    throw new Error(`Failed to fetch candlestick data for ${period}: ${response.status} ${response.statusText}`);
-                }
-                
-                const data = await response.json();
-                
-                if (!data || !data.candles || !Array.isArray(data.candles)) {
-                    throw new Error(`Invalid candlestick data received for ${tokenSymbol} ${period}`);
-                }
-                
-                const candles = data.candles;
+                const candles = await gmxDataCache.getCandles(tokenSymbol, period);
                 if (candles.length < 30) {
                     console.warn(`Insufficient data for ${period} analysis. Got ${candles.length} candles, need at least 30`);
                     return null;
@@ -1341,11 +1409,7 @@ export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCach
         const results = await Promise.all(fetchPromises);
         
         // Filter out failed requests
-        results.forEach(result => {
-            if (result !== null) {
-                analysisResults.push(result);
-            }
-        });
+        const analysisResults = results.filter((result): result is TimeframeAnalysis => result !== null);
         
         if (analysisResults.length === 0) {
             throw new Error(`No valid data available for ${tokenSymbol} technical analysis`);
@@ -1355,7 +1419,7 @@ export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCach
         const currentPrice = bigIntToDecimal(currentMarkPrice, USD_DECIMALS);
         
         // 3. Multi-timeframe Confluence Scoring
-        const calculateConfluenceScore = () => {
+        const calculateConfluenceScore = (): ConfluenceAnalysis => {
             let bullishSignals = 0;
             let bearishSignals = 0;
             let totalSignals = 0;
@@ -1370,8 +1434,10 @@ export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCach
                 totalSignals++;
                 
                 // RSI signals
-                if (indicators.rsi < 30) bullishSignals++;
-                else if (indicators.rsi > 70) bearishSignals++;
+                if (indicators.rsi !== undefined) {
+                    if (indicators.rsi < 30) bullishSignals++;
+                    else if (indicators.rsi > 70) bearishSignals++;
+                }
                 totalSignals++;
                 
                 // MACD signals
@@ -1382,8 +1448,10 @@ export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCach
                 }
                 
                 // Price vs SMA signals (use real current price)
-                if (currentPrice > indicators.sma20) bullishSignals++;
-                else if (currentPrice < indicators.sma20) bearishSignals++;
+                if (indicators.sma20 !== undefined) {
+                    if (currentPrice > indicators.sma20) bullishSignals++;
+                    else if (currentPrice < indicators.sma20) bearishSignals++;
+                }
                 totalSignals++;
                 
                 // ADX trend strength
@@ -1417,7 +1485,7 @@ export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCach
             const confluenceScore = totalSignals > 0 ? ((bullishSignals - bearishSignals) / totalSignals) * 100 : 0;
             
             return {
-                score: confluenceScore.toFixed(1),
+                score: confluenceScore,
                 bullishSignals,
                 bearishSignals,
                 totalSignals,
@@ -1426,71 +1494,12 @@ export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCach
             };
         };
         
-        const confluenceAnalysis = calculateConfluenceScore();
-        
-        // Format raw technical indicator data for AI analysis
-        let output = `📊 TECHNICAL INDICATORS - ${tokenSymbol}\n`;
-        output += '═'.repeat(60) + '\n\n';
-        
-        output += `💰 CURRENT PRICE: $${currentPrice.toFixed(2)}\n\n`;
-        
-        // Multi-timeframe confluence summary
-        output += `🎯 CONFLUENCE ANALYSIS\n`;
-        output += `├─ Overall Signal: ${confluenceAnalysis.direction} (${confluenceAnalysis.strength})\n`;
-        output += `├─ Confluence Score: ${confluenceAnalysis.score}%\n`;
-        output += `├─ Bullish Signals: ${confluenceAnalysis.bullishSignals}/${confluenceAnalysis.totalSignals}\n`;
-        output += `└─ Bearish Signals: ${confluenceAnalysis.bearishSignals}/${confluenceAnalysis.totalSignals}\n\n`;
-        
-        // Raw indicator data by timeframe
-        for (const data of analysisResults) {
-            output += `⏰ ${data.period.toUpperCase()} TIMEFRAME (${data.candleCount} candles)\n`;
-            output += `├─ Last Candle Close: $${data.currentPrice.toFixed(2)} (${data.priceChangePercent > 0 ? '+' : ''}${data.priceChangePercent.toFixed(2)}%)\n`;
-            output += `├─ SMA(20): $${data.indicators.sma20?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ SMA(50): $${data.indicators.sma50?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ EMA(5): $${data.indicators.ema5?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ EMA(8): $${data.indicators.ema8?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ EMA(12): $${data.indicators.ema12?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ EMA(21): $${data.indicators.ema21?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ EMA(26): $${data.indicators.ema26?.toFixed(2) || 'N/A'}\n`;
-            // Add explicit RSI status to prevent AI misinterpretation
-            const rsiValue = data.indicators.rsi;
-            const rsiStatus = rsiValue ? (rsiValue > 70 ? 'OVERBOUGHT' : rsiValue < 30 ? 'OVERSOLD' : 'NEUTRAL') : 'N/A';
-            output += `├─ RSI(14): ${rsiValue?.toFixed(2) || 'N/A'} (${rsiStatus})\n`;
-            // Add explicit MACD signal status to prevent AI misinterpretation
-            const macdValue = data.indicators.macd?.MACD;
-            const macdSignalValue = data.indicators.macd?.signal;
-            const macdCrossover = macdValue && macdSignalValue ? 
-                (macdValue > macdSignalValue ? 'BULLISH' : 'BEARISH') : 'N/A';
-            output += `├─ MACD: ${macdValue?.toFixed(4) || 'N/A'}\n`;
-            output += `├─ MACD Signal: ${macdSignalValue?.toFixed(4) || 'N/A'}\n`;
-            output += `├─ MACD Crossover: ${macdCrossover}\n`;
-            output += `├─ MACD Histogram: ${data.indicators.macd?.histogram?.toFixed(4) || 'N/A'}\n`;
-            output += `├─ Bollinger Upper: $${data.indicators.bb?.upper?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ Bollinger Middle: $${data.indicators.bb?.middle?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ Bollinger Lower: $${data.indicators.bb?.lower?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ ATR(14): ${data.indicators.atr?.toFixed(2) || 'N/A'}\n`;
-            // Add explicit Stochastic status to prevent AI misinterpretation
-            const stochK = data.indicators.stoch?.k;
-            const stochStatus = stochK ? (stochK > 80 ? 'OVERBOUGHT' : stochK < 20 ? 'OVERSOLD' : 'NEUTRAL') : 'N/A';
-            output += `├─ Stochastic %K: ${stochK?.toFixed(2) || 'N/A'} (${stochStatus})\n`;
-            output += `├─ Stochastic %D: ${data.indicators.stoch?.d?.toFixed(2) || 'N/A'}\n`;
-            
-            // Add explicit Williams %R status to prevent AI misinterpretation
-            const williamsR = data.indicators.williamsR;
-            const williamsStatus = williamsR ? (williamsR > -20 ? 'OVERBOUGHT' : williamsR < -80 ? 'OVERSOLD' : 'NEUTRAL') : 'N/A';
-            output += `├─ Williams %R: ${williamsR?.toFixed(2) || 'N/A'} (${williamsStatus})\n`;
-            output += `├─ CCI(20): ${data.indicators.cci?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ ADX(14): ${data.indicators.adx?.adx?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ +DI: ${data.indicators.adx?.pdi?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ -DI: ${data.indicators.adx?.mdi?.toFixed(2) || 'N/A'}\n`;
-            output += `├─ EMA Alignment: ${data.signals.emaAlignment.score}/4 (${data.signals.emaAlignment.strength.toFixed(1)}%)\n`;
-            output += `├─ RSI Divergence: ${data.signals.rsiDivergence}\n`;
-            output += `├─ MACD Divergence: ${data.signals.macdDivergence}\n`;
-            output += `├─ Support: $${data.levels.support.toFixed(2)}\n`;
-            output += `└─ Resistance: $${data.levels.resistance.toFixed(2)}\n\n`;
-        }
-        
-        return output;
+        return {
+            asset: tokenSymbol,
+            currentPrice,
+            confluence: calculateConfluenceScore(),
+            timeframes: analysisResults
+        };
         
     } catch (error) {
         const errorMsg = formatError(error);
@@ -1498,7 +1507,84 @@ export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCach
     }
 };
 
-export const get_trading_history_str = async (sdk: GmxSdk, gmxDataCache: EnhancedDataCache) => {
+export const format_technical_analysis_str = (analysis: TechnicalAnalysis): string => {
+    const { asset, currentPrice, confluence } = analysis;
+    
+    // Format raw technical indicator data for AI analysis
+    let output = `📊 TECHNICAL INDICATORS - ${asset}\n`;
+    output += '═'.repeat(60) + '\n\n';
+    
+    output += `💰 CURRENT PRICE: $${currentPrice.toFixed(2)}\n\n`;
+    
+    // Multi-timeframe confluence summary
+    output += `🎯 CONFLUENCE ANALYSIS\n`;
+    output += `├─ Overall Signal: ${confluence.direction} (${confluence.strength})\n`;
+    output += `├─ Confluence Score: ${confluence.score.toFixed(1)}%\n`;
+    output += `├─ Bullish Signals: ${confluence.bullishSignals}/${confluence.totalSignals}\n`;
+    output += `└─ Bearish Signals: ${confluence.bearishSignals}/${confluence.totalSignals}\n\n`;
+    
+    // Raw indicator data by timeframe
+    for (const data of analysis.timeframes) {
+        output += `⏰ ${data.period.toUpperCase()} TIMEFRAME (${data.candleCount} candles)\n`;
+        output += `├─ Last Candle Close: $${data.currentPrice.toFixed(2)} (${data.priceChangePercent > 0 ? '+' : ''}${data.priceChangePercent.toFixed(2)}%)\n`;
+        output += `├─ SMA(20): $${data.indicators.sma20?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ SMA(50): $${data.indicators.sma50?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ EMA(5): $${data.indicators.ema5?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ EMA(8): $${data.indicators.ema8?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ EMA(12): $${data.indicators.ema12?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ EMA(21): $${data.indicators.ema21?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ EMA(26): $${data.indicators.ema26?.toFixed(2) || 'N/A'}\n`;
+        // Add explicit RSI status to prevent AI misinterpretation
+        const rsiValue = data.indicators.rsi;
+        const rsiStatus = rsiValue ? (rsiValue > 70 ? 'OVERBOUGHT' : rsiValue < 30 ? 'OVERSOLD' : 'NEUTRAL') : 'N/A';
+        output += `├─ RSI(14): ${rsiValue?.toFixed(2) || 'N/A'} (${rsiStatus})\n`;
+        // Add explicit MACD signal status to prevent AI misinterpretation
+        const macdValue = data.indicators.macd?.MACD;
+        const macdSignalValue = data.indicators.macd?.signal;
+        const macdCrossover = macdValue && macdSignalValue ? 
+            (macdValue > macdSignalValue ? 'BULLISH' : 'BEARISH') : 'N/A';
+        output += `├─ MACD: ${macdValue?.toFixed(4) || 'N/A'}\n`;
+        output += `├─ MACD Signal: ${macdSignalValue?.toFixed(4) || 'N/A'}\n`;
+        output += `├─ MACD Crossover: ${macdCrossover}\n`;
+        output += `├─ MACD Histogram: ${data.indicators.macd?.histogram?.toFixed(4) || 'N/A'}\n`;
+        output += `├─ Bollinger Upper: $${data.indicators.bb?.upper?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ Bollinger Middle: $${data.indicators.bb?.middle?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ Bollinger Lower: $${data.indicators.bb?.lower?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ ATR(14): ${data.indicators.atr?.toFixed(2) || 'N/A'}\n`;
+        // Add explicit Stochastic status to prevent AI misinterpretation
+        const stochK = data.indicators.stoch?.k;
+        const stochStatus = stochK ? (stochK > 80 ? 'OVERBOUGHT' : stochK < 20 ? 'OVERSOLD' : 'NEUTRAL') : 'N/A';
+        output += `├─ Stochastic %K: ${stochK?.toFixed(2) || 'N/A'} (${stochStatus})\n`;
+        output += `├─ Stochastic %D: ${data.indicators.stoch?.d?.toFixed(2) || 'N/A'}\n`;
+        
+        // Add explicit Williams %R status to prevent AI misinterpretation
+        const williamsR = data.indicators.williamsR;
+        const williamsStatus = williamsR ? (williamsR > -20 ? 'OVERBOUGHT' : williamsR < -80 ? 'OVERSOLD' : 'NEUTRAL') : 'N/A';
+        output += `├─ Williams %R: ${williamsR?.toFixed(2) || 'N/A'} (${williamsStatus})\n`;
+        output += `├─ CCI(20): ${data.indicators.cci?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ ADX(14): ${data.indicators.adx?.adx?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ +DI: ${data.indicators.adx?.pdi?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ -DI: ${data.indicators.adx?.mdi?.toFixed(2) || 'N/A'}\n`;
+        output += `├─ EMA Alignment: ${data.signals.emaAlignment.score}/4 (${data.signals.emaAlignment.strength.toFixed(1)}%)\n`;
+        output += `├─ RSI Divergence: ${data.signals.rsiDivergence}\n`;
+        output += `├─ MACD Divergence: ${data.signals.macdDivergence}\n`;
+        output += `├─ Support: $${data.levels.support.toFixed(2)}\n`;
+        output += `└─ Resistance: $${data.levels.resistance.toFixed(2)}\n\n`;
+    }
+    
+    return output;
+};
+
+export const get_technical_analysis_str = async (tokenSymbol: Asset, gmxDataCache: EnhancedDataCache): Promise<string> => {
+    return format_technical_analysis_str(await get_technical_analysis(tokenSymbol, gmxDataCache));
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📜 TRADING HISTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Get executed (non-swap) trade history with performance metrics - null when history is temporarily unavailable
+export const get_trading_history = async (gmxDataCache: EnhancedDataCache): Promise<TradingHistory | null> => {
     try {
         // Get markets and tokens data first
         const marketsResult = await gmxDataCache.getMarketsInfo().catch(error => {
@@ -1515,64 +1601,10 @@ export const get_trading_history_str = async (sdk: GmxSdk, gmxDataCache: Enhance
             throw new Error("Failed to get required market and token data for trading history");
         }
 
-        // Fetch all trades with pagination to get complete history
-        let allTrades: any[] = [];
-        let pageIndex = 0;
-        const pageSize = 1000;
-        let hasMoreData = true;
-
-        while (hasMoreData) {
-            try {
-                const history = await sdk.trades.getTradeHistory({
-                    forAllAccounts: false,
-                    pageSize: pageSize,
-                    pageIndex: pageIndex,
-                    marketsInfoData: marketsInfoData,
-                    tokensData: tokensData,
-                });
-                
-                if (history && history.length > 0) {
-                    allTrades.push(...history);
-                    pageIndex++;
-                    
-                    // If we got less than the page size, we've reached the end
-                    if (history.length < pageSize) {
-                        hasMoreData = false;
-                    }
-                } else {
-                    hasMoreData = false;
-                }
-            } catch (error) {
-                const errorMsg = formatError(error);
-                
-                // Handle GraphQL errors gracefully
-                if (errorMsg.includes('GraphQL') || errorMsg.includes('502') || errorMsg.includes('HTTP error')) {
-                    console.warn('Trading history unavailable due to GraphQL error:', errorMsg);
-                    return '📊 TRADING PERFORMANCE: Trade history temporarily unavailable\n';
-                }
-                
-                // Check if it's a temporary network error
-                const isTemporaryError = errorMsg.includes('503') || 
-                                       errorMsg.includes('504') ||
-                                       errorMsg.includes('timeout');
-                
-                if (isTemporaryError && pageIndex === 0) {
-                    // If we can't get any data at all, throw the error
-                    throw new Error(`Failed to get trade history: ${errorMsg}`);
-                } else if (isTemporaryError) {
-                    // If we have some data but hit an error on later pages, stop gracefully
-                    console.warn(`Trading history fetch stopped at page ${pageIndex} due to network error: ${errorMsg}`);
-                    hasMoreData = false;
-                } else {
-                    // For other errors, throw immediately
-                    throw new Error(`Failed to get trade history: ${errorMsg}`);
-                }
-            }
-
-            // Safety break to prevent infinite loops
-            if (pageIndex > 50) { // Max 50 pages (50k trades)
-                break;
-            }
+        // Every page of this account's trades - null when the trade history API is unavailable
+        const allTrades = await gmxDataCache.getTradeHistory(marketsInfoData, tokensData);
+        if (allTrades === null) {
+            return null;
         }
 
         // Filter to only executed trades and exclude swaps (orderType 0 and 1)
@@ -1582,7 +1614,7 @@ export const get_trading_history_str = async (sdk: GmxSdk, gmxDataCache: Enhance
             trade.orderType !== 1    // Limit Swap
         );
 
-        const processedTrades = executedTrades.map((trade: any) => {
+        const processedTrades = executedTrades.map((trade: any): TradeRecord => {
             // Handle timestamp - ensure it's in seconds
             let finalTimestamp = trade.timestamp || Date.now() / 1000;
             
@@ -1640,58 +1672,73 @@ export const get_trading_history_str = async (sdk: GmxSdk, gmxDataCache: Enhance
 
         const trades = processedTrades.sort((a, b) => b.timestamp - a.timestamp); // Sort by newest first
         
-        if (!trades || trades.length === 0) {
-            return '📊 TRADING PERFORMANCE: No trading history available';
-        }
-
-        // Use the performance metrics calculation from utils
-        const metrics = calculatePerformanceMetrics(trades);
-        const avgTradeSize = trades.reduce((sum, t) => sum + Math.abs(t.sizeDeltaUsd), 0) / trades.length;
-
-        let output = `📊 TRADING PERFORMANCE\n`;
-        output += `├─ Total Trades: ${trades.length}\n`;
-        output += `├─ Date Range: ${new Date(trades[trades.length - 1].timestamp * 1000).toLocaleDateString()} to ${new Date(trades[0].timestamp * 1000).toLocaleDateString()}\n`;
-        output += `├─ Total P&L: ${metrics.totalPnl >= 0 ? '+' : ''}$${metrics.totalPnl.toFixed(2)}\n`;
-        output += `├─ Win Rate: ${metrics.winRate.toFixed(1)}% (${metrics.winningTrades}/${metrics.totalTrades})\n`;
-        output += `├─ Average Win: +$${metrics.averageProfit.toFixed(2)}\n`;
-        output += `├─ Average Loss: -$${metrics.averageLoss.toFixed(2)}\n`;
-        output += `├─ Profit Factor: ${metrics.profitFactor === Infinity ? '∞' : metrics.profitFactor.toFixed(2)}x\n`;
-        output += `├─ Average Trade Size: $${avgTradeSize.toFixed(2)}\n`;
-        output += `├─ Largest Win: +$${metrics.largestWin.toFixed(2)}\n`;
-        output += `└─ Largest Loss: $${metrics.largestLoss.toFixed(2)}\n\n`;
-
-        // Analyze by position type
         const longTrades = trades.filter(t => t.isLong);
         const shortTrades = trades.filter(t => !t.isLong);
-        const longMetrics = calculatePerformanceMetrics(longTrades);
-        const shortMetrics = calculatePerformanceMetrics(shortTrades);
-        
-        output += `📊 POSITION TYPE ANALYSIS\n`;
-        output += `├─ Long Positions: ${longTrades.length} trades\n`;
-        output += `│  ├─ P&L: ${longMetrics.totalPnl >= 0 ? '+' : ''}$${longMetrics.totalPnl.toFixed(2)}\n`;
-        output += `│  └─ Win Rate: ${longMetrics.winRate.toFixed(1)}%\n`;
-        output += `├─ Short Positions: ${shortTrades.length} trades\n`;
-        output += `│  ├─ P&L: ${shortMetrics.totalPnl >= 0 ? '+' : ''}$${shortMetrics.totalPnl.toFixed(2)}\n`;
-        output += `│  └─ Win Rate: ${shortMetrics.winRate.toFixed(1)}%\n\n`;
-
-        // Show recent trades (last 10)
-        output += `🕒 RECENT TRADES (Last 10)\n`;
-        const recentTrades = trades.slice(0, 10);
-        
-        recentTrades.forEach((trade, index) => {
-            const date = new Date(trade.timestamp * 1000);
-            const marketName = trade.marketInfo?.name || 'Unknown Market';
-            const side = trade.isLong ? 'LONG' : 'SHORT';
-            const pnlColor = trade.pnlUsd >= 0 ? '+' : '';
-            const isLast = index === recentTrades.length - 1;
-            const prefix = isLast ? '└─' : '├─';
-            
-            output += `${prefix} ${index + 1}. ${marketName} ${side} - ${pnlColor}$${trade.pnlUsd.toFixed(2)} (${date.toLocaleDateString()})\n`;
-        });
 
-        return output;
+        return {
+            trades,
+            // Use the performance metrics calculation from utils
+            metrics: calculatePerformanceMetrics(trades),
+            longMetrics: calculatePerformanceMetrics(longTrades),
+            shortMetrics: calculatePerformanceMetrics(shortTrades),
+            averageTradeSizeUsd: trades.length > 0 ? trades.reduce((sum, t) => sum + Math.abs(t.sizeDeltaUsd), 0) / trades.length : 0
+        };
         
     } catch (error) {
         throw new Error(`Failed to get trading history: ${formatError(error)}`);
     }
+};
+
+export const format_trading_history_str = (history: TradingHistory | null): string => {
+    if (history === null) {
+        return '📊 TRADING PERFORMANCE: Trade history temporarily unavailable\n';
+    }
+    
+    const { trades, metrics, longMetrics, shortMetrics } = history;
+    
+    if (trades.length === 0) {
+        return '📊 TRADING PERFORMANCE: No trading history available';
+    }
+
+    let output = `📊 TRADING PERFORMANCE\n`;
+    output += `├─ Total Trades: ${trades.length}\n`;
+    output += `├─ Date Range: ${new Date(trades[trades.length - 1].timestamp * 1000).toLocaleDateString()} to ${new Date(trades[0].timestamp * 1000).toLocaleDateString()}\n`;
+    output += `├─ Total P&L: ${metrics.totalPnl >= 0 ? '+' : ''}$${metrics.totalPnl.toFixed(2)}\n`;
+    output += `├─ Win Rate: ${metrics.winRate.toFixed(1)}% (${metrics.winningTrades}/${metrics.totalTrades})\n`;
+    output += `├─ Average Win: +$${metrics.averageProfit.toFixed(2)}\n`;
+    output += `├─ Average Loss: -$${metrics.averageLoss.toFixed(2)}\n`;
+    output += `├─ Profit Factor: ${metrics.profitFactor === Infinity ? '∞' : metrics.profitFactor.toFixed(2)}x\n`;
+    output += `├─ Average Trade Size: $${history.averageTradeSizeUsd.toFixed(2)}\n`;
+    output += `├─ Largest Win: +$${metrics.largestWin.toFixed(2)}\n`;
+    output += `└─ Largest Loss: $${metrics.largestLoss.toFixed(2)}\n\n`;
+
+    // Analyze by position type
+    output += `📊 POSITION TYPE ANALYSIS\n`;
+    output += `├─ Long Positions: ${trades.filter(t => t.isLong).length} trades\n`;
+    output += `│  ├─ P&L: ${longMetrics.totalPnl >= 0 ? '+' : ''}$${longMetrics.totalPnl.toFixed(2)}\n`;
+    output += `│  └─ Win Rate: ${longMetrics.winRate.toFixed(1)}%\n`;
+    output += `├─ Short Positions: ${trades.filter(t => !t.isLong).length} trades\n`;
+    output += `│  ├─ P&L: ${shortMetrics.totalPnl >= 0 ? '+' : ''}$${shortMetrics.totalPnl.toFixed(2)}\n`;
+    output += `│  └─ Win Rate: ${shortMetrics.winRate.toFixed(1)}%\n\n`;
+
+    // Show recent trades (last 10)
+    output += `🕒 RECENT TRADES (Last 10)\n`;
+    const recentTrades = trades.slice(0, 10);
+    
+    recentTrades.forEach((trade, index) => {
+        const date = new Date(trade.timestamp * 1000);
+        const marketName = trade.marketInfo?.name || 'Unknown Market';
+        const side = trade.isLong ? 'LONG' : 'SHORT';
+        const pnlColor = trade.pnlUsd >= 0 ? '+' : '';
+        const isLast = index === recentTrades.length - 1;
+        const prefix = isLast ? '└─' : '├─';
+        
+        output += `${prefix} ${index + 1}. ${marketName} ${side} - ${pnlColor}$${trade.pnlUsd.toFixed(2)} (${date.toLocaleDateString()})\n`;
+    });
+
+    return output;
+};
+
+export const get_trading_history_str = async (gmxDataCache: EnhancedDataCache) => {
+    return format_trading_history_str(await get_trading_history(gmxDataCache));
 };
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { EnhancedDataCache } from './gmx-cache';
+import { assetRegistry } from './gmx-asset-registry';
+import { RiskEngine, createRiskLimitsFromEnv, DEFAULT_RISK_LIMITS } from './gmx-risk';
+import { getChainByNetwork } from './gmx-wallet';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧪 FIXTURES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const USD = 10n ** 30n;
+const USDC = '0x00000000000000000000000000000000000000c1';
+const BTC = '0x00000000000000000000000000000000000000b1';
+const ETH = '0x00000000000000000000000000000000000000e1';
+const SOL = '0x0000000000000000000000000000000000000051';
+const BTC_MARKET = '0x0000000000000000000000000000000000000a01';
+
+const token = (address: string, symbol: string, decimals: number, priceUsd: bigint, balance = 0n) => ({
+    address, symbol, decimals, balance, isStable: symbol === 'USDC', prices: { minPrice: priceUsd * USD, maxPrice: priceUsd * USD }
+});
+
+// A $10,000 USDC wallet and no open positions
+const tokensData: Record<string, any> = {
+    [USDC]: token(USDC, 'USDC', 6, 1n, 10_000n * 10n ** 6n),
+    [BTC]: token(BTC, 'BTC', 8, 60_000n),
+    [ETH]: token(ETH, 'ETH', 18, 3_000n),
+    [SOL]: token(SOL, 'SOL', 9, 150n),
+};
+
+const market = (name: string, indexTokenAddress: string) => ({
+    name, indexTokenAddress, longTokenAddress: indexTokenAddress, shortTokenAddress: USDC, isSpotOnly: false, isDisabled: false, poolValueMax: 1n
+});
+
+const marketsInfoData: Record<string, any> = {
+    [BTC_MARKET]: market('BTC/USD [BTC-USDC]', BTC),
+    '0x0000000000000000000000000000000000000a02': market('ETH/USD [ETH-USDC]', ETH),
+    '0x0000000000000000000000000000000000000a03': market('SOL/USD [SOL-USDC]', SOL),
+};
+
+// Only the reads the cache makes on the way to a risk check
+const fakeSdk: any = {
+    markets: { getMarketsInfo: async () => ({ marketsInfoData, tokensData }) },
+    positions: { getPositionsInfo: async () => ({}) },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛡️ RISK ENGINE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('RiskEngine leverage cap', () => {
+    const originalFetch = globalThis.fetch;
+    let cache: EnhancedDataCache;
+
+    beforeAll(async () => {
+        // The candles API is down - every volatility fetch fails
+        globalThis.fetch = (async () => { throw new Error('connect ECONNREFUSED'); }) as unknown as typeof fetch;
+        cache = new EnhancedDataCache(fakeSdk, getChainByNetwork('avalanche'));
+        await assetRegistry.resolve(cache);
+    });
+
+    afterAll(() => {
+        globalThis.fetch = originalFetch;
+    });
+
+    it('applies the HIGH regime cap when the volatility fetch fails', async () => {
+        const engine = new RiskEngine(cache);
+        const result = await engine.checkIncreaseOrder({
+            marketAddress: BTC_MARKET,
+            payTokenAddress: USDC,
+            payAmount: 1_000n * 10n ** 6n,
+            leverage: 30000n,
+            isLong: true,
+        });
+
+        expect(result.approved).toBe(false);
+        if (result.approved) return;
+        expect(result.code).toBe('LEVERAGE_EXCEEDED');
+        expect(result.limit).toBe(DEFAULT_RISK_LIMITS.maxLeverageByRegime.HIGH);
+        expect(result.snapshot?.volatilityRegime).toBeNull();
+    });
+
+    it('still approves leverage within the HIGH regime cap', async () => {
+        const engine = new RiskEngine(cache);
+        const result = await engine.checkIncreaseOrder({
+            marketAddress: BTC_MARKET,
+            payTokenAddress: USDC,
+            payAmount: 1_000n * 10n ** 6n,
+            leverage: 20000n,
+            isLong: true,
+        });
+
+        expect(result.approved).toBe(true);
+    });
+});
+
+describe('createRiskLimitsFromEnv', () => {
+    it('falls back to the defaults', () => {
+        expect(createRiskLimitsFromEnv({})).toEqual(DEFAULT_RISK_LIMITS);
+    });
+
+    it('throws on a limit that does not parse', () => {
+        expect(() => createRiskLimitsFromEnv({ GMX_RISK_MAX_LEVERAGE_HIGH: 'abc' })).toThrow('GMX_RISK_MAX_LEVERAGE_HIGH');
+    });
+
+    it('throws on a zero or negative limit', () => {
+        expect(() => createRiskLimitsFromEnv({ GMX_RISK_MAX_GROSS_EXPOSURE: '0' })).toThrow('GMX_RISK_MAX_GROSS_EXPOSURE');
+        expect(() => createRiskLimitsFromEnv({ GMX_RISK_MAX_TRADE_PCT: '-5' })).toThrow('GMX_RISK_MAX_TRADE_PCT');
+    });
+
+    it('allows 0 to disable the notional cap', () => {
+        expect(createRiskLimitsFromEnv({ GMX_RISK_MAX_TRADE_NOTIONAL_USD: '0' }).maxTradeNotionalUsd).toBe(0);
+    });
+});
@@ -0,0 +1,306 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛡️ GMX PRE-TRADE RISK ENGINE
+// ═══════════════════════════════════════════════════════════════════════════════
+// Every increase order is checked here before it reaches the transaction queue.
+// Limits are enforced in code rather than relying on the prompt.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { EnhancedDataCache } from './gmx-cache';
+import type { CircuitBreaker } from './gmx-circuit-breaker';
+import { BASIS_POINTS_DIVISOR, USD_DECIMALS, bigIntToDecimal, convertToUsd, getAssetFromMarketName } from './gmx-utils';
+import { getVolatilityRegime, type VolatilityRegime } from './synth-utils';
+import { strategyConfig } from './strategy-config';
+import type { Asset } from './gmx-types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface RiskLimits {
+    /** Max collateral committed to a single trade, as % of portfolio value */
+    maxTradePortfolioPct: number;
+    /** Max notional (collateral × leverage) of a single trade in USD; 0 disables */
+    maxTradeNotionalUsd: number;
+    /** Max leverage (x) allowed in each volatility regime */
+    maxLeverageByRegime: Record<VolatilityRegime, number>;
+    /** Max total notional per asset (existing + new), as a multiple of portfolio value */
+    maxAssetExposureMultiple: number;
+    /** Max total notional across all positions, as a multiple of portfolio value */
+    maxGrossExposureMultiple: number;
+}
+
+export interface IncreaseOrderRequest {
+    marketAddress: string;
+    payTokenAddress: string;
+    payAmount: bigint;
+    /** Leverage in basis points; omitted means 1x */
+    leverage?: bigint;
+    isLong: boolean;
+}
+
+export type RiskRejectionCode =
+    | 'CIRCUIT_BREAKER_TRIPPED'
+    | 'MARKET_DATA_UNAVAILABLE'
+    | 'UNKNOWN_MARKET'
+    | 'ASSET_DISABLED'
+    | 'EMPTY_PORTFOLIO'
+    | 'TRADE_SIZE_EXCEEDED'
+    | 'NOTIONAL_EXCEEDED'
+    | 'LEVERAGE_EXCEEDED'
+    | 'ASSET_EXPOSURE_EXCEEDED'
+    | 'GROSS_EXPOSURE_EXCEEDED';
+
+export interface RiskSnapshot {
+    asset: Asset | null;
+    portfolioValueUsd: number;
+    collateralUsd: number;
+    notionalUsd: number;
+    leverage: number;
+    volatilityRegime: VolatilityRegime | null;
+    assetExposureUsd: number;
+    grossExposureUsd: number;
+}
+
+export type RiskCheckResult =
+    | { approved: true; snapshot: RiskSnapshot }
+    | {
+        approved: false;
+        code: RiskRejectionCode;
+        reason: string;
+        limit?: number;
+        actual?: number;
+        snapshot?: RiskSnapshot;
+    };
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Mirrors the regime table in the trading rules (20%/5x, 25%/4x, 30%/3x, 35%/2x) and the 50% hard cap
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+    maxTradePortfolioPct: 50,
+    maxTradeNotionalUsd: 0,
+    maxLeverageByRegime: {
+        VERY_LOW: 5,
+        LOW: 4,
+        MEDIUM: 3,
+        HIGH: 2,
+    },
+    maxAssetExposureMultiple: 2.5,
+    maxGrossExposureMultiple: 4,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛡️ RISK ENGINE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class RiskEngine {
+    private circuitBreaker: CircuitBreaker | null = null;
+
+    constructor(private readonly gmxDataCache: EnhancedDataCache, private readonly limits: RiskLimits = DEFAULT_RISK_LIMITS) {
+        console.warn(`🛡️ Risk engine active - max trade ${limits.maxTradePortfolioPct}% of portfolio, asset exposure ${limits.maxAssetExposureMultiple}x, gross exposure ${limits.maxGrossExposureMultiple}x`);
+    }
+
+    getLimits(): RiskLimits {
+        return this.limits;
+    }
+
+    /**
+     * Refuse every increase order while the circuit breaker is tripped
+     */
+    attachCircuitBreaker(circuitBreaker: CircuitBreaker): void {
+        this.circuitBreaker = circuitBreaker;
+    }
+
+    /**
+     * Validate an increase order against all configured limits.
+     * Never throws - data failures are returned as a rejection.
+     */
+    async checkIncreaseOrder(order: IncreaseOrderRequest): Promise<RiskCheckResult> {
+        if (this.circuitBreaker) {
+            await this.circuitBreaker.update();
+            const trip = this.circuitBreaker.getTrip();
+            if (trip) {
+                return this.reject('CIRCUIT_BREAKER_TRIPPED', `Circuit breaker tripped (${trip.code}): ${trip.reason}`, undefined, trip.limitPct, trip.lossPct);
+            }
+        }
+
+        let marketsInfoData: any;
+        let tokensData: any;
+        let positionsInfo: any;
+
+        try {
+            ({ marketsInfoData, tokensData } = await this.gmxDataCache.getMarketsInfo());
+            positionsInfo = await this.gmxDataCache.getPositionsInfo(marketsInfoData, tokensData);
+        } catch (error) {
+            return this.reject('MARKET_DATA_UNAVAILABLE', `Risk check could not load market data: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const marketInfo = marketsInfoData?.[order.marketAddress];
+        const payToken = tokensData?.[order.payTokenAddress];
+        if (!marketInfo || !payToken) {
+            return this.reject('UNKNOWN_MARKET', `Risk check failed: unknown market ${order.marketAddress} or pay token ${order.payTokenAddress}`);
+        }
+
+        const asset = getAssetFromMarketName(marketInfo.name);
+        const profile = asset ? strategyConfig.getAssetProfile(asset) : null;
+        if (profile && !profile.enabled) {
+            return this.reject('ASSET_DISABLED', `${asset} is disabled in the strategy config (${strategyConfig.getVersion()})`);
+        }
+
+        const portfolioValueUsd = this.calculatePortfolioValue(tokensData, positionsInfo);
+        const collateralUsd = bigIntToDecimal(convertToUsd(order.payAmount, payToken.decimals, payToken.prices?.minPrice || 0n) || 0n, USD_DECIMALS);
+        const leverage = Number(order.leverage ?? BASIS_POINTS_DIVISOR) / Number(BASIS_POINTS_DIVISOR);
+        const notionalUsd = collateralUsd * leverage;
+
+        let assetExposureUsd = 0;
+        let grossExposureUsd = 0;
+        for (const position of Object.values(positionsInfo || {}) as any[]) {
+            const sizeUsd = bigIntToDecimal(position.sizeInUsd || 0n, USD_DECIMALS);
+            grossExposureUsd += sizeUsd;
+            const positionMarket = marketsInfoData[position.marketAddress];
+            if (asset && positionMarket && getAssetFromMarketName(positionMarket.name) === asset) {
+                assetExposureUsd += sizeUsd;
+            }
+        }
+
+        const volatilityRegime = asset ? await this.getKnownVolatilityRegime(asset) : null;
+
+        const snapshot: RiskSnapshot = {
+            asset,
+            portfolioValueUsd,
+            collateralUsd,
+            notionalUsd,
+            leverage,
+            volatilityRegime,
+            assetExposureUsd: assetExposureUsd + notionalUsd,
+            grossExposureUsd: grossExposureUsd + notionalUsd,
+        };
+
+        if (portfolioValueUsd <= 0) {
+            return this.reject('EMPTY_PORTFOLIO', 'Portfolio value is zero - cannot size trade', snapshot);
+        }
+
+        // The asset profile can only tighten the global limits
+        const tradePct = (collateralUsd / portfolioValueUsd) * 100;
+        const maxTradePct = Math.min(this.limits.maxTradePortfolioPct, profile?.maxSizePct ?? Infinity);
+        if (tradePct > maxTradePct) {
+            return this.reject('TRADE_SIZE_EXCEEDED',
+                `Trade collateral is ${tradePct.toFixed(1)}% of portfolio (max ${maxTradePct}%${maxTradePct < this.limits.maxTradePortfolioPct ? ` for ${asset}` : ''})`,
+                snapshot, maxTradePct, tradePct);
+        }
+
+        if (this.limits.maxTradeNotionalUsd > 0 && notionalUsd > this.limits.maxTradeNotionalUsd) {
+            return this.reject('NOTIONAL_EXCEEDED',
+                `Trade notional $${notionalUsd.toFixed(2)} exceeds max $${this.limits.maxTradeNotionalUsd.toFixed(2)}`,
+                snapshot, this.limits.maxTradeNotionalUsd, notionalUsd);
+        }
+
+        // Unknown assets and unknown volatility get the most conservative regime cap
+        const regimeMaxLeverage = this.limits.maxLeverageByRegime[volatilityRegime ?? 'HIGH'];
+        const maxLeverage = Math.min(regimeMaxLeverage, profile?.maxLeverage ?? Infinity);
+        if (leverage > maxLeverage) {
+            return this.reject('LEVERAGE_EXCEEDED',
+                maxLeverage < regimeMaxLeverage
+                    ? `Leverage ${leverage.toFixed(2)}x exceeds ${maxLeverage}x max for ${asset}`
+                    : `Leverage ${leverage.toFixed(2)}x exceeds ${maxLeverage}x max for ${volatilityRegime ?? 'unknown (treated as HIGH)'} volatility`,
+                snapshot, maxLeverage, leverage);
+        }
+
+        const maxAssetExposureUsd = portfolioValueUsd * this.limits.maxAssetExposureMultiple;
+        if (snapshot.assetExposureUsd > maxAssetExposureUsd) {
+            return this.reject('ASSET_EXPOSURE_EXCEEDED',
+                `${asset ?? marketInfo.name} exposure would be $${snapshot.assetExposureUsd.toFixed(2)} (max $${maxAssetExposureUsd.toFixed(2)} = ${this.limits.maxAssetExposureMultiple}x portfolio)`,
+                snapshot, maxAssetExposureUsd, snapshot.assetExposureUsd);
+        }
+
+        const maxGrossExposureUsd = portfolioValueUsd * this.limits.maxGrossExposureMultiple;
+        if (snapshot.grossExposureUsd > maxGrossExposureUsd) {
+            return this.reject('GROSS_EXPOSURE_EXCEEDED',
+                `Gross exposure would be $${snapshot.grossExposureUsd.toFixed(2)} (max $${maxGrossExposureUsd.toFixed(2)} = ${this.limits.maxGrossExposureMultiple}x portfolio)`,
+                snapshot, maxGrossExposureUsd, snapshot.grossExposureUsd);
+        }
+
+        return { approved: true, snapshot };
+    }
+
+    // The cache reports a failed or incomplete volatility fetch as 0 - that is unknown, not calm
+    private async getKnownVolatilityRegime(asset: Asset): Promise<VolatilityRegime | null> {
+        let volatility: number;
+        try {
+            volatility = await this.gmxDataCache.getVolatility(asset);
+        } catch (error) {
+            console.warn(`[RiskEngine] Volatility for ${asset} unavailable: ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+        return Number.isFinite(volatility) && volatility > 0 ? getVolatilityRegime(volatility) : null;
+    }
+
+    // Wallet token value plus net value of open positions, same basis as get_portfolio_balance_str
+    private calculatePortfolioValue(tokensData: any, positionsInfo: any): number {
+        let total = 0;
+        for (const token of Object.values(tokensData || {}) as any[]) {
+            if (token.balance && token.balance > 0n) {
+                total += bigIntToDecimal(convertToUsd(token.balance, token.decimals, token.prices?.minPrice || 0n) || 0n, USD_DECIMALS);
+            }
+        }
+        for (const position of Object.values(positionsInfo || {}) as any[]) {
+            total += bigIntToDecimal(position.netValue || 0n, USD_DECIMALS);
+        }
+        return total;
+    }
+
+    private reject(code: RiskRejectionCode, reason: string, snapshot?: RiskSnapshot, limit?: number, actual?: number): RiskCheckResult {
+        console.warn(`[RiskEngine] ❌ ${code}: ${reason}`);
+        return { approved: false, code, reason, limit, actual, snapshot };
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏗️ CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Build risk limits from environment variables, falling back to defaults. Throws on a value that is not a valid limit.
+ */
+export const createRiskLimitsFromEnv = (env: {
+    GMX_RISK_MAX_TRADE_PCT?: string;
+    GMX_RISK_MAX_TRADE_NOTIONAL_USD?: string;
+    GMX_RISK_MAX_LEVERAGE_VERY_LOW?: string;
+    GMX_RISK_MAX_LEVERAGE_LOW?: string;
+    GMX_RISK_MAX_LEVERAGE_MEDIUM?: string;
+    GMX_RISK_MAX_LEVERAGE_HIGH?: string;
+    GMX_RISK_MAX_ASSET_EXPOSURE?: string;
+    GMX_RISK_MAX_GROSS_EXPOSURE?: string;
+}): RiskLimits => {
+    const defaults = DEFAULT_RISK_LIMITS;
+    // A limit that does not parse would compare false against everything and silently stop limiting
+    const num = (name: string, value: string | undefined, fallback: number, allowZero = false): number => {
+        if (!value) {
+            return fallback;
+        }
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed < 0 || (parsed === 0 && !allowZero)) {
+            throw new Error(`${name} must be a ${allowZero ? 'non-negative' : 'positive'} number, got ${value}`);
+        }
+        return parsed;
+    };
+
+    const maxTradePortfolioPct = num('GMX_RISK_MAX_TRADE_PCT', env.GMX_RISK_MAX_TRADE_PCT, defaults.maxTradePortfolioPct);
+    if (maxTradePortfolioPct > 100) {
+        throw new Error(`GMX_RISK_MAX_TRADE_PCT must be at most 100, got ${env.GMX_RISK_MAX_TRADE_PCT}`);
+    }
+
+    return {
+        maxTradePortfolioPct,
+        maxTradeNotionalUsd: num('GMX_RISK_MAX_TRADE_NOTIONAL_USD', env.GMX_RISK_MAX_TRADE_NOTIONAL_USD, defaults.maxTradeNotionalUsd, true),
+        maxLeverageByRegime: {
+            VERY_LOW: num('GMX_RISK_MAX_LEVERAGE_VERY_LOW', env.GMX_RISK_MAX_LEVERAGE_VERY_LOW, defaults.maxLeverageByRegime.VERY_LOW),
+            LOW: num('GMX_RISK_MAX_LEVERAGE_LOW', env.GMX_RISK_MAX_LEVERAGE_LOW, defaults.maxLeverageByRegime.LOW),
+            MEDIUM: num('GMX_RISK_MAX_LEVERAGE_MEDIUM', env.GMX_RISK_MAX_LEVERAGE_MEDIUM, defaults.maxLeverageByRegime.MEDIUM),
+            HIGH: num('GMX_RISK_MAX_LEVERAGE_HIGH', env.GMX_RISK_MAX_LEVERAGE_HIGH, defaults.maxLeverageByRegime.HIGH),
+        },
+        maxAssetExposureMultiple: num('GMX_RISK_MAX_ASSET_EXPOSURE', env.GMX_RISK_MAX_ASSET_EXPOSURE, defaults.maxAssetExposureMultiple),
+        maxGrossExposureMultiple: num('GMX_RISK_MAX_GROSS_EXPOSURE', env.GMX_RISK_MAX_GROSS_EXPOSURE, defaults.maxGrossExposureMultiple),
+    };
+};
@@ -0,0 +1,292 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔏 GMX SIGNERS - RAW KEY, ENCRYPTED KEYSTORE AND REMOTE SIGNER
+// ═══════════════════════════════════════════════════════════════════════════════
+// Every signer resolves to a viem Account, so the wallet, SDK and address check
+// do not care where the key lives. Keystores are Web3 Secret Storage v3 JSON
+// files (geth, foundry `cast wallet`, ethers). The remote signer speaks a small
+// HTTP protocol any local service can implement:
+//
+//   GET  /address          → { "address": "0x..." }
+//   POST /sign/transaction { "address", "serializedTransaction" } → { "signedTransaction": "0x..." }
+//   POST /sign/message     { "address", "message": "text" | { "raw": "0x..." } } → { "signature": "0x..." }
+//   POST /sign/typed-data  { "address", "typedData": {...} } → { "signature": "0x..." }
+//
+// BigInts in request bodies are sent as decimal strings. An optional bearer
+// token is sent in the Authorization header.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { Writable } from 'stream';
+import { createDecipheriv, pbkdf2Sync, scryptSync } from 'crypto';
+import { keccak256, serializeTransaction, toHex, type Account, type Hex } from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { formatError } from './gmx-utils';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const SIGNER_TYPES = ['private_key', 'keystore', 'remote'] as const;
+export type SignerType = typeof SIGNER_TYPES[number];
+
+export type SignerConfig =
+    | { type: 'private_key'; privateKey: string }
+    | {
+        type: 'keystore';
+        path: string;
+        /** File holding the passphrase; without it the passphrase is prompted for on the terminal */
+        passphraseFile?: string;
+    }
+    | {
+        type: 'remote';
+        url: string;
+        authToken?: string;
+        timeoutMs: number;
+    };
+
+export const DEFAULT_REMOTE_SIGNER_TIMEOUT_MS = 10000;
+
+/**
+ * Validates if a string is a valid private key (64 hex chars with 0x prefix)
+ */
+export const validatePrivateKey = (key: string): key is `0x${string}` => {
+    return /^0x[a-fA-F0-9]{64}$/.test(key);
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Read a signer config from env keys under a prefix ("GMX" for the primary account,
+ * "GMX_ACCOUNT_<NAME>" for named accounts):
+ * <PREFIX>_SIGNER                    private_key (default), keystore or remote
+ * <PREFIX>_PRIVATE_KEY               private_key
+ * <PREFIX>_KEYSTORE_PATH             keystore
+ * <PREFIX>_KEYSTORE_PASSPHRASE_FILE  keystore, optional - prompts when unset
+ * <PREFIX>_REMOTE_SIGNER_URL         remote
+ * <PREFIX>_REMOTE_SIGNER_TOKEN       remote, optional
+ * <PREFIX>_REMOTE_SIGNER_TIMEOUT_MS  remote, optional
+ */
+export const createSignerConfigFromEnv = (env: { [key: string]: unknown }, prefix: string = 'GMX'): SignerConfig => {
+    const read = (suffix: string): string | undefined => {
+        const value = env[`${prefix}_${suffix}`];
+        return typeof value === 'string' && value.length > 0 ? value : undefined;
+    };
+    const requireValue = (suffix: string, type: SignerType): string => {
+        const value = read(suffix);
+        if (!value) {
+            throw new Error(`${prefix}_${suffix} is required for the ${type} signer`);
+        }
+        return value;
+    };
+
+    const type = (read('SIGNER') || 'private_key').toLowerCase();
+    switch (type) {
+        case 'private_key':
+            return { type, privateKey: requireValue('PRIVATE_KEY', type) };
+        case 'keystore':
+            return { type, path: requireValue('KEYSTORE_PATH', type), passphraseFile: read('KEYSTORE_PASSPHRASE_FILE') };
+        case 'remote': {
+            const timeout = read('REMOTE_SIGNER_TIMEOUT_MS');
+            const timeoutMs = timeout ? Number(timeout) : DEFAULT_REMOTE_SIGNER_TIMEOUT_MS;
+            if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+                throw new Error(`${prefix}_REMOTE_SIGNER_TIMEOUT_MS must be a positive integer, got ${timeout}`);
+            }
+            return {
+                type,
+                url: requireValue('REMOTE_SIGNER_URL', type).replace(/\/+$/, ''),
+                authToken: read('REMOTE_SIGNER_TOKEN'),
+                timeoutMs
+            };
+        }
+        default:
+            throw new Error(`${prefix}_SIGNER: unsupported signer ${type}. Supported signers: ${SIGNER_TYPES.join(', ')}`);
+    }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔏 SIGNER CREATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create the account that signs for a wallet. Keystores are decrypted and remote
+ * signers are asked for their address here, once, before any chain is connected.
+ */
+export const createSigner = async (config: SignerConfig): Promise<Account> => {
+    switch (config.type) {
+        case 'private_key':
+            if (!validatePrivateKey(config.privateKey)) {
+                throw new Error("Invalid private key format. Must be 64 hex characters with 0x prefix.");
+            }
+            return privateKeyToAccount(config.privateKey);
+        case 'keystore':
+            return createKeystoreSigner(config.path, config.passphraseFile);
+        case 'remote':
+            return createRemoteSigner(config.url, config.authToken, config.timeoutMs);
+    }
+};
+
+/**
+ * The same check for every signer type: the signer must control the configured wallet
+ * @throws Error if the signer's address differs from walletAddress
+ */
+export const verifySignerAddress = (signer: Account, walletAddress: string): void => {
+    if (signer.address.toLowerCase() !== walletAddress.toLowerCase()) {
+        throw new Error(
+            `Address mismatch: Signer controls ${signer.address}, but wallet address is ${walletAddress}`
+        );
+    }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗝️ KEYSTORE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const createKeystoreSigner = async (keystorePath: string, passphraseFile?: string): Promise<Account> => {
+    let keystore: any;
+    try {
+        keystore = JSON.parse(fs.readFileSync(keystorePath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Cannot read keystore ${keystorePath}: ${formatError(error)}`);
+    }
+
+    const passphrase = passphraseFile
+        ? fs.readFileSync(passphraseFile, 'utf-8').replace(/\r?\n$/, '')
+        : await promptPassphrase(`🔐 Passphrase for keystore ${keystorePath}: `);
+
+    const account = privateKeyToAccount(decryptKeystore(keystore, passphrase));
+    console.warn(`🔐 Keystore ${keystorePath} unlocked for ${account.address}`);
+    return account;
+};
+
+/**
+ * Decrypt a Web3 Secret Storage v3 keystore (scrypt or pbkdf2, aes-128-ctr)
+ * @throws Error on an unsupported format or a wrong passphrase
+ */
+export const decryptKeystore = (keystore: any, passphrase: string): Hex => {
+    const crypto = keystore?.crypto ?? keystore?.Crypto;
+    if (keystore?.version !== 3 || !crypto) {
+        throw new Error("Unsupported keystore - expected a version 3 JSON keystore");
+    }
+    if (crypto.cipher !== 'aes-128-ctr') {
+        throw new Error(`Unsupported keystore cipher ${crypto.cipher}`);
+    }
+
+    const params = crypto.kdfparams;
+    const salt = Buffer.from(params.salt, 'hex');
+    let derivedKey: Buffer;
+    if (crypto.kdf === 'scrypt') {
+        derivedKey = scryptSync(passphrase, salt, params.dklen, {
+            N: params.n,
+            r: params.r,
+            p: params.p,
+            maxmem: 256 * params.n * params.r * params.p
+        });
+    } else if (crypto.kdf === 'pbkdf2') {
+        if (params.prf !== 'hmac-sha256') {
+            throw new Error(`Unsupported keystore pbkdf2 prf ${params.prf}`);
+        }
+        derivedKey = pbkdf2Sync(passphrase, salt, params.c, params.dklen, 'sha256');
+    } else {
+        throw new Error(`Unsupported keystore kdf ${crypto.kdf}`);
+    }
+
+    const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+    const mac = keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext]));
+    if (mac.slice(2).toLowerCase() !== String(crypto.mac).toLowerCase()) {
+        throw new Error("Keystore MAC mismatch - wrong passphrase");
+    }
+
+    const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+    const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    return `0x${privateKey.toString('hex').padStart(64, '0')}` as Hex;
+};
+
+// Read a line from the terminal without echoing it
+const promptPassphrase = (question: string): Promise<string> => {
+    if (!process.stdin.isTTY) {
+        return Promise.reject(new Error("Keystore passphrase needed but no terminal is attached - set a passphrase file"));
+    }
+
+    // The terminal is in raw mode while readline owns it, so the only echo is what readline writes - drop it
+    const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+
+    return new Promise(resolve => {
+        const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+        process.stderr.write(question);
+        rl.question('', answer => {
+            rl.close();
+            process.stderr.write('\n');
+            resolve(answer);
+        });
+    });
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 REMOTE SIGNER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// JSON with bigints as decimal strings and byte arrays as hex
+const toJson = (value: unknown): string => JSON.stringify(value, (_, item) => {
+    if (typeof item === 'bigint') return item.toString();
+    if (item instanceof Uint8Array) return toHex(item);
+    return item;
+});
+
+const createRemoteSigner = async (url: string, authToken: string | undefined, timeoutMs: number): Promise<Account> => {
+    const request = async <T>(method: 'GET' | 'POST', route: string, body?: unknown): Promise<T> => {
+        const response = await fetch(`${url}${route}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(authToken ? { Authorization: `Bearer ${authToken}` } : {})
+            },
+            body: body !== undefined ? toJson(body) : undefined,
+            signal: AbortSignal.timeout(timeoutMs)
+        }).catch(error => {
+            throw new Error(`Remote signer ${url}${route} unreachable: ${formatError(error)}`);
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`Remote signer ${route} failed with HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+        }
+        return await response.json() as T;
+    };
+
+    const expectHex = (value: unknown, field: string): Hex => {
+        if (typeof value !== 'string' || !/^0x[0-9a-fA-F]*$/.test(value)) {
+            throw new Error(`Remote signer returned an invalid ${field}`);
+        }
+        return value as Hex;
+    };
+
+    const { address } = await request<{ address: string }>('GET', '/address');
+    if (typeof address !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+        throw new Error(`Remote signer ${url} returned an invalid address`);
+    }
+
+    const account = toAccount({
+        address: address as Hex,
+        async signMessage({ message }) {
+            const payload = typeof message === 'string' ? message : { raw: typeof message.raw === 'string' ? message.raw : toHex(message.raw) };
+            const { signature } = await request<{ signature: string }>('POST', '/sign/message', { address, message: payload });
+            return expectHex(signature, 'signature');
+        },
+        async signTransaction(transaction, options) {
+            const serializer = options?.serializer ?? serializeTransaction;
+            const serializedTransaction = await serializer(transaction);
+            const { signedTransaction } = await request<{ signedTransaction: string }>('POST', '/sign/transaction', { address, serializedTransaction });
+            return expectHex(signedTransaction, 'signedTransaction');
+        },
+        async signTypedData(typedData) {
+            const { signature } = await request<{ signature: string }>('POST', '/sign/typed-data', { address, typedData });
+            return expectHex(signature, 'signature');
+        }
+    });
+
+    console.warn(`🌐 Remote signer ${url} signs for ${account.address}`);
+    return account;
+};
@@ -10,11 +10,112 @@
 export const ASSETS = ['BTC', 'ETH', 'SOL'] as const;
 export type Asset = typeof ASSETS[number];
 
+// GMX deployments the agent can trade on
+export const GMX_NETWORKS = ['arbitrum', 'avalanche'] as const;
+export type GmxNetwork = typeof GMX_NETWORKS[number];
+
+// Name of the account built from GMX_WALLET_ADDRESS and the GMX_* signer unless GMX_ACCOUNT_NAME renames it
+export const DEFAULT_ACCOUNT_NAME = 'main';
+
+// GMX order types (mirrors the SDK OrderType enum)
+export const ORDER_TYPE = {
+    MarketSwap: 0,
+    LimitSwap: 1,
+    MarketIncrease: 2,
+    LimitIncrease: 3,
+    MarketDecrease: 4,
+    LimitDecrease: 5,
+    StopLossDecrease: 6,
+    Liquidation: 7,
+} as const;
+
+export type VolatilityRegime = 'VERY_LOW' | 'LOW' | 'MEDIUM' | 'HIGH';
+
+// Entry and stop levels for one volatility regime, as percentiles of the 24h-ago distribution
+export interface RegimeEntryRules {
+    /** Go long when price is at or below this percentile */
+    longAtOrBelow: number;
+    /** Go short when price is at or above this percentile */
+    shortAtOrAbove: number;
+    longStopPercentile: number;
+    shortStopPercentile: number;
+    /** Stops sit at least this far from entry, in % of price */
+    minStopDistancePct: number;
+}
+
+export interface AssetProfile {
+    /** Disabled assets are still analyzed but never signal or open positions */
+    enabled: boolean;
+    entry: Record<VolatilityRegime, RegimeEntryRules>;
+    /** Take profit target percentile */
+    targetPercentile: number;
+    /** Leverage cap (x), applied on top of the per-regime risk limit */
+    maxLeverage: number;
+    /** Max collateral per trade as % of portfolio, applied on top of the global risk limit */
+    maxSizePct: number;
+    /** Signal cooldown after a trigger */
+    cooldownMinutes: number;
+}
+
+const SHARED_ENTRY_RULES: Record<VolatilityRegime, RegimeEntryRules> = {
+    VERY_LOW: { longAtOrBelow: 20, shortAtOrAbove: 80, longStopPercentile: 15, shortStopPercentile: 85, minStopDistancePct: 0.5 },
+    LOW: { longAtOrBelow: 15, shortAtOrAbove: 85, longStopPercentile: 10, shortStopPercentile: 90, minStopDistancePct: 1 },
+    MEDIUM: { longAtOrBelow: 10, shortAtOrAbove: 90, longStopPercentile: 5, shortStopPercentile: 95, minStopDistancePct: 1 },
+    HIGH: { longAtOrBelow: 5, shortAtOrAbove: 95, longStopPercentile: 1, shortStopPercentile: 99, minStopDistancePct: 2 },
+};
+
+// Per-asset strategy profiles. These start from the values all assets used to share;
+// the strategy config file overrides any field per asset.
+export const ASSET_PROFILES: Record<Asset, AssetProfile> = {
+    BTC: { enabled: true, entry: SHARED_ENTRY_RULES, targetPercentile: 50, maxLeverage: 5, maxSizePct: 50, cooldownMinutes: 60 },
+    ETH: { enabled: true, entry: SHARED_ENTRY_RULES, targetPercentile: 50, maxLeverage: 5, maxSizePct: 50, cooldownMinutes: 60 },
+    SOL: { enabled: true, entry: SHARED_ENTRY_RULES, targetPercentile: 50, maxLeverage: 5, maxSizePct: 50, cooldownMinutes: 60 },
+};
+
+// How an asset maps onto GMX. Every field is optional - omitted fields are discovered from getMarketsInfo
+export interface AssetMarketConfig {
+    /** Pin a specific market token address */
+    marketAddress?: string;
+    /** Long (collateral) token symbol used to pick between markets with the same index token */
+    collateralToken?: string;
+    /** Symbol for the GMX candles API; defaults to the asset symbol */
+    candleSymbol?: string;
+}
+
+// Default market selection per network and asset. Avalanche token symbols differ
+// (BTC.b, WETH.e), so its markets are left to discovery.
+export const ASSET_MARKETS: Record<GmxNetwork, Record<Asset, AssetMarketConfig>> = {
+    arbitrum: {
+        BTC: { collateralToken: 'BTC' },
+        ETH: { collateralToken: 'WETH' },
+        SOL: { collateralToken: 'SOL' },
+    },
+    avalanche: {
+        BTC: {},
+        ETH: {},
+        SOL: {},
+    },
+};
+
+// An asset resolved against live GMX markets at startup
+export interface ResolvedAssetMarket {
+    asset: Asset;
+    network: GmxNetwork;
+    marketAddress: string;
+    marketName: string;
+    indexTokenAddress: string;
+    collateralToken: string;
+    collateralTokenAddress: string;
+    candleSymbol: string;
+}
+
 // Main memory interface
 export interface GmxMemory {
     portfolio: string;
     positions: string;
     orders: string;
+    /** Keeper outcomes of recent orders, from the order trackers */
+    orderOutcomes: string;
     markets: string;
     tokens: string;
     volumes: string;
@@ -24,4 +125,275 @@ export interface GmxMemory {
     instructions: string;
     assetTechnicalAnalysis: string;
     assetSynthAnalysis: string;
-}
\ No newline at end of file
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 QUERY RESULT TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+// Structured results returned by the typed query layer in gmx-queries.ts.
+// USD values and prices are plain numbers; raw on-chain values are kept as strings.
+
+export type Direction = 'LONG' | 'SHORT';
+
+export interface TokenBalance {
+    symbol: string;
+    address: string;
+    decimals: number;
+    balance: number;
+    balanceUsd: number;
+    priceUsd: number;
+}
+
+export interface PortfolioPosition {
+    marketName: string;
+    direction: Direction;
+    sizeUsd: number;
+    collateralUsd: number;
+    pnlUsd: number;
+    netValueUsd: number;
+    leverage: number;
+}
+
+export interface PortfolioSnapshot {
+    totalValueUsd: number;
+    tokenValueUsd: number;
+    positionValueUsd: number;
+    unrealizedPnlUsd: number;
+    tokenAllocationPct: number;
+    positionAllocationPct: number;
+    positions: PortfolioPosition[];
+    /** Tokens with a non-zero balance, highest USD value first */
+    tokens: TokenBalance[];
+}
+
+export interface ChainPortfolio {
+    account: string;
+    network: GmxNetwork;
+    chainName: string;
+    /** Null when the chain could not be read - see error */
+    snapshot: PortfolioSnapshot | null;
+    error: string | null;
+}
+
+export interface PortfolioTotals {
+    totalValueUsd: number;
+    tokenValueUsd: number;
+    positionValueUsd: number;
+    unrealizedPnlUsd: number;
+    positionCount: number;
+}
+
+export interface AccountPortfolio extends PortfolioTotals {
+    account: string;
+}
+
+// Totals across every account and chain the agent trades on
+export interface ConsolidatedPortfolio extends PortfolioTotals {
+    /** Per-account subtotals, in account order */
+    accounts: AccountPortfolio[];
+    chains: ChainPortfolio[];
+}
+
+export interface PositionSummary {
+    key: string;
+    marketAddress: string;
+    marketName: string;
+    asset: Asset | null;
+    indexToken: string;
+    collateralToken: string;
+    collateralTokenAddress: string;
+    direction: Direction;
+    isLong: boolean;
+    sizeUsd: number;
+    sizeInTokens: number;
+    collateralUsd: number;
+    collateralAmount: number;
+    pnlUsd: number;
+    pnlPercentage: number;
+    netValueUsd: number;
+    leverage: number;
+    markPrice: number;
+    entryPrice: number;
+    liquidationPrice: number | null;
+    distanceToLiquidationPct: number;
+    pendingBorrowingFeesUsd: number;
+    pendingFundingFeesUsd: number;
+    createdAt: string | null;
+    raw: {
+        sizeInUsd: string;
+        sizeInTokens: string;
+        collateralAmount: string;
+        calculatedPnl: string;
+        markPrice: string;
+        liquidationPrice: string | null;
+    };
+}
+
+export interface MarketSummary {
+    marketTokenAddress: string;
+    name: string;
+    indexToken: string;
+    isDisabled: boolean;
+    indexPrice: number;
+    spread: number;
+    totalPoolValueUsd: number;
+    longInterestUsd: number;
+    shortInterestUsd: number;
+    utilizationLongPct: number;
+    utilizationShortPct: number;
+    /** Percent per hour */
+    fundingRatePerHour: number;
+    /** Percent per hour */
+    borrowingRatePerHour: number;
+    raw: {
+        marketTokenAddress: string;
+        indexPrice: string;
+        totalPoolValue: string;
+    };
+}
+
+export interface TokenSummary extends TokenBalance {
+    name: string;
+    raw: {
+        address: string;
+        balance: string;
+        minPrice: string;
+        maxPrice: string;
+    };
+}
+
+export interface MarketVolume {
+    marketAddress: string;
+    name: string;
+    indexToken: string;
+    volumeUsd: number;
+    raw: {
+        marketAddress: string;
+        volumeUsd: string;
+    };
+}
+
+export type OrderKind = 'TAKE_PROFIT' | 'STOP_LOSS' | 'REGULAR';
+
+export interface OrderSummary {
+    key: string;
+    marketAddress: string;
+    marketName: string;
+    direction: Direction;
+    isLong: boolean;
+    orderType: number;
+    kind: OrderKind;
+    sizeUsd: number;
+    leverage: number;
+    triggerPrice: number;
+    markPrice: number;
+    collateralAmount: number;
+    collateralSymbol: string;
+    ageHours: number;
+    executionStatus: string;
+}
+
+export interface PerformanceMetrics {
+    totalPnl: number;
+    winRate: number;
+    totalTrades: number;
+    winningTrades: number;
+    losingTrades: number;
+    averageProfit: number;
+    averageLoss: number;
+    largestWin: number;
+    largestLoss: number;
+    profitFactor: number;
+}
+
+export interface TradeRecord {
+    id: string;
+    txHash?: string;
+    blockNumber?: number;
+    /** Seconds */
+    timestamp: number;
+    eventName: string;
+    orderType: number;
+    orderKey: string;
+    account: string;
+    marketAddress: string;
+    isLong: boolean;
+    sizeDeltaUsd: number;
+    collateralDeltaAmount?: bigint;
+    collateralDeltaUsd: number;
+    triggerPrice: number;
+    acceptablePrice: number;
+    executionPrice: number;
+    priceImpactUsd: number;
+    positionFeeAmount?: bigint;
+    borrowingFeeAmount?: bigint;
+    fundingFeeAmount?: bigint;
+    pnlUsd: number;
+    marketInfo: any;
+    indexToken: any;
+    collateralToken: any;
+}
+
+export interface TradingHistory {
+    /** Newest first */
+    trades: TradeRecord[];
+    metrics: PerformanceMetrics;
+    longMetrics: PerformanceMetrics;
+    shortMetrics: PerformanceMetrics;
+    averageTradeSizeUsd: number;
+}
+
+export type Divergence = 'bullish' | 'bearish' | 'none';
+
+export interface TimeframeAnalysis {
+    period: string;
+    currentPrice: number;
+    priceChange: number;
+    priceChangePercent: number;
+    candleCount: number;
+    lastUpdate: string;
+    indicators: {
+        sma20?: number;
+        sma50?: number;
+        ema5?: number;
+        ema8?: number;
+        ema12?: number;
+        ema21?: number;
+        ema26?: number;
+        rsi?: number;
+        macd?: { MACD?: number; signal?: number; histogram?: number };
+        bb?: { upper: number; middle: number; lower: number };
+        atr?: number;
+        stoch?: { k: number; d: number };
+        williamsR?: number;
+        cci?: number;
+        adx?: { adx: number; pdi: number; mdi: number };
+    };
+    signals: {
+        emaAlignment: { score: number; bullishLayers: number; bearishLayers: number; strength: number };
+        rsiDivergence: Divergence;
+        macdDivergence: Divergence;
+    };
+    levels: {
+        resistance: number;
+        support: number;
+        distanceToResistance: number;
+        distanceToSupport: number;
+    };
+}
+
+export interface ConfluenceAnalysis {
+    score: number;
+    bullishSignals: number;
+    bearishSignals: number;
+    totalSignals: number;
+    strength: 'STRONG' | 'MODERATE' | 'WEAK';
+    direction: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+}
+
+export interface TechnicalAnalysis {
+    asset: Asset;
+    currentPrice: number;
+    confluence: ConfluenceAnalysis;
+    timeframes: TimeframeAnalysis[];
+}
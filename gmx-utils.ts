@@ -19,22 +19,15 @@ export const PRECISION = 10n ** 30n;
 // 🏛️ ASSET TYPE DEFINITIONS
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { Asset, ASSETS } from './gmx-types';
+import { Asset, ASSETS, type GmxNetwork, type PerformanceMetrics } from './gmx-types';
+import { strategyConfig } from './strategy-config';
+import { assetRegistry } from './gmx-asset-registry';
 
 /** Buffer name mappings for Synth data (dynamically generated) */
 const ASSET_BUFFER_MAP = Object.fromEntries(
     ASSETS.map(asset => [asset, `${asset.toLowerCase()}Buffer`])
 ) as Record<Asset, string>;
 
-/** GMX market symbol mappings (dynamically generated) */
-const ASSET_MARKET_MAP = Object.fromEntries(
-    ASSETS.map(asset => {
-        // SOL market uses SOL-USDC, not WSOL-USDC
-        const collateralSymbol = asset === 'BTC' ? 'BTC' : asset === 'ETH' ? 'WETH' : asset === 'SOL' ? 'SOL' : `W${asset}`;
-        return [asset, `${asset}/USD [${collateralSymbol}-USDC]`];
-    })
-) as Record<Asset, string>;
-
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔧 ASSET HELPER FUNCTIONS
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -49,12 +42,13 @@ export function getAssetBuffer(asset: Asset): string {
 }
 
 /**
- * Get GMX market name for asset (replaces ternary chains)
+ * Get the GMX market name the asset registry resolved for an asset
  * @param asset The asset symbol  
+ * @param network Chain to look on; defaults to the primary network
  * @returns GMX market name (e.g. 'BTC/USD [BTC-USDC]')
  */
-export function getGMXMarket(asset: Asset): string {
-    return ASSET_MARKET_MAP[asset];
+export function getGMXMarket(asset: Asset, network?: GmxNetwork): string {
+    return assetRegistry.getMarket(asset, network).marketName;
 }
 
 /**
@@ -67,17 +61,12 @@ export function isValidAsset(value: string): value is Asset {
 }
 
 /**
- * Extract asset from GMX market name
- * @param marketName GMX market name (e.g. 'BTC/USD [BTC-USDC]' or 'ETH/USD [ETH-USDC]')
+ * Look up the asset for a GMX market name - any live perp market on the asset's index token matches
+ * @param marketName GMX market name (e.g. 'BTC/USD [BTC-USDC]' or 'ETH/USD [WETH-USDC]')
  * @returns Asset symbol (BTC, ETH, SOL) or null if not found
  */
 export function getAssetFromMarketName(marketName: string): Asset | null {
-    for (const asset of ASSETS) {
-        if (marketName.includes(`${asset}/USD`)) {
-            return asset;
-        }
-    }
-    return null;
+    return assetRegistry.getAssetForMarketName(marketName);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -127,13 +116,25 @@ export const formatTokenAmount = (value: bigint, decimals: number, displayDecima
 
 // Proper USD formatting with commas
 export const formatUsdAmount = (value: bigint, displayDecimals: number = 2): string => {
-    const num = bigIntToDecimal(value, USD_DECIMALS);
+    return formatUsd(bigIntToDecimal(value, USD_DECIMALS), displayDecimals);
+};
+
+// Same formatting for values already converted to numbers
+export const formatUsd = (value: number, displayDecimals: number = 2): string => {
     return new Intl.NumberFormat('en-US', {
         style: 'currency',
         currency: 'USD',
         minimumFractionDigits: displayDecimals,
         maximumFractionDigits: displayDecimals
-    }).format(num);
+    }).format(value);
+};
+
+// Compact duration for status lines: 45s, 12m05s, 3h20m
+export const formatDuration = (ms: number): string => {
+    const seconds = Math.max(0, Math.round(ms / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`;
+    return `${Math.floor(seconds / 3600)}h${String(Math.floor(seconds % 3600 / 60)).padStart(2, '0')}m`;
 };
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -341,32 +342,14 @@ export function getTradeActionDescriptionEnhanced(
 // 🔧 HELPER FUNCTIONS FOR EVENT-DRIVEN MONITORING
 // ═══════════════════════════════════════════════════════════════════════════════
 
-// Extract percentile value from Synth analysis string (for display purposes only, not triggering)
-export function extractPercentileFromSynthAnalysis(synthAnalysis: string): number | null {
-    // Match the new format with exact percentile
-    let match = synthAnalysis.match(/CURRENT_PRICE_PERCENTILE:\s*P(\d+\.?\d*)/);
-    if (match) {
-        return parseFloat(match[1]);
-    }
-    
-    return null;
-}
-
-// Extract position count from positions string
-export function extractPositionCount(positionsStr: string): number {
-    if (!positionsStr || positionsStr.includes('No positions')) return 0;
-    const matches = positionsStr.match(/Position \d+:/g);
-    return matches ? matches.length : 0;
-}
-
-// Check if a Synth signal is in cooldown period (1 hour per asset)
+// Check if a Synth signal is in cooldown period (per asset, length from the asset's strategy profile)
 export function isInCooldown(
     asset: Asset, 
     triggerType: 'LONG' | 'SHORT',
     lastTriggerTimestamp?: number,
     lastTriggerType?: string
 ): boolean {
-    const COOLDOWN_MS = 3600000; // 1 hour
+    const COOLDOWN_MS = strategyConfig.getAssetProfile(asset).cooldownMinutes * 60000;
     const now = Date.now();
     
     if (!lastTriggerTimestamp) return false;
@@ -381,7 +364,7 @@ export function isInCooldown(
 // 📊 TRADING PERFORMANCE METRICS
 // ═══════════════════════════════════════════════════════════════════════════════
 
-export const calculatePerformanceMetrics = (trades: any[]) => {
+export const calculatePerformanceMetrics = (trades: any[]): PerformanceMetrics => {
     if (!trades.length) {
         return {
             totalPnl: 0,
@@ -482,92 +465,3 @@ export function calculate24HourVolatility(candles: number[][]): number {
     
     return annualizedVolatility;
 }
-
-// Extract prediction trend signal information from enhanced synth analysis
-export function extractRegimeSignalFromSynthAnalysis(synthAnalysis: string): {
-    hasRegimeSignal: boolean;
-    regimeSignal: 'LONG' | 'SHORT' | null;
-    signalStrength: number;
-    signalReason: string;
-    marketRegime: string;
-    regimeConfidence: number;
-} {
-    const lines = synthAnalysis.split('\n');
-    
-    let hasRegimeSignal = false;
-    let regimeSignal: 'LONG' | 'SHORT' | null = null;
-    let signalStrength = 0;
-    let signalReason = '';
-    let marketRegime = '';
-    let regimeConfidence = 0;
-    
-    for (const line of lines) {
-        // Handle new simplified format
-        if (line.startsWith('SIGNAL: ')) {
-            const signal = line.replace('SIGNAL: ', '').trim();
-            if (signal === 'LONG') {
-                regimeSignal = 'LONG';
-                hasRegimeSignal = true;
-                signalStrength = 90; // High confidence for new simplified strategy
-            } else if (signal === 'SHORT') {
-                regimeSignal = 'SHORT';
-                hasRegimeSignal = true;
-                signalStrength = 90; // High confidence for new simplified strategy
-            } else if (signal === 'WAIT') {
-                regimeSignal = null;
-                hasRegimeSignal = false;
-                signalStrength = 0;
-            }
-            // Map legacy BUY/SELL to LONG/SHORT for compatibility
-            else if (signal === 'BUY') {
-                regimeSignal = 'LONG';
-                hasRegimeSignal = true;
-            } else if (signal === 'SELL') {
-                regimeSignal = 'SHORT';
-                hasRegimeSignal = true;
-            }
-        } 
-        // Handle volatility regime as market regime
-        else if (line.startsWith('VOLATILITY_REGIME: ')) {
-            marketRegime = line.replace('VOLATILITY_REGIME: ', '').trim();
-            // Assign confidence based on volatility regime
-            if (marketRegime === 'LOW') regimeConfidence = 95;
-            else if (marketRegime === 'MEDIUM') regimeConfidence = 85;
-            else if (marketRegime === 'HIGH') regimeConfidence = 75;
-        }
-        // Legacy signal strength parsing
-        else if (line.startsWith('SIGNAL_STRENGTH: ')) {
-            const strengthStr = line.replace('SIGNAL_STRENGTH: ', '').replace('%', '').trim();
-            signalStrength = parseInt(strengthStr) || signalStrength;
-        }
-        // Legacy parsing
-        else if (line.startsWith('SIGNAL_EXPLANATION: ')) {
-            signalReason = line.replace('SIGNAL_EXPLANATION: ', '').trim();
-        } else if (line.startsWith('PREDICTION_TREND: ')) {
-            const trend = line.replace('PREDICTION_TREND: ', '').trim();
-            if (!marketRegime) marketRegime = trend; // Use as fallback if no volatility regime
-        }
-        // Extract strategy logic as signal reason for new format
-        else if (line.startsWith('STRATEGY_LOGIC:')) {
-            // Get the next line which contains the actual strategy
-            const strategyIndex = lines.indexOf(line);
-            if (strategyIndex >= 0 && strategyIndex + 1 < lines.length) {
-                signalReason = lines[strategyIndex + 1].trim();
-            }
-        }
-    }
-    
-    // Set default signal reason if not found
-    if (!signalReason && hasRegimeSignal) {
-        signalReason = `Simplified percentile strategy: ${regimeSignal} signal based on ${marketRegime} volatility`;
-    }
-    
-    return {
-        hasRegimeSignal,
-        regimeSignal,
-        signalStrength,
-        signalReason,
-        marketRegime: marketRegime || 'unknown',
-        regimeConfidence
-    };
-}
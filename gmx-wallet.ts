@@ -6,27 +6,37 @@
 
 import { GmxSdk } from "@gmx-io/sdk";
 import { createWalletClient, http, type WalletClient, type Account } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import { createSigner, createSignerConfigFromEnv, verifySignerAddress } from './gmx-signer';
+import { createPaperGmxSdk, DEFAULT_PAPER_TRADING_CONFIG, type PaperTradingConfig } from './gmx-paper';
+import { DEFAULT_ACCOUNT_NAME, GMX_NETWORKS, type GmxNetwork } from './gmx-types';
+
+// Key validation lives with the rest of the key handling in the signer module
+export { validatePrivateKey } from './gmx-signer';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📋 TYPE DEFINITIONS
 // ═══════════════════════════════════════════════════════════════════════════════
 
 export interface ChainConfig {
+    chainId: number;
     name: string;
     symbol: string;
     decimals: number;
-    network: 'arbitrum' | 'avalanche';
+    network: GmxNetwork;
+    /** GMX REST API host for this chain - candles, and the default oracle URL */
+    apiUrl: string;
 }
 
 export interface WalletConfig {
-    privateKey: string;
+    /** From createSigner - raw key, keystore or remote signer */
+    signer: Account;
     walletAddress: string;
     chainId: number;
     rpcUrl: string;
     oracleUrl: string;
     subsquidUrl: string;
-    network: 'arbitrum' | 'avalanche';
+    network: GmxNetwork;
+    paperTrading?: PaperTradingConfig;
 }
 
 export interface InitializedWallet {
@@ -34,6 +44,17 @@ export interface InitializedWallet {
     walletClient: WalletClient;
     account: Account;
     chainConfig: ChainConfig;
+    isPaperTrading: boolean;
+    /** Run the listener with the hash of every transaction the wallet client broadcasts */
+    onTransactionSent(listener: (hash: string) => void): void;
+}
+
+// A named account - one signer with a wallet on every configured chain
+export interface AccountWallets {
+    name: string;
+    walletAddress: string;
+    /** Primary chain first */
+    wallets: InitializedWallet[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -43,16 +64,20 @@ export interface InitializedWallet {
 // Define supported chain configurations
 export const SUPPORTED_CHAINS: Record<number, ChainConfig> = {
     42161: { 
+        chainId: 42161,
         name: "Arbitrum One", 
         symbol: "ETH", 
         decimals: 18,
-        network: "arbitrum"
+        network: "arbitrum",
+        apiUrl: "https://arbitrum-api.gmxinfra.io"
     },
     43114: { 
+        chainId: 43114,
         name: "Avalanche", 
         symbol: "AVAX", 
         decimals: 18,
-        network: "avalanche"
+        network: "avalanche",
+        apiUrl: "https://avalanche-api.gmxinfra.io"
     },
     // Add more chains as needed
 } as const;
@@ -69,17 +94,22 @@ export const validateHexAddress = (address: string): address is `0x${string}` =>
 };
 
 /**
- * Validates if a string is a valid private key (64 hex chars with 0x prefix)
+ * Returns all supported chain configurations
  */
-export const validatePrivateKey = (key: string): key is `0x${string}` => {
-    return /^0x[a-fA-F0-9]{64}$/.test(key);
+export const getSupportedChains = (): Record<number, ChainConfig> => {
+    return SUPPORTED_CHAINS;
 };
 
 /**
- * Returns all supported chain configurations
+ * Returns the chain configuration for a network
+ * @throws Error if the network is not supported
  */
-export const getSupportedChains = (): Record<number, ChainConfig> => {
-    return SUPPORTED_CHAINS;
+export const getChainByNetwork = (network: GmxNetwork): ChainConfig => {
+    const chainConfig = Object.values(SUPPORTED_CHAINS).find(chain => chain.network === network);
+    if (!chainConfig) {
+        throw new Error(`Unsupported network: ${network}. Supported networks: ${GMX_NETWORKS.join(', ')}`);
+    }
+    return chainConfig;
 };
 
 /**
@@ -113,11 +143,6 @@ export const validateChainNetwork = (chainId: number, network: string): void =>
  * @throws Error if validation fails
  */
 export const createGmxWallet = (config: WalletConfig): InitializedWallet => {
-    // Validate private key format
-    if (!validatePrivateKey(config.privateKey)) {
-        throw new Error("Invalid private key format. Must be 64 hex characters with 0x prefix.");
-    }
-    
     // Validate wallet address format
     if (!validateHexAddress(config.walletAddress)) {
         throw new Error("Invalid wallet address format. Must be 40 hex characters with 0x prefix.");
@@ -129,15 +154,9 @@ export const createGmxWallet = (config: WalletConfig): InitializedWallet => {
     // Get chain configuration
     const chainConfig = SUPPORTED_CHAINS[config.chainId];
     
-    // Create account from private key
-    const account = privateKeyToAccount(config.privateKey as `0x${string}`);
-    
-    // Verify that the derived address matches the provided address
-    if (account.address.toLowerCase() !== config.walletAddress.toLowerCase()) {
-        throw new Error(
-            `Address mismatch: Private key derives to ${account.address}, but wallet address is ${config.walletAddress}`
-        );
-    }
+    // Verify that the signer controls the provided address
+    const account = config.signer;
+    verifySignerAddress(account, config.walletAddress);
     
     // Create wallet client
     const walletClient = createWalletClient({
@@ -158,8 +177,23 @@ export const createGmxWallet = (config: WalletConfig): InitializedWallet => {
         }
     });
     
+    // The SDK's write methods resolve without the transaction hash - report it from the send itself
+    const sentListeners: Array<(hash: string) => void> = [];
+    const sendTransaction = walletClient.sendTransaction;
+    walletClient.sendTransaction = (async (args: Parameters<typeof sendTransaction>[0]) => {
+        const hash = await sendTransaction(args);
+        for (const listener of sentListeners) {
+            try {
+                listener(hash);
+            } catch (error) {
+                console.error(`[Wallet] Transaction listener failed for ${hash}:`, error);
+            }
+        }
+        return hash;
+    }) as typeof sendTransaction;
+
     // Initialize GMX SDK
-    const sdk = new GmxSdk({
+    const liveSdk = new GmxSdk({
         rpcUrl: config.rpcUrl,
         chainId: config.chainId,
         oracleUrl: config.oracleUrl,
@@ -170,7 +204,10 @@ export const createGmxWallet = (config: WalletConfig): InitializedWallet => {
     });
     
     // Set the account in the SDK
-    sdk.setAccount(config.walletAddress as `0x${string}`);
+    liveSdk.setAccount(config.walletAddress as `0x${string}`);
+    
+    // In paper mode, market data stays live but all trading goes to the simulator
+    const sdk = config.paperTrading ? createPaperGmxSdk(liveSdk, config.paperTrading) : liveSdk;
     
     console.warn(`💼 GMX SDK initialized with account: ${config.walletAddress}`);
     console.warn(`🔗 Connected to ${chainConfig.name} (Chain ID: ${config.chainId})`);
@@ -179,33 +216,183 @@ export const createGmxWallet = (config: WalletConfig): InitializedWallet => {
         sdk,
         walletClient,
         account,
-        chainConfig
+        chainConfig,
+        isPaperTrading: !!config.paperTrading,
+        onTransactionSent: listener => { sentListeners.push(listener); }
     };
 };
 
-/**
- * Convenience function to create GMX wallet from environment variables
- * @param env Environment variables object with GMX configuration
- * @returns Initialized wallet, SDK, and chain configuration
- */
-export const createGmxWalletFromEnv = (env: {
-    GMX_PRIVATE_KEY: string;
+type WalletEnv = {
     GMX_WALLET_ADDRESS: string;
     GMX_CHAIN_ID: string;
     GMX_RPC_URL: string;
     GMX_ORACLE_URL: string;
     GMX_SUBSQUID_URL: string;
-    GMX_NETWORK: 'arbitrum' | 'avalanche';
-}): InitializedWallet => {
+    GMX_NETWORK: GmxNetwork;
+    GMX_PAPER_TRADING?: string;
+    GMX_PAPER_INITIAL_USDC?: string;
+    GMX_PAPER_SLIPPAGE_BPS?: string;
+    GMX_PAPER_POSITION_FEE_BPS?: string;
+    GMX_PAPER_SWAP_FEE_BPS?: string;
+};
+
+const createPaperTradingConfigFromEnv = (env: WalletEnv): PaperTradingConfig | undefined => {
+    if (env.GMX_PAPER_TRADING !== 'true') {
+        return undefined;
+    }
+    const defaults = DEFAULT_PAPER_TRADING_CONFIG;
+    const parseBps = (name: string, value: string | undefined, fallback: number): number => {
+        if (!value) {
+            return fallback;
+        }
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 0 || parsed >= 10000) {
+            throw new Error(`${name} must be a whole number of basis points from 0 to 9999, got ${value}`);
+        }
+        return parsed;
+    };
+
+    const initialUsdc = env.GMX_PAPER_INITIAL_USDC ? Number(env.GMX_PAPER_INITIAL_USDC) : null;
+    if (initialUsdc !== null && (!Number.isFinite(initialUsdc) || initialUsdc <= 0)) {
+        throw new Error(`GMX_PAPER_INITIAL_USDC must be a positive amount, got ${env.GMX_PAPER_INITIAL_USDC}`);
+    }
+
+    const config: PaperTradingConfig = {
+        ...defaults,
+        initialBalances: initialUsdc !== null ? { USDC: initialUsdc } : defaults.initialBalances,
+        slippageBps: parseBps('GMX_PAPER_SLIPPAGE_BPS', env.GMX_PAPER_SLIPPAGE_BPS, defaults.slippageBps),
+        positionFeeBps: parseBps('GMX_PAPER_POSITION_FEE_BPS', env.GMX_PAPER_POSITION_FEE_BPS, defaults.positionFeeBps),
+        swapFeeBps: parseBps('GMX_PAPER_SWAP_FEE_BPS', env.GMX_PAPER_SWAP_FEE_BPS, defaults.swapFeeBps),
+    };
+    // Swaps sized by output amount divide by what is left after both charges
+    if (config.slippageBps + config.swapFeeBps >= 10000) {
+        throw new Error('GMX_PAPER_SLIPPAGE_BPS plus GMX_PAPER_SWAP_FEE_BPS must stay below 10000');
+    }
+    return config;
+};
+
+/**
+ * Convenience function to create GMX wallet from environment variables
+ * @param env Environment variables object with GMX configuration
+ * @param signer Account from createSigner
+ * @returns Initialized wallet, SDK, and chain configuration
+ */
+export const createGmxWalletFromEnv = (env: WalletEnv, signer: Account): InitializedWallet => {
     const config: WalletConfig = {
-        privateKey: env.GMX_PRIVATE_KEY,
+        signer,
         walletAddress: env.GMX_WALLET_ADDRESS,
         chainId: parseInt(env.GMX_CHAIN_ID),
         rpcUrl: env.GMX_RPC_URL,
         oracleUrl: env.GMX_ORACLE_URL,
         subsquidUrl: env.GMX_SUBSQUID_URL,
-        network: env.GMX_NETWORK
+        network: env.GMX_NETWORK,
+        paperTrading: createPaperTradingConfigFromEnv(env)
     };
     
     return createGmxWallet(config);
+};
+
+/**
+ * Create one wallet per configured network. GMX_NETWORK and the unprefixed GMX_* URLs
+ * describe the primary chain; each network in GMX_EXTRA_NETWORKS reads
+ * GMX_<NETWORK>_RPC_URL, GMX_<NETWORK>_SUBSQUID_URL and optionally GMX_<NETWORK>_ORACLE_URL.
+ * The same signer and address are used on every chain - GMX_WALLET_ADDRESS unless another address is given.
+ * @returns Initialized wallets, primary chain first
+ */
+export const createGmxWalletsFromEnv = (env: WalletEnv & {
+    GMX_EXTRA_NETWORKS?: string;
+    [key: string]: unknown;
+}, signer: Account, walletAddress: string = env.GMX_WALLET_ADDRESS): InitializedWallet[] => {
+    env = { ...env, GMX_WALLET_ADDRESS: walletAddress };
+    const primary = createGmxWalletFromEnv(env, signer);
+    const extraNetworks = (env.GMX_EXTRA_NETWORKS || '')
+        .split(',')
+        .map(network => network.trim().toLowerCase())
+        .filter(network => network.length > 0 && network !== env.GMX_NETWORK);
+
+    const wallets = [primary];
+    for (const network of new Set(extraNetworks)) {
+        if (!GMX_NETWORKS.includes(network as GmxNetwork)) {
+            throw new Error(`GMX_EXTRA_NETWORKS: unsupported network ${network}. Supported networks: ${GMX_NETWORKS.join(', ')}`);
+        }
+
+        const chainConfig = getChainByNetwork(network as GmxNetwork);
+        const prefix = `GMX_${network.toUpperCase()}`;
+        const read = (suffix: string): string | undefined => {
+            const value = env[`${prefix}_${suffix}`];
+            return typeof value === 'string' && value.length > 0 ? value : undefined;
+        };
+        const rpcUrl = read('RPC_URL');
+        const subsquidUrl = read('SUBSQUID_URL');
+        if (!rpcUrl || !subsquidUrl) {
+            throw new Error(`${prefix}_RPC_URL and ${prefix}_SUBSQUID_URL are required to trade on ${chainConfig.name}`);
+        }
+
+        wallets.push(createGmxWallet({
+            signer,
+            walletAddress: env.GMX_WALLET_ADDRESS,
+            chainId: chainConfig.chainId,
+            rpcUrl,
+            oracleUrl: read('ORACLE_URL') || chainConfig.apiUrl,
+            subsquidUrl,
+            network: chainConfig.network,
+            paperTrading: createPaperTradingConfigFromEnv(env)
+        }));
+    }
+
+    return wallets;
+};
+
+/**
+ * Create every named account. GMX_WALLET_ADDRESS and the GMX_* signer settings form the primary
+ * account (named GMX_ACCOUNT_NAME, default "main"); each name in GMX_ACCOUNTS reads
+ * GMX_ACCOUNT_<NAME>_WALLET_ADDRESS and GMX_ACCOUNT_<NAME>_* signer settings (see createSignerConfigFromEnv).
+ * Every account trades on the same chains and must use its own wallet.
+ * @returns Accounts, primary first
+ */
+export const createGmxAccountWalletsFromEnv = async (env: WalletEnv & {
+    GMX_EXTRA_NETWORKS?: string;
+    GMX_ACCOUNT_NAME?: string;
+    GMX_ACCOUNTS?: string;
+    [key: string]: unknown;
+}): Promise<AccountWallets[]> => {
+    const primaryName = (env.GMX_ACCOUNT_NAME || DEFAULT_ACCOUNT_NAME).trim().toLowerCase();
+    const extraNames = (env.GMX_ACCOUNTS || '')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(name => name.length > 0 && name !== primaryName);
+
+    for (const name of [primaryName, ...extraNames]) {
+        if (!/^[a-z0-9_-]+$/.test(name)) {
+            throw new Error(`Invalid account name "${name}" - use letters, digits, _ and -`);
+        }
+    }
+
+    const accounts = [{ name: primaryName, prefix: 'GMX', walletAddress: env.GMX_WALLET_ADDRESS }];
+    for (const name of new Set(extraNames)) {
+        const prefix = `GMX_ACCOUNT_${name.toUpperCase()}`;
+        const walletAddress = env[`${prefix}_WALLET_ADDRESS`];
+        if (typeof walletAddress !== 'string' || !walletAddress) {
+            throw new Error(`${prefix}_WALLET_ADDRESS is required for account ${name}`);
+        }
+        accounts.push({ name, prefix, walletAddress });
+    }
+
+    // Shared wallets would share nonces and positions - the books would not be isolated
+    const seen = new Map<string, string>();
+    for (const { name, walletAddress } of accounts) {
+        const owner = seen.get(walletAddress.toLowerCase());
+        if (owner) {
+            throw new Error(`Accounts ${owner} and ${name} use the same wallet ${walletAddress}`);
+        }
+        seen.set(walletAddress.toLowerCase(), name);
+    }
+
+    // Signers are created one at a time - keystore passphrase prompts must not interleave
+    const result: AccountWallets[] = [];
+    for (const { name, prefix, walletAddress } of accounts) {
+        const signer = await createSigner(createSignerConfigFromEnv(env, prefix));
+        result.push({ name, walletAddress, wallets: createGmxWalletsFromEnv(env, signer, walletAddress) });
+    }
+    return result;
 };
\ No newline at end of file
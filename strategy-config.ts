@@ -0,0 +1,292 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎛️ STRATEGY CONFIGURATION - VALIDATED, HOT-RELOADED TRADING PARAMETERS
+// ═══════════════════════════════════════════════════════════════════════════════
+// Volatility cut-offs, per-asset profiles and execution parameters live in one
+// JSON file. Modules read the active config at decision time, so an
+// edit to the file takes effect on the next decision without a restart.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { z } from "zod/v4";
+import { ASSETS, ASSET_PROFILES, type Asset, type AssetProfile, type VolatilityRegime } from './gmx-types';
+
+// Get __dirname in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const DEFAULT_STRATEGY_CONFIG_PATH = path.join(__dirname, 'strategy-config.json');
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 SCHEMA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const percentile = z.number().min(0).max(100);
+
+// Field meanings are documented on RegimeEntryRules and AssetProfile in gmx-types.ts
+const regimeRulesSchema = z.object({
+    longAtOrBelow: percentile,
+    shortAtOrAbove: percentile,
+    longStopPercentile: percentile,
+    shortStopPercentile: percentile,
+    minStopDistancePct: z.number().min(0).max(50),
+}).strict();
+
+// Every field is optional - anything omitted falls back to ASSET_PROFILES
+const assetProfileOverrideSchema = z.object({
+    enabled: z.boolean(),
+    entry: z.object({
+        VERY_LOW: regimeRulesSchema.partial(),
+        LOW: regimeRulesSchema.partial(),
+        MEDIUM: regimeRulesSchema.partial(),
+        HIGH: regimeRulesSchema.partial(),
+    }).partial().strict(),
+    targetPercentile: percentile,
+    maxLeverage: z.number().min(1),
+    maxSizePct: z.number().positive().max(100),
+    cooldownMinutes: z.number().min(0),
+}).partial().strict();
+
+export const StrategyConfigSchema = z.object({
+    /** Free-form label shown alongside the content hash in logs */
+    label: z.string().optional(),
+    /** Upper bounds (exclusive) of the VERY_LOW, LOW and MEDIUM regimes on 24h volatility %; above is HIGH */
+    volatility: z.object({
+        veryLowBelow: z.number().positive(),
+        lowBelow: z.number().positive(),
+        mediumBelow: z.number().positive(),
+    }).strict(),
+    /** Per-asset profile overrides, merged over ASSET_PROFILES */
+    assets: z.partialRecord(z.enum(ASSETS), assetProfileOverrideSchema).default({}),
+    /** Outside these percentiles the distribution is considered broken and the strategy waits */
+    waitOutside: z.object({
+        belowPercentile: percentile,
+        abovePercentile: percentile,
+    }).strict(),
+    /** close_position refuses to exit a long below / a short above these percentiles */
+    closeGuard: z.object({
+        longMinPercentile: percentile,
+        shortMaxPercentile: percentile,
+    }).strict(),
+    /** Fallback trading cycle when no signal fires */
+    scheduledCycleMinutes: z.number().positive(),
+    execution: z.object({
+        slippageBps: z.number().int().min(0).max(10000),
+        /** Acceptable price buffer on trigger and close orders */
+        priceImpactBps: z.number().int().min(0).max(10000),
+    }).strict(),
+}).strict().superRefine((config, ctx) => {
+    const { veryLowBelow, lowBelow, mediumBelow } = config.volatility;
+    if (!(veryLowBelow < lowBelow && lowBelow < mediumBelow)) {
+        ctx.addIssue({ code: 'custom', path: ['volatility'], message: 'Cut-offs must be increasing: veryLowBelow < lowBelow < mediumBelow' });
+    }
+
+    // Check the merged profiles - an override can be invalid only in combination with the defaults
+    for (const asset of ASSETS) {
+        const profile = resolveAssetProfile(config, asset);
+        for (const [regime, rules] of Object.entries(profile.entry)) {
+            const rulePath = ['assets', asset, 'entry', regime];
+            if (rules.longAtOrBelow >= rules.shortAtOrAbove) {
+                ctx.addIssue({ code: 'custom', path: rulePath, message: 'longAtOrBelow must be below shortAtOrAbove' });
+            }
+            if (rules.longStopPercentile > rules.longAtOrBelow) {
+                ctx.addIssue({ code: 'custom', path: [...rulePath, 'longStopPercentile'], message: 'Long stop must not be above the long entry percentile' });
+            }
+            if (rules.shortStopPercentile < rules.shortAtOrAbove) {
+                ctx.addIssue({ code: 'custom', path: [...rulePath, 'shortStopPercentile'], message: 'Short stop must not be below the short entry percentile' });
+            }
+        }
+    }
+
+    if (config.waitOutside.belowPercentile >= config.waitOutside.abovePercentile) {
+        ctx.addIssue({ code: 'custom', path: ['waitOutside'], message: 'belowPercentile must be below abovePercentile' });
+    }
+});
+
+export type StrategyConfig = z.infer<typeof StrategyConfigSchema>;
+
+export interface LoadedStrategyConfig {
+    config: StrategyConfig;
+    /** label@hash of the config content - recorded with every decision */
+    version: string;
+    loadedAt: number;
+    source: string;
+}
+
+// Matches the values that were hard-coded before the config file existed; asset profiles come from ASSET_PROFILES
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = {
+    label: 'default',
+    volatility: { veryLowBelow: 20, lowBelow: 40, mediumBelow: 60 },
+    assets: {},
+    waitOutside: { belowPercentile: 1, abovePercentile: 99 },
+    closeGuard: { longMinPercentile: 48, shortMaxPercentile: 52 },
+    scheduledCycleMinutes: 30,
+    execution: { slippageBps: 100, priceImpactBps: 30 },
+};
+
+/**
+ * The effective profile for an asset: its ASSET_PROFILES entry with any config overrides applied
+ */
+export function resolveAssetProfile(config: StrategyConfig, asset: Asset): AssetProfile {
+    const base = ASSET_PROFILES[asset];
+    const override = config.assets?.[asset];
+    if (!override) {
+        return base;
+    }
+
+    const entry = Object.fromEntries(
+        (Object.keys(base.entry) as VolatilityRegime[]).map(regime => [regime, { ...base.entry[regime], ...override.entry?.[regime] }])
+    ) as AssetProfile['entry'];
+
+    return {
+        enabled: override.enabled ?? base.enabled,
+        entry,
+        targetPercentile: override.targetPercentile ?? base.targetPercentile,
+        maxLeverage: override.maxLeverage ?? base.maxLeverage,
+        maxSizePct: override.maxSizePct ?? base.maxSizePct,
+        cooldownMinutes: override.cooldownMinutes ?? base.cooldownMinutes,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 LOADING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const versionOf = (config: StrategyConfig): string => {
+    const hash = createHash('sha256').update(JSON.stringify(config)).digest('hex').slice(0, 8);
+    return config.label ? `${config.label}@${hash}` : hash;
+};
+
+/**
+ * Read and validate a strategy config file. Throws with every validation issue listed.
+ */
+export function loadStrategyConfigFile(filePath: string): StrategyConfig {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const parsed = StrategyConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+        throw new Error(`Invalid strategy config ${filePath}:\n  ${issues.join('\n  ')}`);
+    }
+    return parsed.data;
+}
+
+// Dotted paths of every leaf value that differs between two configs
+function diffConfigs(before: unknown, after: unknown, prefix = ''): string[] {
+    if (typeof before === 'object' && before !== null && typeof after === 'object' && after !== null) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        return [...keys].flatMap(key =>
+            diffConfigs((before as any)[key], (after as any)[key], prefix ? `${prefix}.${key}` : key)
+        );
+    }
+    return before === after ? [] : [`${prefix}: ${JSON.stringify(before)} → ${JSON.stringify(after)}`];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎛️ ACTIVE CONFIG STORE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class StrategyConfigStore {
+    private static instance: StrategyConfigStore;
+    private active: LoadedStrategyConfig = {
+        config: DEFAULT_STRATEGY_CONFIG,
+        version: versionOf(DEFAULT_STRATEGY_CONFIG),
+        loadedAt: Date.now(),
+        source: 'built-in defaults'
+    };
+    private watchedPath: string | null = null;
+    private listeners: Array<(loaded: LoadedStrategyConfig) => void> = [];
+
+    private constructor() {}
+
+    public static getInstance(): StrategyConfigStore {
+        if (!StrategyConfigStore.instance) {
+            StrategyConfigStore.instance = new StrategyConfigStore();
+        }
+        return StrategyConfigStore.instance;
+    }
+
+    public get(): StrategyConfig {
+        return this.active.config;
+    }
+
+    public getVersion(): string {
+        return this.active.version;
+    }
+
+    public getLoaded(): LoadedStrategyConfig {
+        return this.active;
+    }
+
+    public getAssetProfile(asset: Asset): AssetProfile {
+        return resolveAssetProfile(this.active.config, asset);
+    }
+
+    public onReload(listener: (loaded: LoadedStrategyConfig) => void): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Load the config file and make it active. A missing file keeps the built-in defaults;
+     * an invalid file throws so the agent never starts on a config it cannot read.
+     */
+    public load(filePath: string = DEFAULT_STRATEGY_CONFIG_PATH): LoadedStrategyConfig {
+        if (!fs.existsSync(filePath)) {
+            console.warn(`[STRATEGY_CONFIG] ${filePath} not found - using built-in defaults (${this.active.version})`);
+            return this.active;
+        }
+
+        this.activate(loadStrategyConfigFile(filePath), filePath);
+        console.warn(`[STRATEGY_CONFIG] Loaded ${this.active.version} from ${filePath}`);
+        return this.active;
+    }
+
+    /**
+     * Reload the file whenever it changes. A bad edit is logged and the running config kept.
+     */
+    public watch(filePath: string = DEFAULT_STRATEGY_CONFIG_PATH, intervalMs: number = 2000): void {
+        this.unwatch();
+        this.watchedPath = filePath;
+
+        fs.watchFile(filePath, { interval: intervalMs }, (current, previous) => {
+            if (current.mtimeMs === previous.mtimeMs || current.mtimeMs === 0) {
+                return;
+            }
+
+            try {
+                const before = this.active;
+                const config = loadStrategyConfigFile(filePath);
+                if (versionOf(config) === before.version) {
+                    return;
+                }
+
+                this.activate(config, filePath);
+                const changes = diffConfigs(before.config, config);
+                console.warn(`[STRATEGY_CONFIG] 🔄 Reloaded ${this.active.version} (was ${before.version}):\n  ${changes.join('\n  ')}`);
+                for (const listener of this.listeners) {
+                    listener(this.active);
+                }
+            } catch (error) {
+                console.error(`[STRATEGY_CONFIG] ❌ Reload rejected, keeping ${this.active.version}: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+
+        console.warn(`[STRATEGY_CONFIG] Watching ${filePath} for changes`);
+    }
+
+    public unwatch(): void {
+        if (this.watchedPath) {
+            fs.unwatchFile(this.watchedPath);
+            this.watchedPath = null;
+        }
+    }
+
+    private activate(config: StrategyConfig, source: string): void {
+        this.active = { config, version: versionOf(config), loadedAt: Date.now(), source };
+    }
+}
+
+// Export singleton instance
+export const strategyConfig = StrategyConfigStore.getInstance();
@@ -0,0 +1,409 @@
+#!/usr/bin/env bun
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * SYNTH PERCENTILE STRATEGY - OFFLINE BACKTESTER
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Replays stored LP bounds snapshots against a local 15m candle file using the
+ * same decision rule as the live agent (evaluateSynthStrategy).
+ *
+ * Usage:
+ *   bun run synth-backtest.ts --asset BTC --candles ./data/btc-15m.json \
+ *     [--snapshots ./data/lp-bounds-snapshots.json] [--initial-equity 10000] \
+ *     [--fee-bps 6] [--slippage-bps 10] [--cooldown-minutes 60] [--out ./backtest-results] \
+ *     [--strategy-config ./strategy-config.json]
+ *
+ * Candle file: GMX candles API response ({ candles: [[ts, open, high, low, close], ...] })
+ * or a bare array of the same rows. Timestamps are in seconds.
+ * Entry thresholds, the default cooldown and the size caps (maxLeverage, maxSizePct) come from
+ * the asset's profile in the strategy config file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { type Asset, type AssetProfile, ASSETS } from './gmx-types';
+import { calculate24HourVolatility, calculatePerformanceMetrics } from './gmx-utils';
+import { evaluateSynthStrategy, selectReferenceSnapshots, MIN_SYNTH_SNAPSHOTS, type LPBoundsSnapshot, type SnapshotStorage, type VolatilityRegime } from './synth-utils';
+import { DEFAULT_PAPER_TRADING_CONFIG } from './gmx-paper';
+import { DEFAULT_RISK_LIMITS } from './gmx-risk';
+import { strategyConfig, resolveAssetProfile, DEFAULT_STRATEGY_CONFIG_PATH, type StrategyConfig } from './strategy-config';
+
+// Get __dirname in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 TYPE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface BacktestConfig {
+    asset: Asset;
+    candlesPath: string;
+    snapshotsPath: string;
+    initialEquity: number;
+    feeBps: number;
+    slippageBps: number;
+    cooldownMinutes: number;
+    outDir: string;
+    strategy: StrategyConfig;
+    strategyConfigVersion: string;
+}
+
+interface Candle {
+    timestamp: number; // open time, ms
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+interface OpenTrade {
+    direction: 'LONG' | 'SHORT';
+    entryTime: number;
+    entryPrice: number;
+    entryPercentile: number;
+    stopLoss: number;
+    target: number;
+    regime: VolatilityRegime;
+    volatility24h: number;
+    notionalUsd: number;
+    collateralUsd: number;
+    leverage: number;
+}
+
+interface ClosedTrade extends OpenTrade {
+    exitTime: number;
+    exitPrice: number;
+    exitReason: 'TARGET' | 'STOP_LOSS' | 'END_OF_DATA';
+    grossPnlUsd: number;
+    feesUsd: number;
+    pnlUsd: number;
+    returnPct: number;
+    equityAfter: number;
+}
+
+interface EquityPoint {
+    timestamp: number;
+    equity: number;
+    drawdownPct: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const CANDLE_PERIOD_MS = 15 * 60 * 1000;
+const VOLATILITY_LOOKBACK_CANDLES = 96; // 24h of 15m candles, same as the live volatility cache
+const SNAPSHOT_LOOKBACK_MS = 72 * 60 * 60 * 1000; // getSynthSnapshots keeps the last 72h
+
+// Collateral per trade by regime, as % of portfolio - the regime table in the agent's trading rules
+const REGIME_PORTFOLIO_PCT: Record<VolatilityRegime, number> = {
+    VERY_LOW: 20,
+    LOW: 25,
+    MEDIUM: 30,
+    HIGH: 35,
+};
+
+// The size the live agent may open: the regime table capped by the risk limits and the asset profile
+function sizeTrade(profile: AssetProfile, regime: VolatilityRegime): { portfolioPct: number, leverage: number } {
+    const portfolioPct = Math.min(REGIME_PORTFOLIO_PCT[regime], DEFAULT_RISK_LIMITS.maxTradePortfolioPct, profile.maxSizePct);
+    const leverage = Math.min(DEFAULT_RISK_LIMITS.maxLeverageByRegime[regime], profile.maxLeverage);
+    return { portfolioPct: portfolioPct / 100, leverage };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📂 INPUT LOADING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function parseArgs(argv: string[]): BacktestConfig {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith('--')) {
+            args[argv[i].slice(2)] = argv[i + 1];
+            i++;
+        }
+    }
+
+    const asset = args.asset?.toUpperCase() as Asset;
+    if (!asset || !ASSETS.includes(asset)) {
+        throw new Error(`--asset is required and must be one of: ${ASSETS.join(', ')}`);
+    }
+    if (!args.candles) {
+        throw new Error('--candles is required (path to a local 15m candle file)');
+    }
+
+    const strategy = strategyConfig.load(path.resolve(args['strategy-config'] ?? DEFAULT_STRATEGY_CONFIG_PATH));
+
+    return {
+        asset,
+        candlesPath: path.resolve(args.candles),
+        snapshotsPath: path.resolve(args.snapshots ?? path.join(__dirname, 'data', 'lp-bounds-snapshots.json')),
+        initialEquity: args['initial-equity'] ? parseFloat(args['initial-equity']) : 10_000,
+        feeBps: args['fee-bps'] ? parseFloat(args['fee-bps']) : DEFAULT_PAPER_TRADING_CONFIG.positionFeeBps,
+        slippageBps: args['slippage-bps'] ? parseFloat(args['slippage-bps']) : DEFAULT_PAPER_TRADING_CONFIG.slippageBps,
+        cooldownMinutes: args['cooldown-minutes'] ? parseFloat(args['cooldown-minutes']) : resolveAssetProfile(strategy.config, asset).cooldownMinutes,
+        outDir: path.resolve(args.out ?? path.join(__dirname, 'backtest-results')),
+        strategy: strategy.config,
+        strategyConfigVersion: strategy.version,
+    };
+}
+
+function loadCandles(filePath: string): Candle[] {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const rows: number[][] = Array.isArray(raw) ? raw : raw?.candles;
+    if (!Array.isArray(rows) || rows.length === 0) {
+        throw new Error(`No candles found in ${filePath}`);
+    }
+
+    return rows
+        .map(row => ({
+            timestamp: row[0] * 1000,
+            open: Number(row[1]),
+            high: Number(row[2]),
+            low: Number(row[3]),
+            close: Number(row[4]),
+        }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function loadSnapshots(filePath: string, asset: Asset): LPBoundsSnapshot[] {
+    const store = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SnapshotStorage;
+    const snapshots = store?.snapshots?.[asset];
+    if (!Array.isArray(snapshots) || snapshots.length === 0) {
+        throw new Error(`No ${asset} snapshots found in ${filePath}`);
+    }
+    return [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔁 SIMULATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function closeTrade(trade: OpenTrade, exitTime: number, rawExitPrice: number, exitReason: ClosedTrade['exitReason'], equity: number, config: BacktestConfig): ClosedTrade {
+    // Slippage always works against the trader
+    const slippage = config.slippageBps / 10000;
+    const exitPrice = trade.direction === 'LONG' ? rawExitPrice * (1 - slippage) : rawExitPrice * (1 + slippage);
+
+    const priceChange = (exitPrice - trade.entryPrice) / trade.entryPrice;
+    const grossPnlUsd = trade.notionalUsd * (trade.direction === 'LONG' ? priceChange : -priceChange);
+    const exitNotional = trade.notionalUsd * (exitPrice / trade.entryPrice);
+    const feesUsd = (trade.notionalUsd + exitNotional) * config.feeBps / 10000;
+    const pnlUsd = grossPnlUsd - feesUsd;
+
+    return {
+        ...trade,
+        exitTime,
+        exitPrice,
+        exitReason,
+        grossPnlUsd,
+        feesUsd,
+        pnlUsd,
+        returnPct: (pnlUsd / trade.collateralUsd) * 100,
+        equityAfter: equity + pnlUsd,
+    };
+}
+
+function unrealizedPnl(trade: OpenTrade, price: number): number {
+    const priceChange = (price - trade.entryPrice) / trade.entryPrice;
+    return trade.notionalUsd * (trade.direction === 'LONG' ? priceChange : -priceChange);
+}
+
+function runBacktest(config: BacktestConfig, candles: Candle[], snapshots: LPBoundsSnapshot[]) {
+    const trades: ClosedTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+    const cooldownMs = config.cooldownMinutes * 60 * 1000;
+    const profile = resolveAssetProfile(config.strategy, config.asset);
+
+    let equity = config.initialEquity;
+    let peakEquity = equity;
+    let openTrade: OpenTrade | null = null;
+    let lastTriggerTime = 0;
+    let evaluations = 0;
+    let skippedForData = 0;
+
+    // Sliding window over snapshots visible at each evaluation time
+    let windowStart = 0;
+    let windowEnd = 0;
+
+    for (let i = VOLATILITY_LOOKBACK_CANDLES - 1; i < candles.length; i++) {
+        const candle = candles[i];
+        const evalTime = candle.timestamp + CANDLE_PERIOD_MS;
+
+        // 1. Manage the open trade against this candle's range (stop checked first - conservative)
+        if (openTrade) {
+            const isLong = openTrade.direction === 'LONG';
+            const stopHit = isLong ? candle.low <= openTrade.stopLoss : candle.high >= openTrade.stopLoss;
+            const targetHit = isLong ? candle.high >= openTrade.target : candle.low <= openTrade.target;
+
+            if (stopHit) {
+                // Gap through the stop fills at the open
+                const fill = isLong ? Math.min(openTrade.stopLoss, candle.open) : Math.max(openTrade.stopLoss, candle.open);
+                const closed = closeTrade(openTrade, evalTime, fill, 'STOP_LOSS', equity, config);
+                trades.push(closed);
+                equity = closed.equityAfter;
+                openTrade = null;
+            } else if (targetHit) {
+                const fill = isLong ? Math.max(openTrade.target, candle.open) : Math.min(openTrade.target, candle.open);
+                const closed = closeTrade(openTrade, evalTime, fill, 'TARGET', equity, config);
+                trades.push(closed);
+                equity = closed.equityAfter;
+                openTrade = null;
+            }
+        }
+
+        // 2. Evaluate the strategy at candle close when flat and out of cooldown
+        if (!openTrade && evalTime - lastTriggerTime >= cooldownMs) {
+            while (windowEnd < snapshots.length && snapshots[windowEnd].timestamp <= evalTime) windowEnd++;
+            while (windowStart < windowEnd && evalTime - snapshots[windowStart].timestamp > SNAPSHOT_LOOKBACK_MS) windowStart++;
+
+            if (windowEnd - windowStart < MIN_SYNTH_SNAPSHOTS) {
+                skippedForData++;
+            } else {
+                evaluations++;
+                const volatility24h = calculate24HourVolatility(
+                    candles.slice(i - VOLATILITY_LOOKBACK_CANDLES + 1, i + 1).map(c => [c.timestamp, c.open, c.high, c.low, c.close])
+                );
+                const reference = selectReferenceSnapshots(snapshots.slice(windowStart, windowEnd));
+                const analysis = evaluateSynthStrategy(reference, candle.close, volatility24h, config.asset, config.strategy);
+
+                if (analysis.signal !== 'WAIT' && analysis.stopLoss !== null) {
+                    const sizing = sizeTrade(profile, analysis.volatility);
+                    const slippage = config.slippageBps / 10000;
+                    const entryPrice = analysis.signal === 'LONG' ? candle.close * (1 + slippage) : candle.close * (1 - slippage);
+                    const collateralUsd = equity * sizing.portfolioPct;
+
+                    openTrade = {
+                        direction: analysis.signal,
+                        entryTime: evalTime,
+                        entryPrice,
+                        entryPercentile: analysis.currentPercentile,
+                        stopLoss: analysis.stopLoss,
+                        target: analysis.target,
+                        regime: analysis.volatility,
+                        volatility24h,
+                        notionalUsd: collateralUsd * sizing.leverage,
+                        collateralUsd,
+                        leverage: sizing.leverage,
+                    };
+                    lastTriggerTime = evalTime;
+                }
+            }
+        }
+
+        // 3. Mark-to-market equity for the curve
+        const markedEquity = equity + (openTrade ? unrealizedPnl(openTrade, candle.close) : 0);
+        peakEquity = Math.max(peakEquity, markedEquity);
+        equityCurve.push({
+            timestamp: evalTime,
+            equity: markedEquity,
+            drawdownPct: peakEquity > 0 ? ((peakEquity - markedEquity) / peakEquity) * 100 : 0,
+        });
+    }
+
+    // Close anything still open at the last available price
+    if (openTrade) {
+        const last = candles[candles.length - 1];
+        const closed = closeTrade(openTrade, last.timestamp + CANDLE_PERIOD_MS, last.close, 'END_OF_DATA', equity, config);
+        trades.push(closed);
+        equity = closed.equityAfter;
+        if (equityCurve.length > 0) {
+            equityCurve[equityCurve.length - 1].equity = equity;
+        }
+    }
+
+    const performance = calculatePerformanceMetrics(trades);
+    const maxDrawdownPct = equityCurve.reduce((max, point) => Math.max(max, point.drawdownPct), 0);
+
+    return {
+        trades,
+        equityCurve,
+        metrics: {
+            ...performance,
+            initialEquity: config.initialEquity,
+            finalEquity: equity,
+            totalReturnPct: ((equity - config.initialEquity) / config.initialEquity) * 100,
+            maxDrawdownPct,
+            totalFees: trades.reduce((sum, t) => sum + t.feesUsd, 0),
+            evaluations,
+            skippedForData,
+        },
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 REPORTING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const formatTime = (ms: number) => new Date(ms).toISOString().replace('T', ' ').slice(0, 16);
+
+function printReport(config: BacktestConfig, result: ReturnType<typeof runBacktest>): void {
+    const { trades, metrics } = result;
+
+    console.log(`\n📜 TRADE LEDGER - ${config.asset} (${trades.length} trades)`);
+    for (const [index, t] of trades.entries()) {
+        const branch = index === trades.length - 1 ? '└─' : '├─';
+        console.log(
+            `${branch} #${index + 1} ${t.direction} ${t.regime} | ${formatTime(t.entryTime)} @ $${t.entryPrice.toFixed(2)} (P${t.entryPercentile.toFixed(1)}) → ` +
+            `${formatTime(t.exitTime)} @ $${t.exitPrice.toFixed(2)} [${t.exitReason}] | PnL $${t.pnlUsd.toFixed(2)} (${t.returnPct.toFixed(2)}%) | Equity $${t.equityAfter.toFixed(2)}`
+        );
+    }
+
+    const profitFactor = Number.isFinite(metrics.profitFactor) ? metrics.profitFactor.toFixed(2) : '∞';
+    console.log(`\n📊 PERFORMANCE SUMMARY (strategy config ${config.strategyConfigVersion})`);
+    console.log(`├─ Initial Equity: $${metrics.initialEquity.toFixed(2)}`);
+    console.log(`├─ Final Equity: $${metrics.finalEquity.toFixed(2)}`);
+    console.log(`├─ Total Return: ${metrics.totalReturnPct.toFixed(2)}%`);
+    console.log(`├─ Trades: ${metrics.totalTrades} (${metrics.winningTrades}W / ${metrics.losingTrades}L)`);
+    console.log(`├─ Win Rate: ${metrics.winRate.toFixed(1)}%`);
+    console.log(`├─ Profit Factor: ${profitFactor}`);
+    console.log(`├─ Avg Win / Avg Loss: $${metrics.averageProfit.toFixed(2)} / $${metrics.averageLoss.toFixed(2)}`);
+    console.log(`├─ Max Drawdown: ${metrics.maxDrawdownPct.toFixed(2)}%`);
+    console.log(`├─ Total Fees: $${metrics.totalFees.toFixed(2)}`);
+    console.log(`└─ Evaluations: ${metrics.evaluations} (skipped ${metrics.skippedForData} for insufficient snapshots)`);
+}
+
+function saveResults(config: BacktestConfig, result: ReturnType<typeof runBacktest>): string {
+    fs.mkdirSync(config.outDir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const outPath = path.join(config.outDir, `synth-${config.asset}-${stamp}.json`);
+
+    fs.writeFileSync(outPath, JSON.stringify({
+        config,
+        metrics: {
+            ...result.metrics,
+            // JSON has no Infinity
+            profitFactor: Number.isFinite(result.metrics.profitFactor) ? result.metrics.profitFactor : null,
+        },
+        trades: result.trades,
+        equityCurve: result.equityCurve,
+    }, null, 2));
+
+    return outPath;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+    try {
+        const config = parseArgs(process.argv.slice(2));
+        console.log(`[SynthBacktest] Loading ${config.asset} candles from ${config.candlesPath}`);
+        const candles = loadCandles(config.candlesPath);
+        console.log(`[SynthBacktest] Loading ${config.asset} snapshots from ${config.snapshotsPath}`);
+        const snapshots = loadSnapshots(config.snapshotsPath, config.asset);
+        console.log(`[SynthBacktest] Replaying ${candles.length} candles against ${snapshots.length} snapshots...`);
+
+        const result = runBacktest(config, candles, snapshots);
+        printReport(config, result);
+
+        const outPath = saveResults(config, result);
+        console.log(`\n[SynthBacktest] Results written to ${outPath}`);
+        process.exit(0);
+    } catch (error) {
+        console.error('[SynthBacktest] Fatal error:', error);
+        process.exit(1);
+    }
+}
+
+export { runBacktest, loadCandles, loadSnapshots, type BacktestConfig, type ClosedTrade, type EquityPoint };
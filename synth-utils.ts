@@ -8,7 +8,8 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
-import { type Asset } from './gmx-types';
+import { type Asset, type VolatilityRegime } from './gmx-types';
+import { resolveAssetProfile, strategyConfig, type StrategyConfig } from './strategy-config';
 
 // Get __dirname in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -26,12 +27,12 @@ export interface LPBoundsResponse {
 }
 
 // Types for LP bounds snapshots
-interface LPBoundsSnapshot {
+export interface LPBoundsSnapshot {
   timestamp: number;
   bounds: LPBoundsResponse;
 }
 
-interface SnapshotStorage {
+export interface SnapshotStorage {
   version: string;
   snapshots: Record<Asset, LPBoundsSnapshot[]>;
 }
@@ -143,203 +144,253 @@ function calculateMergedPercentiles(snapshots: LPBoundsSnapshot[]): { prices: nu
   };
 }
 
-interface SimplifiedSynthAnalysis {
+export type { VolatilityRegime };
+
+export interface SynthPercentiles {
+  p1: number;
+  p5: number;
+  p10: number;
+  p15: number;
+  p20: number;
+  p30: number;
+  p40: number;
+  p50: number;
+  p60: number;
+  p70: number;
+  p80: number;
+  p85: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+// Entry, target and bounds levels applied for the current regime, as percentile and price
+export interface SynthStrategyLevels {
+  longEntryPercentile: number;
+  longEntryPrice: number;
+  shortEntryPercentile: number;
+  shortEntryPrice: number;
+  targetPercentile: number;
+  lowerBoundPercentile: number;
+  lowerBoundPrice: number;
+  upperBoundPercentile: number;
+  upperBoundPrice: number;
+}
+
+export interface SimplifiedSynthAnalysis {
   signal: 'LONG' | 'SHORT' | 'WAIT';
   currentPrice: number;
   currentPercentile: number;
-  percentiles24h: {
-    p1: number;
-    p5: number;
-    p10: number;
-    p15: number;
-    p20: number;
-    p30: number;
-    p40: number;
-    p50: number;
-    p60: number;
-    p70: number;
-    p80: number;
-    p85: number;
-    p90: number;
-    p95: number;
-    p99: number;
-  };
-  volatility: 'VERY_LOW' | 'LOW' | 'MEDIUM' | 'HIGH';
+  percentiles24h: SynthPercentiles;
+  volatility: VolatilityRegime;
   target: number;
+  stopLoss: number | null;
+  levels: SynthStrategyLevels;
+  // False when the asset's profile is disabled - the signal is then always WAIT
+  assetEnabled: boolean;
 }
 
-// Main analysis function - compares current price against 24h ago percentiles
-export async function getEnhancedSynthAnalysis(
-  asset: Asset,
-  currentPrice: number,
-  volatility24h: number
-): Promise<string> {
-  try {
-    // Load snapshots to get 24h ago data (288 snapshots @ 5min intervals = 24h)
-    const snapshots = await getSynthSnapshots(asset);
+// Public analysis result - the strategy decision plus the data it was derived from
+export interface SynthAnalysis extends SimplifiedSynthAnalysis {
+  success: true;
+  asset: Asset;
+  volatility24h: number;
+  // Timestamps (ms) of the reference snapshots merged into percentiles24h, oldest first
+  snapshotTimestamps: number[];
+  // Strategy config version the decision was made under
+  configVersion: string;
+}
+
+export interface SynthAnalysisError {
+  success: false;
+  asset: Asset;
+  error: string;
+}
+
+export type SynthAnalysisResult = SynthAnalysis | SynthAnalysisError;
+
+// Snapshots needed before a decision can be made (288 @ 5min = 24h, plus 3 for the merge window)
+export const MIN_SYNTH_SNAPSHOTS = 291;
+
+// Pick the 7 snapshots around the 24h ago mark (indices 285-291 from the end, 288 being the center)
+export function selectReferenceSnapshots(snapshots: LPBoundsSnapshot[]): LPBoundsSnapshot[] {
+  if (snapshots.length < MIN_SYNTH_SNAPSHOTS) {
+    throw new Error(`Need at least ${MIN_SYNTH_SNAPSHOTS} snapshots (24h+3 of data), have ${snapshots.length}`);
+  }
+
+  const targetSnapshots: LPBoundsSnapshot[] = [];
+  for (let i = 285; i <= 291; i++) {
+    const snapshot = snapshots[snapshots.length - i];
+    const bounds = snapshot?.bounds?.data?.['24h']?.probability_below;
     
-    // Need at least 291 snapshots to get 7 snapshots around the 24h mark
-    if (snapshots.length < 291) {
-      throw new Error(`Need at least 291 snapshots (24h+3 of data), have ${snapshots.length}`);
+    if (!bounds || Object.keys(bounds).length === 0) {
+      throw new Error(`Invalid snapshot at index ${i} - missing probability data`);
     }
+    targetSnapshots.push(snapshot);
+  }
+  
+  // Verify we have exactly 7 snapshots
+  if (targetSnapshots.length !== 7) {
+    throw new Error(`Expected 7 snapshots, got ${targetSnapshots.length}`);
+  }
 
-    // Gather 7 snapshots around the 24h ago mark (indices 285-291, with 288 being the center)
-    const targetSnapshots: LPBoundsSnapshot[] = [];
-    for (let i = 285; i <= 291; i++) {
-      const snapshot = snapshots[snapshots.length - i];
-      const bounds = snapshot?.bounds?.data?.['24h']?.probability_below;
-      
-      if (!bounds || Object.keys(bounds).length === 0) {
-        throw new Error(`Invalid snapshot at index ${i} - missing probability data`);
+  return targetSnapshots;
+}
+
+// Determine volatility regime based on 24h volatility (0-100% scale), cut-offs from the strategy config
+export function getVolatilityRegime(
+  volatility24h: number,
+  cutoffs: StrategyConfig['volatility'] = strategyConfig.get().volatility
+): VolatilityRegime {
+  if (volatility24h < cutoffs.veryLowBelow) {
+    return 'VERY_LOW';
+  } else if (volatility24h < cutoffs.lowBelow) {
+    return 'LOW';
+  } else if (volatility24h < cutoffs.mediumBelow) {
+    return 'MEDIUM';
+  }
+  return 'HIGH';
+}
+
+// Pure strategy decision - shared by the live analysis and the offline backtester
+export function evaluateSynthStrategy(
+  referenceSnapshots: LPBoundsSnapshot[],
+  currentPrice: number,
+  volatility24h: number,
+  asset: Asset,
+  config: StrategyConfig = strategyConfig.get()
+): SimplifiedSynthAnalysis {
+  // Merge the reference snapshots by averaging their percentiles
+  const mergedData = calculateMergedPercentiles(referenceSnapshots);
+  
+  // Use merged data for analysis
+  const prices = mergedData.prices;
+  const probs = mergedData.probs;
+  
+  // Calculate key percentiles using interpolation
+  const findPercentile = (target: number): number => {
+    for (let i = 0; i < probs.length - 1; i++) {
+      if (probs[i] <= target && target <= probs[i + 1]) {
+        const t = (target - probs[i]) / (probs[i + 1] - probs[i]);
+        return prices[i] + t * (prices[i + 1] - prices[i]);
       }
-      targetSnapshots.push(snapshot);
     }
-    
-    // Verify we have exactly 7 snapshots
-    if (targetSnapshots.length !== 7) {
-      throw new Error(`Expected 7 snapshots, got ${targetSnapshots.length}`);
-    }
-    
-    // Merge the 7 snapshots by averaging their percentiles
-    const mergedData = calculateMergedPercentiles(targetSnapshots);
-    
-    // Use merged data for analysis
-    const prices = mergedData.prices;
-    const probs = mergedData.probs;
-    
-    // Calculate key percentiles using interpolation
-    const findPercentile = (target: number): number => {
-      for (let i = 0; i < probs.length - 1; i++) {
-        if (probs[i] <= target && target <= probs[i + 1]) {
-          const t = (target - probs[i]) / (probs[i + 1] - probs[i]);
-          return prices[i] + t * (prices[i + 1] - prices[i]);
-        }
-      }
-      return prices[Math.floor(prices.length / 2)]; // fallback to median
-    };
+    return prices[Math.floor(prices.length / 2)]; // fallback to median
+  };
 
-    const percentiles24h = {
-      p1: findPercentile(0.01),
-      p5: findPercentile(0.05),
-      p10: findPercentile(0.10),
-      p15: findPercentile(0.15),
-      p20: findPercentile(0.20),
-      p30: findPercentile(0.30),
-      p40: findPercentile(0.40),
-      p50: findPercentile(0.50),
-      p60: findPercentile(0.60),
-      p70: findPercentile(0.70),
-      p80: findPercentile(0.80),
-      p85: findPercentile(0.85),
-      p90: findPercentile(0.90),
-      p95: findPercentile(0.95),
-      p99: findPercentile(0.99)
-    };
+  const percentiles24h: SynthPercentiles = {
+    p1: findPercentile(0.01),
+    p5: findPercentile(0.05),
+    p10: findPercentile(0.10),
+    p15: findPercentile(0.15),
+    p20: findPercentile(0.20),
+    p30: findPercentile(0.30),
+    p40: findPercentile(0.40),
+    p50: findPercentile(0.50),
+    p60: findPercentile(0.60),
+    p70: findPercentile(0.70),
+    p80: findPercentile(0.80),
+    p85: findPercentile(0.85),
+    p90: findPercentile(0.90),
+    p95: findPercentile(0.95),
+    p99: findPercentile(0.99)
+  };
 
-    // Determine volatility regime based on 24h volatility (0-100% scale)
-    let volatilityRegime: 'VERY_LOW' | 'LOW' | 'MEDIUM' | 'HIGH';
-    if (volatility24h < 20) { // 0-20%
-      volatilityRegime = 'VERY_LOW';
-    } else if (volatility24h < 40) { // 20-40%
-      volatilityRegime = 'LOW';
-    } else if (volatility24h < 60) { // 40-60%
-      volatilityRegime = 'MEDIUM';
-    } else { // 60%+
-      volatilityRegime = 'HIGH';
-    }
+  const volatilityRegime = getVolatilityRegime(volatility24h, config.volatility);
+  const profile = resolveAssetProfile(config, asset);
+  const rules = profile.entry[volatilityRegime];
 
-    // Calculate exact percentile of current price within 24h ago distribution using interpolation
-    const currentPricePercentileIn24h = calculateCurrentPricePercentileIn24hDistribution(currentPrice, prices, probs);
-
-    // Check if price is outside prediction bounds - if so, wait
-    if (currentPrice < percentiles24h.p1 || currentPrice > percentiles24h.p99) {
-      return formatSimplifiedAnalysis(asset, {
-        signal: 'WAIT',
-        currentPrice,
-        currentPercentile: currentPricePercentileIn24h,
-        percentiles24h,
-        volatility: volatilityRegime,
-        target: percentiles24h.p50,
-      });
-    }
+  // Calculate exact percentile of current price within 24h ago distribution using interpolation
+  const currentPricePercentileIn24h = calculateCurrentPricePercentileIn24hDistribution(currentPrice, prices, probs);
 
-    // Apply strategy based on volatility
-    let signal: 'LONG' | 'SHORT' | 'WAIT' = 'WAIT';
-    let entry: number | null = null;
-    let stopLoss: number | null = null;
-    
-    if (volatilityRegime === 'VERY_LOW') {
-      // Very low vol: P20 <= long / P80 >= short
-      if (currentPrice <= percentiles24h.p20) {
-        signal = 'LONG';
-        entry = currentPrice;
-        // Ensure stop is below current price for LONG positions
-        stopLoss = Math.min(percentiles24h.p15, currentPrice * 0.995); // At least 0.5% below entry
-      } else if (currentPrice >= percentiles24h.p80) {
-        signal = 'SHORT';
-        entry = currentPrice;
-        // Ensure stop is above current price for SHORT positions
-        stopLoss = Math.max(percentiles24h.p85, currentPrice * 1.005); // At least 0.5% above entry
-      }
-    } else if (volatilityRegime === 'LOW') {
-      // Low vol: P15 <= long / P85 >= short
-      if (currentPrice <= percentiles24h.p15) {
-        signal = 'LONG';
-        entry = currentPrice;
-        // Ensure stop is below current price for LONG positions
-        stopLoss = Math.min(percentiles24h.p10, currentPrice * 0.99); // At least 1% below entry
-      } else if (currentPrice >= percentiles24h.p85) {
-        signal = 'SHORT';
-        entry = currentPrice;
-        // Ensure stop is above current price for SHORT positions
-        stopLoss = Math.max(percentiles24h.p90, currentPrice * 1.01); // At least 1% above entry
-      }
-    } else if (volatilityRegime === 'MEDIUM') {
-      // Medium vol: P10 <= long / P90 >= short
-      if (currentPrice <= percentiles24h.p10) {
-        signal = 'LONG';
-        entry = currentPrice;
-        // Ensure stop is below current price for LONG positions
-        stopLoss = Math.min(percentiles24h.p5, currentPrice * 0.99); // At least 1% below entry
-      } else if (currentPrice >= percentiles24h.p90) {
-        signal = 'SHORT';
-        entry = currentPrice;
-        // Ensure stop is above current price for SHORT positions
-        stopLoss = Math.max(percentiles24h.p95, currentPrice * 1.01); // At least 1% above entry
-      }
-    } else { // HIGH volatility
-      // High vol: P5 <= long / P95 >= short
-      if (currentPrice <= percentiles24h.p5) {
-        signal = 'LONG';
-        entry = currentPrice;
-        // Ensure stop is below current price for LONG positions
-        stopLoss = Math.min(percentiles24h.p1, currentPrice * 0.98); // At least 2% below entry for high vol
-      } else if (currentPrice >= percentiles24h.p95) {
-        signal = 'SHORT';
-        entry = currentPrice;
-        // Ensure stop is above current price for SHORT positions
-        stopLoss = Math.max(percentiles24h.p99, currentPrice * 1.02); // At least 2% above entry for high vol
-      }
-    }
+  const levels: SynthStrategyLevels = {
+    longEntryPercentile: rules.longAtOrBelow,
+    longEntryPrice: findPercentile(rules.longAtOrBelow / 100),
+    shortEntryPercentile: rules.shortAtOrAbove,
+    shortEntryPrice: findPercentile(rules.shortAtOrAbove / 100),
+    targetPercentile: profile.targetPercentile,
+    lowerBoundPercentile: config.waitOutside.belowPercentile,
+    lowerBoundPrice: findPercentile(config.waitOutside.belowPercentile / 100),
+    upperBoundPercentile: config.waitOutside.abovePercentile,
+    upperBoundPrice: findPercentile(config.waitOutside.abovePercentile / 100)
+  };
 
-    // Target is always P50 (median from 24h ago)
-    const target = percentiles24h.p50;
+  // Target defaults to P50 (median from 24h ago)
+  const target = findPercentile(profile.targetPercentile / 100);
 
-    // Format output for agent consumption
-    const analysis: SimplifiedSynthAnalysis = {
-      signal,
+  // Check if the asset is disabled or price is outside prediction bounds - if so, wait
+  if (!profile.enabled || currentPrice < levels.lowerBoundPrice || currentPrice > levels.upperBoundPrice) {
+    return {
+      signal: 'WAIT',
       currentPrice,
       currentPercentile: currentPricePercentileIn24h,
       percentiles24h,
       volatility: volatilityRegime,
-      target
+      target,
+      stopLoss: null,
+      levels,
+      assetEnabled: profile.enabled
     };
+  }
 
-    return formatSimplifiedAnalysis(asset, analysis);
+  // Apply the entry rules for the current volatility regime
+  let signal: 'LONG' | 'SHORT' | 'WAIT' = 'WAIT';
+  let stopLoss: number | null = null;
+  const minStopDistance = rules.minStopDistancePct / 100;
+
+  if (currentPrice <= levels.longEntryPrice) {
+    signal = 'LONG';
+    // Ensure stop is below current price for LONG positions
+    stopLoss = Math.min(findPercentile(rules.longStopPercentile / 100), currentPrice * (1 - minStopDistance));
+  } else if (currentPrice >= levels.shortEntryPrice) {
+    signal = 'SHORT';
+    // Ensure stop is above current price for SHORT positions
+    stopLoss = Math.max(findPercentile(rules.shortStopPercentile / 100), currentPrice * (1 + minStopDistance));
+  }
+
+  return {
+    signal,
+    currentPrice,
+    currentPercentile: currentPricePercentileIn24h,
+    percentiles24h,
+    volatility: volatilityRegime,
+    target,
+    stopLoss,
+    levels,
+    assetEnabled: true
+  };
+}
+
+// Main analysis function - compares current price against 24h ago percentiles
+export async function getEnhancedSynthAnalysis(
+  asset: Asset,
+  currentPrice: number,
+  volatility24h: number
+): Promise<SynthAnalysisResult> {
+  try {
+    // Load snapshots to get 24h ago data (288 snapshots @ 5min intervals = 24h)
+    const snapshots = await getSynthSnapshots(asset);
+    const targetSnapshots = selectReferenceSnapshots(snapshots);
+
+    // Read the config once so the decision and its recorded version cannot diverge mid-reload
+    const { config, version } = strategyConfig.getLoaded();
+    const analysis = evaluateSynthStrategy(targetSnapshots, currentPrice, volatility24h, asset, config);
+    return {
+      success: true,
+      asset,
+      volatility24h,
+      snapshotTimestamps: targetSnapshots.map(snapshot => snapshot.timestamp).sort((a, b) => a - b),
+      configVersion: version,
+      ...analysis
+    };
 
   } catch (error) {
     console.error(`[SimplifiedSynthAnalysis] Error for ${asset}:`, error);
-    return `SYNTH_${asset}_ANALYSIS:\n\nERROR: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    return {
+      success: false,
+      asset,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
   }
 }
 
@@ -369,9 +420,13 @@ function calculateCurrentPricePercentileIn24hDistribution(currentPrice: number,
   return 0;
 }
 
-// Format the simplified analysis for agent consumption
-function formatSimplifiedAnalysis(asset: Asset, analysis: SimplifiedSynthAnalysis): string {
-  const { signal, currentPrice, currentPercentile: currentPricePercentileIn24h, percentiles24h, volatility, target } = analysis;
+// Format the analysis result for agent consumption
+export function formatSynthAnalysis(result: SynthAnalysisResult): string {
+  if (!result.success) {
+    return `SYNTH_${result.asset}_ANALYSIS:\n\nERROR: ${result.error}`;
+  }
+
+  const { asset, signal, currentPrice, currentPercentile: currentPricePercentileIn24h, percentiles24h, volatility, target, levels, configVersion, assetEnabled } = result;
   
   let output = `SYNTH_${asset}_ANALYSIS:\n\n`;
   
@@ -380,7 +435,8 @@ function formatSimplifiedAnalysis(asset: Asset, analysis: SimplifiedSynthAnalysi
   output += `CURRENT_PRICE: $${currentPrice.toFixed(2)}\n`;
   output += `CURRENT_PRICE_PERCENTILE: P${currentPricePercentileIn24h.toFixed(1)}\n`;
   output += `VOLATILITY_REGIME: ${volatility}\n`;
-  output += `TARGET: $${target.toFixed(2)}\n\n`;
+  output += `TARGET: $${target.toFixed(2)} (P${levels.targetPercentile})\n`;
+  output += `STRATEGY_CONFIG: ${configVersion}\n\n`;
   
   // 24h ago percentiles (the reference data for strategy)
   output += `PERCENTILES:\n`;
@@ -391,7 +447,7 @@ function formatSimplifiedAnalysis(asset: Asset, analysis: SimplifiedSynthAnalysi
   output += `├─ P20: $${percentiles24h.p20.toFixed(2)}\n`;
   output += `├─ P30: $${percentiles24h.p30.toFixed(2)}\n`;
   output += `├─ P40: $${percentiles24h.p40.toFixed(2)}\n`;
-  output += `├─ P50: $${percentiles24h.p50.toFixed(2)} (TARGET)\n`;
+  output += `├─ P50: $${percentiles24h.p50.toFixed(2)}${levels.targetPercentile === 50 ? ' (TARGET)' : ''}\n`;
   output += `├─ P60: $${percentiles24h.p60.toFixed(2)}\n`;
   output += `├─ P70: $${percentiles24h.p70.toFixed(2)}\n`;
   output += `├─ P80: $${percentiles24h.p80.toFixed(2)}\n`;
@@ -402,16 +458,13 @@ function formatSimplifiedAnalysis(asset: Asset, analysis: SimplifiedSynthAnalysi
   
   // Strategy explanation
   output += `STRATEGY_LOGIC:\n`;
-  if (signal === 'WAIT' && (currentPrice < percentiles24h.p1 || currentPrice > percentiles24h.p99)) {
-    output += `Price outside prediction bounds [P1: $${percentiles24h.p1.toFixed(2)} - P99: $${percentiles24h.p99.toFixed(2)}] - WAITING\n`;
-  } else if (volatility === 'VERY_LOW') {
-    output += `Very low volatility: LONG ≤ P20 ($${percentiles24h.p20.toFixed(2)}), SHORT ≥ P80 ($${percentiles24h.p80.toFixed(2)})\n`;
-  } else if (volatility === 'LOW') {
-    output += `Low volatility: LONG ≤ P15 ($${percentiles24h.p15.toFixed(2)}), SHORT ≥ P85 ($${percentiles24h.p85.toFixed(2)})\n`;
-  } else if (volatility === 'MEDIUM') {
-    output += `Medium volatility: LONG ≤ P10 ($${percentiles24h.p10.toFixed(2)}), SHORT ≥ P90 ($${percentiles24h.p90.toFixed(2)})\n`;
+  if (!assetEnabled) {
+    output += `${asset} is disabled in the strategy config - WAITING\n`;
+  } else if (signal === 'WAIT' && (currentPrice < levels.lowerBoundPrice || currentPrice > levels.upperBoundPrice)) {
+    output += `Price outside prediction bounds [P${levels.lowerBoundPercentile}: $${levels.lowerBoundPrice.toFixed(2)} - P${levels.upperBoundPercentile}: $${levels.upperBoundPrice.toFixed(2)}] - WAITING\n`;
   } else {
-    output += `High volatility: LONG ≤ P5 ($${percentiles24h.p5.toFixed(2)}), SHORT ≥ P95 ($${percentiles24h.p95.toFixed(2)})\n`;
+    const regimeName = { VERY_LOW: 'Very low', LOW: 'Low', MEDIUM: 'Medium', HIGH: 'High' }[volatility];
+    output += `${regimeName} volatility: LONG ≤ P${levels.longEntryPercentile} ($${levels.longEntryPrice.toFixed(2)}), SHORT ≥ P${levels.shortEntryPercentile} ($${levels.shortEntryPrice.toFixed(2)})\n`;
   }
   
   return output;
@@ -0,0 +1,347 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📒 TRANSACTION JOURNAL - DURABLE RECORD OF QUEUED WRITES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import type { GmxSdk } from "@gmx-io/sdk";
+import type { EnhancedDataCache } from './gmx-cache';
+import type { GmxNetwork } from './gmx-types';
+import { formatError } from './gmx-utils';
+
+// Get __dirname in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Default journal location (data/ is git-ignored)
+export const DEFAULT_JOURNAL_PATH = path.join(__dirname, 'data', 'transaction-journal.jsonl');
+// Paper trading state does not survive a restart, so its journal is kept apart from the live one
+export const DEFAULT_PAPER_JOURNAL_PATH = path.join(__dirname, 'data', 'transaction-journal.paper.jsonl');
+
+export type JournalState = 'queued' | 'submitted' | 'confirmed' | 'failed';
+
+export interface JournalTransition {
+    state: JournalState;
+    at: number;
+    note?: string;
+}
+
+export interface JournalEntry {
+    id: string;
+    name: string;
+    params: Record<string, unknown>;
+    state: JournalState;
+    txHash: string | null;
+    error: string | null;
+    createdAt: number;
+    updatedAt: number;
+    transitions: JournalTransition[];
+}
+
+// One line of the journal file - the first record for an id carries name and params
+interface JournalRecord {
+    id: string;
+    state: JournalState;
+    at: number;
+    name?: string;
+    params?: Record<string, unknown>;
+    txHash?: string | null;
+    error?: string | null;
+    note?: string;
+}
+
+export interface ReconciliationSummary {
+    checked: number;
+    confirmed: number;
+    failed: number;
+}
+
+/**
+ * Append-only JSONL journal of every write transaction and its state transitions.
+ * Writes are synchronous so a transition is on disk before the transaction moves on.
+ */
+export class TransactionJournal {
+    private entries = new Map<string, JournalEntry>();
+
+    constructor(private readonly filePath: string = DEFAULT_JOURNAL_PATH) {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        this.load();
+    }
+
+    public getPath(): string {
+        return this.filePath;
+    }
+
+    public recordQueued(id: string, name: string, params: Record<string, unknown>): void {
+        this.append({ id, state: 'queued', at: Date.now(), name, params });
+    }
+
+    public recordSubmitted(id: string, note?: string, txHash?: string): void {
+        this.append({ id, state: 'submitted', at: Date.now(), note, ...(txHash ? { txHash } : {}) });
+    }
+
+    public recordConfirmed(id: string, txHash: string | null, note?: string): void {
+        this.append({ id, state: 'confirmed', at: Date.now(), txHash, note });
+    }
+
+    public recordFailed(id: string, error: string, note?: string): void {
+        this.append({ id, state: 'failed', at: Date.now(), error, note });
+    }
+
+    public getEntry(id: string): JournalEntry | undefined {
+        return this.entries.get(id);
+    }
+
+    public getEntries(): JournalEntry[] {
+        return [...this.entries.values()].sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    // Entries that never reached a terminal state - left behind by a crash or restart
+    public getUnfinishedEntries(): JournalEntry[] {
+        return this.getEntries().filter(entry => entry.state === 'queued' || entry.state === 'submitted');
+    }
+
+    private append(record: JournalRecord): void {
+        const line = JSON.stringify(record, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+        fs.appendFileSync(this.filePath, line + '\n');
+        this.apply(record);
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+
+        const content = fs.readFileSync(this.filePath, 'utf-8');
+        const lines = content.split('\n');
+        let skipped = 0;
+
+        // Terminate a torn final line so the next record starts on its own line
+        if (content.length > 0 && !content.endsWith('\n')) {
+            fs.appendFileSync(this.filePath, '\n');
+        }
+
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+                this.apply(JSON.parse(line));
+            } catch {
+                // A torn final line is expected if the process died mid-write
+                skipped++;
+            }
+        }
+
+        if (skipped > 0) {
+            console.warn(`[JOURNAL] Skipped ${skipped} unreadable line(s) in ${this.filePath}`);
+        }
+        console.warn(`[JOURNAL] Loaded ${this.entries.size} journal entries from ${this.filePath}`);
+    }
+
+    private apply(record: JournalRecord): void {
+        const existing = this.entries.get(record.id);
+        const transition: JournalTransition = { state: record.state, at: record.at, ...(record.note ? { note: record.note } : {}) };
+
+        if (!existing) {
+            this.entries.set(record.id, {
+                id: record.id,
+                name: record.name || 'unknown',
+                params: record.params || {},
+                state: record.state,
+                txHash: record.txHash ?? null,
+                error: record.error ?? null,
+                createdAt: record.at,
+                updatedAt: record.at,
+                transitions: [transition]
+            });
+            return;
+        }
+
+        existing.state = record.state;
+        existing.updatedAt = record.at;
+        if (record.txHash !== undefined) existing.txHash = record.txHash;
+        if (record.error !== undefined) existing.error = record.error;
+        existing.transitions.push(transition);
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔁 STARTUP RECONCILIATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resolve entries left unfinished by a previous run against on-chain state.
+ * Entries still "queued" were never sent and are failed outright. A "submitted" entry whose
+ * broadcast hash was journaled is settled by its receipt; otherwise it is confirmed only when
+ * its expected effect is visible in orders, positions or trade history after it was submitted.
+ * With a scope, only entries for that chain are checked - entries without a chain param belong to the primary chain.
+ */
+export async function reconcileTransactionJournal(
+    journal: TransactionJournal,
+    sdk: GmxSdk,
+    gmxDataCache: EnhancedDataCache,
+    scope?: { network: GmxNetwork; isPrimary: boolean }
+): Promise<ReconciliationSummary> {
+    const unfinished = journal.getUnfinishedEntries().filter(entry => {
+        if (!scope) return true;
+        const chain = (entry.params as Record<string, any>).chain;
+        return chain ? chain === scope.network : scope.isPrimary;
+    });
+    const summary: ReconciliationSummary = { checked: unfinished.length, confirmed: 0, failed: 0 };
+
+    if (unfinished.length === 0) {
+        return summary;
+    }
+
+    const label = scope ? `${scope.network} ` : '';
+    console.warn(`[JOURNAL] Reconciling ${unfinished.length} unfinished ${label}transaction(s) from previous run`);
+
+    // Read fresh positions - a cached snapshot could predate the interrupted writes
+    gmxDataCache.invalidatePositions();
+    const { marketsInfoData, tokensData } = await gmxDataCache.getMarketsInfo();
+    if (!marketsInfoData || !tokensData) {
+        throw new Error("Failed to get market and token data for journal reconciliation");
+    }
+
+    const [positionsInfo, ordersResult] = await Promise.all([
+        gmxDataCache.getPositionsInfo(marketsInfoData, tokensData),
+        sdk.orders.getOrders({ marketsInfoData, tokensData })
+    ]);
+    const positions: any[] = Object.values(positionsInfo || {});
+    const orders: any[] = Object.values(ordersResult.ordersInfoData || {});
+    // Swaps settle into balances - only the trade history shows them
+    const hasSwaps = unfinished.some(entry => entry.state === 'submitted' && entry.name === 'swap_tokens');
+    const tradeHistory = hasSwaps ? await gmxDataCache.getTradeHistory(marketsInfoData, tokensData, true) : null;
+
+    for (const entry of unfinished) {
+        if (entry.state === 'queued') {
+            journal.recordFailed(entry.id, 'Process stopped before the transaction was submitted', 'reconciled');
+            summary.failed++;
+            console.warn(`[JOURNAL] ${entry.name} (${entry.id}) was never submitted - marked failed`);
+            continue;
+        }
+
+        const outcome = await checkReceipt(entry, sdk) ?? checkOnChainOutcome(entry, positions, orders, tradeHistory);
+        if (outcome.found) {
+            journal.recordConfirmed(entry.id, entry.txHash ?? outcome.txHash ?? null, `reconciled: ${outcome.reason}`);
+            summary.confirmed++;
+            console.warn(`[JOURNAL] ${entry.name} (${entry.id}) confirmed on-chain - ${outcome.reason}`);
+        } else {
+            journal.recordFailed(entry.id, `Not confirmed after restart: ${outcome.reason}`, 'reconciled');
+            summary.failed++;
+            console.warn(`[JOURNAL] ${entry.name} (${entry.id}) not found on-chain - ${outcome.reason}`);
+        }
+    }
+
+    console.warn(`[JOURNAL] Reconciliation complete: ${summary.confirmed} confirmed, ${summary.failed} failed`);
+    return summary;
+}
+
+// Block timestamps and the local clock can disagree by this much
+const CHAIN_CLOCK_SKEW_MS = 15000;
+
+interface OnChainOutcome {
+    found: boolean;
+    reason: string;
+    txHash?: string;
+}
+
+// A journaled broadcast hash settles the entry outright - null when there is none or no receipt yet
+async function checkReceipt(entry: JournalEntry, sdk: GmxSdk): Promise<OnChainOutcome | null> {
+    if (!entry.txHash) {
+        return null;
+    }
+    try {
+        const receipt = await sdk.publicClient.getTransactionReceipt({ hash: entry.txHash as `0x${string}` });
+        return receipt.status === 'success'
+            ? { found: true, reason: `transaction ${entry.txHash} succeeded in block ${receipt.blockNumber}` }
+            : { found: false, reason: `transaction ${entry.txHash} reverted` };
+    } catch (error) {
+        // Dropped or still pending - fall back to matching its effect
+        console.warn(`[JOURNAL] No receipt for ${entry.txHash}: ${formatError(error)}`);
+        return null;
+    }
+}
+
+// Check whether the effect a submitted write should have had is visible in current chain state.
+// Only changes made after the entry was first submitted count - earlier ones belong to other writes.
+function checkOnChainOutcome(
+    entry: JournalEntry,
+    positions: any[],
+    orders: any[],
+    tradeHistory: any[] | null
+): OnChainOutcome {
+    const params = entry.params as Record<string, any>;
+    const marketAddress = typeof params.marketAddress === 'string' ? params.marketAddress.toLowerCase() : undefined;
+    const isLong = typeof params.isLong === 'boolean' ? params.isLong : undefined;
+    const sameMarket = (item: any) => marketAddress !== undefined &&
+        item.marketAddress?.toLowerCase() === marketAddress &&
+        (isLong === undefined || item.isLong === isLong);
+    const submittedAt = entry.transitions.find(transition => transition.state === 'submitted')?.at ?? entry.createdAt;
+    const afterSubmission = (seconds: unknown) => Number(seconds || 0) * 1000 >= submittedAt - CHAIN_CLOCK_SKEW_MS;
+    const createdAfterEntry = (order: any) => afterSubmission(order.updatedAtTime);
+
+    try {
+        switch (entry.name) {
+            case 'cancel_orders': {
+                const orderKeys: string[] = Array.isArray(params.orderKeys) ? params.orderKeys : [];
+                const remaining = orderKeys.filter(key => orders.some(order => order.key === key));
+                return remaining.length === 0
+                    ? { found: true, reason: `${orderKeys.length} order(s) no longer pending` }
+                    : { found: false, reason: `${remaining.length} order(s) still pending` };
+            }
+            case 'open_long_market':
+            case 'open_long_limit':
+            case 'open_short_market':
+            case 'open_short_limit': {
+                // A position that was already open only counts if it grew after the write
+                if (positions.some(position => sameMarket(position) && afterSubmission(position.increasedAtTime))) {
+                    return { found: true, reason: 'matching position increased after submission' };
+                }
+                if (orders.some(order => sameMarket(order) && createdAfterEntry(order))) {
+                    return { found: true, reason: 'matching increase order is pending' };
+                }
+                return { found: false, reason: 'no position increase or order after submission' };
+            }
+            case 'close_position': {
+                if (!positions.some(sameMarket)) {
+                    return { found: true, reason: 'position is closed' };
+                }
+                if (orders.some(order => sameMarket(order) && createdAfterEntry(order))) {
+                    return { found: true, reason: 'decrease order is pending' };
+                }
+                return { found: false, reason: 'position is still open' };
+            }
+            case 'set_take_profit':
+            case 'set_stop_loss': {
+                const triggerPrice = params.triggerPrice !== undefined ? BigInt(params.triggerPrice) : undefined;
+                const match = orders.some(order => sameMarket(order) &&
+                    (triggerPrice === undefined || BigInt(order.triggerPrice ?? 0) === triggerPrice));
+                return match
+                    ? { found: true, reason: 'trigger order is pending' }
+                    : { found: false, reason: 'no matching trigger order (it may already have executed)' };
+            }
+            case 'swap_tokens': {
+                const fromToken = typeof params.fromTokenAddress === 'string' ? params.fromTokenAddress.toLowerCase() : undefined;
+                const sameSwap = (item: any) => fromToken !== undefined &&
+                    (item.initialCollateralTokenAddress ?? item.initialCollateralToken?.address)?.toLowerCase() === fromToken;
+                if (params.triggerPrice && orders.some(order => sameSwap(order) && createdAfterEntry(order))) {
+                    return { found: true, reason: 'limit swap order is pending' };
+                }
+                if (tradeHistory === null) {
+                    return { found: false, reason: 'trade history unavailable - check wallet balances' };
+                }
+                const swap = tradeHistory.find(trade => (trade.orderType === 0 || trade.orderType === 1) &&
+                    sameSwap(trade) && afterSubmission(trade.timestamp));
+                return swap
+                    ? { found: true, reason: `swap ${swap.eventName} after submission`, txHash: swap.transaction?.hash }
+                    : { found: false, reason: 'no swap from this token in trade history after submission' };
+            }
+            default:
+                return { found: false, reason: `no on-chain check for ${entry.name}` };
+        }
+    } catch (error) {
+        return { found: false, reason: `verification error: ${formatError(error)}` };
+    }
+}
@@ -2,55 +2,272 @@
 // 🔄 TRANSACTION QUEUE SYSTEM
 // ═══════════════════════════════════════════════════════════════════════════════
 
+import type { TransactionJournal } from './transaction-journal';
+import { formatError } from './gmx-utils';
+import { DEFAULT_ACCOUNT_NAME } from './gmx-types';
+import { tradingEvents } from './gmx-events';
+
 export enum TransactionType {
     WRITE = 'write'
 }
 
+// Risk-reducing writes run before risk-increasing ones - listed highest priority first
+export enum TransactionPriority {
+    EMERGENCY_CLOSE = 'emergency_close',
+    STOP_LOSS = 'stop_loss',
+    CANCEL = 'cancel',
+    TAKE_PROFIT = 'take_profit',
+    OPEN = 'open',
+    SWAP = 'swap'
+}
+
+const PRIORITY_RANK: Record<TransactionPriority, number> = {
+    [TransactionPriority.EMERGENCY_CLOSE]: 0,
+    [TransactionPriority.STOP_LOSS]: 1,
+    [TransactionPriority.CANCEL]: 2,
+    [TransactionPriority.TAKE_PROFIT]: 3,
+    [TransactionPriority.OPEN]: 4,
+    [TransactionPriority.SWAP]: 5
+};
+
+// Opens add exposure and swaps typically fund them - both can be dropped without leaving a position unprotected
+export function isRiskIncreasing(priority: TransactionPriority): boolean {
+    return PRIORITY_RANK[priority] >= PRIORITY_RANK[TransactionPriority.OPEN];
+}
+
+// possibly_sent: the failure may have come after the broadcast - resent only once the write is known not to have landed
+export type TransactionErrorClass = 'retryable' | 'possibly_sent' | 'fatal';
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;  // backoff before the 2nd attempt, doubled for each attempt after
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 2000,
+    maxDelayMs: 30000
+};
+
+export interface WriteTransactionOptions extends Partial<RetryPolicy> {
+    // Journaled so an interrupted transaction can be reconciled after a restart
+    params?: Record<string, unknown>;
+    // Drop the transaction if it has not been sent within this many ms of being enqueued
+    deadlineMs?: number;
+    // Unlabelled writes are treated as opens so they never jump ahead of protective orders
+    priority?: TransactionPriority;
+    // Asked before resending a possibly_sent failure, with the failed attempt's start time: true means the write
+    // landed and is not sent again, a throw means it cannot tell. Without it such failures are not retried.
+    confirmSent?: (attemptStartedAt: number) => Promise<boolean>;
+}
+
+export interface TransactionAttempt {
+    attempt: number;
+    startedAt: number;
+    durationMs: number;
+    success: boolean;
+    error?: string;
+    errorClass?: TransactionErrorClass;
+}
+
+export interface TransactionOutcome<T> {
+    result: T;
+    transactionHash: string | null;
+    attempts: TransactionAttempt[];
+}
+
+export type TransactionFailureReason = 'fatal' | 'retries_exhausted' | 'deadline_exceeded' | 'cleared' | 'halted';
+
+export class TransactionQueueError extends Error {
+    constructor(
+        message: string,
+        public readonly transactionName: string,
+        public readonly reason: TransactionFailureReason,
+        public readonly attempts: TransactionAttempt[]
+    ) {
+        super(message);
+        this.name = 'TransactionQueueError';
+    }
+}
+
+// Final result of a queued write, passed to onSettled listeners
+export interface TransactionSettlement {
+    account: string;
+    name: string;
+    priority: TransactionPriority;
+    success: boolean;
+    transactionHash: string | null;
+    error: string | null;
+    at: number;
+}
+
 export interface QueuedTransaction {
     id: string;
     name: string;
     type: TransactionType;
+    priority: TransactionPriority;
+    params: Record<string, unknown>;
+    policy: RetryPolicy;
+    deadline: number | null;
     execute: () => Promise<any>;
+    confirmSent?: (attemptStartedAt: number) => Promise<boolean>;
     resolve: (value: any) => void;
     reject: (error: any) => void;
     timestamp: number;
 }
 
+// Checked first - these will fail the same way on every attempt
+const FATAL_ERROR_PATTERNS = [
+    /insufficient funds/i,
+    /exceeds balance/i,
+    /invalid (params|parameters|argument|address)/i,
+    /execution reverted/i,
+    /\brevert/i,
+    /user rejected/i
+];
+
+// Refused before the transaction reached the network - a resend cannot duplicate it
+const NOT_SENT_ERROR_PATTERNS = [
+    /transaction underpriced/i,
+    /ECONNREFUSED/i,
+    /rate limit/i
+];
+
+// Transient conditions that can follow a broadcast - a timed-out send or dropped connection may still have
+// delivered it, and a nonce conflict may be our own earlier attempt
+const POSSIBLY_SENT_ERROR_PATTERNS = [
+    /nonce too low/i,
+    /nonce has already been used/i,
+    /replacement (transaction )?underpriced/i,
+    /timeout|timed out|ETIMEDOUT/i,
+    /bad gateway|service unavailable|gateway timeout/i,
+    /ECONNRESET|socket hang up|fetch failed|network error/i
+];
+
+const NOT_SENT_HTTP_STATUSES = new Set([429]);
+const POSSIBLY_SENT_HTTP_STATUSES = new Set([502, 503, 504]);
+
+// HTTP status of the RPC response, from viem's HttpRequestError anywhere in the cause chain
+function httpStatusOf(error: unknown): number | null {
+    let current = error as any;
+    for (let depth = 0; current && depth < 5; depth++) {
+        if (typeof current.status === 'number') return current.status;
+        current = current.cause;
+    }
+    return null;
+}
+
+/**
+ * Classify a transaction error. Unrecognised errors are fatal - retrying a write
+ * whose failure we do not understand risks sending it twice.
+ */
+export function classifyTransactionError(error: unknown): TransactionErrorClass {
+    const err = error as any;
+    const text = [formatError(error), err?.shortMessage, err?.details, err?.cause?.message]
+        .filter(Boolean)
+        .join(' | ');
+    const status = httpStatusOf(error);
+
+    if (FATAL_ERROR_PATTERNS.some(pattern => pattern.test(text))) return 'fatal';
+    if (status !== null && NOT_SENT_HTTP_STATUSES.has(status)) return 'retryable';
+    if (status !== null && POSSIBLY_SENT_HTTP_STATUSES.has(status)) return 'possibly_sent';
+    if (NOT_SENT_ERROR_PATTERNS.some(pattern => pattern.test(text))) return 'retryable';
+    if (POSSIBLY_SENT_ERROR_PATTERNS.some(pattern => pattern.test(text))) return 'possibly_sent';
+    return 'fatal';
+}
+
+// One queue per account - writes from the same signer must be serialized to keep nonces in order
 export class TransactionQueue {
-    private static instance: TransactionQueue;
     private queue: QueuedTransaction[] = [];
     private isProcessing: boolean = false;
+    private journal: TransactionJournal | null = null;
+    private haltReason: string | null = null;
+    private listeners: Array<(settlement: TransactionSettlement) => void> = [];
+    // The running transaction and the hashes its current attempt has broadcast
+    private current: QueuedTransaction | null = null;
+    private sentHashes: string[] = [];
     private readonly TRANSACTION_DELAY_MS = 5000; // 5 seconds between all write transactions
+    private readonly PROTECTIVE_DELAY_MS = 1000; // shorter gap before an emergency close or stop loss
+
+    private readonly tag: string;
 
-    private constructor() {}
+    constructor(private readonly name: string = DEFAULT_ACCOUNT_NAME) {
+        this.tag = `[QUEUE:${name}]`;
+    }
+
+    public getName(): string {
+        return this.name;
+    }
+
+    /**
+     * Record every transaction and its state transitions in a durable journal
+     */
+    public attachJournal(journal: TransactionJournal): void {
+        this.journal = journal;
+        console.warn(`${this.tag} Journaling transactions to ${journal.getPath()}`);
+    }
 
-    public static getInstance(): TransactionQueue {
-        if (!TransactionQueue.instance) {
-            TransactionQueue.instance = new TransactionQueue();
+    /**
+     * Record a transaction hash the account's wallet broadcast. The SDK's write methods resolve
+     * without it, so the wallet reports every send here while a queued write is running.
+     */
+    public recordSentTransaction(hash: string): void {
+        if (!this.current) {
+            console.warn(`${this.tag} Transaction ${hash} sent outside a queued write`);
+            return;
         }
-        return TransactionQueue.instance;
+        this.sentHashes.push(hash);
+        // Journaled at once - a crash before the keeper settles still leaves the hash to reconcile against
+        this.recordOutcome(() => this.journal?.recordSubmitted(this.current!.id, 'broadcast', hash));
+    }
+
+    /**
+     * Run the listener whenever a queued write succeeds, fails or is cleared
+     */
+    public onSettled(listener: (settlement: TransactionSettlement) => void): void {
+        this.listeners.push(listener);
     }
 
     /**
      * Add a write transaction to the queue
+     * Resolves with the result and every attempt made; rejects with a TransactionQueueError
      */
     public async enqueueWriteTransaction<T>(
         name: string, 
-        executeFunction: () => Promise<T>
-    ): Promise<T> {
-        return new Promise<T>((resolve, reject) => {
+        executeFunction: () => Promise<T>,
+        options: WriteTransactionOptions = {}
+    ): Promise<TransactionOutcome<T>> {
+        const { params = {}, deadlineMs, priority = TransactionPriority.OPEN, confirmSent, ...policyOverrides } = options;
+        const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...policyOverrides };
+
+        if (this.haltReason !== null && isRiskIncreasing(priority)) {
+            console.warn(`${this.tag} Rejected ${name} [${priority}] - risk-increasing writes halted: ${this.haltReason}`);
+            throw new TransactionQueueError(`Transaction ${name} rejected: ${this.haltReason}`, name, 'halted', []);
+        }
+
+        return new Promise<TransactionOutcome<T>>((resolve, reject) => {
+            const now = Date.now();
             const transaction: QueuedTransaction = {
-                id: `${name}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                id: `${name}_${now}_${Math.random().toString(36).substr(2, 9)}`,
                 name,
                 type: TransactionType.WRITE,
+                priority,
+                params,
+                policy,
+                deadline: deadlineMs !== undefined ? now + deadlineMs : null,
                 execute: executeFunction,
+                confirmSent,
                 resolve,
                 reject,
-                timestamp: Date.now()
+                timestamp: now
             };
 
-            this.queue.push(transaction);
-            console.warn(`[QUEUE] Added write transaction: ${name} (Queue size: ${this.queue.length})`);
+            // Journal before queueing - a transaction that cannot be recorded is never sent
+            this.journal?.recordQueued(transaction.id, name, params);
+
+            const position = this.insertByPriority(transaction);
+            console.warn(`${this.tag} Added write transaction: ${name} [${priority}] at position ${position + 1} (Queue size: ${this.queue.length})`);
             
             // Start processing if not already running
             if (!this.isProcessing) {
@@ -60,7 +277,18 @@ export class TransactionQueue {
     }
 
     /**
-     * Process the queue sequentially
+     * Insert behind every queued transaction of the same or higher priority, keeping FIFO order within a class
+     */
+    private insertByPriority(transaction: QueuedTransaction): number {
+        const rank = PRIORITY_RANK[transaction.priority];
+        let index = this.queue.findIndex(queued => PRIORITY_RANK[queued.priority] > rank);
+        if (index === -1) index = this.queue.length;
+        this.queue.splice(index, 0, transaction);
+        return index;
+    }
+
+    /**
+     * Process the queue sequentially, highest priority first
      */
     private async processQueue(): Promise<void> {
         if (this.isProcessing || this.queue.length === 0) {
@@ -68,45 +296,167 @@ export class TransactionQueue {
         }
 
         this.isProcessing = true;
-        console.warn(`[QUEUE] Starting to process ${this.queue.length} transactions`);
+        console.warn(`${this.tag} Starting to process ${this.queue.length} transactions`);
 
         while (this.queue.length > 0) {
             const transaction = this.queue.shift()!;
+            const succeeded = await this.executeWithRetry(transaction);
+            this.current = null;
             
+            // Wait 5 seconds after write transactions before processing next transaction
+            // This prevents nonce conflicts and allows GMX state to settle
+            // Emergency closes and stop losses only wait long enough for the nonce to advance
+            if (this.queue.length > 0) {
+                const next = this.queue[0].priority;
+                const delayMs = PRIORITY_RANK[next] <= PRIORITY_RANK[TransactionPriority.STOP_LOSS]
+                    ? this.PROTECTIVE_DELAY_MS
+                    : this.TRANSACTION_DELAY_MS;
+                console.warn(`${this.tag} Waiting ${delayMs}ms after ${succeeded ? '' : 'failed '}write transaction (next: ${next})`);
+                await this.sleep(delayMs);
+            }
+        }
+
+        this.isProcessing = false;
+        console.warn(`${this.tag} Queue processing completed`);
+    }
+
+    /**
+     * Run one transaction under its retry policy, settling its promise
+     */
+    private async executeWithRetry(transaction: QueuedTransaction): Promise<boolean> {
+        const { policy } = transaction;
+        const attempts: TransactionAttempt[] = [];
+
+        for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+            if (transaction.deadline !== null && Date.now() > transaction.deadline) {
+                const ageSeconds = ((Date.now() - transaction.timestamp) / 1000).toFixed(0);
+                return this.fail(transaction, new TransactionQueueError(
+                    `Transaction ${transaction.name} dropped: deadline exceeded after ${ageSeconds}s`,
+                    transaction.name,
+                    'deadline_exceeded',
+                    attempts
+                ));
+            }
+
+            const startedAt = Date.now();
+            this.current = transaction;
+            this.sentHashes = [];
             try {
-                console.warn(`[QUEUE] Executing: ${transaction.name} (ID: ${transaction.id})`);
-                const startTime = Date.now();
+                console.warn(`${this.tag} Executing: ${transaction.name} (ID: ${transaction.id}, attempt ${attempt}/${policy.maxAttempts})`);
+                this.journal?.recordSubmitted(transaction.id, `attempt ${attempt}/${policy.maxAttempts}`);
                 
                 // Execute the transaction
                 const result = await transaction.execute();
                 
-                const executionTime = Date.now() - startTime;
-                console.warn(`[QUEUE] Completed: ${transaction.name} in ${executionTime}ms`);
-                
-                // Resolve the promise
-                transaction.resolve(result);
-                
-                // Wait 5 seconds after write transactions before processing next transaction
-                // This prevents nonce conflicts and allows GMX state to settle
-                if (this.queue.length > 0) {
-                    console.warn(`[QUEUE] Waiting ${this.TRANSACTION_DELAY_MS}ms after write transaction`);
-                    await this.sleep(this.TRANSACTION_DELAY_MS);
-                }
+                const durationMs = Date.now() - startedAt;
+                attempts.push({ attempt, startedAt, durationMs, success: true });
+                console.warn(`${this.tag} Completed: ${transaction.name} in ${durationMs}ms`);
+
+                return this.succeed(transaction, result, this.extractTxHash(result) ?? this.sentHashes.at(-1) ?? null, attempts);
                 
             } catch (error) {
-                console.error(`[QUEUE] Failed: ${transaction.name} - ${error}`);
-                transaction.reject(error);
-                
-                // Wait after failed write transactions to avoid overwhelming the network
-                if (this.queue.length > 0) {
-                    console.warn(`[QUEUE] Waiting ${this.TRANSACTION_DELAY_MS}ms after failed write transaction`);
-                    await this.sleep(this.TRANSACTION_DELAY_MS);
+                let errorClass = classifyTransactionError(error);
+                // Once the wallet has broadcast, any transient failure may have left the write on-chain
+                if (errorClass === 'retryable' && this.sentHashes.length > 0) {
+                    errorClass = 'possibly_sent';
+                }
+                const errorMsg = formatError(error);
+                attempts.push({ attempt, startedAt, durationMs: Date.now() - startedAt, success: false, error: errorMsg, errorClass });
+                console.error(`${this.tag} Failed: ${transaction.name} (attempt ${attempt}/${policy.maxAttempts}, ${errorClass}) - ${errorMsg}`);
+
+                if (errorClass === 'fatal') {
+                    return this.fail(transaction, new TransactionQueueError(errorMsg, transaction.name, 'fatal', attempts));
+                }
+                if (errorClass === 'possibly_sent') {
+                    const landed = await this.confirmSent(transaction, startedAt);
+                    if (landed === true) {
+                        console.warn(`${this.tag} ${transaction.name} landed despite the error - not resending`);
+                        return this.succeed(transaction, undefined, this.sentHashes.at(-1) ?? null, attempts, `landed despite: ${errorMsg}`);
+                    }
+                    if (landed === null) {
+                        return this.fail(transaction, new TransactionQueueError(
+                            `${errorMsg} (may already have been sent - not retried)`,
+                            transaction.name,
+                            'fatal',
+                            attempts
+                        ));
+                    }
                 }
+                if (attempt === policy.maxAttempts) {
+                    return this.fail(transaction, new TransactionQueueError(
+                        `${errorMsg} (gave up after ${attempt} attempts)`,
+                        transaction.name,
+                        'retries_exhausted',
+                        attempts
+                    ));
+                }
+
+                // Exponential backoff before the next attempt
+                const delayMs = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+                console.warn(`${this.tag} Retrying ${transaction.name} in ${delayMs}ms`);
+                await this.sleep(delayMs);
             }
         }
 
-        this.isProcessing = false;
-        console.warn(`[QUEUE] Queue processing completed`);
+        return false;
+    }
+
+    /**
+     * Whether a possibly_sent write landed - null when the transaction has no check or the check cannot tell
+     */
+    private async confirmSent(transaction: QueuedTransaction, attemptStartedAt: number): Promise<boolean | null> {
+        if (!transaction.confirmSent) {
+            return null;
+        }
+        try {
+            return await transaction.confirmSent(attemptStartedAt);
+        } catch (error) {
+            console.error(`${this.tag} Could not tell whether ${transaction.name} was sent: ${formatError(error)}`);
+            return null;
+        }
+    }
+
+    private succeed(transaction: QueuedTransaction, result: unknown, transactionHash: string | null, attempts: TransactionAttempt[], note?: string): true {
+        this.recordOutcome(() => this.journal?.recordConfirmed(transaction.id, transactionHash, note));
+        transaction.resolve({ result, transactionHash, attempts });
+        this.notifySettled(transaction, true, transactionHash, null);
+        tradingEvents.emit('OrderSubmitted', { account: this.name, name: transaction.name, priority: transaction.priority, transactionHash });
+        return true;
+    }
+
+    private fail(transaction: QueuedTransaction, error: TransactionQueueError): false {
+        this.recordOutcome(() => this.journal?.recordFailed(transaction.id, error.message));
+        transaction.reject(error);
+        this.notifySettled(transaction, false, null, error.message);
+        tradingEvents.emit('OrderFailed', { account: this.name, name: transaction.name, priority: transaction.priority, reason: error.reason, error: error.message });
+        return false;
+    }
+
+    private notifySettled(transaction: QueuedTransaction, success: boolean, transactionHash: string | null, error: string | null): void {
+        const settlement: TransactionSettlement = {
+            account: this.name,
+            name: transaction.name,
+            priority: transaction.priority,
+            success,
+            transactionHash,
+            error,
+            at: Date.now()
+        };
+        for (const listener of this.listeners) {
+            try {
+                listener(settlement);
+            } catch (listenerError) {
+                console.error(`${this.tag} Settled listener failed: ${formatError(listenerError)}`);
+            }
+        }
+    }
+
+    /**
+     * Reject every risk-increasing write from now on - protective writes are still accepted
+     */
+    public haltRiskIncreasing(reason: string): void {
+        this.haltReason = reason;
+        console.warn(`${this.tag} Risk-increasing writes halted: ${reason}`);
     }
 
     /**
@@ -116,30 +466,65 @@ export class TransactionQueue {
         queueLength: number;
         isProcessing: boolean;
         nextTransaction?: string;
+        byPriority: Record<TransactionPriority, string[]>;
+        haltReason: string | null;
     } {
+        const byPriority = Object.fromEntries(
+            Object.values(TransactionPriority).map(priority => [priority, [] as string[]])
+        ) as Record<TransactionPriority, string[]>;
+        this.queue.forEach(transaction => byPriority[transaction.priority].push(transaction.name));
+
         return {
             queueLength: this.queue.length,
             isProcessing: this.isProcessing,
-            nextTransaction: this.queue[0]?.name
+            nextTransaction: this.queue[0]?.name,
+            byPriority,
+            haltReason: this.haltReason
         };
     }
 
     /**
      * Clear the queue (emergency stop)
+     * With riskIncreasingOnly, pending opens and swaps are dropped while protective orders still run
      */
-    public clearQueue(): void {
-        const clearedCount = this.queue.length;
-        this.queue.forEach(transaction => {
-            transaction.reject(new Error('Queue cleared'));
+    public clearQueue(options: { riskIncreasingOnly?: boolean } = {}): void {
+        const cleared = options.riskIncreasingOnly
+            ? this.queue.filter(transaction => isRiskIncreasing(transaction.priority))
+            : this.queue;
+        const reason = options.riskIncreasingOnly ? 'Queue cleared (risk-increasing only)' : 'Queue cleared';
+
+        cleared.forEach(transaction => {
+            this.recordOutcome(() => this.journal?.recordFailed(transaction.id, reason));
+            transaction.reject(new TransactionQueueError(reason, transaction.name, 'cleared', []));
+            this.notifySettled(transaction, false, null, reason);
+        });
+        this.queue = this.queue.filter(transaction => !cleared.includes(transaction));
+        console.warn(`${this.tag} Cleared ${cleared.length} pending transactions${options.riskIncreasingOnly ? ` (${this.queue.length} protective kept)` : ''}`);
+        tradingEvents.emit('QueueCleared', {
+            account: this.name,
+            riskIncreasingOnly: !!options.riskIncreasingOnly,
+            cleared: cleared.map(transaction => transaction.name),
+            remaining: this.queue.length
         });
-        this.queue = [];
-        console.warn(`[QUEUE] Cleared ${clearedCount} pending transactions`);
+    }
+
+    // The transaction already ran - a journal write failure must not change its result
+    private recordOutcome(record: () => void): void {
+        try {
+            record();
+        } catch (error) {
+            console.error(`${this.tag} Failed to journal transaction outcome: ${formatError(error)}`);
+        }
+    }
+
+    // cancelOrders and paper trading resolve to the hash; other SDK writes resolve to nothing and are
+    // covered by the hashes the wallet reported
+    private extractTxHash(result: any): string | null {
+        if (typeof result === 'string' && result.startsWith('0x')) return result;
+        return result?.transactionHash || result?.hash || null;
     }
 
     private sleep(ms: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
-}
-
-// Export singleton instance
-export const transactionQueue = TransactionQueue.getInstance();
\ No newline at end of file
+}
\ No newline at end of file